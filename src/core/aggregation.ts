@@ -0,0 +1,242 @@
+/**
+ * Aggregation Module
+ *
+ * Merges the aggregates of the chunks a split search is queried in, and applies to the merged
+ * groups what `groupBy` could not apply chunk by chunk: `having`, `orderBy` and the page.
+ *
+ * The chunks come from `SearchResolver.partitionLargeLists`, so no row is counted twice: counts
+ * and sums add up, minimums and maximums compare, and an average is weighted by the count of its
+ * field in each chunk.
+ */
+
+import { Aggregate } from "./structures/types/aggregate.types";
+import { compareValues } from "./ordering";
+
+type Selection = Aggregate.Selection<Record<string, unknown>>;
+
+/** The aggregate keys of a selection and of a result */
+const AGGREGATES = ["_sum", "_avg", "_min", "_max", "_count"] as const;
+type AggregateKey = typeof AGGREGATES[number];
+
+/**
+ * Picks the aggregates out of the options of `aggregateByFilter` / `groupByFilter`
+ * @internal
+ */
+export function pickSelection(options: Selection): Selection {
+    const selection: Record<string, unknown> = {};
+    for (const key of AGGREGATES) {
+        if (options[key] !== undefined) selection[key] = options[key];
+    }
+    return selection as Selection;
+}
+
+/**
+ * Checks that the aggregates of several chunks can be merged
+ *
+ * @throws Error when an average is asked without the count of its field, which weights it
+ * @internal
+ */
+export function assertMergeable(selection: Selection): void {
+    const counted = typeof selection._count === "object" ? selection._count as Record<string, unknown> : {};
+
+    for (const field of Object.keys(selection._avg ?? {})) {
+        if (!counted[field]) {
+            throw new Error(
+                `Cannot average "${field}" over a search split in several queries without its count: add _count: { ${field}: true }.`
+            );
+        }
+    }
+}
+
+/**
+ * Merges the aggregates computed on disjoint chunks of the rows
+ *
+ * @param results - The aggregates of each chunk
+ * @param selection - The aggregates asked for
+ * @returns The aggregates of all the rows
+ * @internal
+ */
+export function mergeAggregates(results: readonly Aggregate.Result[], selection: Selection): Aggregate.Result {
+    const merged: Aggregate.Result = {};
+
+    if (selection._count === true) {
+        merged._count = results.reduce((total, result) => total + ((result._count as number | undefined) ?? 0), 0);
+    } else if (selection._count) {
+        merged._count = mergeFields(selection._count, results, "_count", (a, b) => Number(a ?? 0) + Number(b ?? 0)) as Record<string, number>;
+    }
+
+    if (selection._sum) merged._sum = mergeFields(selection._sum, results, "_sum", addValues);
+    if (selection._min) merged._min = mergeFields(selection._min, results, "_min", (a, b) => pick(a, b, -1));
+    if (selection._max) merged._max = mergeFields(selection._max, results, "_max", (a, b) => pick(a, b, 1));
+
+    if (selection._avg) {
+        const averages: Record<string, number | null> = {};
+        for (const field of Object.keys(selection._avg)) {
+            let weighted = 0;
+            let count = 0;
+            for (const result of results) {
+                const average = result._avg?.[field];
+                const rows = (result._count as Record<string, number> | undefined)?.[field] ?? 0;
+                if (average === null || average === undefined || rows === 0) continue;
+                weighted += Number(average) * rows;
+                count += rows;
+            }
+            averages[field] = count === 0 ? null : weighted / count;
+        }
+        merged._avg = averages;
+    }
+
+    return merged;
+}
+
+/**
+ * Merges the groups computed on disjoint chunks of the rows: the groups of equal `by` values
+ * become one, their aggregates merged
+ * @internal
+ */
+export function mergeGroups(
+    chunks: readonly Aggregate.Group[][],
+    by: readonly string[],
+    selection: Selection
+): Aggregate.Group[] {
+    const groups = new Map<string, Aggregate.Group[]>();
+    for (const group of chunks.flat()) {
+        const key = groupKey(group, by);
+        groups.set(key, [...(groups.get(key) ?? []), group]);
+    }
+
+    return [...groups.values()].map(parts => ({
+        ...Object.fromEntries(by.map(field => [field, parts[0][field]])),
+        ...mergeAggregates(parts, selection)
+    }) as Aggregate.Group);
+}
+
+/**
+ * Whether a merged group meets a Prisma `having` condition
+ *
+ * @throws Error on an aggregate the groups do not carry, or an operator not supported in memory
+ * @internal
+ */
+export function matchesHaving(group: Aggregate.Group, having: Record<string, unknown>): boolean {
+    return Object.entries(having).every(([key, condition]) => {
+        if (key === "AND") return asList(condition).every(item => matchesHaving(group, item));
+        if (key === "OR") return asList(condition).some(item => matchesHaving(group, item));
+        if (key === "NOT") return !asList(condition).some(item => matchesHaving(group, item));
+
+        if (!isFilterObject(condition)) return matchesFilter(group[key], condition);
+
+        return Object.entries(condition).every(([operator, filter]) => {
+            if (!(AGGREGATES as readonly string[]).includes(operator)) {
+                return matchesFilter(group[key], { [operator]: filter });
+            }
+
+            const values = group[operator as AggregateKey];
+            if (!values || typeof values !== "object" || !(key in values)) {
+                throw new Error(`Cannot filter groups on ${operator} of "${key}" over a search split in several queries unless it is selected.`);
+            }
+            return matchesFilter((values as Record<string, unknown>)[key], filter);
+        });
+    });
+}
+
+/**
+ * Sorts merged groups by `by` fields or aggregates, nulls first in ascending order
+ * @internal
+ */
+export function sortGroups(
+    groups: Aggregate.Group[],
+    orderBy: Aggregate.GroupOrderByItem | Aggregate.GroupOrderByItem[]
+): Aggregate.Group[] {
+    const items = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(item => Object.entries(item));
+
+    const sortValue = (group: Aggregate.Group, key: string, spec: unknown): [unknown, string] => {
+        if (typeof spec === "string") return [group[key], spec];
+        const [[field, direction]] = Object.entries(spec as Record<string, string>);
+        return [(group[key] as Record<string, unknown> | undefined)?.[field], direction];
+    };
+
+    return [...groups].sort((a, b) => {
+        for (const [key, spec] of items) {
+            const [aValue, direction] = sortValue(a, key, spec);
+            const [bValue] = sortValue(b, key, spec);
+            const order = compareValues(aValue, bValue);
+            if (order !== 0) return direction === "asc" ? order : -order;
+        }
+        return 0;
+    });
+}
+
+function mergeFields(
+    fields: object,
+    results: readonly Aggregate.Result[],
+    key: AggregateKey,
+    combine: (a: unknown, b: unknown) => unknown
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = {};
+    for (const field of Object.keys(fields)) {
+        let value: unknown = null;
+        for (const result of results) {
+            value = combine(value, (result[key] as Record<string, unknown> | undefined)?.[field] ?? null);
+        }
+        merged[field] = value;
+    }
+    return merged;
+}
+
+/** Adds two sums: numbers, big integers, or Prisma Decimals (through `plus`) */
+function addValues(a: unknown, b: unknown): unknown {
+    if (a === null || a === undefined) return b;
+    if (b === null || b === undefined) return a;
+    if (typeof a === "bigint" && typeof b === "bigint") return a + b;
+    if (typeof (a as { plus?: unknown }).plus === "function") return (a as { plus(value: unknown): unknown }).plus(b);
+    return Number(a) + Number(b);
+}
+
+/** The smaller (`sign` -1) or larger (`sign` 1) of two values, ignoring nulls */
+function pick(a: unknown, b: unknown, sign: 1 | -1): unknown {
+    if (a === null || a === undefined) return b;
+    if (b === null || b === undefined) return a;
+    return compareValues(b, a) * sign > 0 ? b : a;
+}
+
+/** Whether a value matches a Prisma scalar filter, or equals a plain value */
+function matchesFilter(value: unknown, filter: unknown): boolean {
+    if (!isFilterObject(filter)) return compareValues(value, filter) === 0;
+
+    return Object.entries(filter).every(([operator, operand]) => {
+        switch (operator) {
+            case "equals": return compareValues(value, operand) === 0;
+            case "not": return !matchesFilter(value, operand);
+            case "in": return (operand as unknown[]).some(item => compareValues(value, item) === 0);
+            case "notIn": return !(operand as unknown[]).some(item => compareValues(value, item) === 0);
+            case "lt": return value !== null && value !== undefined && compareValues(value, operand) < 0;
+            case "lte": return value !== null && value !== undefined && compareValues(value, operand) <= 0;
+            case "gt": return value !== null && value !== undefined && compareValues(value, operand) > 0;
+            case "gte": return value !== null && value !== undefined && compareValues(value, operand) >= 0;
+            default:
+                throw new Error(`The "${operator}" condition of having is not supported over a search split in several queries.`);
+        }
+    });
+}
+
+function isFilterObject(value: unknown): value is Record<string, unknown> {
+    return value !== null
+        && typeof value === "object"
+        && !(value instanceof Date)
+        && !Array.isArray(value)
+        && typeof (value as { comparedTo?: unknown }).comparedTo !== "function";
+}
+
+function asList(condition: unknown): Record<string, unknown>[] {
+    return (Array.isArray(condition) ? condition : [condition]) as Record<string, unknown>[];
+}
+
+/** A key telling groups apart by their `by` values; dates and big integers included */
+function groupKey(group: Aggregate.Group, by: readonly string[]): string {
+    return JSON.stringify(by.map(field => {
+        const value = group[field];
+        if (value instanceof Date) return `date:${value.toISOString()}`;
+        if (typeof value === "bigint") return `bigint:${value.toString()}`;
+        return value ?? null;
+    }));
+}
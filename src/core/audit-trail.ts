@@ -0,0 +1,296 @@
+/**
+ * Audit Trail Module
+ *
+ * Turns the writes of `@Audited()` entities into audit entries — who changed which row, and each
+ * field's value before and after — and hands them to the configured sink.
+ *
+ * The values before a write are the entity's snapshot when it has one, and otherwise rows read
+ * just before the write, in the same transaction. Changes are computed with `fieldHasChanged`, the
+ * rules upsert and `getChanges()` use, so an update that writes the values a row already holds
+ * records nothing.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getConfig } from "./config";
+import { OptimisticLockError } from "./errors";
+import type { EntityFieldChange } from "./entity-snapshot";
+import { primaryKeyString, primaryKeysFilter, readPrimaryKey, type EntityId, type PrimaryKey } from "./primary-key";
+import { getCurrentActor } from "./request-context";
+import { serializeEntity } from "./entity-serialization";
+import { Audit } from "./structures/types/audit.types";
+import { EntityPrismaModel } from "./structures/interfaces/entity.interface";
+import { getActiveTransaction, isInTransaction, runTransaction, type TransactionClient } from "./transaction-context";
+import { fieldHasChanged, isStandardIgnoredField } from "./utils/comparison-utils";
+import { resolveClient } from "./utils/transaction-utils";
+
+/** A row as read from or written to the database */
+type Row = Record<string, unknown>;
+
+/**
+ * One row written, before it becomes an entry
+ * @internal
+ */
+export interface AuditWrite {
+    operation: Audit.Operation;
+    entityId?: EntityId;
+    /** The row before the write; absent on a create */
+    before?: Row | null;
+    /** The values written; absent on a delete */
+    after?: Row | null;
+}
+
+/** How many rows one lookup by unique keys asks for */
+const LOOKUP_CHUNK_SIZE = 500;
+
+/** Set while a write runs on behalf of another write that records the entries itself */
+const suppressed = new AsyncLocalStorage<boolean>();
+
+/**
+ * The sink the writes of an entity class are recorded to
+ *
+ * @param entityClass - The entity class (`this` inside a static method)
+ * @returns The sink, or `undefined` when the class is not `@Audited()` or no sink is configured
+ * @internal
+ */
+export function getAuditSink(entityClass: object): Audit.Sink | undefined {
+    const options = (entityClass as { _auditOptions?: Audit.Options })._auditOptions;
+    if (!options || suppressed.getStore()) return undefined;
+    return options.sink ?? getConfig().auditSink;
+}
+
+/**
+ * Whether an audited write has to open a transaction of its own: its entries would otherwise
+ * not commit along with it
+ *
+ * @param entityClass - The entity class written
+ * @param tx - The transaction the caller passed, if any
+ * @returns Whether a sink is configured and the write runs outside any transaction
+ * @internal
+ */
+export function opensAuditTransaction(entityClass: object, tx?: TransactionClient): boolean {
+    return getAuditSink(entityClass) !== undefined && !tx && !isInTransaction();
+}
+
+/**
+ * Runs an audited write — the rows it reads before, the write and its entries — in one
+ * transaction
+ *
+ * @param write - The write, which picks up the transaction from the async context
+ * @returns What the write returns
+ * @internal
+ *
+ * @remarks
+ * An `OptimisticLockError` reports rows that did not match after the others were written and
+ * recorded; those are committed and the error thrown after. Any other error rolls back the
+ * write along with its entries.
+ */
+export async function runAuditTransaction<T>(write: () => Promise<T>): Promise<T> {
+    const outcome = await runTransaction(async (): Promise<{ value: T } | { conflict: OptimisticLockError }> => {
+        try {
+            return { value: await write() };
+        } catch (error) {
+            if (error instanceof OptimisticLockError) return { conflict: error };
+            throw error;
+        }
+    });
+
+    if ("conflict" in outcome) throw outcome.conflict;
+    return outcome.value;
+}
+
+/**
+ * Runs a write without recording it, for a write made by another one that records its rows
+ * itself — `upsertMany()` updating through `updateManyById()`
+ * @internal
+ */
+export function withoutAudit<T>(fn: () => T): T {
+    return suppressed.run(true, fn);
+}
+
+/**
+ * Records writes of an entity class to its sink
+ *
+ * @param entityClass - The entity class written
+ * @param writes - The rows written
+ * @param tx - The transaction the write ran in, handed to the sink
+ * @internal
+ *
+ * @remarks
+ * An update that changed nothing is left out; when nothing is left, the sink is not called.
+ */
+export async function recordAudit(entityClass: object, writes: AuditWrite[], tx?: TransactionClient): Promise<void> {
+    const sink = getAuditSink(entityClass);
+    if (!sink || writes.length === 0) return;
+
+    const options = (entityClass as { _auditOptions?: Audit.Options })._auditOptions;
+    const ignored = new Set(options?.ignore ?? []);
+    const modelName = (entityClass as { model?: { name?: string } }).model?.name ?? "";
+    const actor = getCurrentActor();
+    const timestamp = new Date();
+
+    const entries: Audit.Entry[] = [];
+    for (const write of writes) {
+        const changes = diffRows(write.before ?? undefined, write.after ?? undefined, ignored);
+        if (write.operation === "update" && Object.keys(changes).length === 0) continue;
+
+        entries.push({
+            modelName,
+            ...(write.entityId !== undefined ? { entityId: write.entityId } : {}),
+            operation: write.operation,
+            ...(actor !== undefined ? { actor } : {}),
+            changes,
+            timestamp
+        });
+    }
+
+    if (entries.length > 0) {
+        await sink(entries, { tx: tx ?? getActiveTransaction() ?? undefined });
+    }
+}
+
+/**
+ * Reads the rows with the given keys, to diff a batch write against
+ *
+ * @param entityModel - The model delegate, resolved for the transaction of the write
+ * @param primaryKey - The primary key of the model
+ * @param ids - The keys of the rows
+ * @param scope - Further conditions the write matches on, e.g. the tenant
+ * @returns The rows, keyed by `primaryKeyString`
+ * @internal
+ */
+export async function findRowsByIds(
+    entityModel: EntityPrismaModel<any>,
+    primaryKey: PrimaryKey,
+    ids: readonly EntityId[],
+    scope: Row = {}
+): Promise<Map<string, Row>> {
+    if (ids.length === 0) return new Map();
+
+    const rows = await entityModel.findMany({ where: { ...primaryKeysFilter(primaryKey, ids), ...scope } });
+    return indexRows(primaryKey, rows as Row[]);
+}
+
+/**
+ * Reads the rows an upsert of the given items would update
+ *
+ * @param entityModel - The model delegate, resolved for the transaction of the write
+ * @param primaryKey - The primary key of the model
+ * @param items - The items, with relations normalized to foreign keys
+ * @param uniqueConstraints - The unique constraints an item is matched on
+ * @returns The rows found, keyed by `primaryKeyString`
+ * @internal
+ *
+ * @remarks
+ * Each item is looked up by its first unique constraint it holds every field of, like the
+ * upsert does.
+ */
+export async function findRowsByUniqueKeys(
+    entityModel: EntityPrismaModel<any>,
+    primaryKey: PrimaryKey,
+    items: Row[],
+    uniqueConstraints: string[][]
+): Promise<Map<string, Row>> {
+    const conditions: Row[] = [];
+    for (const item of items) {
+        const constraint = uniqueConstraints.find(fields =>
+            fields.every(field => item[field] !== undefined && item[field] !== null)
+        );
+        if (constraint) {
+            conditions.push(Object.fromEntries(constraint.map(field => [field, item[field]])));
+        }
+    }
+
+    const found = new Map<string, Row>();
+    for (let start = 0; start < conditions.length; start += LOOKUP_CHUNK_SIZE) {
+        const rows = await entityModel.findMany({
+            where: { OR: conditions.slice(start, start + LOOKUP_CHUNK_SIZE) }
+        });
+        for (const [key, row] of indexRows(primaryKey, rows as Row[])) {
+            found.set(key, row);
+        }
+    }
+    return found;
+}
+
+/**
+ * An audit sink writing the entries to a table, through the configured Prisma client
+ *
+ * @param model - The Prisma model of the table, as named on the client (default: `auditLog`)
+ * @returns The sink, to pass as `auditSink` or to `@Audited({ sink })`
+ *
+ * @remarks
+ * Each entry becomes one row of `model`, `entityId` (a string; JSON for a composite key),
+ * `operation`, `actor` (a string or `null`), `changes` (JSON) and `createdAt`. The rows are
+ * written with the client of the audited write, so inside `runTransaction()` or with a `tx`
+ * option they commit or roll back along with it.
+ *
+ * @example
+ * ```prisma
+ * model AuditLog {
+ *   id        Int      @id @default(autoincrement())
+ *   model     String
+ *   entityId  String?
+ *   operation String
+ *   actor     String?
+ *   changes   Json
+ *   createdAt DateTime
+ * }
+ * ```
+ * ```typescript
+ * configurePrisma(prisma, { auditSink: auditTable('auditLog') });
+ * ```
+ */
+export function auditTable(model: string = "auditLog"): Audit.Sink {
+    return async (entries, { tx }) => {
+        const delegate = (resolveClient(tx) as unknown as Record<string, { createMany?: unknown }>)[model];
+        if (!delegate || typeof delegate.createMany !== "function") {
+            throw new Error(`Audit table "${model}" is not a model of the Prisma client.`);
+        }
+
+        await (delegate as unknown as EntityPrismaModel).createMany({
+            data: entries.map(entry => ({
+                model: entry.modelName,
+                entityId: describeEntityId(entry.entityId),
+                operation: entry.operation,
+                actor: entry.actor === undefined ? null : String(entry.actor),
+                changes: serializeEntity(entry.changes, { json: true }),
+                createdAt: entry.timestamp
+            }))
+        });
+    };
+}
+
+/**
+ * The fields that differ between two versions of a row. On an update only the fields written
+ * count, so the columns a write leaves alone are not reported as cleared.
+ */
+function diffRows(before: Row | undefined, after: Row | undefined, ignored: Set<string>): Record<string, EntityFieldChange> {
+    const keys = after ? Object.keys(after) : Object.keys(before ?? {});
+    const changes: Record<string, EntityFieldChange> = {};
+
+    for (const key of keys) {
+        if (isStandardIgnoredField(key) || ignored.has(key)) continue;
+
+        const from = before?.[key];
+        const to = after?.[key];
+        if (fieldHasChanged(to, from)) {
+            changes[key] = { from, to };
+        }
+    }
+
+    return changes;
+}
+
+function indexRows(primaryKey: PrimaryKey, rows: Row[]): Map<string, Row> {
+    const index = new Map<string, Row>();
+    for (const row of rows) {
+        const id = readPrimaryKey(primaryKey, row);
+        if (id !== undefined) index.set(primaryKeyString(primaryKey, id), row);
+    }
+    return index;
+}
+
+function describeEntityId(id: EntityId | undefined): string | null {
+    if (id === undefined) return null;
+    return typeof id === "object" ? JSON.stringify(serializeEntity(id, { json: true })) : String(id);
+}
@@ -13,7 +13,15 @@ import {
 import { getDatabaseProviderCached, quoteIdentifier } from "./utils/database-utils";
 import { isNonEmptyArray } from "./utils/validation-utils";
 import { getOptimalBatchSize, processBatches } from "./utils/batch-utils";
-import { logError, handleUniqueConstraintError, withErrorHandling } from "./utils/error-utils";
+import {
+    logError,
+    logOrThrow,
+    handleUniqueConstraintError,
+    reportBatchFailures,
+    withErrorHandling
+} from "./utils/error-utils";
+import { ModelNotConfiguredError } from "./errors";
+import { log } from "./logger";
 import { executeWithOrBatching } from "./query-utils";
 import { hasChanges as compareHasChanges } from "./utils/comparison-utils";
 import BaseEntityHelpers from "./base-entity-helpers";
@@ -25,15 +33,27 @@ import {
     type UpsertDetailedResult
 } from "./upsert-utils";
 import { shouldDisableParallel, resolvePrismaForRaw } from "./utils/transaction-utils";
+import { hasVersion, nextVersion } from "./optimistic-lock";
+import { withTenantKey } from "./multi-tenancy";
+import {
+    getPrimaryKey,
+    primaryKeyFilter,
+    primaryKeyString,
+    primaryKeysFilter,
+    primaryKeyWhere,
+    readPrimaryKey,
+    type EntityId,
+    type PrimaryKey
+} from "./primary-key";
 
 type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
-type EntityId = number | string;
 
 export type UpsertManyResult = UpsertDetailedResult;
 
 type UpsertManyRelationsContext<TModel extends object> = {
     entityModel: EntityPrismaModel<TModel>;
     modelInfo: ModelInfo | null;
+    primaryKey: PrimaryKey;
     normalizedItems: Record<string, unknown>[];
     uniqueConstraints: string[][];
     relations: Map<number, Record<string, unknown[]>>;
@@ -126,7 +146,7 @@ export default class BaseEntityBatch {
             handleRelations?: boolean;
         }
     ): Promise<number> {
-        if (!entityModel) throw new Error("Model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         if (!isNonEmptyArray(items)) return 0;
 
         const prisma = getPrismaInstance();
@@ -169,11 +189,13 @@ export default class BaseEntityBatch {
         );
 
         if (deduplicatedData.length < processedData.length) {
-            logError(
-                "createMany - deduplication",
-                new Error("Duplicate records removed from batch"),
+            log(
+                "warn",
+                "Duplicate records removed from batch",
                 {
-                    modelName: entityModel.name,
+                    operation: "createMany - deduplication",
+                    model: entityModel.name,
+                    provider,
                     removed: processedData.length - deduplicatedData.length,
                     original: processedData.length,
                     deduplicated: deduplicatedData.length
@@ -223,16 +245,10 @@ export default class BaseEntityBatch {
 
         const totalCreated = result.results.reduce((sum, count) => sum + count, 0);
 
-        if (result.errors.length > 0) {
-            logError(
-                "createMany - parallel batches",
-                new Error(`${result.errors.length} batches failed`),
-                { failedCount: result.errors.length }
-            );
-        }
+        reportBatchFailures("createMany", entityModel.name ?? "", result.errors, totalCreated);
 
         if (handleRelations && relations.size > 0 && totalCreated > 0) {
-            const uniqueConstraints = ModelUtils.getUniqueConstraints(entityModel.name!);
+            const uniqueConstraints = withTenantKey(entityModel.name, ModelUtils.getUniqueConstraints(entityModel.name!));
 
             if (uniqueConstraints.length > 0) {
                 const orConditions = deduplicatedData
@@ -340,6 +356,7 @@ export default class BaseEntityBatch {
                                     "createMany - apply relations",
                                     new Error("Failed to apply many-to-many relations"),
                                     {
+                                        model: entityModel.name,
                                         failedCount: relationResult.failed,
                                         successCount: relationResult.success
                                     }
@@ -350,7 +367,7 @@ export default class BaseEntityBatch {
                         logError(
                             "createMany - apply relations",
                             error as Error,
-                            { modelName: entityModel.name }
+                            { model: entityModel.name }
                         );
                     }
                 }
@@ -379,19 +396,21 @@ export default class BaseEntityBatch {
         entityModel: EntityPrismaModel<TModel>,
         getModelInformation: () => ModelInfo,
         updateManyByIdFn: (
-            dataList: Array<Partial<TModel> & { id: number | string }>,
+            dataList: Array<Partial<TModel>>,
             options?: { parallel?: boolean; concurrency?: number }
         ) => Promise<number>,
         items: Partial<TModel>[],
         options?: UpsertManyOptions
     ): Promise<UpsertManyResult> {
-        if (!entityModel) throw new Error("Model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         if (!isNonEmptyArray(items)) {
             return this.createEmptyUpsertManyResult(0);
         }
 
         const modelName = entityModel.name;
-        const uniqueConstraints = ModelUtils.getUniqueConstraints(modelName!);
+        // On a tenant-scoped model the items carry the tenant, and every lookup by unique key
+        // matches on it, so a row of another tenant is never taken for an existing one
+        const uniqueConstraints = withTenantKey(modelName, ModelUtils.getUniqueConstraints(modelName!));
 
         if (!uniqueConstraints || uniqueConstraints.length === 0) {
             throw new Error(
@@ -407,6 +426,7 @@ export default class BaseEntityBatch {
             modelInfo = getModelInformation();
         } catch {
         }
+        const primaryKey = getPrimaryKey(modelInfo);
 
         const handleRelations = options?.handleRelations !== false;
         const {
@@ -471,6 +491,7 @@ export default class BaseEntityBatch {
                     {
                         entityModel,
                         modelInfo,
+                        primaryKey,
                         normalizedItems,
                         uniqueConstraints,
                         relations,
@@ -543,6 +564,7 @@ export default class BaseEntityBatch {
                 const updateOnlyResult = await this.processMissingRequiredItemsAsUpdateOnlyRaw(
                     prisma,
                     modelInfo,
+                    primaryKey,
                     missingRequiredItems,
                     uniqueConstraints,
                     true
@@ -584,6 +606,7 @@ export default class BaseEntityBatch {
             // --- MongoDB: keep legacy multi-query approach ---
             const legacyResult = await this.upsertManyLegacy(
                 entityModel,
+                primaryKey,
                 updateManyByIdFn,
                 normalizedItems,
                 uniqueConstraints,
@@ -608,6 +631,7 @@ export default class BaseEntityBatch {
             if (rawEligibleItems.length > 0) {
                 const rawBuckets = await this.classifyRawEligibleItems(
                     entityModel,
+                    primaryKey,
                     rawEligibleItems,
                     uniqueConstraints,
                     options
@@ -631,6 +655,7 @@ export default class BaseEntityBatch {
                 if (rawBuckets.createdWhereClauses.length > 0) {
                     const resolvedCreatedIds = await this.resolveIdsFromWhereClauses(
                         entityModel,
+                        primaryKey,
                         rawBuckets.createdWhereClauses,
                         uniqueConstraints,
                         options
@@ -644,6 +669,7 @@ export default class BaseEntityBatch {
             // --- SQL databases with Prisma operations (middleware/extensions compatible) ---
             const prismaOpsResult = await this.upsertManyLegacy(
                 entityModel,
+                primaryKey,
                 updateManyByIdFn,
                 normalizedItems,
                 uniqueConstraints,
@@ -668,6 +694,7 @@ export default class BaseEntityBatch {
                 {
                     entityModel,
                     modelInfo,
+                    primaryKey,
                     normalizedItems,
                     uniqueConstraints,
                     relations,
@@ -726,6 +753,7 @@ export default class BaseEntityBatch {
         const {
             entityModel,
             modelInfo,
+            primaryKey,
             normalizedItems,
             uniqueConstraints,
             relations,
@@ -734,7 +762,9 @@ export default class BaseEntityBatch {
             targetEntityIds
         } = context;
         const entityIdToIndexMap = new Map<number | string, number>();
-        const allowedEntityIds = targetEntityIds ? new Set(targetEntityIds) : null;
+        const allowedEntityIds = targetEntityIds
+            ? new Set(targetEntityIds.map(id => primaryKeyString(primaryKey, id)))
+            : null;
 
         const orConditionsForM2M: Record<string, unknown>[] = [];
         const indexMap = new Map<string, number>();
@@ -769,7 +799,8 @@ export default class BaseEntityBatch {
                     where: { OR: orConditionsForM2M }
                 });
                 for (const record of records) {
-                    if (allowedEntityIds && !allowedEntityIds.has(record.id)) {
+                    const recordKey = readPrimaryKey(primaryKey, record);
+                    if (allowedEntityIds && (recordKey === undefined || !allowedEntityIds.has(primaryKeyString(primaryKey, recordKey)))) {
                         continue;
                     }
 
@@ -785,7 +816,7 @@ export default class BaseEntityBatch {
                     }
                 }
             } catch (error) {
-                logError("upsertMany - fetch IDs for M2M", error as Error);
+                logError("upsertMany - fetch IDs for M2M", error as Error, { model: entityModel.name });
             }
         }
 
@@ -821,13 +852,14 @@ export default class BaseEntityBatch {
                         "upsertMany - apply relations",
                         new Error("Failed to apply many-to-many relations"),
                         {
+                            model: entityModel.name,
                             failedCount: relationResult.failed,
                             successCount: relationResult.success
                         }
                     );
                 }
             } catch (error) {
-                logError("upsertMany - apply relations", error as Error);
+                logError("upsertMany - apply relations", error as Error, { model: entityModel.name });
             }
         }
     }
@@ -896,6 +928,7 @@ export default class BaseEntityBatch {
     private static async processMissingRequiredItemsAsUpdateOnlyRaw(
         prisma: PrismaClient,
         modelInfo: ModelInfo,
+        primaryKey: PrimaryKey,
         items: Record<string, unknown>[],
         uniqueConstraints: string[][],
         collectItems: boolean
@@ -946,7 +979,7 @@ export default class BaseEntityBatch {
             return { updated: 0, unchanged: 0, updatedItemIds: [], unchangedItemIds: [], unresolved };
         }
 
-        let existingList: Array<Record<string, unknown> & { id: number | string }> = [];
+        let existingList: Array<Record<string, unknown>> = [];
         if (matchableClauses.length > 0) {
             try {
                 const fieldMap = new Map<string, string>();
@@ -954,7 +987,7 @@ export default class BaseEntityBatch {
                     fieldMap.set(String((field as any).name), String((field as any).dbName || (field as any).name));
                 }
 
-                const selectableFields = new Set<string>(['id']);
+                const selectableFields = new Set<string>(primaryKey.fields);
                 for (const item of items) {
                     for (const key of Object.keys(item)) selectableFields.add(key);
                 }
@@ -980,11 +1013,11 @@ export default class BaseEntityBatch {
                 const sql = `SELECT ${selectColumns} FROM ${tableName} WHERE ${whereChunks.join(' OR ')}`;
                 const existing = (await prisma.$queryRawUnsafe(sql)) as Array<Record<string, unknown>>;
                 existingList = Array.isArray(existing)
-                    ? existing.filter((row): row is Record<string, unknown> & { id: number | string } =>
-                        row !== null && typeof row === 'object' && row.id !== undefined)
+                    ? existing.filter(row =>
+                        row !== null && typeof row === 'object' && readPrimaryKey(primaryKey, row) !== undefined)
                     : [];
             } catch (error) {
-                logError("upsertMany - fetch existing for missing-required update-only", error as Error);
+                logError("upsertMany - fetch existing for missing-required update-only", error as Error, { model: modelInfo.name });
                 for (const item of keyToItem.values()) {
                     unresolved.push(item);
                 }
@@ -992,7 +1025,7 @@ export default class BaseEntityBatch {
             }
         }
 
-        const existingMap = new Map<string, Record<string, unknown> & { id: number | string }>();
+        const existingMap = new Map<string, Record<string, unknown>>();
         for (const record of existingList) {
             for (const constraint of uniqueConstraints) {
                 const keyParts: string[] = [];
@@ -1015,7 +1048,7 @@ export default class BaseEntityBatch {
         let unchanged = 0;
         const updatedItemIds: Array<EntityId> = [];
         const unchangedItemIds: Array<EntityId> = [];
-        const toUpdate: Array<{ id: number | string; data: Record<string, unknown> }> = [];
+        const toUpdate: Array<{ id: EntityId; data: Record<string, unknown> }> = [];
 
         for (const [key, item] of keyToItem.entries()) {
             const existingRecord = existingMap.get(key);
@@ -1024,13 +1057,14 @@ export default class BaseEntityBatch {
                 continue;
             }
 
-            if (!compareHasChanges(item, existingRecord as Record<string, unknown>)) {
+            const existingId = readPrimaryKey(primaryKey, existingRecord)!;
+            if (!compareHasChanges(item, existingRecord)) {
                 unchanged++;
-                if (collectItems) unchangedItemIds.push(existingRecord.id);
+                if (collectItems) unchangedItemIds.push(existingId);
                 continue;
             }
 
-            toUpdate.push({ id: existingRecord.id, data: item });
+            toUpdate.push({ id: existingId, data: item });
         }
 
         if (toUpdate.length > 0) {
@@ -1039,13 +1073,13 @@ export default class BaseEntityBatch {
                 fieldMap.set(String((field as any).name), String((field as any).dbName || (field as any).name));
             }
             const tableName = quoteIdentifier((modelInfo as any).dbName || (modelInfo as any).name, prisma);
-            const qId = quoteIdentifier('id', prisma);
+            const keyFields = new Set(primaryKey.fields);
 
             try {
                 for (const row of toUpdate) {
                     const setClauses: string[] = [];
                     for (const [field, value] of Object.entries(row.data)) {
-                        if (field === 'id' || value === undefined) continue;
+                        if (keyFields.has(field) || value === undefined) continue;
                         const dbName = fieldMap.get(field) || field;
                         const escaped = BaseEntityHelpers.escapeValue(value, prisma, false);
                         setClauses.push(`${quoteIdentifier(dbName, prisma)} = ${escaped}`);
@@ -1056,8 +1090,13 @@ export default class BaseEntityBatch {
                         continue;
                     }
 
-                    const escapedId = BaseEntityHelpers.escapeValue(row.id, prisma, false);
-                    const sql = `UPDATE ${tableName} SET ${setClauses.join(', ')} WHERE ${qId} = ${escapedId}`;
+                    const keyCondition = BaseEntityHelpers.buildKeyCondition(
+                        primaryKey.fields,
+                        primaryKeyFilter(primaryKey, row.id),
+                        Object.fromEntries(fieldMap),
+                        prisma
+                    );
+                    const sql = `UPDATE ${tableName} SET ${setClauses.join(', ')} WHERE ${keyCondition}`;
                     const result = await prisma.$executeRawUnsafe(sql);
                     const affected = Number(result);
                     if (Number.isFinite(affected) && affected > 0) {
@@ -1068,7 +1107,7 @@ export default class BaseEntityBatch {
                     }
                 }
             } catch (error) {
-                logError("upsertMany - raw update existing missing-required items", error as Error);
+                logError("upsertMany - raw update existing missing-required items", error as Error, { model: modelInfo.name });
                 for (const updateItem of toUpdate) {
                     unresolved.push(updateItem.data);
                 }
@@ -1087,6 +1126,7 @@ export default class BaseEntityBatch {
 
     private static async classifyRawEligibleItems<TModel extends object>(
         entityModel: EntityPrismaModel<TModel>,
+        primaryKey: PrimaryKey,
         items: Record<string, unknown>[],
         uniqueConstraints: string[][],
         options?: { parallel?: boolean; concurrency?: number }
@@ -1175,26 +1215,27 @@ export default class BaseEntityBatch {
             }
         }
 
-        let existingRecords: Array<TModel & { id: number | string }> = [];
+        let existingRecords: TModel[] = [];
         if (orConditions.length > 0) {
             try {
                 const fieldsPerCondition = uniqueConstraints[0]?.length || 1;
-                const fetched = await executeWithOrBatching<TModel & { id: number | string }>(
+                const fetched = await executeWithOrBatching<TModel>(
                     entityModel,
                     orConditions,
                     {
                         parallel: options?.parallel,
                         concurrency: options?.concurrency,
-                        fieldsPerCondition
+                        fieldsPerCondition,
+                        keyFields: primaryKey.fields
                     }
                 );
                 existingRecords = Array.isArray(fetched) ? fetched : [];
             } catch (error) {
-                logError("upsertMany - classify raw items", error as Error);
+                logError("upsertMany - classify raw items", error as Error, { model: entityModel.name });
             }
         }
 
-        const existingMap = new Map<string, TModel & { id: number | string }>();
+        const existingMap = new Map<string, TModel>();
         for (const record of existingRecords) {
             for (const constraint of uniqueConstraints) {
                 const keyParts: string[] = [];
@@ -1216,7 +1257,7 @@ export default class BaseEntityBatch {
         for (let index = 0; index < dedupedItems.length; index++) {
             const item = dedupedItems[index];
             const constraints = itemConstraintMap.get(index);
-            let existingRecord: (TModel & { id: number | string }) | undefined;
+            let existingRecord: TModel | undefined;
 
             if (constraints) {
                 for (const constraint of constraints) {
@@ -1234,18 +1275,20 @@ export default class BaseEntityBatch {
                 if (constraints && constraints.length > 0) {
                     createdWhereClauses.push(constraints[0]);
                 } else {
-                    const itemId = item.id;
-                    if (itemId !== undefined && itemId !== null) {
-                        createdItemIds.push(itemId as EntityId);
+                    const itemId = readPrimaryKey(primaryKey, item);
+                    if (itemId !== undefined) {
+                        createdItemIds.push(itemId);
                     }
                 }
                 continue;
             }
 
+            const existingId = readPrimaryKey(primaryKey, existingRecord);
+            if (existingId === undefined) continue;
             if (compareHasChanges(item, existingRecord as Record<string, unknown>)) {
-                updatedItemIds.push(existingRecord.id);
+                updatedItemIds.push(existingId);
             } else {
-                unchangedItemIds.push(existingRecord.id);
+                unchangedItemIds.push(existingId);
             }
         }
 
@@ -1262,9 +1305,9 @@ export default class BaseEntityBatch {
                     keyParts.push(`${field}:${String(value)}`);
                 }
                 if (!hasAllUnique || keyParts.length === 0) continue;
-                const existingRecord = existingMap.get(keyParts.join('|'));
-                if (existingRecord) {
-                    unchangedItemIds.push(existingRecord.id);
+                const existingId = readPrimaryKey(primaryKey, existingMap.get(keyParts.join('|')));
+                if (existingId !== undefined) {
+                    unchangedItemIds.push(existingId);
                 }
                 break;
             }
@@ -1275,6 +1318,7 @@ export default class BaseEntityBatch {
 
     private static async resolveIdsFromWhereClauses<TModel extends object>(
         entityModel: EntityPrismaModel<TModel>,
+        primaryKey: PrimaryKey,
         whereClauses: Array<Record<string, unknown>>,
         uniqueConstraints: string[][],
         options?: { parallel?: boolean; concurrency?: number }
@@ -1285,13 +1329,14 @@ export default class BaseEntityBatch {
 
         try {
             const fieldsPerCondition = uniqueConstraints[0]?.length || 1;
-            const fetched = await executeWithOrBatching<TModel & { id: EntityId }>(
+            const fetched = await executeWithOrBatching<TModel>(
                 entityModel,
                 whereClauses,
                 {
                     parallel: options?.parallel,
                     concurrency: options?.concurrency,
-                    fieldsPerCondition
+                    fieldsPerCondition,
+                    keyFields: primaryKey.fields
                 }
             );
 
@@ -1301,13 +1346,14 @@ export default class BaseEntityBatch {
 
             const ids: Array<EntityId> = [];
             for (const row of fetched) {
-                if (row && row.id !== undefined && row.id !== null) {
-                    ids.push(row.id);
+                const id = readPrimaryKey(primaryKey, row);
+                if (id !== undefined) {
+                    ids.push(id);
                 }
             }
             return ids;
         } catch (error) {
-            logError("upsertMany - resolve created ids", error as Error);
+            logError("upsertMany - resolve created ids", error as Error, { model: entityModel.name });
             return [];
         }
     }
@@ -1319,8 +1365,9 @@ export default class BaseEntityBatch {
      */
     private static async upsertManyLegacy<TModel extends object>(
         entityModel: EntityPrismaModel<TModel>,
+        primaryKey: PrimaryKey,
         updateManyByIdFn: (
-            dataList: Array<Partial<TModel> & { id: number | string }>,
+            dataList: Array<Partial<TModel>>,
             options?: { parallel?: boolean; concurrency?: number }
         ) => Promise<number>,
         normalizedItems: Record<string, unknown>[],
@@ -1392,17 +1439,18 @@ export default class BaseEntityBatch {
             }
         }
 
-        let existingRecords: Array<TModel & { id: number | string }> = [];
+        let existingRecords: TModel[] = [];
         if (orConditions.length > 0) {
             try {
                 const fieldsPerCondition = uniqueConstraints[0]?.length || 1;
-                const fetched = await executeWithOrBatching<TModel & { id: number | string }>(
+                const fetched = await executeWithOrBatching<TModel>(
                     entityModel,
                     orConditions,
                     {
                         parallel: options?.parallel,
                         concurrency: options?.concurrency,
-                        fieldsPerCondition
+                        fieldsPerCondition,
+                        keyFields: primaryKey.fields
                     }
                 );
 
@@ -1414,15 +1462,15 @@ export default class BaseEntityBatch {
                     logError(
                         "upsertManyLegacy - fetch existing records",
                         new Error("Expected array of existing records"),
-                        { receivedType: typeof fetched }
+                        { model: entityModel.name, receivedType: typeof fetched }
                     );
                 }
             } catch (error) {
-                logError("upsertManyLegacy - fetch existing records", error as Error);
+                logError("upsertManyLegacy - fetch existing records", error as Error, { model: entityModel.name });
             }
         }
 
-        const existingMap = new Map<string, TModel & { id: number | string }>();
+        const existingMap = new Map<string, TModel>();
         for (const record of existingRecords) {
             for (const constraint of uniqueConstraints) {
                 const keyParts: string[] = new Array(constraint.length);
@@ -1435,14 +1483,14 @@ export default class BaseEntityBatch {
         }
 
         const toCreate: Record<string, unknown>[] = [];
-        const toUpdate: Array<{ id: number | string; data: Record<string, unknown> }> = [];
+        const toUpdate: Array<{ id: EntityId; data: Record<string, unknown> }> = [];
         const unchangedItemIds: Array<EntityId> = [];
         let unchanged = 0;
 
         for (let index = 0; index < dedupedItems.length; index++) {
             const normalized = dedupedItems[index];
             const constraints = itemConstraintMap.get(index);
-            let existingRecord: (TModel & { id: number | string }) | undefined;
+            let existingRecord: TModel | undefined;
             if (constraints) {
                 for (const constraint of constraints) {
                     const constraintKeys = Object.keys(constraint);
@@ -1455,12 +1503,13 @@ export default class BaseEntityBatch {
                     if (existingRecord) break;
                 }
             }
-            if (existingRecord) {
+            const existingId = readPrimaryKey(primaryKey, existingRecord);
+            if (existingId !== undefined) {
                 if (compareHasChanges(normalized, existingRecord as Record<string, unknown>)) {
-                    toUpdate.push({ id: existingRecord.id, data: normalized });
+                    toUpdate.push({ id: existingId, data: normalized });
                 } else {
                     unchanged++;
-                    if (collectItems) unchangedItemIds.push(existingRecord.id);
+                    if (collectItems) unchangedItemIds.push(existingId);
                 }
             } else {
                 toCreate.push(normalized);
@@ -1478,7 +1527,7 @@ export default class BaseEntityBatch {
                     async () => {
                         let count = 0;
                         for (const { id, data } of toUpdate) {
-                            await entityModel.update({ where: { id }, data });
+                            await entityModel.update({ where: primaryKeyWhere(primaryKey, id), data });
                             count++;
                             if (collectItems) updatedItemIds.push(id);
                         }
@@ -1489,8 +1538,8 @@ export default class BaseEntityBatch {
             } else {
                 updated = await withErrorHandling(
                     async () => {
-                        const updateData: Array<Partial<TModel> & { id: number | string }> =
-                            toUpdate.map(({ id, data }) => ({ id, ...(data as TModel) }));
+                        const updateData: Array<Partial<TModel>> =
+                            toUpdate.map(({ id, data }) => ({ ...(data as TModel), ...primaryKeyFilter(primaryKey, id) }));
                         return await updateManyByIdFn(updateData, { parallel: false });
                     },
                     "legacy batch update",
@@ -1498,11 +1547,11 @@ export default class BaseEntityBatch {
                         let count = 0;
                         for (const { id, data } of toUpdate) {
                             try {
-                                await entityModel.update({ where: { id }, data });
+                                await entityModel.update({ where: primaryKeyWhere(primaryKey, id), data });
                                 count++;
                                 if (collectItems) updatedItemIds.push(id);
                             } catch (err) {
-                                logError(`individual update for record ${id}`, err as Error);
+                                logOrThrow(`individual update for record ${primaryKeyString(primaryKey, id)}`, err, entityModel.name ?? "");
                             }
                         }
                         return count;
@@ -1519,8 +1568,9 @@ export default class BaseEntityBatch {
                         for (const data of toCreate) {
                             const createdRecord = await entityModel.create({ data });
                             count++;
-                            if (collectItems && createdRecord?.id !== undefined && createdRecord?.id !== null) {
-                                createdItemIds.push(createdRecord.id);
+                            const createdId = readPrimaryKey(primaryKey, createdRecord);
+                            if (collectItems && createdId !== undefined) {
+                                createdItemIds.push(createdId);
                             }
                         }
                         return count;
@@ -1540,11 +1590,12 @@ export default class BaseEntityBatch {
                             try {
                                 const createdRecord = await entityModel.create({ data });
                                 count++;
-                                if (collectItems && createdRecord?.id !== undefined && createdRecord?.id !== null) {
-                                    createdItemIds.push(createdRecord.id);
+                                const createdId = readPrimaryKey(primaryKey, createdRecord);
+                                if (collectItems && createdId !== undefined) {
+                                    createdItemIds.push(createdId);
                                 }
                             } catch (err) {
-                                logError("individual create", err as Error);
+                                logOrThrow("individual create", err, entityModel.name ?? "");
                             }
                         }
                         return count;
@@ -1573,8 +1624,10 @@ export default class BaseEntityBatch {
      * @param getModelInformation - Function to get model information
      * @param buildUpdateQueryFn - Function to build optimized SQL update query
      * @param prepareUpdateListFn - Function to prepare data for update
-     * @param dataList - Array of data to update (must include id field)
-     * @param options - Batch operation options (parallel, concurrency)
+     * @param dataList - Array of data to update (must include every primary key field)
+     * @param options - Batch operation options (parallel, concurrency). `where` holds equality
+     * conditions every updated row must also meet; the SQL path expects `buildUpdateQueryFn` to
+     * add them itself.
      * @returns Promise<number> - Number of entities updated
      */
     public static async updateManyById<TModel extends object>(
@@ -1584,7 +1637,7 @@ export default class BaseEntityBatch {
             batch: Array<Record<string, unknown>>,
             tableName: string,
             modelInfo?: ModelInfo
-        ) => { query: string | null; idsInBatch: Set<number> },
+        ) => { query: string | null; idsInBatch: Set<EntityId> },
         prepareUpdateListFn: (
             dataList: Array<Partial<Record<string, unknown>>>,
             modelInfo?: ModelInfo
@@ -1593,6 +1646,7 @@ export default class BaseEntityBatch {
         options?: {
             parallel?: boolean;
             concurrency?: number;
+            where?: Record<string, unknown>;
         }
     ): Promise<number> {
         if (!isNonEmptyArray(dataList)) return 0;
@@ -1609,7 +1663,7 @@ export default class BaseEntityBatch {
         const formattedList = prepareUpdateListFn(dataList, modelInfo);
 
         if (provider === "mongodb") {
-            return await this.updateManyByIdMongoDB(formattedList, entityModel, prisma);
+            return await this.updateManyByIdMongoDB(formattedList, entityModel, prisma, getPrimaryKey(modelInfo), options?.where);
         }
 
         const batchSize = getOptimalBatchSize("updateMany", provider);
@@ -1640,17 +1694,104 @@ export default class BaseEntityBatch {
 
         const totalUpdated = result.results.reduce((sum, count) => sum + count, 0);
 
-        if (result.errors.length > 0) {
-            logError(
-                "updateManyById - parallel batches",
-                new Error(`${result.errors.length} batches failed`),
-                { failedCount: result.errors.length }
-            );
-        }
+        reportBatchFailures("updateManyById", entityModel?.name ?? "", result.errors, totalUpdated);
 
         return totalUpdated;
     }
 
+    /**
+     * Update multiple entities by id, each matched on its version as well.
+     * 
+     * Every item is written by its own `updateMany`, so the ids whose row is no longer at the
+     * version the item carries can be told apart from the written ones. The version column is
+     * moved forward by each write; items without a version are written unconditionally.
+     * 
+     * @param entityModel - The Prisma model to use
+     * @param getModelInformation - Function to get model information
+     * @param prepareUpdateListFn - Function to prepare the update list
+     * @param dataList - Array of entities to update (must include the primary key and, to be
+     * checked, the version)
+     * @param versionField - The version column
+     * @param options - Batch operation options (parallel, concurrency), and `where` conditions
+     * every updated row must also meet
+     * @returns Promise with the number of rows written and the ids whose version did not match
+     */
+    public static async updateManyByIdVersioned<TModel extends object>(
+        entityModel: Pick<EntityPrismaModel<TModel>, "name" | "updateMany">,
+        getModelInformation: () => ModelInfo,
+        prepareUpdateListFn: (
+            dataList: Array<Partial<Record<string, unknown>>>,
+            modelInfo?: ModelInfo
+        ) => Array<Record<string, unknown>>,
+        dataList: Array<Partial<Record<string, unknown>>>,
+        versionField: string,
+        options?: {
+            parallel?: boolean;
+            concurrency?: number;
+            where?: Record<string, unknown>;
+        }
+    ): Promise<{ count: number; conflictIds: Array<EntityId> }> {
+        if (!isNonEmptyArray(dataList)) return { count: 0, conflictIds: [] };
+
+        let modelInfo: ModelInfo | undefined;
+        try {
+            modelInfo = getModelInformation();
+        } catch {
+        }
+        const fieldType = modelInfo?.fields.find(field => field.name === versionField)?.type;
+        const primaryKey = getPrimaryKey(modelInfo);
+
+        // prepareUpdateList drops Date values, so the versions are read off the sanitized items
+        const loadedVersions = new Map<string, unknown>();
+        for (const item of BaseEntityHelpers.sanitizeKeysRecursive(dataList) as Array<Record<string, unknown>>) {
+            const id = readPrimaryKey(primaryKey, item);
+            if (id !== undefined) loadedVersions.set(primaryKeyString(primaryKey, id), item[versionField]);
+        }
+        const formattedList = prepareUpdateListFn(dataList, modelInfo);
+
+        const batchSize = getOptimalBatchSize("updateMany");
+        const useParallel = options?.parallel !== false && isParallelEnabled() && !shouldDisableParallel();
+
+        const result = await processBatches(
+            formattedList,
+            batchSize,
+            async batch => {
+                let count = 0;
+                const conflictIds: Array<EntityId> = [];
+
+                for (const item of batch) {
+                    const id = readPrimaryKey(primaryKey, item)!;
+                    const { [versionField]: _version, ...data } = this.omitKeyFields(primaryKey, item);
+                    const loaded = loadedVersions.get(primaryKeyString(primaryKey, id));
+                    const checked = hasVersion(loaded);
+                    const where = { ...primaryKeyFilter(primaryKey, id), ...options?.where };
+
+                    const { count: written } = await entityModel.updateMany({
+                        where: checked ? { ...where, [versionField]: loaded } : where,
+                        data: { ...data, [versionField]: nextVersion(loaded, fieldType) }
+                    });
+
+                    count += written;
+                    if (written === 0 && checked) conflictIds.push(id);
+                }
+
+                return { count, conflictIds };
+            },
+            {
+                parallel: useParallel,
+                concurrency: options?.concurrency
+            }
+        );
+
+        const count = result.results.reduce((sum, batch) => sum + batch.count, 0);
+        reportBatchFailures("updateManyById", entityModel.name ?? "", result.errors, count);
+
+        return {
+            count,
+            conflictIds: result.results.flatMap(batch => batch.conflictIds)
+        };
+    }
+
     /**
      * Optimized MongoDB batch update using transactions.
      * 
@@ -1660,6 +1801,8 @@ export default class BaseEntityBatch {
      * @param formattedList - Array of formatted update data
      * @param entityModel - The Prisma model to use
      * @param prisma - Prisma client instance
+     * @param primaryKey - The primary key of the model; `id` when omitted
+     * @param scope - Equality conditions every updated row must also meet
      * @returns Promise<number> - Number of entities updated
      * 
      * @internal
@@ -1667,7 +1810,9 @@ export default class BaseEntityBatch {
     public static async updateManyByIdMongoDB<TModel extends object>(
         formattedList: Array<Record<string, unknown>>,
         entityModel: EntityPrismaModel<TModel>,
-        prisma: PrismaClient
+        prisma: PrismaClient,
+        primaryKey: PrimaryKey = getPrimaryKey(null),
+        scope: Record<string, unknown> = {}
     ): Promise<number> {
         let totalUpdated = 0;
         const batchSize = this.MONGODB_TRANSACTION_BATCH_SIZE;
@@ -1677,13 +1822,10 @@ export default class BaseEntityBatch {
 
             try {
                 const results = await (prisma as any).$transaction(
-                    batch.map(item => {
-                        const { id, ...data } = item as { id: number | string } & Record<
-                            string,
-                            unknown
-                        >;
-                        return entityModel.update({ where: { id }, data });
-                    }),
+                    batch.map(item => entityModel.update({
+                        where: { ...primaryKeyWhere(primaryKey, readPrimaryKey(primaryKey, item)!), ...scope },
+                        data: this.omitKeyFields(primaryKey, item)
+                    })),
                     {
                         maxWait: 5000,
                         timeout: 10000
@@ -1695,23 +1837,25 @@ export default class BaseEntityBatch {
                     "updateManyByIdMongoDB - batch update",
                     error as Error,
                     {
+                        model: entityModel.name,
                         batchStart: i + 1,
                         batchEnd: Math.min(i + batch.length, formattedList.length)
                     }
                 );
 
                 for (const item of batch) {
-                    const { id, ...data } = item as { id: number | string } & Record<
-                        string,
-                        unknown
-                    >;
+                    const id = readPrimaryKey(primaryKey, item)!;
                     try {
-                        await entityModel.update({ where: { id }, data });
+                        await entityModel.update({
+                            where: { ...primaryKeyWhere(primaryKey, id), ...scope },
+                            data: this.omitKeyFields(primaryKey, item)
+                        });
                         totalUpdated++;
                     } catch (itemError) {
-                        logError(
+                        logOrThrow(
                             "updateManyByIdMongoDB - individual update",
-                            itemError as Error,
+                            itemError,
+                            entityModel.name ?? "",
                             { recordId: id }
                         );
                     }
@@ -1729,35 +1873,47 @@ export default class BaseEntityBatch {
      * Supports parallel execution for improved performance.
      * 
      * @param entityModel - The Prisma model to use
-     * @param ids - Array of entity IDs to delete
-     * @param options - Batch operation options (parallel, concurrency)
+     * @param ids - Array of entity IDs to delete; key objects for a composite primary key
+     * @param options - Batch operation options (parallel, concurrency). With `softDeleteField`,
+     * live rows get that column stamped instead of being removed. `primaryKey` defaults to `id`.
+     * `where` holds equality conditions every deleted row must also meet.
      * @returns Promise<number> - Number of entities deleted
      */
     public static async deleteByIds<TModel extends object>(
-        entityModel: Pick<EntityPrismaModel<TModel>, "deleteMany">,
-        ids: Array<number | string>,
+        entityModel: Pick<EntityPrismaModel<TModel>, "name" | "deleteMany" | "updateMany">,
+        ids: Array<EntityId>,
         options?: {
             parallel?: boolean;
             concurrency?: number;
+            softDeleteField?: string;
+            primaryKey?: PrimaryKey;
+            where?: Record<string, unknown>;
         }
     ): Promise<number> {
-        if (!entityModel) throw new Error("The model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
         if (!isNonEmptyArray(ids)) return 0;
 
         const batchSize = getOptimalBatchSize("delete");
         const useParallel = options?.parallel !== false && isParallelEnabled() && !shouldDisableParallel();
+        const softDeleteField = options?.softDeleteField;
+        const primaryKey = options?.primaryKey ?? getPrimaryKey(null);
+        const deletedAt = new Date();
 
         const result = await processBatches(
             ids,
             batchSize,
             async batch => {
                 try {
-                    const deleteResult = await entityModel.deleteMany({
-                        where: { id: { in: batch } }
-                    });
+                    const where = { ...primaryKeysFilter(primaryKey, batch), ...options?.where };
+                    const deleteResult = softDeleteField
+                        ? await entityModel.updateMany({
+                            where: { ...where, [softDeleteField]: null },
+                            data: { [softDeleteField]: deletedAt }
+                        })
+                        : await entityModel.deleteMany({ where });
                     return deleteResult.count || 0;
                 } catch (error) {
-                    logError("deleteByIds", error as Error, { batchSize: batch.length });
+                    logError("deleteByIds", error as Error, { model: entityModel.name, batchSize: batch.length });
                     throw error;
                 }
             },
@@ -1769,14 +1925,17 @@ export default class BaseEntityBatch {
 
         const totalDeleted = result.results.reduce((sum, count) => sum + count, 0);
 
-        if (result.errors.length > 0) {
-            logError(
-                "deleteByIds - parallel batches",
-                new Error(`${result.errors.length} batches failed`),
-                { failedCount: result.errors.length }
-            );
-        }
+        reportBatchFailures("deleteByIds", entityModel.name ?? "", result.errors, totalDeleted);
 
         return totalDeleted;
     }
+
+    /**
+     * The fields of an item other than its primary key, as the `data` of an update
+     * @internal
+     */
+    private static omitKeyFields(primaryKey: PrimaryKey, item: Record<string, unknown>): Record<string, unknown> {
+        const keyFields = new Set(primaryKey.fields);
+        return Object.fromEntries(Object.entries(item).filter(([field]) => !keyFields.has(field)));
+    }
 }
@@ -4,6 +4,7 @@ import ModelUtils from "./model-utils";
 import { getPrismaInstance } from './config';
 import { quoteIdentifier, formatBoolean, getDatabaseProviderCached } from "./utils/database-utils";
 import { isObject, shouldSkipField as validationShouldSkipField } from "./utils/validation-utils";
+import { getPrimaryKey, isCompositeKey, primaryKeyString, readPrimaryKey, type EntityId } from "./primary-key";
 
 /**
  * BaseEntityHelpers - Internal helper methods for BaseEntity operations.
@@ -244,10 +245,11 @@ export default class BaseEntityHelpers {
      * Prepares a list of data for batch update operations.
      * 
      * Sanitizes keys, processes relations, and filters out non-scalar fields.
-     * Preserves JSON fields while removing relation objects.
+     * Preserves JSON fields while removing relation objects. Items missing a primary key column
+     * are dropped.
      * 
      * @param dataList - Array of data to prepare
-     * @param modelInfo - Model information from Prisma
+     * @param modelInfo - Model information from Prisma, which also gives the primary key
      * @returns Prepared array ready for batch update
      * 
      * @example
@@ -275,13 +277,16 @@ export default class BaseEntityHelpers {
             }
         }
 
+        const primaryKey = getPrimaryKey(modelInfo);
+        const keyFields = new Set(primaryKey.fields);
+
         return this.sanitizeKeysRecursive(dataList)
-            .filter((item: any) => item.id !== undefined && item.id !== null)
+            .filter((item: any) => readPrimaryKey(primaryKey, item) !== undefined)
             .map((item: any) => {
                 const processed = DataUtils.processRelations(item, modelInfo);
                 return Object.fromEntries(
                     Object.entries(processed).filter(([key, val]) => {
-                        if (key === 'id') return true;
+                        if (key === 'id' || keyFields.has(key)) return true;
                         if (val === undefined) return false;
                         if (val === null) return true;
                         if (Array.isArray(val)) return true;
@@ -300,10 +305,14 @@ export default class BaseEntityHelpers {
      * Uses CASE WHEN statements for efficient multi-row updates in a single query.
      * Handles database-specific quoting and JSON field casting.
      * 
-     * @param batch - Array of records to update (must include id field)
+     * Rows are matched on the primary key of `modelInfo`: `CASE "id" WHEN ...` for a single key
+     * column, `CASE WHEN "tenantId" = ... AND "code" = ...` for a composite key.
+     * 
+     * @param batch - Array of records to update (must include the primary key columns)
      * @param tableName - Name of the database table
      * @param modelInfo - Model information from Prisma
-     * @returns Object with query string and set of IDs in batch
+     * @param scope - Equality conditions ANDed into the WHERE, e.g. `{ tenantId: 7 }`
+     * @returns Object with query string and the primary keys in the batch
      * 
      * @example
      * ```typescript
@@ -336,14 +345,18 @@ export default class BaseEntityHelpers {
     public static buildUpdateQuery(
         batch: Array<Record<string, any>>,
         tableName: string,
-        modelInfo?: any
+        modelInfo?: any,
+        scope: Record<string, unknown> = {}
     ): {
         query: string | null;
-        idsInBatch: Set<number>;
+        idsInBatch: Set<EntityId>;
     } {
         const prisma = getPrismaInstance();
-        const updates: Record<string, Record<number, any>> = {};
-        const ids = new Set<number>();
+        const primaryKey = getPrimaryKey(modelInfo);
+        const keyFields = new Set(primaryKey.fields);
+        // Values per field, keyed by the string form of the primary key
+        const updates: Record<string, Map<string, any>> = {};
+        const keys = new Map<string, EntityId>();
         const fieldsToUpdate = new Set<string>();
 
         const fieldMap: Record<string, string> = {};
@@ -360,22 +373,24 @@ export default class BaseEntityHelpers {
         }
 
         for (const item of batch) {
-            const itemId = parseInt(String(item.id));
-            if (!itemId || isNaN(itemId)) continue;
+            const key = readPrimaryKey(primaryKey, item);
+            if (key === undefined) continue;
 
-            ids.add(itemId);
+            const keyString = primaryKeyString(primaryKey, key);
+            keys.set(keyString, key);
 
-            for (const [key, value] of Object.entries(item)) {
-                if (key === 'id' || value === undefined) continue;
+            for (const [field, value] of Object.entries(item)) {
+                if (field === 'id' || keyFields.has(field) || value === undefined) continue;
 
-                fieldsToUpdate.add(key);
-                if (!updates[key]) updates[key] = {};
-                updates[key][itemId] = value;
+                fieldsToUpdate.add(field);
+                if (!updates[field]) updates[field] = new Map();
+                updates[field].set(keyString, value);
             }
         }
 
-        if (fieldsToUpdate.size === 0 || ids.size === 0) {
-            return { query: null, idsInBatch: ids };
+        const idsInBatch = new Set(keys.values());
+        if (fieldsToUpdate.size === 0 || keys.size === 0) {
+            return { query: null, idsInBatch };
         }
 
         const provider = getDatabaseProviderCached(prisma);
@@ -384,8 +399,15 @@ export default class BaseEntityHelpers {
         const setClauses: string[] = new Array(fieldsToUpdate.size);
         let clauseIndex = 0;
 
-        // Cache quoted identifiers to avoid repeated calls
-        const quotedId = quoteIdentifier('id', prisma);
+        // Cache the key conditions to avoid repeated quoting and escaping
+        const composite = isCompositeKey(primaryKey);
+        const quotedKey = quoteIdentifier(fieldMap[primaryKey.fields[0]] || primaryKey.fields[0], prisma);
+        const keyConditions = new Map<string, string>();
+        for (const [keyString, key] of keys) {
+            keyConditions.set(keyString, composite
+                ? this.buildKeyCondition(primaryKey.fields, key as Record<string, unknown>, fieldMap, prisma)
+                : this.escapeValue(key, prisma, false));
+        }
 
         for (const field of fieldsToUpdate) {
             const fieldUpdates = updates[field];
@@ -393,29 +415,62 @@ export default class BaseEntityHelpers {
 
             // Use array and join instead of repeated string concatenation
             const whenClauses: string[] = [];
-            for (const [id, value] of Object.entries(fieldUpdates)) {
+            for (const [keyString, value] of fieldUpdates) {
                 let escapedValue = this.escapeValue(value, prisma, isJsonField);
                 // For PostgreSQL JSON fields, cast the value to JSONB
                 if (isJsonField && provider === 'postgresql') {
                     escapedValue = `${escapedValue}::jsonb`;
                 }
-                whenClauses.push(`        WHEN ${id} THEN ${escapedValue}`);
+                whenClauses.push(`        WHEN ${keyConditions.get(keyString)} THEN ${escapedValue}`);
             }
 
             // Use the mapped database column name
             const dbColumnName = fieldMap[field] || field;
             const quotedColumn = quoteIdentifier(dbColumnName, prisma);
-            setClauses[clauseIndex++] = `    ${quotedColumn} = CASE ${quotedId}\n${whenClauses.join('\n')}\n        ELSE ${quotedColumn}\n    END`;
+            const caseSubject = composite ? '' : ` ${quotedKey}`;
+            setClauses[clauseIndex++] = `    ${quotedColumn} = CASE${caseSubject}\n${whenClauses.join('\n')}\n        ELSE ${quotedColumn}\n    END`;
         }
 
-        const idList = Array.from(ids).join(', ');
+        const keyClause = composite
+            ? Array.from(keyConditions.values()).map(condition => `(${condition})`).join(' OR ')
+            : `${quotedKey} IN (${Array.from(keyConditions.values()).join(', ')})`;
+        const scopeFields = Object.keys(scope);
+        const whereClause = scopeFields.length > 0
+            ? `(${keyClause}) AND ${this.buildKeyCondition(scopeFields, scope, fieldMap, prisma)}`
+            : keyClause;
         const quotedTableName = quoteIdentifier(tableName, prisma);
 
         const query = `UPDATE ${quotedTableName}
                        SET ${setClauses.join(',\n')}
-                       WHERE ${quotedId} IN (${idList});`;
+                       WHERE ${whereClause};`;
 
-        return { query, idsInBatch: ids };
+        return { query, idsInBatch };
+    }
+
+    /**
+     * Builds the SQL condition matching one row by every column of a composite key.
+     * 
+     * @param keyFields - The primary key columns
+     * @param key - The key value, holding every key column
+     * @param fieldMap - Database column name per field, when they differ
+     * @param prisma - Prisma client instance (for database-specific quoting and escaping)
+     * @returns The condition, e.g. `"tenantId" = 1 AND "code" = 'A'`
+     * 
+     * @example
+     * ```typescript
+     * BaseEntityHelpers.buildKeyCondition(['tenantId', 'code'], { tenantId: 1, code: 'A' }, {});
+     * // "tenantId" = 1 AND "code" = 'A'
+     * ```
+     */
+    public static buildKeyCondition(
+        keyFields: readonly string[],
+        key: Record<string, unknown>,
+        fieldMap: Record<string, string>,
+        prisma?: PrismaClient
+    ): string {
+        return keyFields
+            .map(field => `${quoteIdentifier(fieldMap[field] || field, prisma)} = ${this.escapeValue(key[field], prisma, false)}`)
+            .join(' AND ');
     }
 
     /**
@@ -3,16 +3,45 @@ import ModelUtils from "./model-utils";
 import SearchUtils from "./search-utils";
 import SearchResolver from "./search-resolver";
 import { isNonEmptyArray } from "./utils/validation-utils";
-import { logError } from "./utils/error-utils";
-import { executeWithOrBatching, deduplicateResults } from "./query-utils";
+import { logError, logOrThrow, reportBatchFailures } from "./utils/error-utils";
+import { ModelNotConfiguredError } from "./errors";
+import { executeWithOrBatching, deduplicateResults, needsOrBatching } from "./query-utils";
 import { executeInParallel } from "./utils/parallel-utils";
-import { isParallelEnabled } from "./config";
+import { getRateLimiter, isParallelEnabled, isPrismaConfigured } from "./config";
 import { EntityPrismaModel } from "./structures/interfaces/entity.interface";
-import { shouldDisableParallel } from "./utils/transaction-utils";
+import { resolveClient, shouldDisableParallel } from "./utils/transaction-utils";
+import type { TransactionClient } from "./transaction-context";
+import { andSearch } from "./soft-delete";
+import { andWhere, isCursorPagination, keysetPage, planKeyset } from "./cursor-pagination";
+import {
+    getPrimaryKey,
+    isCompositeKey,
+    primaryKeyString,
+    readPrimaryKey,
+    resolvePrimaryKey,
+    type EntityId
+} from "./primary-key";
+import { fullTextStrategy, hasTextSearch, prefetchTextMatches, withoutRanking, withRelevance } from "./full-text";
+import { getDatabaseProviderCached } from "./utils/database-utils";
+import { andSearches, bucketRanges, countElements, facetKey, withoutField } from "./facets";
+import {
+    nullOrderingOf,
+    sortRows,
+    toPrismaOrderBy,
+    withOrderRelations,
+    withoutRelations,
+    withTieBreaker,
+    type NullOrdering
+} from "./ordering";
+import { assertMergeable, matchesHaving, mergeAggregates, mergeGroups, pickSelection, sortGroups } from "./aggregation";
+import type { Search } from "./structures/types/search.types";
+import type { Aggregate } from "./structures/types/aggregate.types";
+import type { Facet } from "./structures/types/facet.types";
 
 type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
 
 const CHUNK_SIZE = 10000;
+const STREAM_BATCH_SIZE = 1000;
 
 /**
  * BaseEntityQuery - Helper class for query operations.
@@ -22,7 +51,7 @@ const CHUNK_SIZE = 10000;
  * 
  * Features:
  * - Advanced filtering with search criteria
- * - Pagination support
+ * - Offset and keyset (cursor) pagination
  * - Nested relation includes
  * - Automatic chunking for large list conditions (>10k items)
  * - Parallel execution for improved performance
@@ -36,6 +65,16 @@ export default class BaseEntityQuery {
      * conditions (>10k values). Automatically optimizes queries with large OR conditions using batching.
      *
      * @param filter - Plain equality filter, ANDed with the search tree
+     *
+     * @remarks
+     * With `pagination: { cursor, limit }` the rows past the cursor are read in `orderBy` order,
+     * the primary key breaking ties. The batched and chunked paths add the cursor condition to
+     * each of their queries and keep the first rows of the merged result.
+     *
+     * `rank: true` orders by relevance only where the rows come from one offset-paged query: a
+     * search under an `or` that fits one query runs as one to keep it.
+     * @throws Error when a condition ranks and the rows are keyset-paged, or merged from several
+     * queries: relevance is no value of the rows, so neither a cursor nor a merge can sort on it
      */
     public static async findByFilter<TModel extends object>(
         entityModel: EntityPrismaModel<TModel>,
@@ -44,18 +83,20 @@ export default class BaseEntityQuery {
         options: FindByFilterOptions.Options = FindByFilterOptions.defaultOptions
     ): Promise<
         | FindByFilterOptions.PaginatedResponse<TModel>
+        | FindByFilterOptions.CursorPaginatedResponse<TModel>
         | TModel[]
         | TModel
         | null
     > {
-        if (!entityModel) throw new Error("The model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
 
         let modelInfo: ModelInfo | null = null;
         try {
             modelInfo = getModelInformation();
         } catch (error) {
             logError("findByFilter - getModelInformation", error as Error, {
-                modelName: entityModel.name
+                model: entityModel.name
             });
         }
 
@@ -72,11 +113,54 @@ export default class BaseEntityQuery {
             }
         }
 
+        if (include && options.includeFilters) {
+            include = BaseEntityQuery.narrowIncludes(include, options.includeFilters, modelInfo, entityModel.$parent);
+        }
+
         const whereClauseBase = SearchUtils.applyDefaultFilters(
             filter as Record<string, unknown>,
             modelInfo
         ) as Record<string, unknown>;
 
+        // Rows merged from several queries are told apart by their primary key
+        const keyFields = getPrimaryKey(modelInfo).fields;
+
+        // A projection replaces the include, and carries the relations to include itself
+        const projection = isNonEmptyArray<string>(options.select)
+            ? {
+                select: ModelUtils.getSelectTree(
+                    entityModel.name!,
+                    BaseEntityQuery.selectPaths(options.select, keyFields, options.orderBy),
+                    include,
+                    entityModel.$parent
+                )
+            }
+            : { include };
+
+        // Keyset pagination reads the rows past its cursor, one more than the page holds
+        const keyset = isCursorPagination(options.pagination)
+            ? planKeyset(options.pagination, options.orderBy, keyFields, entityModel.name, {
+                fields: new Set(modelInfo?.fields.filter(field => field.isRequired === false).map(field => field.name)),
+                ordering: this.nullOrdering()
+            })
+            : null;
+        if (keyset) this.refuseRanking(options.search, "with keyset pagination");
+
+        // Offset pagination pages the rows; keyset pagination reads one more than its page holds
+        const pagination = keyset ? undefined : options.pagination as FindByFilterOptions.PaginationOptions | undefined;
+        const take: number | undefined = keyset ? keyset.take : pagination?.take;
+        const skip: number | undefined = pagination?.skip;
+        // One row is returned without its page, so nothing is counted for it
+        const paged = Boolean(take && skip !== undefined && pagination) && !options.onlyOne;
+
+        // The paths merging several queries read the first skip + take rows of each, in an order
+        // the primary key completes: the first rows of all are among them
+        const limit = take !== undefined ? (skip ?? 0) + take : options.onlyOne ? 1 : undefined;
+        const mergeOrder = keyset
+            ? keyset.queryOrder
+            : limit === undefined ? options.orderBy : withTieBreaker(options.orderBy, keyFields);
+        const keySelect = Object.fromEntries(keyFields.map(field => [field, true]));
+
         // A condition carrying more values than the database can take in a single IN list is
         // split into one query per chunk, and the results merged.
         const chunkedSearches = options.search
@@ -93,12 +177,12 @@ export default class BaseEntityQuery {
                 ) as Record<string, unknown>;
             }
 
-            const take: number | undefined = options.pagination?.take;
-            const skip: number | undefined = options.pagination?.skip;
-            const orderBy = options.orderBy;
+            const orderBy = keyset ? keyset.queryOrder : options.orderBy;
 
             const whereKeys = Object.keys(whereClause);
             const hasOnlyOr = whereKeys.length === 1 && whereKeys[0] === "OR";
+            // A ranked `or` that fits one query runs as one, where the relevance order applies
+            const ranked = !keyset && withRelevance(options.search, undefined) !== undefined;
 
             let data: TModel[];
             let total = 0;
@@ -106,50 +190,61 @@ export default class BaseEntityQuery {
             if (
                 hasOnlyOr &&
                 Array.isArray((whereClause as any).OR) &&
-                (whereClause as any).OR.length > 0
+                (whereClause as any).OR.length > 0 &&
+                (!ranked || needsOrBatching((whereClause as any).OR))
             ) {
-                data = (await executeWithOrBatching<TModel & { id: unknown }>(
+                this.refuseRanking(options.search, "over an or split in batches");
+                const orConditions: Record<string, unknown>[] = (whereClause as any).OR;
+                const batching = { parallel: options.parallel, concurrency: options.concurrency, keyFields };
+                const sortable = withOrderRelations(projection, mergeOrder);
+
+                const rowsQuery = executeWithOrBatching<TModel>(
                     entityModel,
-                    (whereClause as any).OR,
+                    keyset ? orConditions.map(condition => andWhere(condition, keyset.condition)) : orConditions,
                     {
-                        include,
-                        parallel: options.parallel,
-                        concurrency: options.concurrency
+                        ...sortable.projection,
+                        ...batching,
+                        orderBy: limit === undefined ? undefined : toPrismaOrderBy(mergeOrder),
+                        take: limit
                     }
-                )) as TModel[];
-
-                const sorted = BaseEntityQuery.sortResults(data, orderBy);
-
-                if (take !== undefined || skip !== undefined) {
-                    total = sorted.length;
-                    const startIndex = skip || 0;
-                    const endIndex = take !== undefined ? startIndex + take : undefined;
-                    data = sorted.slice(startIndex, endIndex);
-                } else {
-                    data = sorted;
-                    total = data.length;
-                }
+                );
+
+                // The batches may share rows, so the total counts their distinct keys
+                const countQuery = !paged
+                    ? Promise.resolve(0)
+                    : needsOrBatching(orConditions)
+                        ? executeWithOrBatching(entityModel, orConditions, { select: keySelect, ...batching }).then(keys => keys.length)
+                        : entityModel.count({ where: whereClause });
+
+                const [rows, count] = await Promise.all([rowsQuery, countQuery]);
+                data = withoutRelations(sortRows(rows, mergeOrder, this.nullOrdering()).slice(skip ?? 0, limit), sortable.added);
+                total = count;
             } else {
                 const findManyQuery = entityModel.findMany({
-                    where: whereClause,
-                    include,
+                    where: keyset ? andWhere(whereClause, keyset.condition) : whereClause,
+                    ...projection,
                     take,
                     skip,
-                    orderBy
+                    // Ranked full-text matches come first; keyset pages keep their own order
+                    orderBy: toPrismaOrderBy(keyset ? orderBy : withRelevance(options.search, orderBy))
                 });
 
-                const countQuery =
-                    take && skip !== undefined
-                        ? entityModel.count({ where: whereClause })
-                        : Promise.resolve(0);
+                const countQuery = paged
+                    ? entityModel.count({ where: whereClause })
+                    : Promise.resolve(0);
 
                 [data, total] = await Promise.all([findManyQuery, countQuery]);
             }
 
+            if (keyset) {
+                const page = keysetPage(keyset, data);
+                return options.onlyOne ? page.data[0] ?? null : page;
+            }
+
             if (options.onlyOne) return data[0] ?? null;
 
-            if (take && skip !== undefined && options.pagination) {
-                const { page, pageSize } = options.pagination;
+            if (paged) {
+                const { page, pageSize } = pagination!;
                 return {
                     total,
                     page,
@@ -160,6 +255,7 @@ export default class BaseEntityQuery {
 
             return data;
         } else {
+            this.refuseRanking(options.search, "over a list split in chunks");
             const chunkWhereClauses = chunkedSearches.map(
                 chunkSearch =>
                     SearchUtils.applySearchFilter(
@@ -175,45 +271,80 @@ export default class BaseEntityQuery {
                 chunkWhereClauses.length > 1 &&
                 !shouldDisableParallel();
 
-            let allResults: TModel[][];
+            const queryEachChunk = async <TResult>(
+                run: (whereClause: Record<string, unknown>) => Promise<TResult>,
+                whereClauses = chunkWhereClauses
+            ): Promise<TResult[]> => {
+                if (!useParallel) return Promise.all(whereClauses.map(run));
 
-            if (useParallel) {
-                const operations = chunkWhereClauses.map(
-                    whereClause => () => entityModel.findMany({ where: whereClause, include })
-                );
-
-                const result = await executeInParallel(operations, {
+                const result = await executeInParallel(whereClauses.map(whereClause => () => run(whereClause)), {
                     concurrency: options.concurrency,
                     rateLimit: options.rateLimit
                 });
+                reportBatchFailures("findByFilter", entityModel.name ?? "", result.errors);
+
+                return result.results as TResult[];
+            };
+
+            // An `in` list reached through `and` splits into chunks no row matches twice, counted
+            // one by one. Chunks of a list under an `or` share rows, so their total counts their
+            // distinct keys
+            const countChunks = async (): Promise<number> => {
+                let partitions: Search.Input[] | null = null;
+                try {
+                    partitions = SearchResolver.partitionLargeLists(options.search!, CHUNK_SIZE);
+                } catch {
+                    partitions = null;
+                }
 
-                allResults = result.results as TModel[][];
-
-                if (result.errors.length > 0) {
-                    logError(
-                        "findByFilter - parallel chunks",
-                        new Error(`${result.errors.length} chunks failed`),
-                        { failedCount: result.errors.length }
+                if (partitions) {
+                    const partitionWhereClauses = partitions.map(
+                        search => SearchUtils.applySearchFilter(whereClauseBase, search, modelInfo) as Record<string, unknown>
                     );
+                    const counts = await queryEachChunk(whereClause => entityModel.count({ where: whereClause }), partitionWhereClauses);
+                    return counts.reduce((sum, count) => sum + count, 0);
                 }
-            } else {
-                const queryPromises = chunkWhereClauses.map(
-                    whereClause => entityModel.findMany({ where: whereClause, include })
-                );
 
-                allResults = (await Promise.all(queryPromises)) as TModel[][];
+                const chunkKeys = await queryEachChunk(
+                    whereClause => entityModel.findMany({ where: whereClause, select: keySelect }) as Promise<TModel[]>
+                );
+                return deduplicateResults(([] as TModel[]).concat(...chunkKeys), keyFields).length;
+            };
+
+            // Each chunk reads its own first rows past the cursor, or of the page; the page is among them
+            const chunkPage = limit === undefined ? {} : { orderBy: toPrismaOrderBy(mergeOrder), take: limit };
+            const sortable = withOrderRelations(projection, mergeOrder);
+
+            const [allResults, total] = await Promise.all([
+                queryEachChunk(whereClause => entityModel.findMany({
+                    where: andWhere(whereClause, keyset?.condition ?? null),
+                    ...sortable.projection,
+                    ...chunkPage
+                }) as Promise<TModel[]>),
+                paged ? countChunks() : Promise.resolve(null)
+            ]);
+
+            const deduplicated = deduplicateResults(([] as TModel[]).concat(...allResults), keyFields);
+            const rows = withoutRelations(sortRows(deduplicated, mergeOrder, this.nullOrdering()).slice(skip ?? 0, limit), sortable.added);
+
+            if (keyset) {
+                const page = keysetPage(keyset, rows);
+                return options.onlyOne ? page.data[0] ?? null : page;
             }
 
-            const flattened = ([] as TModel[]).concat(...allResults);
-            const deduplicated = deduplicateResults(
-                flattened as (TModel & { id: unknown })[]
-            ) as TModel[];
+            if (options.onlyOne) return rows[0] ?? null;
 
-            const finalResults = BaseEntityQuery.sortResults(deduplicated, options.orderBy);
-
-            if (options.onlyOne) return finalResults[0] ?? null;
+            if (paged && total !== null) {
+                const { page, pageSize } = pagination!;
+                return {
+                    total,
+                    page,
+                    pageSize,
+                    data: rows
+                } as FindByFilterOptions.PaginatedResponse<TModel>;
+            }
 
-            return finalResults;
+            return rows;
         }
     }
 
@@ -224,32 +355,184 @@ export default class BaseEntityQuery {
      * @param entityModel - The Prisma model (delegate) to query
      * @param getModelInformation - Function to get model information
      * @param filter - Filter criteria
+     * @param options - Query options; only `search` is used here
      * @returns Promise<number> - The count of matching records
      */
     public static async countByFilter<TModel extends object>(
         entityModel: EntityPrismaModel<TModel>,
         getModelInformation: () => ModelInfo,
-        filter: Partial<TModel>
+        filter: Partial<TModel>,
+        options?: Pick<FindByFilterOptions.Options, "search">
     ): Promise<number> {
-        if (!entityModel) throw new Error("The model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
 
         let modelInfo: ModelInfo | null = null;
         try {
             modelInfo = getModelInformation();
         } catch (error) {
             logError("countByFilter - getModelInformation", error as Error, {
-                modelName: entityModel.name
+                model: entityModel.name
             });
         }
 
-        const whereClause = SearchUtils.applyDefaultFilters(
+        let whereClause = SearchUtils.applyDefaultFilters(
             filter,
             modelInfo
         ) as Record<string, unknown>;
+        if (options?.search) {
+            whereClause = SearchUtils.applySearchFilter(
+                whereClause,
+                options.search,
+                modelInfo
+            ) as Record<string, unknown>;
+        }
 
         return entityModel.count({ where: whereClause });
     }
 
+    /**
+     * Finds the records with the given ids, in the order of the ids
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param ids - The primary keys to look up, key objects for a composite key; repeated ids are
+     * looked up once
+     * @param options - Query options; `search` narrows the rows, `onlyOne` and `pagination` are ignored
+     * @returns The records found, following the order of `ids`; ids without a record are skipped
+     *
+     * @remarks
+     * Runs as an `in` condition on the key column, so a list longer than the database accepts in
+     * one query is split and the chunks merged, as in {@link findByFilter}. A composite key runs
+     * as an `or` of one condition per key.
+     */
+    public static async findByIds<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        ids: ReadonlyArray<EntityId>,
+        options?: FindByFilterOptions.Options
+    ): Promise<TModel[]> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+
+        let modelInfo: ModelInfo | null = null;
+        try {
+            modelInfo = getModelInformation();
+        } catch {
+        }
+        const primaryKey = getPrimaryKey(modelInfo);
+
+        const uniqueIds = [...new Map(ids.map(id => [primaryKeyString(primaryKey, id), id])).values()];
+        if (uniqueIds.length === 0) return [];
+
+        const keySearch: Search.Node = isCompositeKey(primaryKey)
+            ? {
+                or: uniqueIds.map(id => ({
+                    and: primaryKey.fields.map(field => ({
+                        field,
+                        equals: (id as Record<string, unknown>)[field]
+                    }))
+                }))
+            }
+            : { field: primaryKey.fields[0], in: uniqueIds };
+
+        const rows = (await this.findByFilter<TModel>(entityModel, getModelInformation, {}, {
+            ...options,
+            onlyOne: false,
+            pagination: undefined,
+            search: andSearch(options?.search, keySearch)
+        })) as TModel[];
+
+        const rowsById = new Map<string, TModel>();
+        for (const row of rows) {
+            const key = readPrimaryKey(primaryKey, row);
+            if (key !== undefined) rowsById.set(primaryKeyString(primaryKey, key), row);
+        }
+        return uniqueIds.flatMap(id => rowsById.get(primaryKeyString(primaryKey, id)) ?? []);
+    }
+
+    /**
+     * Walks every record matching a filter, one batch per query
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param filter - Filter criteria
+     * @param options - `findByFilter` options, with `batchSize` and `signal`
+     * @returns The batches, in `orderBy` order then by primary key
+     *
+     * @remarks
+     * Each batch is a keyset page of {@link findByFilter}, so only one batch is held at a time
+     * and rows written during the walk do not shift it. Every query waits for the configured
+     * rate limiter. An aborted `signal` stops the walk before its next query.
+     */
+    public static async *stream<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        options: FindByFilterOptions.StreamOptions = {}
+    ): AsyncGenerator<TModel[]> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+
+        const { batchSize = STREAM_BATCH_SIZE, signal, ...queryOptions } = options;
+        if (!Number.isInteger(batchSize) || batchSize < 1) {
+            throw new Error("batchSize must be a positive integer");
+        }
+
+        // Full-text matches on MongoDB and relation counts are looked up once, not once per batch
+        const searchOptions = await this.prefetchSearch(entityModel, getModelInformation, queryOptions);
+
+        let cursor: string | null = null;
+        do {
+            this.checkAborted(signal);
+            await getRateLimiter()?.acquire();
+
+            const page = (await this.findByFilter<TModel>(entityModel, getModelInformation, filter, {
+                ...searchOptions,
+                onlyOne: false,
+                pagination: { cursor, limit: batchSize }
+            })) as FindByFilterOptions.CursorPaginatedResponse<TModel>;
+
+            this.checkAborted(signal);
+            if (page.data.length > 0) yield page.data;
+
+            cursor = page.hasMore ? page.nextCursor : null;
+        } while (cursor);
+    }
+
+    /**
+     * Checks whether any record matches the given filter
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param filter - Filter criteria
+     * @param options - Query options; only `search` is used here
+     * @returns Whether a record matches
+     *
+     * @remarks
+     * Reads the primary key of the first matching row only, instead of counting or fetching
+     * them all.
+     */
+    public static async existsByFilter<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        options?: Pick<FindByFilterOptions.Options, "search">
+    ): Promise<boolean> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
+
+        const whereClause = this.buildFilterWhere(entityModel, getModelInformation, filter, options, "existsByFilter");
+        const keyFields = resolvePrimaryKey(getModelInformation).fields;
+        const row = await entityModel.findFirst({
+            where: whereClause,
+            select: Object.fromEntries(keyFields.map(field => [field, true]))
+        });
+
+        return row !== null;
+    }
+
     /**
      * Deletes entities matching the given filter
      * 
@@ -266,7 +549,8 @@ export default class BaseEntityQuery {
         filter: Partial<TModel>,
         options?: FindByFilterOptions.Options
     ): Promise<number> {
-        if (!entityModel) throw new Error("The model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
 
         const whereClause = this.buildFilterWhere(entityModel, getModelInformation, filter, options, "deleteByFilter");
 
@@ -276,7 +560,7 @@ export default class BaseEntityQuery {
             });
             return result.count || 0;
         } catch (error) {
-            logError("deleteByFilter", error as Error, { modelName: entityModel.name });
+            logOrThrow("deleteByFilter", error, entityModel.name ?? "", { model: entityModel.name });
             return 0;
         }
     }
@@ -303,7 +587,8 @@ export default class BaseEntityQuery {
         data: Record<string, unknown>,
         options?: FindByFilterOptions.Options
     ): Promise<number> {
-        if (!entityModel) throw new Error("The model is not defined in the BaseEntity class.");
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
 
         if (!data || Object.keys(data).length === 0) return 0;
 
@@ -316,11 +601,262 @@ export default class BaseEntityQuery {
             });
             return result.count || 0;
         } catch (error) {
-            logError("updateByFilter", error as Error, { modelName: entityModel.name });
+            logOrThrow("updateByFilter", error, entityModel.name ?? "", { model: entityModel.name });
             return 0;
         }
     }
 
+    /**
+     * Computes aggregates over the records matching a filter and search
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param filter - Base equality filter, ANDed with the search
+     * @param options - The search and the aggregates to compute: `_sum`, `_avg`, `_min`, `_max`, `_count`
+     * @returns The aggregates, keyed like Prisma's `aggregate` result
+     *
+     * @remarks
+     * A search with an `in` list longer than {@link CHUNK_SIZE} runs as one `aggregate` per chunk
+     * and the results are merged.
+     * @throws Error when the list cannot be split into disjoint chunks, or an average is asked
+     * over a split list without the count of its field
+     */
+    public static async aggregateByFilter<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        options: Aggregate.Options<TModel>
+    ): Promise<Aggregate.Result> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
+
+        const selection = pickSelection(options);
+        const chunkedSearches = options.search
+            ? SearchResolver.partitionLargeLists(options.search, CHUNK_SIZE)
+            : null;
+
+        if (!chunkedSearches) {
+            const whereClause = this.buildFilterWhere(entityModel, getModelInformation, filter, options, "aggregateByFilter");
+            return entityModel.aggregate({ where: whereClause, ...selection }) as Promise<Aggregate.Result>;
+        }
+
+        assertMergeable(selection);
+        const results = await this.queryChunks(
+            entityModel,
+            getModelInformation,
+            filter,
+            chunkedSearches,
+            whereClause => entityModel.aggregate({ where: whereClause, ...selection }) as Promise<Aggregate.Result>,
+            "aggregateByFilter"
+        );
+
+        return mergeAggregates(results, selection);
+    }
+
+    /**
+     * Groups the records matching a filter and search by the values of some fields, and computes
+     * aggregates per group
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param filter - Base equality filter, ANDed with the search
+     * @param options - The search, `by` fields, aggregates, `having`, `orderBy` and `pagination`
+     * @returns The groups, each with its `by` values and aggregates
+     *
+     * @remarks
+     * Prisma needs an order to page groups, so `pagination` without `orderBy` sorts on the `by`
+     * fields. A search with an `in` list longer than {@link CHUNK_SIZE} runs as one `groupBy` per
+     * chunk; the groups of equal `by` values are merged, then filtered by `having`, sorted and
+     * paged in memory.
+     * @throws Error when the list cannot be split into disjoint chunks, an average is asked over a
+     * split list without the count of its field, or `having` uses an aggregate not selected or an
+     * operator other than `equals`, `not`, `in`, `notIn`, `lt`, `lte`, `gt` and `gte` over a split list
+     */
+    public static async groupByFilter<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        options: Aggregate.GroupByOptions<TModel>
+    ): Promise<Aggregate.Group[]> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+        options = await this.prefetchSearch(entityModel, getModelInformation, options);
+
+        const { by, having, pagination } = options;
+        const selection = pickSelection(options);
+        const orderBy = options.orderBy ?? (pagination ? by.map(field => ({ [field]: "asc" as const })) : undefined);
+        const chunkedSearches = options.search
+            ? SearchResolver.partitionLargeLists(options.search, CHUNK_SIZE)
+            : null;
+
+        if (!chunkedSearches) {
+            const whereClause = this.buildFilterWhere(entityModel, getModelInformation, filter, { search: options.search }, "groupByFilter");
+            return entityModel.groupBy({
+                by: [...by],
+                where: whereClause,
+                ...selection,
+                ...(having ? { having } : {}),
+                ...(orderBy ? { orderBy } : {}),
+                ...(pagination?.skip !== undefined ? { skip: pagination.skip } : {}),
+                ...(pagination?.take !== undefined ? { take: pagination.take } : {})
+            }) as Promise<Aggregate.Group[]>;
+        }
+
+        assertMergeable(selection);
+        const chunks = await this.queryChunks(
+            entityModel,
+            getModelInformation,
+            filter,
+            chunkedSearches,
+            whereClause => entityModel.groupBy({ by: [...by], where: whereClause, ...selection }) as Promise<Aggregate.Group[]>,
+            "groupByFilter"
+        );
+
+        let groups = mergeGroups(chunks, by, selection);
+        if (having) groups = groups.filter(group => matchesHaving(group, having));
+        if (orderBy) groups = sortGroups(groups, orderBy);
+
+        const skip = pagination?.skip ?? 0;
+        return groups.slice(skip, pagination?.take !== undefined ? skip + pagination.take : undefined);
+    }
+
+    /**
+     * Counts the records matching a filter and search per value of some fields
+     *
+     * @template TModel - The entity type
+     * @param entityModel - The Prisma model (delegate) to query
+     * @param getModelInformation - Function to get model information
+     * @param filter - Base equality filter, ANDed with the search
+     * @param options - The caller's `search`, the `facets` to count, and the `tx` to read in
+     * @param scope - The conditions of scopes, soft delete and tenant, which every facet keeps
+     * @returns The counts of each facet, keyed by facet name
+     *
+     * @remarks
+     * The facets are counted side by side, each with the caller's conditions on its own field
+     * left out unless `excludeOwnFilter: false`. A value facet runs one {@link groupByFilter}, a
+     * bucketed facet one {@link aggregateByFilter} per bucket, and an array facet reads the field
+     * of the matching rows batch by batch through {@link stream}, holding one batch at a time —
+     * no raw SQL, so MongoDB counts the same way. Large lists are split as those methods split them.
+     * @throws Error when the buckets of a facet are not strictly ascending numbers
+     */
+    public static async facetsByFilter<TModel extends object>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        options: Facet.Options<TModel>,
+        scope?: Search.Input
+    ): Promise<Facet.Result> {
+        if (!entityModel) throw new ModelNotConfiguredError("The model is not defined in the BaseEntity class.");
+
+        const countFacet = async (facet: Facet.Definition<TModel>): Promise<Facet.Counts> => {
+            const own = facet.excludeOwnFilter === false
+                ? { filter, search: options.search }
+                : withoutField(filter, options.search, facet.field);
+            const search = andSearches(scope, own.search);
+            const { tx } = options;
+
+            if (facet.array) {
+                // The rows are walked in keyset batches, which do not rank; the counts take no order
+                const counts: Facet.Counts = {};
+                const batches = this.stream(entityModel, getModelInformation, own.filter, {
+                    search: search && withoutRanking(search),
+                    select: [facet.field],
+                    tx
+                });
+                for await (const rows of batches) {
+                    countElements(rows as Record<string, unknown>[], facet.field, counts);
+                }
+                return counts;
+            }
+
+            if (facet.buckets) {
+                const buckets = bucketRanges(facet.field, facet.buckets);
+                const results = await Promise.all(buckets.map(bucket =>
+                    this.aggregateByFilter(entityModel, getModelInformation, own.filter, {
+                        search: andSearches(search, bucket.condition),
+                        _count: { _all: true } as Aggregate.CountSelection<TModel>,
+                        tx
+                    })
+                ));
+                return Object.fromEntries(buckets.map((bucket, i) =>
+                    [bucket.label, (results[i]._count as Record<string, number>)._all]
+                ));
+            }
+
+            const groups = await this.groupByFilter(entityModel, getModelInformation, own.filter, {
+                search,
+                by: [facet.field],
+                _count: { _all: true } as Aggregate.CountSelection<TModel>,
+                tx
+            });
+            return Object.fromEntries(groups.map(group =>
+                [facetKey(group[facet.field]), (group._count as Record<string, number>)._all]
+            ));
+        };
+
+        const counts = await Promise.all(options.facets.map(countFacet));
+        return Object.fromEntries(options.facets.map((facet, i) => [facet.name ?? facet.field, counts[i]]));
+    }
+
+    /**
+     * Runs the lookups a search needs before it can be resolved into one `where`: the documents a
+     * `matches` condition finds on MongoDB, whose `$text` has no `where` form, and the relation
+     * counts Prisma cannot filter on
+     *
+     * @returns The options unchanged when the search needs no lookup
+     * @private
+     */
+    private static async prefetchSearch<TModel extends object, TOptions extends { search?: Search.Input; tx?: TransactionClient } | undefined>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        options: TOptions
+    ): Promise<TOptions> {
+        const initial = options?.search;
+        if (!initial) return options;
+
+        let search = initial;
+        if (fullTextStrategy() === "text" && hasTextSearch(search)) {
+            const [keyField] = resolvePrimaryKey(getModelInformation).fields;
+            search = await prefetchTextMatches(entityModel, search, keyField);
+        }
+        if (SearchResolver.hasRelationCount(search)) {
+            search = await SearchResolver.prefetchCounts(search, getModelInformation(), resolveClient(options.tx));
+        }
+
+        return search === initial ? options : { ...options, search };
+    }
+
+    /**
+     * Runs one query per chunk of a split search, in parallel where enabled
+     *
+     * @param searches - The chunks from `SearchResolver.partitionLargeLists`
+     * @param run - The query of one chunk, given its `where`
+     * @param context - Caller name, for error logging
+     * @returns The result of each chunk
+     * @private
+     */
+    private static async queryChunks<TModel extends object, TResult>(
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ModelInfo,
+        filter: Partial<TModel>,
+        searches: Search.Input[],
+        run: (whereClause: Record<string, unknown>) => Promise<TResult>,
+        context: string
+    ): Promise<TResult[]> {
+        const whereClauses = searches.map(
+            search => this.buildFilterWhere(entityModel, getModelInformation, filter, { search }, context)
+        );
+
+        const useParallel = isParallelEnabled() && whereClauses.length > 1 && !shouldDisableParallel();
+        if (!useParallel) return Promise.all(whereClauses.map(run));
+
+        const result = await executeInParallel(whereClauses.map(whereClause => () => run(whereClause)));
+        reportBatchFailures(context, entityModel.name ?? "", result.errors);
+
+        return result.results as TResult[];
+    }
+
     /**
      * Builds the `where` clause shared by the filter-based mutations
      *
@@ -340,7 +876,7 @@ export default class BaseEntityQuery {
             modelInfo = getModelInformation();
         } catch (error) {
             logError(`${context} - getModelInformation`, error as Error, {
-                modelName: entityModel.name
+                model: entityModel.name
             });
         }
 
@@ -359,35 +895,113 @@ export default class BaseEntityQuery {
         return whereClause;
     }
 
-    private static sortResults<TModel extends object>(
-        data: TModel[],
+    /**
+     * Adds the filter, order and limit of `includeFilters` to the relations of an include tree
+     *
+     * @param include - The include tree built from `relationsToInclude`
+     * @param filters - The narrowing of each relation path
+     * @param modelInfo - The model the tree is included on
+     * @returns A narrowed copy of the tree
+     * @throws Error when a path is not included, or ends at a to-one relation, which Prisma
+     * cannot filter
+     */
+    private static narrowIncludes(
+        include: Record<string, unknown>,
+        filters: Record<string, FindByFilterOptions.IncludeFilter>,
+        modelInfo: ModelInfo | null,
+        prismaInstance?: unknown
+    ): Record<string, unknown> {
+        const narrowed = { ...include };
+
+        for (const [path, narrowing] of Object.entries(filters)) {
+            const segments = path.split(".");
+            let level = narrowed;
+            let info: ModelInfo | null = modelInfo;
+
+            segments.forEach((segment, index) => {
+                const field = info?.fields.find(candidate => candidate.name === segment && candidate.kind === "object");
+                if (!field || level[segment] === undefined) {
+                    throw new Error(`Cannot narrow the include "${path}": "${segment}" is not an included relation.`);
+                }
+
+                const relatedInfo = ModelUtils.getModelInformationCached(field.type, prismaInstance);
+                const entry: Record<string, unknown> = level[segment] === true
+                    ? {}
+                    : { ...(level[segment] as Record<string, unknown>) };
+                level[segment] = entry;
+
+                if (index < segments.length - 1) {
+                    entry.include = { ...(entry.include as Record<string, unknown> | undefined) };
+                    level = entry.include as Record<string, unknown>;
+                    info = relatedInfo;
+                    return;
+                }
+
+                if (!field.isList) {
+                    throw new Error(`Cannot narrow the include "${path}": only to-many relations can be filtered.`);
+                }
+
+                let where = SearchUtils.applyDefaultFilters(narrowing.filter ?? {}, relatedInfo) as Record<string, unknown>;
+                if (narrowing.search) {
+                    where = SearchUtils.applySearchFilter(where, narrowing.search, relatedInfo) as Record<string, unknown>;
+                }
+                if (entry.where) {
+                    where = Object.keys(where).length > 0 ? { AND: [entry.where, where] } : entry.where as Record<string, unknown>;
+                }
+
+                if (Object.keys(where).length > 0) entry.where = where;
+                if (narrowing.orderBy) entry.orderBy = toPrismaOrderBy(narrowing.orderBy);
+                if (narrowing.take !== undefined) entry.take = narrowing.take;
+            });
+        }
+
+        return narrowed;
+    }
+
+    /**
+     * The fields a `select` option reads: the primary key, which merged results are deduplicated
+     * by, and the fields sorted on, which the batched paths sort by in memory
+     */
+    private static selectPaths(
+        select: readonly string[],
+        keyFields: readonly string[],
         orderBy?: FindByFilterOptions.OrderBy
-    ): TModel[] {
-        if (!orderBy) return data;
-
-        // Normalize orderBy to always be an array of OrderByItem
-        const orderByArray: FindByFilterOptions.OrderByItem[] = Array.isArray(orderBy) 
-            ? orderBy 
-            : [orderBy];
-
-        return [...data].sort((a, b) => {
-            for (const orderByItem of orderByArray) {
-                const [orderByKey, orderByDirection] = Object.entries(orderByItem)[0] as [
-                    string,
-                    "asc" | "desc"
-                ];
-
-                const aVal = (a as Record<string, unknown>)[orderByKey] as unknown;
-                const bVal = (b as Record<string, unknown>)[orderByKey] as unknown;
-
-                if (aVal == null && bVal == null) continue;
-                if (aVal == null) return orderByDirection === "asc" ? -1 : 1;
-                if (bVal == null) return orderByDirection === "asc" ? 1 : -1;
-
-                if (aVal < bVal) return orderByDirection === "asc" ? -1 : 1;
-                if (aVal > bVal) return orderByDirection === "asc" ? 1 : -1;
-            }
-            return 0;
-        });
+    ): string[] {
+        const orderByFields = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [])
+            .flatMap(item => Object.keys(item));
+        return [...new Set([...keyFields, ...orderByFields, ...select])];
+    }
+
+    /**
+     * Refuses a ranked search on a path that cannot order by relevance
+     *
+     * @param path - How the rows are read, for the message
+     * @throws Error when a `matches` condition ranks on a provider that can rank
+     */
+    private static refuseRanking(search: Search.Input | undefined, path: string): void {
+        if (withRelevance(search, undefined) === undefined) return;
+        throw new Error(`Cannot order by relevance ${path}: rank needs offset pagination over a search that runs as one query.`);
+    }
+
+    /**
+     * Where the configured database sorts NULLs, for the merged rows to keep the order of the
+     * queries they come from
+     */
+    private static nullOrdering(): NullOrdering {
+        if (!isPrismaConfigured()) return nullOrderingOf(null);
+
+        try {
+            return nullOrderingOf(getDatabaseProviderCached());
+        } catch {
+            return nullOrderingOf(null);
+        }
+    }
+
+    /**
+     * Throws the abort reason of a signal once it aborts; `AbortSignal.throwIfAborted` and
+     * `reason` are missing on the earlier Node 16 releases
+     */
+    private static checkAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) throw signal.reason ?? new Error("The operation was aborted");
     }
 }
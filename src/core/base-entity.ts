@@ -1,16 +1,55 @@
 import { IBaseEntity, EntityOperationOptions } from "./structures/interfaces/base-entity.interface";
-import { FindByFilterOptions } from "./structures/types/search.types";
+import { FindByFilterOptions, type Search } from "./structures/types/search.types";
+import { Lifecycle } from "./structures/types/lifecycle.types";
 import DataUtils from "./data-utils";
 import ModelUtils from "./model-utils";
-import { logError } from "./utils/error-utils";
+import { isRecordNotFoundError, logError, toEntityError } from "./utils/error-utils";
+import { isStrictErrors } from "./config";
 import { hasChanges as compareHasChanges } from "./utils/comparison-utils";
 import BaseEntityBatch, { type UpsertManyResult } from "./base-entity-batch";
 import BaseEntityQuery from "./base-entity-query";
 import BaseEntityHelpers from "./base-entity-helpers";
 import { EntityPrismaModel } from "./structures/interfaces/entity.interface";
-import type { UpsertManyHooks } from "./config";
+import { withoutRanking } from "./full-text";
+import type { UpsertManyAfterHookPayload, UpsertManyBeforeHookPayload, UpsertManyHooks } from "./config";
 import type { TransactionClient } from "./transaction-context";
 import { resolveModel } from "./utils/transaction-utils";
+import { createHookContext, runBatchHook, runInstanceHook, runItemHooks } from "./lifecycle-hooks";
+import { diffSnapshot, getSnapshot, recordSnapshot, type EntityChanges } from "./entity-snapshot";
+import { applyTrashScope, getSoftDeleteField } from "./soft-delete";
+import { applyQueryScopes, createScopedQuery } from "./query-scopes";
+import { EntityQuery } from "./query-builder";
+import { applyTenantScope, stampTenant, tenantWhere, withTenantKey } from "./multi-tenancy";
+import {
+    findRowsByIds,
+    findRowsByUniqueKeys,
+    getAuditSink,
+    opensAuditTransaction,
+    recordAudit,
+    runAuditTransaction,
+    withoutAudit,
+    type AuditWrite
+} from "./audit-trail";
+import { getVersionField, hasVersion, nextVersion } from "./optimistic-lock";
+import { EntityNotFoundError, ModelNotConfiguredError, OptimisticLockError, ValidationError } from "./errors";
+import { validateItems, validateValues } from "./entity-validation";
+import { hydrateResult, shouldHydrate } from "./entity-hydration";
+import { Validation } from "./structures/types/validation.types";
+import { Serialization } from "./structures/types/serialization.types";
+import { Scope } from "./structures/types/scope.types";
+import { Aggregate } from "./structures/types/aggregate.types";
+import { Facet } from "./structures/types/facet.types";
+import { serializeEntity } from "./entity-serialization";
+import {
+    describePrimaryKey,
+    primaryKeyFilter,
+    primaryKeyString,
+    primaryKeyWhere,
+    readPrimaryKey,
+    resolvePrimaryKey,
+    type EntityId,
+    type PrimaryKey
+} from "./primary-key";
 
 interface BaseEntityCtor<TModel extends object> {
     new(...args: any[]): BaseEntity<TModel>;
@@ -32,6 +71,52 @@ export default abstract class BaseEntity<
     static readonly model: unknown;
     public readonly id?: number | string;
 
+    /**
+     * Query scopes. `scopes` names search trees applied with `scoped()` or the `scopes` option;
+     * `defaultScope` restricts every read and filtered write unless `unscoped`. See {@link Scope}.
+     */
+    static scopes?: Scope.Definitions;
+    static defaultScope?: Search.Input;
+
+    /**
+     * Lifecycle hooks. Declare any of these in a subclass to run logic around its writes; `this`
+     * is the entity, so a `before*` hook can assign properties and they are written.
+     *
+     * `beforeCreate` / `beforeUpdate` also run once per item in `createMany` / `updateManyById`.
+     * See {@link Lifecycle} for the full picture.
+     */
+    protected beforeCreate?(context: Lifecycle.Context): void | Promise<void>;
+    protected afterCreate?(context: Lifecycle.Context): void | Promise<void>;
+    protected beforeUpdate?(context: Lifecycle.Context): void | Promise<void>;
+    protected afterUpdate?(context: Lifecycle.Context): void | Promise<void>;
+    protected beforeDelete?(context: Lifecycle.Context): void | Promise<void>;
+    protected afterDelete?(context: Lifecycle.Context): void | Promise<void>;
+
+    /**
+     * Batch lifecycle hooks, run once per call of the batch methods.
+     *
+     * - `*CreateMany` — `createMany`
+     * - `*UpdateMany` — `updateManyById` and `updateByFilter`
+     * - `*DeleteMany` — `deleteByFilter` and `deleteByIds`
+     * - `*UpsertMany` — `upsertMany`, with the same payloads as {@link UpsertManyHooks}
+     */
+    protected static beforeCreateMany?(payload: Lifecycle.ItemsPayload): void | Promise<void>;
+    protected static afterCreateMany?(result: Lifecycle.BatchResult<Lifecycle.ItemsPayload>): void | Promise<void>;
+    protected static beforeUpdateMany?(
+        payload: Lifecycle.ItemsPayload | Lifecycle.FilterPayload
+    ): void | Promise<void>;
+    protected static afterUpdateMany?(
+        result: Lifecycle.BatchResult<Lifecycle.ItemsPayload | Lifecycle.FilterPayload>
+    ): void | Promise<void>;
+    protected static beforeDeleteMany?(
+        payload: Lifecycle.FilterPayload | Lifecycle.IdsPayload
+    ): void | Promise<void>;
+    protected static afterDeleteMany?(
+        result: Lifecycle.BatchResult<Lifecycle.FilterPayload | Lifecycle.IdsPayload>
+    ): void | Promise<void>;
+    protected static beforeUpsertMany?(payload: UpsertManyBeforeHookPayload): void | Promise<void>;
+    protected static afterUpsertMany?(payload: UpsertManyAfterHookPayload): void | Promise<void>;
+
     constructor(data?: Partial<TModel>) {
         this.initializeProperties(data);
     }
@@ -93,14 +178,82 @@ export default abstract class BaseEntity<
         });
     }
 
+    /**
+     * Applies named scopes to the filtered methods
+     *
+     * @param names - Scopes declared in the `scopes` of the class
+     * @returns `findByFilter`, `countByFilter`, `updateByFilter` and `deleteByFilter` restricted to
+     * the scopes, and to the default scope
+     * @throws EntityError from the query when a scope is not declared
+     *
+     * @example
+     * ```typescript
+     * class User extends BaseEntity<IUser> {
+     *   static override scopes: Scope.Definitions = {
+     *     active: { field: 'status', equals: 'ACTIVE' },
+     *     recent: { field: 'createdAt', gte: new Date('2024-01-01') }
+     *   };
+     * }
+     *
+     * const users = await User.scoped('active', 'recent').findByFilter({ country: 'ES' });
+     * ```
+     */
+    public static scoped<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        ...names: string[]
+    ): Scope.Query<TModel> {
+        return createScopedQuery<TModel>(this, { scopes: names, unscoped: false });
+    }
+
+    /**
+     * Leaves the default scope out of the filtered methods
+     *
+     * @returns `findByFilter`, `countByFilter`, `updateByFilter` and `deleteByFilter` without the
+     * `defaultScope` of the class; chain `scoped()` to apply named scopes
+     *
+     * @example
+     * ```typescript
+     * const everyone = await User.unscoped().countByFilter({});
+     * ```
+     */
+    public static unscoped<TModel extends object>(this: BaseEntityCtor<TModel>): Scope.Query<TModel> {
+        return createScopedQuery<TModel>(this, { scopes: [], unscoped: true });
+    }
+
+    /**
+     * Starts a fluent query on the class
+     *
+     * @returns An immutable builder: `where()`, `search()`, `include()`, `orderBy()`, `paginate()`,
+     * then one of `all()`, `first()`, `count()`, `exists()`, `stream()`, `update(data)` or `delete()`
+     *
+     * @example
+     * ```typescript
+     * const active = User.query().where({ isActive: true });
+     *
+     * const page = await active
+     *   .search(anyOf(['name', 'email'], { like: 'john' }))
+     *   .include('posts', posts => posts.where({ published: true }).limit(5))
+     *   .orderBy('createdAt', 'desc')
+     *   .paginate(1, 20)
+     *   .all();
+     * const total = await active.count();
+     * ```
+     */
+    public static query<TModel extends object>(this: BaseEntityCtor<TModel>): EntityQuery<TModel> {
+        return new EntityQuery<TModel>(this);
+    }
+
     /**
      * Finds entities by applying filters, search criteria, pagination, and ordering.
      * Supports relation includes, complex searches, and automatic chunking for large list searches (>10k items).
      * 
      * @template T - The entity type
      * @param filter - Base filter object with entity properties to match
-     * @param options - Query options (search, pagination, relationsToInclude, orderBy, onlyOne)
-     * @returns PaginatedResponse<T> if paginated, T if onlyOne, T[] otherwise, or null if no results
+     * @param options - Query options (search, pagination, relationsToInclude, select, orderBy, onlyOne, hydrate)
+     * @returns PaginatedResponse<T> if paginated, CursorPaginatedResponse<T> with `pagination: { cursor, limit }`,
+     * T if onlyOne, T[] otherwise, or null if no results;
+     * with `hydrate`, the rows are instances of the calling class; with `select`, T only holds the
+     * selected fields
      * @throws Error if model is not defined
      * 
      * @example
@@ -114,6 +267,16 @@ export default abstract class BaseEntity<
      *     orderBy: { createdAt: 'desc' }
      *   }
      * );
+     *
+     * // Keyset pagination: pass nextCursor back for the following page
+     * const first = await User.findByFilter({}, { orderBy: { createdAt: 'desc' }, pagination: { limit: 50 } });
+     * const second = await User.findByFilter({}, {
+     *   orderBy: { createdAt: 'desc' },
+     *   pagination: { cursor: first.nextCursor, limit: 50 }
+     * });
+     *
+     * // Only some columns, and the title of each post
+     * const users = await User.findByFilter({}, { select: ['name', 'posts.title'] });
      * 
      * // Search tree: (name LIKE john OR email LIKE john) AND price >= 100
      * const result = await User.findByFilter({}, {
@@ -124,31 +287,40 @@ export default abstract class BaseEntity<
      * });
      * ```
      */
-    public static async findByFilter<TModel extends object>(
+    public static async findByFilter<TModel extends object, TSelect extends FindByFilterOptions.SelectPath<TModel> = never>(
         this: BaseEntityCtor<TModel>,
         filter: Partial<TModel>,
-        options: FindByFilterOptions.Options = FindByFilterOptions.defaultOptions
-    ): Promise<FindByFilterOptions.PaginatedResponse<TModel> | TModel[] | TModel | null> {
+        options: FindByFilterOptions.Options<TSelect> = FindByFilterOptions.defaultOptions
+    ): Promise<
+        | FindByFilterOptions.PaginatedResponse<FindByFilterOptions.Selected<TModel, TSelect>>
+        | FindByFilterOptions.CursorPaginatedResponse<FindByFilterOptions.Selected<TModel, TSelect>>
+        | FindByFilterOptions.Selected<TModel, TSelect>[]
+        | FindByFilterOptions.Selected<TModel, TSelect>
+        | null
+    > {
         const entityModel = resolveModel(this.model, options.tx);
         const getModelInformation = () => this.getModelInformation();
 
-        return BaseEntityQuery.findByFilter<TModel>(
+        const result = await BaseEntityQuery.findByFilter<TModel>(
             entityModel,
             getModelInformation,
             filter,
-            options
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
         );
+
+        return shouldHydrate(options) ? hydrateResult(this, result, options.onlyOne) : result;
     }
 
     /**
      * Counts the number of records matching the given filter
      * @param filter - Filter criteria
+     * @param options - `search` to narrow the rows, `withTrashed` / `onlyTrashed`, `tx`
      * @returns Promise<number> - The count of matching records
      */
     public static async countByFilter<TModel extends object>(
         this: BaseEntityCtor<TModel>,
         filter: Partial<TModel>,
-        options?: EntityOperationOptions
+        options?: Pick<FindByFilterOptions.Options, "search" | "withTrashed" | "onlyTrashed" | "scopes" | "unscoped"> & EntityOperationOptions
     ): Promise<number> {
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
@@ -156,8 +328,294 @@ export default abstract class BaseEntity<
         return BaseEntityQuery.countByFilter<TModel>(
             entityModel,
             getModelInformation,
-            filter
+            filter,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
+        );
+    }
+
+    /**
+     * Computes aggregates over the records matching a filter, as Prisma's `aggregate` does
+     *
+     * @param filter - Equality filter, ANDed with the search
+     * @param options - The aggregates (`_sum`, `_avg`, `_min`, `_max`, `_count`), `search`,
+     * `withTrashed` / `onlyTrashed`, `scopes` / `unscoped`, `tx`
+     * @returns The aggregates, keyed like the selection
+     *
+     * @example
+     * ```typescript
+     * const { _count, _avg } = await User.aggregateByFilter({ isActive: true }, {
+     *   _count: { age: true },
+     *   _avg: { age: true }
+     * });
+     * ```
+     *
+     * @remarks
+     * A search with an `in` list too long for one query runs in chunks whose aggregates are
+     * merged; averaging over such a list needs the `_count` of the averaged field.
+     */
+    public static async aggregateByFilter<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options: Aggregate.Options<TModel>
+    ): Promise<Aggregate.Result> {
+        const entityModel = resolveModel(this.model, options.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        return BaseEntityQuery.aggregateByFilter<TModel>(
+            entityModel,
+            getModelInformation,
+            filter,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
+        );
+    }
+
+    /**
+     * Groups the records matching a filter by the values of some fields, as Prisma's `groupBy` does
+     *
+     * @param filter - Equality filter, ANDed with the search
+     * @param options - `by`, the aggregates of each group, `having`, `orderBy`, `pagination`,
+     * `search`, `withTrashed` / `onlyTrashed`, `scopes` / `unscoped`, `tx`
+     * @returns The groups, each with its `by` values and aggregates
+     *
+     * @example
+     * ```typescript
+     * const byCountry = await User.groupByFilter({ isActive: true }, {
+     *   by: ['country'],
+     *   _count: { _all: true },
+     *   having: { age: { _avg: { gte: 30 } } },
+     *   orderBy: { _count: { country: 'desc' } },
+     *   pagination: { take: 10 }
+     * });
+     * ```
+     */
+    public static async groupByFilter<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options: Aggregate.GroupByOptions<TModel>
+    ): Promise<Aggregate.Group[]> {
+        const entityModel = resolveModel(this.model, options.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        return BaseEntityQuery.groupByFilter<TModel>(
+            entityModel,
+            getModelInformation,
+            filter,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
+        );
+    }
+
+    /**
+     * Counts the records matching a filter per value of some fields, for the facet counts next
+     * to a filtered listing
+     *
+     * @param filter - Equality filter, ANDed with the search
+     * @param options - `facets`, `search`, `withTrashed` / `onlyTrashed`, `scopes` / `unscoped`, `tx`
+     * @returns The counts of each facet — value, bucket label or list element to count — keyed by
+     * facet name
+     *
+     * @example
+     * ```typescript
+     * const facets = await Product.facetsByFilter({ status: 'active' }, {
+     *   search: { field: 'name', like: 'shoe' },
+     *   facets: [{ field: 'status' }, { field: 'price', buckets: [0, 50, 100] }, { field: 'tags', array: true }]
+     * });
+     * // { status: { active: 12, draft: 3 }, price: { '0-50': 4, '50-100': 6, '100+': 2 }, tags: { sale: 5 } }
+     * ```
+     *
+     * @remarks
+     * Each facet leaves out the conditions on its own field, so the `status` facet above still
+     * counts drafts; scopes, soft delete and the tenant apply to every facet.
+     */
+    public static async facetsByFilter<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options: Facet.Options<TModel>
+    ): Promise<Facet.Result> {
+        const entityModel = resolveModel(this.model, options.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        // The scope conditions alone, kept apart from the caller's search a facet may narrow
+        const { search: scope } = applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, { ...options, search: undefined })));
+
+        return BaseEntityQuery.facetsByFilter<TModel>(entityModel, getModelInformation, filter, options, scope);
+    }
+
+    /**
+     * Finds the record with the given id
+     *
+     * @param id - The primary key; for a composite key, an object holding every key field
+     * @param options - `relationsToInclude`, `withTrashed` / `onlyTrashed`, `hydrate`, `tx`
+     * @returns The record, or `null` when there is none
+     *
+     * @example
+     * ```typescript
+     * const user = await User.findById(7, { relationsToInclude: ['posts'] });
+     * const membership = await Membership.findById({ tenantId: 1, code: 'ADMIN' });
+     * ```
+     */
+    public static async findById<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        id: EntityId,
+        options?: Pick<FindByFilterOptions.Options, "relationsToInclude" | "withTrashed" | "onlyTrashed" | "scopes" | "unscoped" | "hydrate"> & EntityOperationOptions
+    ): Promise<TModel | null> {
+        const entityModel = resolveModel(this.model, options?.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        const found = await BaseEntityQuery.findByFilter<TModel>(
+            entityModel,
+            getModelInformation,
+            primaryKeyFilter(BaseEntity.primaryKeyOf(this), id) as Partial<TModel>,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, { ...options, onlyOne: true })))
+        ) as TModel | null;
+
+        return shouldHydrate(options) ? hydrateResult(this, found, true) : found;
+    }
+
+    /**
+     * Finds the record with the given id, failing when there is none
+     *
+     * @param id - The primary key; for a composite key, an object holding every key field
+     * @param options - `relationsToInclude`, `withTrashed` / `onlyTrashed`, `hydrate`, `tx`
+     * @returns The record
+     * @throws EntityNotFoundError when no record has the id
+     */
+    public static async findByIdOrThrow<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        id: EntityId,
+        options?: Pick<FindByFilterOptions.Options, "relationsToInclude" | "withTrashed" | "onlyTrashed" | "scopes" | "unscoped" | "hydrate"> & EntityOperationOptions
+    ): Promise<TModel> {
+        const found = await BaseEntity.findById.call(this, id, options) as TModel | null;
+        if (found === null) {
+            throw new EntityNotFoundError(this.model?.name ?? "", primaryKeyFilter(BaseEntity.primaryKeyOf(this), id));
+        }
+        return found;
+    }
+
+    /**
+     * Finds the records with the given ids, in the order of the ids
+     *
+     * @param ids - The primary keys, key objects for a composite key; repeated ids are returned once
+     * @param options - `relationsToInclude`, `search` to narrow the rows, `withTrashed` /
+     * `onlyTrashed`, `parallel` / `concurrency`, `hydrate`, `tx`
+     * @returns The records found, following the order of `ids`; ids without a record are skipped
+     *
+     * @remarks
+     * Lists longer than the database accepts in one query are split into chunks, queried in
+     * parallel when enabled, and merged.
+     *
+     * @example
+     * ```typescript
+     * const users = await User.findByIds([3, 1, 2]); // users 3, 1 and 2, in that order
+     * ```
+     */
+    public static async findByIds<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        ids: ReadonlyArray<EntityId>,
+        options?: Omit<FindByFilterOptions.Options, "onlyOne" | "pagination" | "orderBy">
+    ): Promise<TModel[]> {
+        const entityModel = resolveModel(this.model, options?.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        const found = await BaseEntityQuery.findByIds<TModel>(
+            entityModel,
+            getModelInformation,
+            ids,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
         );
+
+        return shouldHydrate(options) ? hydrateResult(this, found) : found;
+    }
+
+    /**
+     * Checks whether any record matches the given filter, without fetching the matches
+     *
+     * @param filter - Filter criteria
+     * @param options - `search` to narrow the rows, `withTrashed` / `onlyTrashed`, `tx`
+     * @returns Whether a record matches
+     *
+     * @example
+     * ```typescript
+     * if (await User.existsByFilter({ email })) {
+     *   throw new Error('Email already registered');
+     * }
+     * ```
+     */
+    public static async existsByFilter<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options?: Pick<FindByFilterOptions.Options, "search" | "withTrashed" | "onlyTrashed" | "scopes" | "unscoped"> & EntityOperationOptions
+    ): Promise<boolean> {
+        const entityModel = resolveModel(this.model, options?.tx);
+        const getModelInformation = () => this.getModelInformation();
+
+        return BaseEntityQuery.existsByFilter<TModel>(
+            entityModel,
+            getModelInformation,
+            filter,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
+        );
+    }
+
+    /**
+     * Walks every record matching a filter without loading them all, in bounded batches
+     *
+     * @param filter - Base filter object with entity properties to match
+     * @param options - `findByFilter` options (`search`, `orderBy`, `relationsToInclude`, `select`,
+     * `hydrate`, scopes, `tx`), plus `batchSize` (default 1000), `signal` to stop the walk and
+     * `batches` to yield arrays of rows
+     * @returns An async iterable of the rows, or of the batches with `batches: true`
+     *
+     * @remarks
+     * The rows are read in `orderBy` order then by primary key, one keyset page per query, so
+     * rows written during the walk neither repeat nor shift it. Each query waits for the rate
+     * limiter of `configurePrisma()`. Nothing is read until the iteration starts.
+     *
+     * @example
+     * ```typescript
+     * for await (const user of User.stream({ isActive: true }, { batchSize: 500 })) {
+     *   await exportRow(user);
+     * }
+     *
+     * const controller = new AbortController();
+     * for await (const batch of User.stream({}, { batches: true, signal: controller.signal })) {
+     *   await reindex(batch);
+     * }
+     * ```
+     */
+    public static stream<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options: FindByFilterOptions.StreamOptions & { batches: true }
+    ): AsyncIterable<TModel[]>;
+    public static stream<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options?: FindByFilterOptions.StreamOptions
+    ): AsyncIterable<TModel>;
+    public static async *stream<TModel extends object>(
+        this: BaseEntityCtor<TModel>,
+        filter: Partial<TModel>,
+        options: FindByFilterOptions.StreamOptions = {}
+    ): AsyncGenerator<TModel | TModel[]> {
+        const entityModel = resolveModel(this.model, options.tx);
+        const getModelInformation = () => this.getModelInformation();
+        const hydrate = shouldHydrate(options);
+
+        const batches = BaseEntityQuery.stream<TModel>(
+            entityModel,
+            getModelInformation,
+            filter,
+            applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)))
+        );
+
+        for await (const batch of batches) {
+            const rows = hydrate ? hydrateResult(this, batch) : batch;
+            if (options.batches) {
+                yield rows;
+            } else {
+                yield* rows;
+            }
+        }
     }
 
     public async findByFilter(
@@ -165,12 +623,14 @@ export default abstract class BaseEntity<
         options: FindByFilterOptions.Options = FindByFilterOptions.defaultOptions
     ): Promise<
         | FindByFilterOptions.PaginatedResponse<TModel>
+        | FindByFilterOptions.CursorPaginatedResponse<TModel>
         | TModel[]
         | TModel
         | null
     > {
         return (this.constructor as any).findByFilter(filter, options) as Promise<
             | FindByFilterOptions.PaginatedResponse<TModel>
+            | FindByFilterOptions.CursorPaginatedResponse<TModel>
             | TModel[]
             | TModel
             | null
@@ -179,7 +639,7 @@ export default abstract class BaseEntity<
 
     public async countByFilter(
         filter: Partial<TModel>,
-        options?: EntityOperationOptions
+        options?: Pick<FindByFilterOptions.Options, "search" | "withTrashed" | "onlyTrashed" | "scopes" | "unscoped"> & EntityOperationOptions
     ): Promise<number> {
         return (this.constructor as any).countByFilter(filter, options) as Promise<number>;
     }
@@ -219,7 +679,7 @@ export default abstract class BaseEntity<
         }
 
         if (!modelNameToUse) {
-            throw new Error("The model is not defined or does not have a name.");
+            throw new ModelNotConfiguredError("The model is not defined or does not have a name.");
         }
 
         // Extract Prisma instance from model.$parent if available
@@ -247,6 +707,10 @@ export default abstract class BaseEntity<
      * ```
      */
     async create(options?: EntityOperationOptions): Promise<TModel> {
+        if (opensAuditTransaction(this.constructor, options?.tx)) {
+            return runAuditTransaction(() => this.create(options));
+        }
+
         const { model } = this.constructor as BaseEntityCtor<TModel>;
 
         // Type guard: check if model has create method
@@ -255,10 +719,13 @@ export default abstract class BaseEntity<
             model === null ||
             typeof model.create !== "function"
         ) {
-            throw new Error("Model is not defined in the BaseEntity class.");
+            throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         }
 
         const typedModel = resolveModel(model as EntityPrismaModel<TModel>, options?.tx);
+        const context = createHookContext(model, "create", options?.tx);
+
+        await runInstanceHook(this, "beforeCreate", context);
 
         // Get model information for relation processing
         let modelInfo: ReturnType<typeof ModelUtils.getModelInformationCached> | null =
@@ -268,17 +735,40 @@ export default abstract class BaseEntity<
         } catch {
         }
 
-        // Sanitize and process data using helper methods
-        const rawData = BaseEntityHelpers.sanitizeKeysRecursive(this);
+        // Sanitize and process data using helper methods; a tenant-scoped row gets the tenant of
+        // the context
+        const [rawData] = stampTenant(this.constructor, [BaseEntityHelpers.sanitizeKeysRecursive(this)]);
+        BaseEntity.assertValid(this.constructor, model.name, rawData);
         const data = DataUtils.processRelations(rawData, modelInfo);
 
         if (!data || Object.keys(data).length === 0) {
             throw new Error("Cannot create: no data provided.");
         }
 
+        // Write the soft-delete column explicitly, so "live" rows match `IS NULL` on every
+        // provider — MongoDB does not count a missing field as null
+        const softDeleteField = getSoftDeleteField(this.constructor);
+        if (softDeleteField && data[softDeleteField] === undefined) {
+            data[softDeleteField] = null;
+        }
+
         // Create entity and update instance properties
-        const created = await typedModel.create({ data });
+        let created: TModel & { id: number | string };
+        try {
+            created = await typedModel.create({ data });
+        } catch (error) {
+            throw toEntityError(error, model.name ?? "");
+        }
         this.assignProperties(created);
+        this.markClean();
+
+        await recordAudit(this.constructor, [{
+            operation: "create",
+            entityId: readPrimaryKey(BaseEntity.primaryKeyOf(this.constructor), created),
+            after: created
+        }], options?.tx);
+
+        await runInstanceHook(this, "afterCreate", context);
         return created;
     }
 
@@ -292,17 +782,41 @@ export default abstract class BaseEntity<
             concurrency?: number;
             handleRelations?: boolean;
             tx?: TransactionClient;
-        }
+        } & Validation.BatchOptions
     ): Promise<number> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.createMany.call(this, items, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
+        const context = createHookContext(this.model, "createMany", options?.tx);
+
+        // Validated after the item hooks, which may normalize what they check
+        const hooked = await runItemHooks(this, "beforeCreate", items as Array<Record<string, unknown>>, context);
+        const payload: Lifecycle.ItemsPayload = {
+            ...context,
+            items: await validateItems(this, context.modelName, stampTenant(this, hooked), options)
+        };
+        await runBatchHook(this, "beforeCreateMany", payload);
 
-        return BaseEntityBatch.createMany<TModel>(
+        const count = await BaseEntityBatch.createMany<TModel>(
             entityModel,
             getModelInformation,
-            items,
+            BaseEntity.withLiveMarker(this, payload.items) as Partial<TModel>[],
             options
         );
+
+        // createMany does not read back what it inserts: the entries carry the ids the items hold
+        const primaryKey = BaseEntity.primaryKeyOf(this);
+        await recordAudit(this, payload.items.map(item => ({
+            operation: "create",
+            entityId: readPrimaryKey(primaryKey, item),
+            after: item
+        })), options?.tx);
+
+        await runBatchHook(this, "afterCreateMany", { ...payload, count });
+        return count;
     }
 
     /**
@@ -329,11 +843,15 @@ export default abstract class BaseEntity<
             tx?: TransactionClient;
         }
     ): Promise<TModel> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.upsert.call(this, data, options) as Promise<TModel>);
+        }
+
         const entityModel = this.model;
 
         // Type guard: check if model has required methods
         if (typeof entityModel !== "object" || entityModel === null) {
-            throw new Error("Model is not defined in the BaseEntity class.");
+            throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         }
 
         if (
@@ -342,7 +860,7 @@ export default abstract class BaseEntity<
             typeof entityModel.update !== "function" ||
             typeof entityModel.create !== "function"
         ) {
-            throw new Error("Model is not defined in the BaseEntity class.");
+            throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         }
 
         const typedModel = resolveModel(entityModel, options?.tx);
@@ -368,8 +886,12 @@ export default abstract class BaseEntity<
         } catch {
         }
 
-        // Process data through helper methods pipeline
-        const clean = BaseEntityHelpers.sanitizeKeysRecursive(data);
+        // Process data through helper methods pipeline. A soft-deleted row matching the unique
+        // keys is revived rather than duplicated; on a tenant-scoped entity only a row of the
+        // same tenant matches.
+        const [live] = BaseEntity.withLiveMarker(this, stampTenant(this, [data as Record<string, unknown>]));
+        const clean = BaseEntityHelpers.sanitizeKeysRecursive(live);
+        BaseEntity.assertValid(this, modelName, clean);
         const processed = DataUtils.processRelations(clean, modelInfo);
         const normalized = DataUtils.normalizeRelationsToFK(processed, keyTransformTemplate);
 
@@ -377,7 +899,7 @@ export default abstract class BaseEntity<
         const existingRecord = await BaseEntity.findExistingByUniqueConstraints<TModel>(
             typedModel,
             normalized,
-            uniqueConstraints
+            withTenantKey(modelName, uniqueConstraints)
         );
 
         if (existingRecord) {
@@ -392,23 +914,46 @@ export default abstract class BaseEntity<
                 return existingRecord as TModel;
             }
 
-            // Type guard: ensure existingRecord has valid id
-            const record = existingRecord as Record<string, unknown>;
-            const recordId = record.id;
-            if (typeof recordId !== "number" && typeof recordId !== "string") {
+            // Type guard: ensure existingRecord has a primary key
+            const primaryKey = BaseEntity.primaryKeyOf(this);
+            const recordId = readPrimaryKey(primaryKey, existingRecord);
+            if (recordId === undefined) {
                 throw new Error("Existing record does not have a valid id");
             }
 
             // Has changes, perform update
-            const updated = await typedModel.update({
-                where: { id: recordId },
-                data: normalized
-            });
-            return updated as TModel;
+            let updated: TModel;
+            try {
+                updated = await typedModel.update({
+                    where: primaryKeyWhere(primaryKey, recordId),
+                    data: normalized
+                });
+            } catch (error) {
+                throw toEntityError(error, modelName, primaryKeyFilter(primaryKey, recordId));
+            }
+
+            await recordAudit(this, [{
+                operation: "update",
+                entityId: recordId,
+                before: existingRecord as Record<string, unknown>,
+                after: normalized
+            }], options?.tx);
+            return updated;
         }
 
         // Record doesn't exist, create new
-        const created = await typedModel.create({ data: normalized });
+        let created: TModel;
+        try {
+            created = await typedModel.create({ data: normalized });
+        } catch (error) {
+            throw toEntityError(error, modelName);
+        }
+
+        await recordAudit(this, [{
+            operation: "create",
+            entityId: readPrimaryKey(BaseEntity.primaryKeyOf(this), created),
+            after: created as Record<string, unknown>
+        }], options?.tx);
         return created;
     }
 
@@ -441,19 +986,8 @@ export default abstract class BaseEntity<
             if (hasAllFields && Object.keys(whereClause).length > 0) {
                 try {
                     const existingRecord = await entityModel.findFirst({ where: whereClause });
-                    // Type guard: check if record has id property
-                    if (
-                        existingRecord &&
-                        typeof existingRecord === "object" &&
-                        "id" in existingRecord
-                    ) {
-                        const record = existingRecord as Record<string, unknown>;
-                        if (
-                            typeof record.id === "number" ||
-                            typeof record.id === "string"
-                        ) {
-                            return existingRecord as TModel;
-                        }
+                    if (existingRecord && typeof existingRecord === "object") {
+                        return existingRecord as TModel;
                     }
                 } catch {
                     // Continue to next constraint if this one fails
@@ -470,8 +1004,10 @@ export default abstract class BaseEntity<
      * Optimized version that fetches all existing records in batch and compares changes efficiently
      * 
      * @param items - Array of entity data to upsert
-     * @param options - Upsert options (keyTransformTemplate, parallel, concurrency, handleRelations)
+     * @param options - Upsert options (keyTransformTemplate, parallel, concurrency, handleRelations),
+     * and `skipInvalid` / `onInvalid` to write the valid items when some break a validation rule
      * @returns Object with counts of created, updated, and unchanged records
+     * @throws ValidationError listing every invalid item, unless `skipInvalid` is set
      * 
      * @example
      * ```typescript
@@ -499,22 +1035,68 @@ export default abstract class BaseEntity<
             useRawQuery?: boolean;
             hooks?: UpsertManyHooks;
             tx?: TransactionClient;
-        }
+        } & Validation.BatchOptions
     ): Promise<UpsertManyResult> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.upsertMany.call(this, items, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
+        // The updates it makes are recorded by upsertMany itself, along with its creates
         const updateManyByIdFn = (
             dataList: Array<Partial<TModel>>,
             opts?: { parallel?: boolean; concurrency?: number }
-        ) => this.updateManyById(dataList, opts);
+        ) => withoutAudit(() => this.updateManyById(dataList, opts));
+
+        // The class hooks run alongside the per-call ones, before them on the way in
+        const hooks: UpsertManyHooks = {
+            before: async payload => {
+                await runBatchHook(this, "beforeUpsertMany", payload);
+                await options?.hooks?.before?.(payload);
+            },
+            after: async payload => {
+                await runBatchHook(this, "afterUpsertMany", payload);
+                await options?.hooks?.after?.(payload);
+            }
+        };
+
+        // Every item carries the soft-delete column as null, so a soft-deleted row matching the
+        // unique keys is revived by the update branch instead of being inserted again. Items of a
+        // tenant-scoped entity carry the tenant, which the unique-key lookups match on too.
+        const valid = await validateItems(
+            this,
+            this.model.name ?? "",
+            stampTenant(this, items as Array<Record<string, unknown>>),
+            options
+        );
+        const live = BaseEntity.withLiveMarker(this, valid);
 
-        return BaseEntityBatch.upsertMany<TModel>(
+        // An audited upsert reads the rows it may update first, to diff them after the write
+        const primaryKey = BaseEntity.primaryKeyOf(this);
+        const existing = getAuditSink(this)
+            ? await BaseEntity.findUpsertTargets(this, entityModel, primaryKey, live, options?.keyTransformTemplate)
+            : undefined;
+
+        const result = await BaseEntityBatch.upsertMany<TModel>(
             entityModel,
             getModelInformation,
             updateManyByIdFn,
-            items,
-            options
+            live as Partial<TModel>[],
+            { ...options, hooks }
         );
+
+        if (existing) {
+            const written = [...result.items.createdIds, ...result.items.updatedIds];
+            const rows = await findRowsByIds(entityModel, primaryKey, written);
+            await recordAudit(this, written.map(id => {
+                const key = primaryKeyString(primaryKey, id);
+                const before = existing.get(key);
+                return { operation: before ? "update" : "create", entityId: id, before, after: rows.get(key) };
+            }), options?.tx);
+        }
+
+        return result;
     }
 
     /**
@@ -549,6 +1131,16 @@ export default abstract class BaseEntity<
      * 
      * @returns The updated entity
      * @throws Error if id is missing or model is not defined
+     * @throws OptimisticLockError if another writer changed the row of a `@Version()` entity
+     * 
+     * @remarks
+     * Once the entity has been written or loaded (see {@link markClean}), only the fields that
+     * changed since are sent; when none did, nothing is written or audited and the current values
+     * are returned, `afterUpdate` still running after `beforeUpdate`. An entity that was only
+     * constructed sends every property, as it always has.
+     *
+     * On a `@Version()` entity the row must still be at the loaded version, which the write moves
+     * forward; otherwise an {@link OptimisticLockError} is thrown.
      * 
      * @example
      * ```typescript
@@ -558,15 +1150,18 @@ export default abstract class BaseEntity<
      * ```
      */
     async update(options?: EntityOperationOptions): Promise<TModel> {
+        if (opensAuditTransaction(this.constructor, options?.tx)) {
+            return runAuditTransaction(() => this.update(options));
+        }
+
         const thisRecord = this as Record<string, unknown>;
-        const id = thisRecord.id;
+        const primaryKey = BaseEntity.primaryKeyOf(this.constructor);
+        const id = readPrimaryKey(primaryKey, thisRecord);
 
-        // Type guard: ensure id is number or string
-        if (typeof id !== "number" && typeof id !== "string") {
-            throw new Error("Cannot update: Missing primary key (id)");
+        if (id === undefined) {
+            throw new Error(`Cannot update: Missing primary key (${describePrimaryKey(primaryKey)})`);
         }
 
-        const { id: _id, ...data } = thisRecord;
         const { model } = this.constructor as BaseEntityCtor<TModel>;
 
         // Type guard: check if model has update method
@@ -575,10 +1170,15 @@ export default abstract class BaseEntity<
             model === null ||
             typeof model.update !== "function"
         ) {
-            throw new Error("Model is not defined in the BaseEntity class.");
+            throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
         }
 
         const typedModel = resolveModel(model as EntityPrismaModel<TModel>, options?.tx);
+        const context = createHookContext(model, "update", options?.tx);
+        const tenant = tenantWhere(this.constructor);
+
+        // Runs before the payload is read, so whatever the hook assigns is written
+        await runInstanceHook(this, "beforeUpdate", context);
 
         // Get model information for relation processing
         let modelInfo: ReturnType<typeof ModelUtils.getModelInformationCached> | null =
@@ -588,21 +1188,84 @@ export default abstract class BaseEntity<
         } catch {
         }
 
-        // Process data through helper methods pipeline
-        const cleanData = BaseEntityHelpers.sanitizeKeysRecursive(data);
+        // Process data through helper methods pipeline, keeping only the changed fields of a
+        // tracked entity
+        const keyFields = new Set(primaryKey.fields);
+        const values = Object.fromEntries(
+            Object.entries(BaseEntityHelpers.sanitizeKeysRecursive(thisRecord)).filter(([field]) => !keyFields.has(field))
+        );
+        let cleanData = values;
+        const snapshot = getSnapshot(this);
+        if (snapshot) {
+            const changes = diffSnapshot(cleanData, snapshot);
+            if (Object.keys(changes).length === 0) {
+                // The hooks stay paired, as the ones around a write that changed nothing
+                await runInstanceHook(this, "afterUpdate", context);
+                return BaseEntityHelpers.sanitizeKeysRecursive(this) as TModel;
+            }
+            cleanData = Object.fromEntries(
+                Object.keys(changes).map(key => [key, cleanData[key]])
+            );
+        }
+        BaseEntity.assertValid(this.constructor, model.name, values, Object.keys(cleanData));
         const processedData = DataUtils.processRelations(cleanData, modelInfo);
         const normalized = DataUtils.normalizeRelationsToFK(
             processedData,
             k => `${k}Id`
         );
-        const pruned = BaseEntityHelpers.pruneUpdatePayload(normalized);
+        const pruned = { ...BaseEntityHelpers.pruneUpdatePayload(normalized), ...tenant };
+
+        // A versioned entity only writes over the version it was loaded at, and moves it forward
+        const where: Record<string, unknown> = { ...primaryKeyWhere(primaryKey, id), ...tenant };
+        const versionField = getVersionField(this.constructor);
+        const loadedVersion = versionField
+            ? (snapshot && versionField in snapshot ? snapshot[versionField] : thisRecord[versionField])
+            : undefined;
+        if (versionField) {
+            if (hasVersion(loadedVersion)) where[versionField] = loadedVersion;
+            const fieldType = modelInfo?.fields.find(field => field.name === versionField)?.type;
+            pruned[versionField] = nextVersion(loadedVersion, fieldType);
+        }
+
+        // The audit trail diffs against the loaded state, or else the row as it is now
+        const before = snapshot ?? (getAuditSink(this.constructor)
+            ? await typedModel.findFirst({ where: { ...primaryKeyFilter(primaryKey, id), ...tenant } })
+            : undefined);
 
         // Update entity and refresh instance properties
-        const updatedEntity = await typedModel.update({ where: { id }, data: pruned });
+        let updatedEntity: TModel;
+        try {
+            updatedEntity = await typedModel.update({ where, data: pruned });
+        } catch (error) {
+            if (versionField && hasVersion(loadedVersion) && isRecordNotFoundError(error as Error)) {
+                throw new OptimisticLockError(model.name ?? "", [id]);
+            }
+            throw toEntityError(error, model.name ?? "", primaryKeyFilter(primaryKey, id));
+        }
         this.assignProperties(updatedEntity);
+        this.markClean();
+
+        await recordAudit(this.constructor, [{ operation: "update", entityId: id, before, after: pruned }], options?.tx);
+
+        await runInstanceHook(this, "afterUpdate", context);
         return updatedEntity;
     }
 
+    /**
+     * Updates many entities by id in as few statements as the provider allows
+     *
+     * @param dataList - Items carrying their primary key — `id`, or every field of a composite key —
+     * and the fields to write
+     * @param options - `parallel` / `concurrency` for the batches, `tx` to run inside a transaction
+     * @returns The number of updated records
+     * @throws OptimisticLockError on a `@Version()` entity, when some items were no longer at the
+     * version they carry; its `ids` lists them, and the other items are written
+     *
+     * @remarks
+     * On a `@Version()` entity every item is written by its own statement, matched on its id and
+     * version — a CASE WHEN batch cannot tell which rows missed. Items without a version are
+     * written unconditionally, still moving the version forward.
+     */
     public static async updateManyById<TModel extends object>(
         this: BaseEntityCtor<TModel>,
         dataList: Array<Partial<TModel>>,
@@ -612,35 +1275,169 @@ export default abstract class BaseEntity<
             tx?: TransactionClient;
         }
     ): Promise<number> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.updateManyById.call(this, dataList, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
+        const context = createHookContext(this.model, "updateManyById", options?.tx);
+        const tenant = tenantWhere(this);
+
+        const payload: Lifecycle.ItemsPayload = {
+            ...context,
+            items: await runItemHooks(this, "beforeUpdate", dataList as Array<Record<string, unknown>>, context)
+        };
+        await runBatchHook(this, "beforeUpdateMany", payload);
+
+        // Rows of another tenant are not matched, and the items cannot move a row to one
+        const items = stampTenant(this, payload.items) as Array<Partial<TModel>>;
+        const primaryKey = BaseEntity.primaryKeyOf(this);
+        const before = getAuditSink(this)
+            ? await findRowsByIds(entityModel, primaryKey, BaseEntity.keysOf(primaryKey, items), tenant)
+            : undefined;
+
+        const versionField = getVersionField(this);
+        if (versionField) {
+            const { count, conflictIds } = await BaseEntityBatch.updateManyByIdVersioned(
+                entityModel,
+                getModelInformation,
+                BaseEntityHelpers.prepareUpdateList.bind(BaseEntityHelpers),
+                items,
+                versionField,
+                { ...options, where: tenant }
+            );
 
-        return BaseEntityBatch.updateManyById(
+            // The rows that still matched are written; the caller learns which ones did not
+            if (before) {
+                await BaseEntity.recordUpdates(this, primaryKey, items, before, conflictIds, options?.tx);
+            }
+            await runBatchHook(this, "afterUpdateMany", { ...payload, count });
+            if (conflictIds.length > 0) {
+                throw new OptimisticLockError(this.model.name ?? "", conflictIds, count);
+            }
+            return count;
+        }
+
+        const count = await BaseEntityBatch.updateManyById(
             entityModel,
             getModelInformation,
-            BaseEntityHelpers.buildUpdateQuery.bind(BaseEntityHelpers),
+            (batch, tableName, modelInfo) => BaseEntityHelpers.buildUpdateQuery(batch, tableName, modelInfo, tenant),
             BaseEntityHelpers.prepareUpdateList.bind(BaseEntityHelpers),
-            dataList,
-            options
+            items,
+            { ...options, where: tenant }
         );
+
+        if (before) {
+            await BaseEntity.recordUpdates(this, primaryKey, items, before, [], options?.tx);
+        }
+        await runBatchHook(this, "afterUpdateMany", { ...payload, count });
+        return count;
     }
 
     /**
      * Deletes the entity from the database
      * 
-     * @returns The id of the deleted entity, or 0 if deletion failed
+     * @returns The id of the deleted entity — an object for a composite primary key — or 0 if
+     * deletion failed
      * @throws Error if id is missing or model is not defined
      * 
+     * @remarks
+     * On a `@SoftDelete()` entity the row is kept and its soft-delete column set to the current
+     * time; use {@link forceDelete} to remove it.
+     * 
      * @example
      * ```typescript
      * const user = await User.findByFilter({ id: 1 }, { onlyOne: true });
      * await user.delete();
      * ```
      */
-    async delete(options?: EntityOperationOptions): Promise<number | string> {
-        // Type guard: ensure id is number or string
-        if (typeof this.id !== "number" && typeof this.id !== "string") {
-            throw new Error("Cannot delete: Missing primary key (id)");
+    async delete(options?: EntityOperationOptions): Promise<EntityId> {
+        return this.deleteRow("delete", options);
+    }
+
+    /**
+     * Deletes the entity's row for real, even on a `@SoftDelete()` entity
+     *
+     * @returns The id of the deleted entity, or 0 if deletion failed
+     * @throws Error if id is missing or model is not defined
+     */
+    async forceDelete(options?: EntityOperationOptions): Promise<EntityId> {
+        return this.deleteRow("forceDelete", options);
+    }
+
+    /**
+     * Brings back a soft-deleted entity by clearing its soft-delete column
+     *
+     * @returns The restored record
+     * @throws Error if id is missing, the model is not defined or the entity does not soft-delete
+     *
+     * @example
+     * ```typescript
+     * const post = await Post.findByFilter({ id: 1 }, { onlyOne: true, onlyTrashed: true });
+     * await new Post(post).restore();
+     * ```
+     */
+    async restore(options?: EntityOperationOptions): Promise<TModel> {
+        if (opensAuditTransaction(this.constructor, options?.tx)) {
+            return runAuditTransaction(() => this.restore(options));
+        }
+
+        const primaryKey = BaseEntity.primaryKeyOf(this.constructor);
+        const id = readPrimaryKey(primaryKey, this);
+        if (id === undefined) {
+            throw new Error(`Cannot restore: Missing primary key (${describePrimaryKey(primaryKey)})`);
+        }
+
+        const { model } = this.constructor as BaseEntityCtor<TModel>;
+        if (typeof model !== "object" || model === null || typeof model.update !== "function") {
+            throw new ModelNotConfiguredError("Model is not defined in the BaseEntity class.");
+        }
+
+        const softDeleteField = getSoftDeleteField(this.constructor);
+        if (!softDeleteField) {
+            throw new Error(`Cannot restore: ${model.name} does not soft-delete. Decorate the entity with @SoftDelete().`);
+        }
+
+        const typedModel = resolveModel(model as EntityPrismaModel<TModel>, options?.tx);
+        let restored: TModel;
+        try {
+            restored = await typedModel.update({
+                where: { ...primaryKeyWhere(primaryKey, id), ...tenantWhere(this.constructor) },
+                data: { [softDeleteField]: null }
+            });
+        } catch (error) {
+            throw toEntityError(error, model.name ?? "", primaryKeyFilter(primaryKey, id));
+        }
+        const before = getSnapshot(this) ?? BaseEntityHelpers.sanitizeKeysRecursive(this);
+        this.assignProperties(restored);
+        this.markClean();
+
+        await recordAudit(this.constructor, [{
+            operation: "update",
+            entityId: id,
+            before,
+            after: { [softDeleteField]: null }
+        }], options?.tx);
+        return restored;
+    }
+
+    /**
+     * Shared body of {@link delete} and {@link forceDelete}
+     * @private
+     */
+    private async deleteRow(
+        operation: "delete" | "forceDelete",
+        options?: EntityOperationOptions
+    ): Promise<EntityId> {
+        if (opensAuditTransaction(this.constructor, options?.tx)) {
+            return runAuditTransaction(() => this.deleteRow(operation, options));
+        }
+
+        const primaryKey = BaseEntity.primaryKeyOf(this.constructor);
+        const id = readPrimaryKey(primaryKey, this);
+        if (id === undefined) {
+            throw new Error(`Cannot delete: Missing primary key (${describePrimaryKey(primaryKey)})`);
         }
 
         const { model } = this.constructor as BaseEntityCtor<TModel>;
@@ -651,36 +1448,103 @@ export default abstract class BaseEntity<
             model === null ||
             typeof model.delete !== "function"
         ) {
-            throw new Error("The model is not defined in the child class of BaseEntity.");
+            throw new ModelNotConfiguredError("The model is not defined in the child class of BaseEntity.");
         }
 
-        const typedModel = resolveModel(model as EntityPrismaModel<TModel>, options?.tx) as {
-            delete: (args: { where: { id: number | string } }) => Promise<unknown>;
-        };
+        const typedModel = resolveModel(model as EntityPrismaModel<TModel>, options?.tx);
+        const softDeleteField = operation === "delete" ? getSoftDeleteField(this.constructor) : undefined;
+        const where = { ...primaryKeyWhere(primaryKey, id), ...tenantWhere(this.constructor) };
+        const context = createHookContext(model, operation, options?.tx);
+
+        await runInstanceHook(this, "beforeDelete", context);
+        const before = getSnapshot(this) ?? BaseEntityHelpers.sanitizeKeysRecursive(this);
 
         try {
-            await typedModel.delete({ where: { id: this.id } });
-            return this.id;
+            if (softDeleteField) {
+                const trashed = await typedModel.update({
+                    where,
+                    data: { [softDeleteField]: new Date() }
+                });
+                this.assignProperties(trashed);
+                this.markClean();
+            } else {
+                await typedModel.delete({ where });
+            }
         } catch (error) {
-            logError("delete", error as Error, { entityId: this.id });
+            if (isStrictErrors()) {
+                throw toEntityError(error, model.name ?? "", primaryKeyFilter(primaryKey, id));
+            }
+            logError(operation, error as Error, { model: model.name, entityId: id });
             return 0;
         }
+
+        await recordAudit(this.constructor, [{ operation: "delete", entityId: id, before }], options?.tx);
+
+        await runInstanceHook(this, "afterDelete", context);
+        return id;
     }
 
+    /**
+     * Deletes every record matching a filter and search
+     *
+     * @param filter - Base equality filter, ANDed with `options.search`
+     * @param options - `search` to narrow the rows, `force` to remove the rows of a `@SoftDelete()`
+     * entity for real, `tx` to run inside a transaction
+     * @returns The number of deleted records
+     *
+     * @remarks
+     * On a `@SoftDelete()` entity the matching live rows are stamped instead of removed. With
+     * `force`, rows are removed and `withTrashed` / `onlyTrashed` pick which ones — e.g.
+     * `{ force: true, onlyTrashed: true }` empties the trash.
+     */
     public static async deleteByFilter<TModel extends object>(
         this: BaseEntityCtor<TModel>,
         filter: Partial<TModel>,
-        options?: FindByFilterOptions.Options & EntityOperationOptions
+        options?: FindByFilterOptions.Options & EntityOperationOptions & { force?: boolean }
     ): Promise<number> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.deleteByFilter.call(this, filter, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
 
-        return BaseEntityQuery.deleteByFilter<TModel>(
-            entityModel,
-            getModelInformation,
-            filter,
-            options
-        );
+        const payload: Lifecycle.FilterPayload = {
+            ...createHookContext(this.model, "deleteByFilter", options?.tx),
+            filter: filter as Record<string, unknown>,
+            search: options?.search
+        };
+        await runBatchHook(this, "beforeDeleteMany", payload);
+
+        const softDeleteField = options?.force ? undefined : getSoftDeleteField(this);
+        const scoped = softDeleteField
+            ? applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, { ...options, withTrashed: false, onlyTrashed: false })))
+            : applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)));
+        // Recorded ahead of the write, in its transaction, so the rows are never all held at once
+        if (getAuditSink(this)) {
+            await BaseEntity.auditRowsMatching(this, entityModel, getModelInformation, filter, scoped, row => ({
+                operation: "delete",
+                before: row
+            }));
+        }
+
+        const count = softDeleteField
+            ? await BaseEntityQuery.updateByFilter<TModel>(
+                entityModel,
+                getModelInformation,
+                filter,
+                { [softDeleteField]: new Date() },
+                scoped
+            )
+            : await BaseEntityQuery.deleteByFilter<TModel>(
+                entityModel,
+                getModelInformation,
+                filter,
+                scoped
+            );
+
+        await runBatchHook(this, "afterDeleteMany", { ...payload, count });
+        return count;
     }
 
     /**
@@ -716,6 +1580,10 @@ export default abstract class BaseEntity<
         data: Partial<TModel>,
         options?: FindByFilterOptions.Options & EntityOperationOptions
     ): Promise<number> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.updateByFilter.call(this, filter, data, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
         const getModelInformation = () => this.getModelInformation();
 
@@ -725,28 +1593,48 @@ export default abstract class BaseEntity<
         } catch {
         }
 
+        const payload: Lifecycle.FilterPayload = {
+            ...createHookContext(this.model, "updateByFilter", options?.tx),
+            filter: filter as Record<string, unknown>,
+            search: options?.search,
+            data: { ...data } as Record<string, unknown>
+        };
+        await runBatchHook(this, "beforeUpdateMany", payload);
+
         // Same preparation pipeline as instance update(): drop the primary key, sanitise keys, turn
         // relation objects into foreign keys, and strip createdAt/empty values — leaving a scalar
         // payload updateMany accepts.
-        const { id: _ignoredId, ...changes } = data as Record<string, unknown>;
+        const { id: _ignoredId, ...changes } = payload.data as Record<string, unknown>;
         const cleanData = BaseEntityHelpers.sanitizeKeysRecursive(changes);
         const processedData = DataUtils.processRelations(cleanData, modelInfo);
         const normalized = DataUtils.normalizeRelationsToFK(processedData, k => `${k}Id`);
-        const pruned = BaseEntityHelpers.pruneUpdatePayload(normalized);
+        const [pruned] = stampTenant(this, [BaseEntityHelpers.pruneUpdatePayload(normalized)]);
+        const scoped = applyTenantScope(this, applyTrashScope(this, applyQueryScopes(this, options)));
+        // Recorded ahead of the write, in its transaction, so the rows are never all held at once
+        if (getAuditSink(this)) {
+            await BaseEntity.auditRowsMatching(this, entityModel, getModelInformation, filter, scoped, row => ({
+                operation: "update",
+                before: row,
+                after: pruned
+            }));
+        }
 
-        return BaseEntityQuery.updateByFilter<TModel>(
+        const count = await BaseEntityQuery.updateByFilter<TModel>(
             entityModel,
             getModelInformation,
             filter,
             pruned,
-            options
+            scoped
         );
+
+        await runBatchHook(this, "afterUpdateMany", { ...payload, count });
+        return count;
     }
 
     /**
      * Delete multiple entities by their IDs in parallel batches
      * 
-     * @param ids - Array of IDs to delete
+     * @param ids - Array of IDs to delete; key objects for a composite primary key
      * @param options - Parallel execution options
      * @returns Number of deleted records
      * 
@@ -757,25 +1645,389 @@ export default abstract class BaseEntity<
      * ```
      */
     public static async deleteByIds(
-        this: { model: any },
-        ids: (number | string)[],
+        this: { model: any; getModelInformation(): ReturnType<typeof ModelUtils.getModelInformationCached> },
+        ids: EntityId[],
         options?: {
             parallel?: boolean;
             concurrency?: number;
+            /** Remove the rows of a `@SoftDelete()` entity for real */
+            force?: boolean;
             tx?: TransactionClient;
         }
     ): Promise<number> {
+        if (opensAuditTransaction(this, options?.tx)) {
+            return runAuditTransaction(() => BaseEntity.deleteByIds.call(this, ids, options));
+        }
+
         const entityModel = resolveModel(this.model, options?.tx);
 
-        return BaseEntityBatch.deleteByIds(entityModel, ids, options);
+        const payload: Lifecycle.IdsPayload = {
+            ...createHookContext(this.model, "deleteByIds", options?.tx),
+            ids
+        };
+        await runBatchHook(this, "beforeDeleteMany", payload);
+
+        const softDeleteField = options?.force ? undefined : getSoftDeleteField(this);
+        const primaryKey = BaseEntity.primaryKeyOf(this);
+        const tenant = tenantWhere(this);
+        const before = getAuditSink(this)
+            ? await findRowsByIds(entityModel, primaryKey, ids, tenant)
+            : undefined;
+
+        const count = await BaseEntityBatch.deleteByIds(entityModel, ids, {
+            ...options,
+            softDeleteField,
+            primaryKey,
+            where: tenant
+        });
+
+        if (before) {
+            await recordAudit(this, [...before.values()].map(row => ({
+                operation: "delete",
+                entityId: readPrimaryKey(primaryKey, row),
+                before: row
+            })), options?.tx);
+        }
+        await runBatchHook(this, "afterDeleteMany", { ...payload, count });
+        return count;
+    }
+
+    /**
+     * Whether the entity holds changes that have not been written yet
+     *
+     * @param field - Limit the check to one field
+     * @returns `true` when the field (or any field) differs from the persisted state. An entity
+     * that was never written or loaded is dirty as soon as it holds a value.
+     *
+     * @example
+     * ```typescript
+     * const user = new User(row);
+     * user.markClean();
+     * user.isDirty();        // false
+     * user.name = 'Jane';
+     * user.isDirty('name');  // true
+     * ```
+     */
+    isDirty(field?: keyof TModel & string): boolean {
+        const changes = this.getChanges() as Record<string, unknown>;
+        return field ? field in changes : Object.keys(changes).length > 0;
+    }
+
+    /**
+     * Lists the fields changed since the entity was last written or loaded
+     *
+     * @returns Each changed field with its persisted (`from`) and current (`to`) value
+     *
+     * @remarks
+     * Values are compared the way upsert compares them (`fieldHasChanged`): Decimals and BigInts
+     * by value, Dates by timestamp, JSON deeply, and `null`/`undefined`/`''` as equal. `id`,
+     * `createdAt` and `updatedAt` are never reported.
+     *
+     * @example
+     * ```typescript
+     * user.name = 'Jane';
+     * user.getChanges(); // { name: { from: 'John', to: 'Jane' } }
+     * ```
+     */
+    getChanges(): EntityChanges<TModel> {
+        return diffSnapshot(BaseEntityHelpers.sanitizeKeysRecursive(this), getSnapshot(this)) as EntityChanges<TModel>;
+    }
+
+    /**
+     * Restores the values the entity had when it was last written or loaded
+     *
+     * @remarks
+     * Fields set after that point are cleared. Does nothing on an entity that was never written
+     * or loaded.
+     */
+    revert(): void {
+        const snapshot = getSnapshot(this);
+        if (!snapshot) return;
+
+        const cleared = Object.fromEntries(
+            Object.keys(BaseEntityHelpers.sanitizeKeysRecursive(this))
+                .filter(key => key !== "id" && !(key in snapshot))
+                .map(key => [key, undefined])
+        );
+        this.initializeProperties({ ...cleared, ...snapshot } as Partial<TModel>);
     }
 
-    toJson(): string {
-        return JSON.stringify(BaseEntityHelpers.sanitizeKeysRecursive(this), null, 2);
+    /**
+     * Checks the entity against the rules of its validation decorators
+     *
+     * @returns Every broken rule, empty when the entity is valid
+     *
+     * @remarks
+     * The writes run the same check and throw a {@link ValidationError} with these issues;
+     * `update()` only checks the fields it sends.
+     *
+     * @example
+     * ```typescript
+     * const user = new User({ name: '', email: 'not-an-email' });
+     * user.validate();
+     * // [{ field: 'name', rule: 'required', message: 'name is required' },
+     * //  { field: 'email', rule: 'email', message: 'email must be a valid email address' }]
+     * ```
+     */
+    validate(): Validation.Issue[] {
+        return validateValues(this.constructor, BaseEntityHelpers.sanitizeKeysRecursive(this));
     }
 
-    toObject(): TModel {
-        return BaseEntityHelpers.sanitizeKeysRecursive(this) as TModel;
+    /**
+     * Records the current values as the persisted state, which dirty tracking compares against
+     *
+     * @remarks
+     * `create()` and `update()` call this after writing. Call it yourself on an entity built
+     * from a row you read, so `update()` sends only what you change afterwards.
+     *
+     * @example
+     * ```typescript
+     * const row = await User.findByFilter({ id: 1 }, { onlyOne: true });
+     * const user = new User(row);
+     * user.markClean();
+     * user.name = 'Jane';
+     * await user.update(); // data: { name: 'Jane' }
+     * ```
+     */
+    markClean(): void {
+        recordSnapshot(this, BaseEntityHelpers.sanitizeKeysRecursive(this));
+    }
+
+    /**
+     * Serializes the entity to a JSON string
+     *
+     * @param options - `groups` to output
+     * @returns Pretty-printed JSON, with BigInts and Decimals as strings, Dates as ISO strings and
+     * Bytes as base64
+     *
+     * @remarks
+     * Follows the serialization decorators, like {@link toObject}.
+     */
+    toJson(options: Serialization.Options = {}): string {
+        return JSON.stringify(serializeEntity(this, { ...options, json: true }), null, 2);
+    }
+
+    /**
+     * Converts the entity to a plain object
+     *
+     * @param options - `groups` to output; `json` to convert BigInts, Decimals, Dates and Bytes to
+     * strings
+     * @returns The properties of the entity, and of its included relations
+     *
+     * @remarks
+     * `@Hidden()` properties are left out, `@Expose({ groups })` ones are only kept when one of
+     * their groups is asked for, `@SerializeAs()` renames and `@Transform()` replaces values.
+     * Relations that are entity instances follow the decorators of their class, and an object met
+     * again below itself is left out instead of recursing forever.
+     *
+     * @example
+     * ```typescript
+     * class User extends BaseEntity<IUser> {
+     *   @Hidden() @Property() declare passwordHash: string;
+     *   @Expose({ groups: ['admin'] }) @Property() declare email: string;
+     * }
+     *
+     * user.toObject({ groups: ['public'] });   // no passwordHash, no email
+     * user.toObject({ groups: ['admin'] });    // email, still no passwordHash
+     * ```
+     */
+    toObject(options: Serialization.Options = {}): TModel {
+        return serializeEntity(this, options) as TModel;
+    }
+
+    /**
+     * Reads the entity's row again and overwrites its properties with it
+     *
+     * @param options - `relationsToInclude` to load relations as well, `tx`
+     * @returns The entity, refreshed and marked clean
+     * @throws EntityNotFoundError when the row no longer exists
+     *
+     * @remarks
+     * Unsaved changes are discarded. A soft-deleted row is still read.
+     *
+     * @example
+     * ```typescript
+     * await User.updateByFilter({ id: user.id }, { status: 'banned' });
+     * await user.reload();
+     * user.status; // 'banned'
+     * ```
+     */
+    async reload(
+        options?: Pick<FindByFilterOptions.Options, "relationsToInclude"> & EntityOperationOptions
+    ): Promise<this> {
+        const primaryKey = BaseEntity.primaryKeyOf(this.constructor);
+        const id = readPrimaryKey(primaryKey, this);
+        if (id === undefined) {
+            throw new Error(`Cannot reload: Missing primary key (${describePrimaryKey(primaryKey)})`);
+        }
+
+        const entityClass = this.constructor as BaseEntityCtor<TModel>;
+        if (!entityClass.model) throw new ModelNotConfiguredError();
+
+        const row = await BaseEntity.findByIdOrThrow.call(entityClass, id, {
+            ...options,
+            withTrashed: true,
+            unscoped: true,
+            hydrate: false
+        });
+
+        this.assignProperties(row as Partial<TModel>);
+        this.markClean();
+        return this;
+    }
+
+    /**
+     * Throws a {@link ValidationError} when values break the rules of an entity class
+     *
+     * @param entityClass - The entity class declaring the rules
+     * @param modelName - Reported in the error
+     * @param values - The sanitized values
+     * @param fields - Only check these properties
+     * @private
+     */
+    private static assertValid(
+        entityClass: object,
+        modelName: string | undefined,
+        values: Record<string, unknown>,
+        fields?: readonly string[]
+    ): void {
+        const issues = validateValues(entityClass, values, fields);
+        if (issues.length > 0) {
+            throw new ValidationError(modelName ?? "", issues);
+        }
+    }
+
+    /**
+     * Gives every item of a `@SoftDelete()` entity an explicit soft-delete value, `null` unless
+     * the item sets one
+     *
+     * @remarks
+     * Written on creates so live rows match `IS NULL` on every provider, and on upserts so the
+     * update branch revives a soft-deleted row that matches the unique keys.
+     * @private
+     */
+    private static withLiveMarker<TItem extends Record<string, unknown>>(
+        entityClass: object,
+        items: TItem[]
+    ): TItem[] {
+        const softDeleteField = getSoftDeleteField(entityClass);
+        if (!softDeleteField) return items;
+
+        return items.map(item =>
+            item[softDeleteField] === undefined ? { ...item, [softDeleteField]: null } : item
+        );
+    }
+
+    /**
+     * Records the rows a filtered write is about to change to the audit trail
+     *
+     * @param toWrite - The write each row is about to get
+     * @remarks
+     * The rows are read in keyset batches through {@link BaseEntityQuery.stream} and each batch is
+     * recorded as it is read, in the transaction of the write, so no more than one batch is held.
+     * Keyset batches cannot rank, so a ranked `matches` condition only filters here.
+     * @private
+     */
+    private static async auditRowsMatching<TModel extends object>(
+        entityClass: object,
+        entityModel: EntityPrismaModel<TModel>,
+        getModelInformation: () => ReturnType<typeof ModelUtils.getModelInformationCached>,
+        filter: Partial<TModel>,
+        options: (FindByFilterOptions.Options & EntityOperationOptions) | undefined,
+        toWrite: (row: Record<string, unknown>) => AuditWrite
+    ): Promise<void> {
+        const primaryKey = BaseEntity.primaryKeyOf(entityClass);
+        const batches = BaseEntityQuery.stream<TModel>(entityModel, getModelInformation, filter, {
+            search: options?.search && withoutRanking(options.search),
+            tx: options?.tx
+        });
+        for await (const batch of batches) {
+            await recordAudit(entityClass, (batch as Array<Record<string, unknown>>).map(row => ({
+                ...toWrite(row),
+                entityId: readPrimaryKey(primaryKey, row)
+            })), options?.tx);
+        }
+    }
+
+    /**
+     * The existing rows `upsertMany()` may update, matched on the unique keys of the items like
+     * the upsert itself matches them
+     * @private
+     */
+    private static async findUpsertTargets<TModel extends object>(
+        entityClass: BaseEntityCtor<TModel>,
+        entityModel: EntityPrismaModel<TModel>,
+        primaryKey: PrimaryKey,
+        items: Array<Record<string, unknown>>,
+        keyTransformTemplate: (relationName: string) => string = key => `${key}Id`
+    ): Promise<Map<string, Record<string, unknown>>> {
+        const modelName = entityModel.name ?? "";
+        let modelInfo: ReturnType<typeof ModelUtils.getModelInformationCached> | null = null;
+        try {
+            modelInfo = entityClass.getModelInformation();
+        } catch {
+        }
+
+        const normalized = items.map(item => DataUtils.normalizeRelationsToFK(
+            DataUtils.processRelations(BaseEntityHelpers.sanitizeKeysRecursive(item), modelInfo),
+            keyTransformTemplate
+        ));
+        return findRowsByUniqueKeys(
+            entityModel,
+            primaryKey,
+            normalized,
+            withTenantKey(modelName, ModelUtils.getUniqueConstraints(modelName))
+        );
+    }
+
+    /**
+     * Records the rows `updateManyById()` wrote, leaving out the ones a version conflict skipped
+     * @private
+     */
+    private static async recordUpdates(
+        entityClass: object,
+        primaryKey: PrimaryKey,
+        items: Array<Record<string, unknown>>,
+        before: Map<string, Record<string, unknown>>,
+        conflictIds: readonly EntityId[],
+        tx?: TransactionClient
+    ): Promise<void> {
+        const skipped = new Set(conflictIds.map(id => primaryKeyString(primaryKey, id)));
+        const keyFields = new Set(primaryKey.fields);
+        const writes: AuditWrite[] = [];
+
+        for (const item of items) {
+            const id = readPrimaryKey(primaryKey, item);
+            if (id === undefined) continue;
+
+            const key = primaryKeyString(primaryKey, id);
+            const row = before.get(key);
+            if (!row || skipped.has(key)) continue;
+
+            const after = Object.fromEntries(Object.entries(item).filter(([field]) => !keyFields.has(field)));
+            writes.push({ operation: "update", entityId: id, before: row, after });
+        }
+
+        await recordAudit(entityClass, writes, tx);
+    }
+
+    /**
+     * The primary keys the items carry
+     * @private
+     */
+    private static keysOf(primaryKey: PrimaryKey, items: Array<Record<string, unknown>>): EntityId[] {
+        return items
+            .map(item => readPrimaryKey(primaryKey, item))
+            .filter((id): id is EntityId => id !== undefined);
+    }
+
+    /**
+     * The primary key of an entity class's model, `id` when its model information cannot be read
+     * @private
+     */
+    private static primaryKeyOf(entityClass: object): PrimaryKey {
+        const { getModelInformation } = entityClass as Partial<Pick<BaseEntityCtor<object>, "getModelInformation">>;
+        return resolvePrimaryKey(() => getModelInformation!.call(entityClass));
     }
 
     private assignProperties(data: Partial<TModel>): void {
@@ -1,10 +1,13 @@
 import { PrismaClient } from '@prisma/client';
 import { RateLimiter, createRateLimiter } from './rate-limiter';
 import { getDatabaseProvider } from './utils/database-utils';
+import type { Logging } from './structures/types/logging.types';
+import type { Audit } from './structures/types/audit.types';
+import type { EntityId } from './primary-key';
 
 export interface UpsertManyResultBucket {
     count: number;
-    items: Array<number | string> | null;
+    items: Array<EntityId> | null;
 }
 
 export interface UpsertManyResultSummary {
@@ -87,8 +90,68 @@ export interface PrismaConfig {
      * override this with its own `insensitive` field.
      */
     caseInsensitiveSearch?: boolean;
+
+    /**
+     * Whether entity methods throw instead of logging and carrying on.
+     * Default: `false`
+     *
+     * @remarks
+     * By default some failures are only logged: `delete()` returns `0`, `deleteByFilter()` and
+     * `updateByFilter()` return `0`, and the batch methods skip the batches that failed. In
+     * strict mode they throw the typed errors of the framework instead (`EntityNotFoundError`,
+     * `UniqueConstraintError`, `ForeignKeyError`, ..., or a `BatchPartialFailureError` carrying
+     * the cause of every failed batch).
+     */
+    strictErrors?: boolean;
+
+    /**
+     * Where the framework writes its log entries.
+     * Default: the console
+     *
+     * @remarks
+     * Takes any object with `debug`, `info`, `warn` and `error` methods receiving a message and
+     * structured fields — a winston logger as is, a pino logger through the adapter shown on
+     * {@link Logging.Logger}. The fields carry the `operation`, and the `model` and `provider`
+     * when they are known.
+     */
+    logger?: Logging.Logger;
+
+    /**
+     * Lowest level written to the logger: `debug`, `info`, `warn`, `error`, or `silent` to
+     * write nothing.
+     * Default: `'info'`
+     */
+    logLevel?: Logging.Level;
+
+    /**
+     * Whether reads return entity class instances instead of plain objects, when the call does
+     * not say with its own `hydrate` option.
+     * Default: `false`
+     *
+     * @remarks
+     * Applies to `findByFilter()`, `findById()`, `findByIdOrThrow()` and `findByIds()`. Included
+     * relations are hydrated into the entity class registered for their model (see
+     * `registerEntity()`), and stay plain objects when there is none.
+     */
+    hydrate?: boolean;
+
+    /**
+     * Where the audit entries of `@Audited()` entities go, unless the decorator names its own
+     * sink.
+     * Default: none — nothing is recorded
+     *
+     * @remarks
+     * `auditTable()` writes them to a table through the same client, inside the transaction of
+     * the write; any function receiving the entries works too.
+     */
+    auditSink?: Audit.Sink;
 }
 
+/**
+ * Values accepted by the `logLevel` option
+ */
+const LOG_LEVELS: readonly Logging.Level[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
 /**
  * Global Prisma instance for the framework
  */
@@ -104,6 +167,11 @@ let globalConfig: PrismaConfig = {
     upsertManyUseRawQuery: true,
     upsertManyHooks: undefined,
     caseInsensitiveSearch: true,
+    strictErrors: false,
+    logger: undefined,
+    logLevel: 'info',
+    hydrate: false,
+    auditSink: undefined,
 };
 
 /**
@@ -160,6 +228,29 @@ export function configurePrisma(prisma: PrismaClient, config?: PrismaConfig): vo
         if (config.upsertManyUseRawQuery !== undefined && typeof config.upsertManyUseRawQuery !== 'boolean') {
             throw new Error('upsertManyUseRawQuery must be a boolean');
         }
+
+        if (config.strictErrors !== undefined && typeof config.strictErrors !== 'boolean') {
+            throw new Error('strictErrors must be a boolean');
+        }
+
+        if (config.hydrate !== undefined && typeof config.hydrate !== 'boolean') {
+            throw new Error('hydrate must be a boolean');
+        }
+
+        if (config.logger !== undefined) {
+            const methods = ['debug', 'info', 'warn', 'error'] as const;
+            if (!config.logger || methods.some(method => typeof config.logger![method] !== 'function')) {
+                throw new Error('logger must have debug, info, warn and error methods');
+            }
+        }
+
+        if (config.auditSink !== undefined && typeof config.auditSink !== 'function') {
+            throw new Error('auditSink must be a function');
+        }
+
+        if (config.logLevel !== undefined && !LOG_LEVELS.includes(config.logLevel)) {
+            throw new Error(`logLevel must be one of ${LOG_LEVELS.join(', ')}`);
+        }
         
         // Merge with global config
         globalConfig = {
@@ -235,6 +326,11 @@ export function resetPrismaConfiguration(): void {
         upsertManyUseRawQuery: true,
         upsertManyHooks: undefined,
         caseInsensitiveSearch: true,
+        strictErrors: false,
+        logger: undefined,
+        logLevel: 'info',
+        hydrate: false,
+        auditSink: undefined,
     };
 
     clearProviderCache();
@@ -259,6 +355,36 @@ export function isCaseInsensitiveSearch(): boolean {
     return globalConfig.caseInsensitiveSearch !== false;
 }
 
+/**
+ * Whether entity methods throw the failures they otherwise log
+ *
+ * @returns The configured value, defaulting to `false`
+ *
+ * @example
+ * ```typescript
+ * configurePrisma(prisma, { strictErrors: true });
+ * isStrictErrors(); // true
+ * ```
+ */
+export function isStrictErrors(): boolean {
+    return globalConfig.strictErrors === true;
+}
+
+/**
+ * Whether reads hydrate their results into entity instances unless told otherwise
+ *
+ * @returns The configured value, defaulting to `false`
+ *
+ * @example
+ * ```typescript
+ * configurePrisma(prisma, { hydrate: true });
+ * isHydrateByDefault(); // true
+ * ```
+ */
+export function isHydrateByDefault(): boolean {
+    return globalConfig.hydrate === true;
+}
+
 
 
 /**
@@ -0,0 +1,267 @@
+/**
+ * Cursor Pagination Module
+ *
+ * Keyset pagination for `findByFilter`: instead of skipping rows, a page starts right after (or
+ * before) the row its cursor points at. Pages are read in `orderBy` order, with the primary key
+ * appended as a tie-breaker so that every row has one place in the order.
+ *
+ * A cursor is opaque to callers: the base64url-encoded JSON of the direction it walks, the fields
+ * of the order and the boundary row's values of those fields.
+ */
+
+import { InvalidCursorError } from "./errors";
+import type { NullOrdering } from "./ordering";
+import { FindByFilterOptions } from "./structures/types/search.types";
+
+type OrderByItem = FindByFilterOptions.OrderByItem;
+
+/** Which way a cursor walks from its row */
+type CursorDirection = "next" | "prev";
+
+/** What a cursor holds once decoded */
+interface CursorPayload {
+    d: CursorDirection;
+    f: string[];
+    v: unknown[];
+}
+
+/**
+ * The nullable fields an order may sort on, and where the database sorts their NULLs
+ * @internal
+ */
+export interface KeysetNulls {
+    fields: ReadonlySet<string>;
+    ordering: NullOrdering;
+}
+
+/**
+ * How one page of a keyset pagination is read
+ * @internal
+ */
+export interface KeysetPlan {
+    /** The order of the pages: `orderBy`, then the primary key */
+    order: OrderByItem[];
+    /** The order rows are read in; the reverse of `order` when walking back */
+    queryOrder: OrderByItem[];
+    /** The condition selecting the rows past the cursor, or `null` on the first page */
+    condition: Record<string, unknown> | null;
+    /** How many rows to read: one more than the page holds, to know whether more follow */
+    take: number;
+    limit: number;
+    direction: CursorDirection | null;
+}
+
+/**
+ * Whether pagination options ask for keyset pagination
+ * @internal
+ */
+export function isCursorPagination(
+    pagination: FindByFilterOptions.Options["pagination"]
+): pagination is FindByFilterOptions.CursorPaginationOptions {
+    return pagination !== undefined && pagination !== null && "limit" in pagination;
+}
+
+/**
+ * Plans the query of one page
+ *
+ * @param pagination - The caller's `{ cursor, limit }`
+ * @param orderBy - The caller's `orderBy`
+ * @param keyFields - The primary key columns, the tie-breaker
+ * @param modelName - The model, for errors
+ * @param nulls - The nullable fields and where the database sorts their NULLs, for the rows past
+ * a cursor on them
+ * @returns The plan, for the query and for {@link keysetPage}
+ * @throws InvalidCursorError when the cursor is malformed or was made for another order
+ * @throws Error when the order sorts through a relation or places NULLs, which the cursor
+ * condition cannot follow
+ * @internal
+ */
+export function planKeyset(
+    pagination: FindByFilterOptions.CursorPaginationOptions,
+    orderBy: FindByFilterOptions.OrderBy | undefined,
+    keyFields: readonly string[],
+    modelName: string = "",
+    nulls: KeysetNulls = { fields: new Set(), ordering: "lowest" }
+): KeysetPlan {
+    const { cursor, limit } = pagination;
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error("pagination.limit must be a positive integer");
+    }
+
+    const order = keysetOrder(orderBy, keyFields);
+    for (const item of order) {
+        const [field, direction] = Object.entries(item)[0];
+        if (field.includes(".") || typeof direction !== "string") {
+            throw new Error(`Keyset pagination cannot sort on "${field}" that way: it sorts on the model's own fields, without nulls.`);
+        }
+    }
+
+    const decoded = cursor ? decodeCursor(cursor, order, modelName) : null;
+    const backward = decoded?.d === "prev";
+
+    return {
+        order,
+        queryOrder: backward ? order.map(reverseItem) : order,
+        condition: decoded ? keysetCondition(order, decoded, nulls) : null,
+        take: limit + 1,
+        limit,
+        direction: decoded?.d ?? null
+    };
+}
+
+/**
+ * Builds the page out of the rows read for a plan
+ *
+ * @param plan - The plan the rows were read with
+ * @param rows - The rows, in `plan.queryOrder`, at most `plan.take` of them
+ * @returns The page in `plan.order`, with the cursors of its neighbours
+ * @internal
+ *
+ * @remarks
+ * `hasMore` tells whether more rows follow in the direction walked; the cursor pointing the way
+ * back is set whenever the page has rows to start from.
+ */
+export function keysetPage<TModel extends object>(
+    plan: KeysetPlan,
+    rows: TModel[]
+): FindByFilterOptions.CursorPaginatedResponse<TModel> {
+    const hasMore = rows.length > plan.limit;
+    const backward = plan.direction === "prev";
+
+    const data = rows.slice(0, plan.limit);
+    if (backward) data.reverse();
+
+    const first = data[0];
+    const last = data[data.length - 1];
+    const hasNext = backward ? last !== undefined : hasMore;
+    const hasPrev = backward ? hasMore : plan.direction !== null && first !== undefined;
+
+    return {
+        data,
+        nextCursor: hasNext && last !== undefined ? encodeCursor("next", plan.order, last) : null,
+        prevCursor: hasPrev && first !== undefined ? encodeCursor("prev", plan.order, first) : null,
+        hasMore
+    };
+}
+
+/**
+ * ANDs a condition into a `where` clause
+ * @internal
+ */
+export function andWhere(
+    where: Record<string, unknown>,
+    condition: Record<string, unknown> | null
+): Record<string, unknown> {
+    if (!condition) return where;
+    return Object.keys(where).length === 0 ? condition : { AND: [where, condition] };
+}
+
+/** `orderBy` as a list, with the key fields it does not sort on appended in ascending order */
+function keysetOrder(orderBy: FindByFilterOptions.OrderBy | undefined, keyFields: readonly string[]): OrderByItem[] {
+    const items = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [])
+        .flatMap(item => Object.entries(item).map(([field, direction]) => ({ [field]: direction })));
+    const sorted = new Set(items.map(fieldOf));
+
+    return [...items, ...keyFields.filter(field => !sorted.has(field)).map(field => ({ [field]: "asc" as const }))];
+}
+
+/**
+ * The rows past the cursor row: for each field of the order, the rows equal on the fields before
+ * it and beyond the cursor on it
+ *
+ * @remarks
+ * `gt` / `lt` never match NULLs, so a nullable field gets its NULLs as a branch of their own when
+ * they follow the cursor value in the direction walked, and a `null` cursor value is followed by
+ * the values when NULLs come before them — where they come is the database's {@link NullOrdering}.
+ */
+function keysetCondition(order: OrderByItem[], cursor: CursorPayload, nulls: KeysetNulls): Record<string, unknown> {
+    const branches: Record<string, unknown>[] = [];
+
+    order.forEach((item, index) => {
+        const value = cursor.v[index] ?? null;
+        const upward = (directionOf(item) === "asc") === (cursor.d === "next");
+        const nullsFollow = upward === (nulls.ordering === "highest");
+
+        const equalBefore: Record<string, unknown> = {};
+        for (let previous = 0; previous < index; previous++) {
+            equalBefore[fieldOf(order[previous])] = cursor.v[previous] ?? null;
+        }
+
+        const field = fieldOf(item);
+        if (value === null) {
+            if (!nullsFollow) branches.push({ ...equalBefore, [field]: { not: null } });
+            return;
+        }
+        branches.push({ ...equalBefore, [field]: { [upward ? "gt" : "lt"]: value } });
+        if (nullsFollow && nulls.fields.has(field)) branches.push({ ...equalBefore, [field]: null });
+    });
+
+    return branches.length === 1 ? branches[0] : { OR: branches };
+}
+
+function encodeCursor(direction: CursorDirection, order: OrderByItem[], row: object): string {
+    const payload: CursorPayload = {
+        d: direction,
+        f: order.map(fieldOf),
+        v: order.map(item => encodeValue((row as Record<string, unknown>)[fieldOf(item)]))
+    };
+    return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string, order: OrderByItem[], modelName: string): CursorPayload {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new InvalidCursorError("it is not a cursor of findByFilter", modelName);
+    }
+
+    if (
+        !payload ||
+        (payload.d !== "next" && payload.d !== "prev") ||
+        !Array.isArray(payload.f) ||
+        !Array.isArray(payload.v) ||
+        payload.v.length !== payload.f.length
+    ) {
+        throw new InvalidCursorError("it is not a cursor of findByFilter", modelName);
+    }
+    if (payload.f.join(",") !== order.map(fieldOf).join(",")) {
+        throw new InvalidCursorError(
+            `it was made for an order on ${payload.f.join(", ")}, not on ${order.map(fieldOf).join(", ")}`,
+            modelName
+        );
+    }
+
+    return { ...payload, v: payload.v.map(decodeValue) };
+}
+
+/** Keeps the types JSON loses: dates and big integers. A decimal travels as its string. */
+function encodeValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (typeof value === "bigint") return { $bigint: value.toString() };
+    if (value !== null && typeof value === "object") return String(value);
+    return value;
+}
+
+function decodeValue(value: unknown): unknown {
+    if (value !== null && typeof value === "object") {
+        const tagged = value as { $date?: string; $bigint?: string };
+        if (typeof tagged.$date === "string") return new Date(tagged.$date);
+        if (typeof tagged.$bigint === "string") return BigInt(tagged.$bigint);
+    }
+    return value;
+}
+
+function fieldOf(item: OrderByItem): string {
+    return Object.keys(item)[0];
+}
+
+/** The direction of an item `planKeyset` let through, which is always a plain one */
+function directionOf(item: OrderByItem): FindByFilterOptions.SortOrder {
+    return Object.values(item)[0] as FindByFilterOptions.SortOrder;
+}
+
+function reverseItem(item: OrderByItem): OrderByItem {
+    return { [fieldOf(item)]: directionOf(item) === "asc" ? "desc" : "asc" };
+}
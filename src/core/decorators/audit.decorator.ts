@@ -0,0 +1,40 @@
+import type { Audit } from "../structures/types/audit.types";
+
+/**
+ * @Audited() Decorator
+ *
+ * Records every write of an entity to an audit sink: the row, the operation, the `actor` of the
+ * request context (see `runWithContext`) and each changed field with its value before and after.
+ *
+ * - `create()`, `createMany()`, `upsert()` and `upsertMany()` record the rows they create, and
+ *   the rows they update when something changed
+ * - `update()`, `restore()`, `updateManyById()` and `updateByFilter()` record the rows they change
+ * - `delete()`, `forceDelete()`, `deleteByIds()` and `deleteByFilter()` record the rows they delete,
+ *   soft deletes included
+ *
+ * The rows a batch or filtered write changes are read just before it, in the same transaction,
+ * to know their previous values; an instance loaded from the database already knows them.
+ *
+ * @param options - `sink` to use instead of the configured `auditSink`, `ignore` to leave fields
+ * out of the changes
+ * @returns ClassDecorator function
+ *
+ * @example
+ * ```typescript
+ * configurePrisma(prisma, { auditSink: auditTable('auditLog') });
+ *
+ * @Audited({ ignore: ['passwordHash'] })
+ * class User extends BaseEntity<IUser> {
+ *   static override readonly model = prisma.user;
+ * }
+ *
+ * await runWithContext({ actor: session.userId }, () => user.update());
+ * // auditLog: { model: 'User', entityId: '1', operation: 'update', actor: '42',
+ * //             changes: { name: { from: 'John', to: 'Jane' } } }
+ * ```
+ */
+export function Audited(options: Audit.Options = {}): ClassDecorator {
+    return function (target: any): void {
+        target._auditOptions = options;
+    };
+}
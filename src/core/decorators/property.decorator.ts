@@ -1,3 +1,5 @@
+import type { Validation } from "../structures/types/validation.types";
+
 /**
  * @Property() Decorator
  * 
@@ -61,3 +63,202 @@ export function isDecoratedProperty(target: any, propertyKey: string): boolean {
 export function getDecoratedProperties(target: any): Set<string> {
     return target.constructor._decoratedProperties || new Set<string>();
 }
+
+/**
+ * Attaches a validation rule to a property
+ *
+ * Rules live in `_validationRules` on the class itself, so a subclass adds to the rules of its
+ * parent without changing them.
+ * @internal
+ */
+function addValidationRule(target: any, propertyKey: string | symbol, rule: Validation.Rule): void {
+    const ctor = target.constructor;
+    if (!Object.prototype.hasOwnProperty.call(ctor, "_validationRules")) {
+        const inherited: Map<string, Validation.Rule[]> | undefined = ctor._validationRules;
+        ctor._validationRules = new Map(
+            Array.from(inherited ?? [], ([field, rules]) => [field, [...rules]])
+        );
+    }
+
+    const rules: Map<string, Validation.Rule[]> = ctor._validationRules;
+    const field = String(propertyKey);
+    rules.set(field, [...(rules.get(field) ?? []), rule]);
+}
+
+/**
+ * Validation rules declared on an entity class, by property
+ * @internal
+ */
+export function getValidationRules(entityClass: any): Map<string, Validation.Rule[]> {
+    return entityClass._validationRules || new Map<string, Validation.Rule[]>();
+}
+
+/**
+ * @Required() Decorator
+ *
+ * Rejects `null`, `undefined` and blank strings.
+ *
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseEntity<IUser> {
+ *   @Required() @Property() declare email: string;
+ * }
+ * ```
+ */
+export function Required(message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "required",
+            message: message ?? `${String(propertyKey)} is required`,
+            checksEmpty: true,
+            test: value =>
+                value !== null && value !== undefined && !(typeof value === "string" && value.trim() === "")
+        });
+    };
+}
+
+/**
+ * @MaxLength() Decorator
+ *
+ * Caps the length of a string or an array.
+ *
+ * @param max - The largest length allowed
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function MaxLength(max: number, message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "maxLength",
+            message: message ?? `${String(propertyKey)} must be at most ${max} characters long`,
+            test: value => (typeof value === "string" || Array.isArray(value)) && value.length <= max
+        });
+    };
+}
+
+/**
+ * @Min() Decorator
+ *
+ * Sets a lower bound on a number, BigInt, Decimal or Date (compared by timestamp).
+ *
+ * @param min - The smallest value allowed
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function Min(min: number, message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "min",
+            message: message ?? `${String(propertyKey)} must be at least ${min}`,
+            test: value => Number(value) >= min
+        });
+    };
+}
+
+/**
+ * @Max() Decorator
+ *
+ * Sets an upper bound on a number, BigInt, Decimal or Date (compared by timestamp).
+ *
+ * @param max - The largest value allowed
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function Max(max: number, message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "max",
+            message: message ?? `${String(propertyKey)} must be at most ${max}`,
+            test: value => Number(value) <= max
+        });
+    };
+}
+
+/**
+ * @Pattern() Decorator
+ *
+ * Requires a string matching a regular expression.
+ *
+ * @param pattern - The expression the whole value is tested against
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function Pattern(pattern: RegExp, message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "pattern",
+            message: message ?? `${String(propertyKey)} must match ${pattern}`,
+            test: value => {
+                // A global or sticky expression keeps state between calls
+                pattern.lastIndex = 0;
+                return typeof value === "string" && pattern.test(value);
+            }
+        });
+    };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * @Email() Decorator
+ *
+ * Requires a string shaped like an email address (`local@domain.tld`).
+ *
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function Email(message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "email",
+            message: message ?? `${String(propertyKey)} must be a valid email address`,
+            test: value => typeof value === "string" && EMAIL_PATTERN.test(value)
+        });
+    };
+}
+
+/**
+ * @OneOf() Decorator
+ *
+ * Restricts a property to a fixed set of values, e.g. the members of an enum.
+ *
+ * @param values - The values allowed
+ * @param message - Reported instead of the default message
+ * @returns PropertyDecorator function
+ */
+export function OneOf(values: readonly unknown[], message?: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, {
+            rule: "oneOf",
+            message: message ?? `${String(propertyKey)} must be one of ${values.map(String).join(", ")}`,
+            test: value => values.includes(value)
+        });
+    };
+}
+
+/**
+ * @Validate() Decorator
+ *
+ * Checks a property with a custom predicate, which also sees the other properties.
+ *
+ * @param predicate - Returns whether the value is valid
+ * @param message - Reported when the predicate returns false
+ * @param rule - The rule name reported in issues (default: `custom`)
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class Booking extends BaseEntity<IBooking> {
+ *   @Validate((endsAt, { startsAt }) => endsAt > startsAt, 'endsAt must be after startsAt')
+ *   @Property() declare endsAt: Date;
+ * }
+ * ```
+ */
+export function Validate(predicate: Validation.Predicate, message: string, rule: string = "custom"): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        addValidationRule(target, propertyKey, { rule, message, test: predicate });
+    };
+}
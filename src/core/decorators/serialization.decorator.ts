@@ -0,0 +1,119 @@
+import { Serialization } from "../structures/types/serialization.types";
+
+/**
+ * Merges a serialization setting into the rule of a property
+ *
+ * Rules live in `_serializationRules` on the class itself, so a subclass can hide or expose an
+ * inherited property without changing its parent.
+ * @internal
+ */
+function setSerializationRule(target: any, propertyKey: string | symbol, rule: Serialization.Rule): void {
+    const ctor = target.constructor;
+    if (!Object.prototype.hasOwnProperty.call(ctor, "_serializationRules")) {
+        const inherited: Map<string, Serialization.Rule> | undefined = ctor._serializationRules;
+        ctor._serializationRules = new Map(
+            Array.from(inherited ?? [], ([field, current]) => [field, { ...current }])
+        );
+    }
+
+    const rules: Map<string, Serialization.Rule> = ctor._serializationRules;
+    const field = String(propertyKey);
+    rules.set(field, { ...rules.get(field), ...rule });
+}
+
+/**
+ * Serialization rules declared on an entity class, by property
+ * @internal
+ */
+export function getSerializationRules(entityClass: any): Map<string, Serialization.Rule> {
+    return entityClass._serializationRules || new Map<string, Serialization.Rule>();
+}
+
+/**
+ * @Hidden() Decorator
+ *
+ * Leaves a property out of `toObject()` and `toJson()`. The property is still written and read
+ * like any other.
+ *
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseEntity<IUser> {
+ *   @Hidden() @Property() declare passwordHash: string;
+ * }
+ * ```
+ */
+export function Hidden(): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        setSerializationRule(target, propertyKey, { hidden: true });
+    };
+}
+
+/**
+ * @Expose() Decorator
+ *
+ * Restricts a property to serialization groups: it is only output when `toObject()` / `toJson()`
+ * is asked for one of them. Without groups, it shows a property a parent class hid.
+ *
+ * @param options - `groups` the property belongs to
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseEntity<IUser> {
+ *   @Expose({ groups: ['admin'] }) @Property() declare email: string;
+ * }
+ *
+ * user.toObject();                        // no email
+ * user.toObject({ groups: ['admin'] });   // { ..., email }
+ * ```
+ */
+export function Expose(options: { groups?: string[] } = {}): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        setSerializationRule(target, propertyKey, { hidden: false, groups: options.groups });
+    };
+}
+
+/**
+ * @SerializeAs() Decorator
+ *
+ * Outputs a property under another key.
+ *
+ * @param name - The key written instead of the property name
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseEntity<IUser> {
+ *   @SerializeAs('displayName') @Property() declare name: string;
+ * }
+ * ```
+ */
+export function SerializeAs(name: string): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        setSerializationRule(target, propertyKey, { name });
+    };
+}
+
+/**
+ * @Transform() Decorator
+ *
+ * Replaces the value of a property in the output. The result is serialized like any other value,
+ * so it may be an entity, a Date or a BigInt.
+ *
+ * @param transform - Receives the value, the entity and the serialization options
+ * @returns PropertyDecorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends BaseEntity<IUser> {
+ *   @Transform(email => email.replace(/^(.).*@/, '$1***@')) @Property() declare email: string;
+ * }
+ * ```
+ */
+export function Transform(transform: Serialization.Transformer): PropertyDecorator {
+    return function (target: any, propertyKey: string | symbol): void {
+        setSerializationRule(target, propertyKey, { transform });
+    };
+}
@@ -0,0 +1,44 @@
+import { registerSoftDeleteModel } from "../soft-delete";
+
+/**
+ * @SoftDelete() Decorator
+ *
+ * Turns deletes of an entity into a timestamp on a nullable column, and hides the rows carrying
+ * one from every read.
+ *
+ * - `delete()`, `deleteByIds()` and `deleteByFilter()` set the column instead of removing rows;
+ *   `forceDelete()` and the `force` option remove them for real
+ * - `findByFilter()`, `countByFilter()` and `updateByFilter()` skip soft-deleted rows unless
+ *   `withTrashed` / `onlyTrashed` say otherwise
+ * - relation paths in a search and to-many includes leading to this model skip them too
+ * - `upsert()` / `upsertMany()` revive a soft-deleted row that matches instead of duplicating it
+ * - `restore()` clears the column
+ *
+ * @param field - The nullable `DateTime` column marking a row as deleted (default: `deletedAt`)
+ * @returns ClassDecorator function
+ *
+ * @example
+ * ```typescript
+ * @SoftDelete('deletedAt')
+ * class Post extends BaseEntity<IPost> {
+ *   static override readonly model = prisma.post;
+ * }
+ *
+ * await post.delete();                                  // UPDATE ... SET deletedAt = now()
+ * await Post.findByFilter({}, { withTrashed: true });   // live and deleted rows
+ * await post.restore();
+ * ```
+ */
+export function SoftDelete(field: string = "deletedAt"): ClassDecorator {
+    return function (target: any): void {
+        target._softDeleteField = field;
+
+        // Register the model now when its delegate is already readable; otherwise the first
+        // query through the class does it
+        try {
+            const modelName = target.model?.name;
+            if (typeof modelName === "string") registerSoftDeleteModel(modelName, field);
+        } catch {
+        }
+    };
+}
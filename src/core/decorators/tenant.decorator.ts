@@ -0,0 +1,46 @@
+import { registerTenantModel } from "../multi-tenancy";
+
+/**
+ * @TenantScoped() Decorator
+ *
+ * Confines an entity to the tenant of the current request context (see `runWithContext`), so
+ * that code handling one tenant cannot read or write another tenant's rows.
+ *
+ * - `findByFilter()`, `countByFilter()`, `existsByFilter()`, `findById()` / `findByIds()`,
+ *   `updateByFilter()` and `deleteByFilter()` only match the tenant's rows
+ * - `update()`, `delete()`, `restore()`, `updateManyById()` and `deleteByIds()` only write rows of
+ *   the tenant
+ * - `create()`, `createMany()`, `upsert()` and `upsertMany()` write the tenant into the column, and
+ *   `upsert()` / `upsertMany()` only update an existing row of the same tenant
+ *
+ * Every one of them throws `MissingTenantContextError` when no tenant is set.
+ *
+ * @param field - The column holding the tenant id (default: `tenantId`)
+ * @returns ClassDecorator function
+ *
+ * @example
+ * ```typescript
+ * @TenantScoped('organizationId')
+ * class Invoice extends BaseEntity<IInvoice> {
+ *   static override readonly model = prisma.invoice;
+ * }
+ *
+ * await runWithContext({ tenantId: 7 }, async () => {
+ *   await new Invoice({ number: 'A-1' }).create();   // organizationId = 7
+ *   await Invoice.findByFilter({});                  // WHERE organizationId = 7
+ * });
+ * ```
+ */
+export function TenantScoped(field: string = "tenantId"): ClassDecorator {
+    return function (target: any): void {
+        target._tenantField = field;
+
+        // Register the model now when its delegate is already readable; otherwise the first
+        // query through the class does it
+        try {
+            const modelName = target.model?.name;
+            if (typeof modelName === "string") registerTenantModel(modelName, field);
+        } catch {
+        }
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * @Version() Decorator
+ *
+ * Turns on optimistic concurrency control for an entity. Every write matches the row on its id
+ * and on the version it was loaded at, and moves the version forward, so a writer working from a
+ * stale copy gets an `OptimisticLockError` instead of overwriting someone else's changes.
+ *
+ * - `update()` throws `OptimisticLockError` when the row is no longer at the loaded version
+ * - `updateManyById()` compares each item's version, writes the rows that still match and throws
+ *   `OptimisticLockError` listing the ids that did not
+ *
+ * The column is either an `Int` / `BigInt` counter, incremented on each write, or a `DateTime`
+ * (typically `updatedAt`), set to the current time.
+ *
+ * @param field - The version column (default: `version`)
+ * @returns ClassDecorator function
+ *
+ * @example
+ * ```typescript
+ * @Version()
+ * class Article extends BaseEntity<IArticle> {
+ *   static override readonly model = prisma.article;
+ * }
+ *
+ * const article = new Article(row);   // row.version === 3
+ * article.title = 'New title';
+ * await article.update();             // WHERE id = ? AND version = 3, SET version = 4
+ * ```
+ */
+export function Version(field: string = "version"): ClassDecorator {
+    return function (target: any): void {
+        target._versionField = field;
+    };
+}
@@ -0,0 +1,155 @@
+/**
+ * Entity Hydration Module
+ *
+ * Turns the plain rows a query returns into instances of entity classes, so they can call
+ * `update()` / `delete()` and use their accessors. Included relations become instances of the
+ * entity class of their model, which is looked up in a registry keyed by model name — the same
+ * way `soft-delete.ts` resolves related models, since a relation only names its model.
+ *
+ * Inside `runUnitOfWork()` reads hydrate by default, and every instance built is handed to the
+ * unit of work, which returns the instance it already holds for the same primary key.
+ */
+
+import { isHydrateByDefault } from "./config";
+import type ModelUtils from "./model-utils";
+import { FindByFilterOptions } from "./structures/types/search.types";
+import { getActiveUnitOfWork } from "./unit-of-work";
+
+type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
+
+/** The part of an entity class hydration relies on */
+interface HydratableClass {
+    new(data?: any): { markClean(): void };
+    model?: unknown;
+    getModelInformation(): ModelInfo;
+}
+
+/** Entity class per model, keyed by lower-cased model name */
+const entityClasses = new Map<string, HydratableClass>();
+
+/**
+ * Registers the entity classes that hydrated relations of their models become
+ *
+ * @param classes - `BaseEntity` subclasses with a `static model`
+ *
+ * @remarks
+ * A class is also registered the first time it hydrates a result of its own, unless another class
+ * of the same model is registered already. Call this at startup when several classes share a
+ * model, or when relations should be hydrated before their own class has run a query.
+ *
+ * @example
+ * ```typescript
+ * registerEntity(User, Post, Comment);
+ *
+ * const users = await User.findByFilter({}, { hydrate: true, relationsToInclude: ['posts'] });
+ * users[0].posts[0] instanceof Post; // true
+ * ```
+ */
+export function registerEntity(...classes: HydratableClass[]): void {
+    for (const entityClass of classes) {
+        const modelName = getModelName(entityClass);
+        if (modelName) entityClasses.set(modelName.toLowerCase(), entityClass);
+    }
+}
+
+/**
+ * The entity class registered for a model, if any
+ * @internal
+ */
+export function getEntityClassForModel(modelName: string | null | undefined): HydratableClass | undefined {
+    return modelName ? entityClasses.get(modelName.toLowerCase()) : undefined;
+}
+
+/**
+ * Whether a read hydrates its result
+ *
+ * @param options - The caller's options
+ * @returns `options.hydrate`, falling back to `true` inside a unit of work and to the `hydrate`
+ * option of `configurePrisma()` outside
+ * @internal
+ */
+export function shouldHydrate(options?: Pick<FindByFilterOptions.Options, "hydrate">): boolean {
+    return options?.hydrate ?? (getActiveUnitOfWork() !== null || isHydrateByDefault());
+}
+
+/**
+ * Hydrates the result of a read into instances of an entity class
+ *
+ * @param entityClass - The class the read was called on
+ * @param result - A row, an array of rows, a paginated response, or null
+ * @param onlyOne - Whether the result is a single row rather than a list or a page
+ * @returns The same shape, with every row — and every included relation of a registered model —
+ * replaced by an instance, marked clean
+ * @internal
+ */
+export function hydrateResult<TResult>(entityClass: HydratableClass, result: TResult, onlyOne?: boolean): TResult {
+    if (result === null || result === undefined) return result;
+
+    const modelName = getModelName(entityClass);
+    if (modelName && !getEntityClassForModel(modelName)) {
+        registerEntity(entityClass);
+    }
+
+    const modelInfo = readModelInfo(entityClass);
+
+    if (Array.isArray(result)) {
+        return result.map(row => hydrateRow(entityClass, row, modelInfo)) as TResult;
+    }
+    if (onlyOne) {
+        return hydrateRow(entityClass, result as Record<string, unknown>, modelInfo) as TResult;
+    }
+
+    const page = result as unknown as FindByFilterOptions.PaginatedResponse<Record<string, unknown>>;
+    return { ...page, data: page.data.map(row => hydrateRow(entityClass, row, modelInfo)) } as TResult;
+}
+
+/**
+ * Builds one instance, hydrating its included relations first so the constructor receives them
+ * @private
+ */
+function hydrateRow(
+    entityClass: HydratableClass,
+    row: Record<string, unknown>,
+    modelInfo: ModelInfo | null
+): object {
+    const values: Record<string, unknown> = { ...row };
+
+    for (const field of modelInfo?.fields ?? []) {
+        const value = values[field.name];
+        if (field.kind !== "object" || value === null || typeof value !== "object") continue;
+
+        const relatedClass = getEntityClassForModel(field.type);
+        if (!relatedClass) continue;
+
+        const relatedInfo = readModelInfo(relatedClass);
+        values[field.name] = Array.isArray(value)
+            ? value.map(item => hydrateRow(relatedClass, item as Record<string, unknown>, relatedInfo))
+            : hydrateRow(relatedClass, value as Record<string, unknown>, relatedInfo);
+    }
+
+    const entity = new entityClass(values);
+    entity.markClean();
+    return getActiveUnitOfWork()?.track(entity) ?? entity;
+}
+
+/**
+ * The model information of an entity class, or null when its model is not in the runtime data
+ * model; relations are then left as they were read
+ * @private
+ */
+function readModelInfo(entityClass: HydratableClass): ModelInfo | null {
+    try {
+        return entityClass.getModelInformation();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The model name of an entity class
+ * @private
+ */
+function getModelName(entityClass: HydratableClass): string | undefined {
+    const name = (entityClass.model as { name?: unknown } | undefined)?.name;
+    return typeof name === "string" ? name : undefined;
+}
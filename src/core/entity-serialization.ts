@@ -0,0 +1,101 @@
+/**
+ * Entity Serialization Module
+ *
+ * Turns entities into plain data for `toObject()` and `toJson()`, applying the serialization
+ * decorators of each entity met on the way — the entity itself and the entities of its included
+ * relations — and converting the values JSON cannot carry when asked to.
+ *
+ * Write paths never go through here: they read the raw values with `sanitizeKeysRecursive`, so a
+ * hidden or renamed property is still written under its own name.
+ */
+
+import { getSerializationRules } from "./decorators/serialization.decorator";
+import { Serialization } from "./structures/types/serialization.types";
+import { isDecimalLike } from "./utils/comparison-utils";
+
+/** Marks a value left out of the output: an object met again below itself */
+const OMITTED = Symbol("omitted");
+
+/**
+ * Serializes an entity, or any value holding entities
+ *
+ * @param value - The entity to serialize
+ * @param options - Groups to output, and whether to convert values for JSON
+ * @returns Plain data: objects, arrays and scalars
+ * @internal
+ */
+export function serializeEntity(value: unknown, options: Serialization.Options = {}): unknown {
+    const serialized = serializeValue(value, options, new Set());
+    return serialized === OMITTED ? undefined : serialized;
+}
+
+function serializeValue(value: unknown, options: Serialization.Options, ancestors: Set<object>): unknown {
+    if (typeof value === "bigint") {
+        return options.json ? value.toString() : value;
+    }
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+    if (value instanceof Date) {
+        return options.json ? value.toJSON() : value;
+    }
+    if (isDecimalLike(value)) {
+        return options.json ? value.toString() : value;
+    }
+    if (isBytes(value)) {
+        return options.json ? Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString("base64") : value;
+    }
+    if (ancestors.has(value)) {
+        return OMITTED;
+    }
+
+    ancestors.add(value);
+    try {
+        if (Array.isArray(value)) {
+            return value
+                .map(item => serializeValue(item, options, ancestors))
+                .filter(item => item !== OMITTED);
+        }
+        return serializeObject(value as Record<string, unknown>, options, ancestors);
+    } finally {
+        ancestors.delete(value);
+    }
+}
+
+/**
+ * Serializes the properties of an object, following the rules its class declares — none for a
+ * plain object. Leading underscores of the `@Property()` backing fields are stripped.
+ */
+function serializeObject(
+    object: Record<string, unknown>,
+    options: Serialization.Options,
+    ancestors: Set<object>
+): Record<string, unknown> {
+    const rules = getSerializationRules(object.constructor);
+    const output: Record<string, unknown> = {};
+
+    for (const key of Object.keys(object)) {
+        const field = key.replace(/^_+/, "");
+        const rule = rules.get(field);
+        if (rule && !isOutput(rule, options)) continue;
+
+        const raw = rule?.transform ? rule.transform(object[key], object, options) : object[key];
+        const serialized = serializeValue(raw, options, ancestors);
+        if (serialized === OMITTED) continue;
+
+        output[rule?.name ?? field] = serialized;
+    }
+
+    return output;
+}
+
+function isOutput(rule: Serialization.Rule, options: Serialization.Options): boolean {
+    if (rule.hidden) return false;
+    if (!rule.groups?.length) return true;
+    return rule.groups.some(group => options.groups?.includes(group) ?? false);
+}
+
+/** `Bytes` columns come back as a `Buffer` (Prisma 5) or a `Uint8Array` (Prisma 6) */
+function isBytes(value: object): value is Uint8Array {
+    return value instanceof Uint8Array;
+}
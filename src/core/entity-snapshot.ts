@@ -0,0 +1,108 @@
+/**
+ * Entity Snapshot Module
+ *
+ * Remembers the last persisted state of entity instances so they can report, revert and write
+ * only what changed since.
+ *
+ * Snapshots are held in a WeakMap rather than on the instance: an own property would show up in
+ * `toObject()`, `toJson()` and every write payload, and it is collected along with its entity.
+ * Change detection goes through `fieldHasChanged`, the same rules upsert uses to decide whether
+ * a row needs updating (Decimal/BigInt coercion, Dates by timestamp, deep JSON equality).
+ */
+
+import { fieldHasChanged, isStandardIgnoredField } from "./utils/comparison-utils";
+
+/**
+ * One changed field: its persisted value and its current one
+ */
+export interface EntityFieldChange<TValue = unknown> {
+    from: TValue | undefined;
+    to: TValue | undefined;
+}
+
+/**
+ * Changed fields of an entity, keyed by field name
+ */
+export type EntityChanges<TModel extends object = Record<string, unknown>> = {
+    [K in keyof TModel]?: EntityFieldChange<TModel[K]>;
+};
+
+const snapshots = new WeakMap<object, Record<string, unknown>>();
+
+/**
+ * Records the given values as the persisted state of an entity
+ *
+ * @param entity - The entity instance
+ * @param values - Its sanitized values, as returned by `sanitizeKeysRecursive()`
+ * @internal
+ */
+export function recordSnapshot(entity: object, values: Record<string, unknown>): void {
+    snapshots.set(entity, cloneValue(values) as Record<string, unknown>);
+}
+
+/**
+ * Returns a copy of the persisted state of an entity, or `undefined` when it was never loaded
+ * from or written to the database
+ * @internal
+ */
+export function getSnapshot(entity: object): Record<string, unknown> | undefined {
+    const snapshot = snapshots.get(entity);
+    return snapshot ? (cloneValue(snapshot) as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Lists the fields whose current value differs from the snapshot
+ *
+ * @param current - The entity's current sanitized values
+ * @param snapshot - The persisted state, or `undefined` for an untracked entity
+ * @returns Changes keyed by field; `id`, `createdAt` and `updatedAt` are never reported
+ * @internal
+ *
+ * @remarks
+ * Without a snapshot nothing is known to be persisted, so every field holding a value counts as
+ * changed — matching what `update()` writes for such an entity.
+ */
+export function diffSnapshot(
+    current: Record<string, unknown>,
+    snapshot: Record<string, unknown> | undefined
+): Record<string, EntityFieldChange> {
+    const changes: Record<string, EntityFieldChange> = {};
+
+    if (!snapshot) {
+        for (const [key, value] of Object.entries(current)) {
+            if (isStandardIgnoredField(key) || value === undefined) continue;
+            changes[key] = { from: undefined, to: value };
+        }
+        return changes;
+    }
+
+    const keys = new Set([...Object.keys(snapshot), ...Object.keys(current)]);
+    for (const key of keys) {
+        if (isStandardIgnoredField(key)) continue;
+        if (fieldHasChanged(current[key], snapshot[key])) {
+            changes[key] = { from: snapshot[key], to: current[key] };
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Copies arrays, plain objects and Dates, so in-place edits of a JSON field or a Date do not
+ * also edit the snapshot. Anything else (Decimal, Buffer, class instances) is kept by reference.
+ */
+function cloneValue(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(cloneValue);
+    if (value instanceof Date) return new Date(value.getTime());
+    if (value !== null && typeof value === "object") {
+        const proto = Object.getPrototypeOf(value);
+        if (proto !== Object.prototype && proto !== null) return value;
+
+        const copy: Record<string, unknown> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            copy[key] = cloneValue(nested);
+        }
+        return copy;
+    }
+    return value;
+}
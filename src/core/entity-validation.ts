@@ -0,0 +1,84 @@
+/**
+ * Entity Validation Module
+ *
+ * Runs the rules of the validation decorators against an entity or a batch of plain items, and
+ * decides what a write does with the items that break them.
+ */
+
+import BaseEntityHelpers from "./base-entity-helpers";
+import { getValidationRules } from "./decorators/property.decorator";
+import { ValidationError } from "./errors";
+import { Validation } from "./structures/types/validation.types";
+
+/**
+ * Checks values against the validation rules of an entity class
+ *
+ * @param entityClass - The entity class declaring the rules
+ * @param values - The values to check, keyed by property name
+ * @param fields - Only check these properties (default: every property with rules)
+ * @returns Every broken rule, empty when the values are valid
+ * @internal
+ */
+export function validateValues(
+    entityClass: object,
+    values: Record<string, unknown>,
+    fields?: readonly string[]
+): Validation.Issue[] {
+    const issues: Validation.Issue[] = [];
+
+    for (const [field, rules] of getValidationRules(entityClass)) {
+        if (fields && !fields.includes(field)) continue;
+
+        const value = values[field];
+        const isEmpty = value === null || value === undefined;
+
+        for (const rule of rules) {
+            if (isEmpty && !rule.checksEmpty) continue;
+            if (!rule.test(value, values)) {
+                issues.push({ field, rule: rule.rule, message: rule.message });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validates the items of a batch write
+ *
+ * @param entityClass - The entity class declaring the rules
+ * @param modelName - Reported in the `ValidationError`
+ * @param items - The batch items
+ * @param options - `skipInvalid` / `onInvalid`
+ * @returns The items to write: all of them when they are valid, the valid ones with `skipInvalid`
+ * @throws ValidationError listing the issues of every invalid item, unless `skipInvalid` is set
+ * @internal
+ */
+export async function validateItems<TItem extends object>(
+    entityClass: object,
+    modelName: string,
+    items: TItem[],
+    options?: Validation.BatchOptions
+): Promise<TItem[]> {
+    if (getValidationRules(entityClass).size === 0) return items;
+
+    const valid: TItem[] = [];
+    const issues: Validation.Issue[] = [];
+
+    items.forEach((item, index) => {
+        const itemIssues = validateValues(entityClass, BaseEntityHelpers.sanitizeKeysRecursive(item));
+        if (itemIssues.length === 0) {
+            valid.push(item);
+        } else {
+            issues.push(...itemIssues.map(issue => ({ ...issue, index })));
+        }
+    });
+
+    if (issues.length === 0) return items;
+
+    const error = new ValidationError(modelName, issues);
+    if (!options?.skipInvalid) throw error;
+
+    await options.onInvalid?.(error);
+    return valid;
+}
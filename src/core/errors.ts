@@ -0,0 +1,255 @@
+/**
+ * Error classes thrown by entity operations
+ *
+ * Each carries the details a caller needs to react to the failure programmatically, so that
+ * `instanceof` replaces matching on messages. They all extend {@link EntityError}; the error
+ * they were mapped from, a Prisma or driver error, is kept as `cause`.
+ */
+
+import type { EntityId } from "./primary-key";
+import type { Validation } from "./structures/types/validation.types";
+
+/**
+ * Base class of every error thrown by entity operations
+ */
+export class EntityError extends Error {
+    /** The Prisma model the operation targeted, or `""` when it is not known */
+    readonly modelName: string;
+
+    constructor(message: string, modelName: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = "EntityError";
+        this.modelName = modelName;
+    }
+}
+
+/**
+ * Thrown when an entity class has no usable Prisma model delegate, e.g. `static model` was not
+ * declared or points at a model the client does not have.
+ */
+export class ModelNotConfiguredError extends EntityError {
+    constructor(message: string = "Model is not defined in the BaseEntity class.", modelName: string = "") {
+        super(message, modelName);
+        this.name = "ModelNotConfiguredError";
+    }
+}
+
+/**
+ * Thrown when the record an operation targets does not exist (Prisma `P2025`).
+ */
+export class EntityNotFoundError extends EntityError {
+    /** The criteria that matched nothing, when known */
+    readonly where?: Record<string, unknown>;
+
+    constructor(modelName: string, where?: Record<string, unknown>, options?: { cause?: unknown }) {
+        super(`${modelName || "Record"} not found${describeWhere(where)}.`, modelName, options);
+        this.name = "EntityNotFoundError";
+        this.where = where;
+    }
+}
+
+/**
+ * Thrown when a write would duplicate a unique value (Prisma `P2002`, SQLSTATE `23505`, MySQL
+ * `1062`, SQL Server `2627` / `2601`, SQLite `UNIQUE constraint failed`).
+ */
+export class UniqueConstraintError extends EntityError {
+    /** The fields of the violated constraint; the constraint name when the fields are unknown */
+    readonly fields: string[];
+
+    constructor(modelName: string, fields: string[], options?: { cause?: unknown }) {
+        super(
+            `Unique constraint failed on ${modelName || "record"}${fields.length > 0 ? ` (${fields.join(", ")})` : ""}.`,
+            modelName,
+            options
+        );
+        this.name = "UniqueConstraintError";
+        this.fields = fields;
+    }
+}
+
+/**
+ * Thrown when a write references a row that does not exist, or a delete would orphan rows that
+ * reference it (Prisma `P2003`, SQLSTATE `23503`, MySQL `1451` / `1452`, SQL Server `547`,
+ * SQLite `FOREIGN KEY constraint failed`).
+ */
+export class ForeignKeyError extends EntityError {
+    /** The foreign key field or constraint, when the database reports it */
+    readonly field?: string;
+
+    constructor(modelName: string, field?: string, options?: { cause?: unknown }) {
+        super(`Foreign key constraint failed on ${modelName || "record"}${field ? ` (${field})` : ""}.`, modelName, options);
+        this.name = "ForeignKeyError";
+        this.field = field;
+    }
+}
+
+/**
+ * Thrown when the database aborted a transaction because of a write conflict or a deadlock
+ * (Prisma `P2034`, SQLSTATE `40001` / `40P01`, MySQL `1213`, SQL Server `1205`). Retrying the
+ * whole transaction is expected to succeed.
+ */
+export class TransactionConflictError extends EntityError {
+    constructor(modelName: string, options?: { cause?: unknown }) {
+        super(
+            `Write conflict or deadlock on ${modelName || "record"}; retry the transaction.`,
+            modelName,
+            options
+        );
+        this.name = "TransactionConflictError";
+    }
+}
+
+/**
+ * Thrown in strict mode by a batch operation some of whose batches failed. The other batches
+ * were written.
+ */
+export class BatchPartialFailureError extends EntityError {
+    /** The batch method, e.g. `deleteByIds` */
+    readonly operation: string;
+
+    /** Why each failed batch failed, by batch position */
+    readonly causes: Array<{ batch: number; error: Error }>;
+
+    /** How many records the successful batches wrote, when the operation counts them */
+    readonly succeeded?: number;
+
+    constructor(
+        operation: string,
+        modelName: string,
+        causes: Array<{ batch: number; error: Error }>,
+        succeeded?: number
+    ) {
+        super(
+            `${operation} on ${modelName || "record"}: ${causes.length} batch${causes.length === 1 ? "" : "es"} failed` +
+            (causes.length > 0 ? ` (first: ${causes[0].error.message})` : "") + ".",
+            modelName,
+            { cause: causes[0]?.error }
+        );
+        this.name = "BatchPartialFailureError";
+        this.operation = operation;
+        this.causes = causes;
+        this.succeeded = succeeded;
+    }
+}
+
+/**
+ * Thrown when a write on a `@Version()` entity finds the row at another version than the one
+ * that was loaded: someone else wrote it in between.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await article.update();
+ * } catch (error) {
+ *   if (error instanceof OptimisticLockError) {
+ *     // load the row again, re-apply the edit, retry
+ *   }
+ * }
+ * ```
+ */
+export class OptimisticLockError extends EntityError {
+    /** The ids whose version no longer matched; key objects for a composite primary key */
+    readonly ids: Array<EntityId>;
+
+    /** How many rows of the same call were written anyway (batch updates only) */
+    readonly updatedCount: number;
+
+    constructor(modelName: string, ids: Array<EntityId>, updatedCount: number = 0) {
+        super(
+            ids.length === 1
+                ? `${modelName} ${describeId(ids[0])} was modified by another writer since it was loaded.`
+                : `${ids.length} ${modelName} rows were modified by another writer since they were loaded: ${ids.map(describeId).join(", ")}.`,
+            modelName
+        );
+        this.name = "OptimisticLockError";
+        this.ids = ids;
+        this.updatedCount = updatedCount;
+    }
+}
+
+/**
+ * Thrown when data written through an entity breaks the rules of its validation decorators.
+ * Lists every problem found, not only the first one.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await new User(body).create();
+ * } catch (error) {
+ *   if (error instanceof ValidationError) {
+ *     return res.status(422).json(error.issues);   // [{ field: 'email', rule: 'email', message }]
+ *   }
+ * }
+ * ```
+ */
+export class ValidationError extends EntityError {
+    /** Every broken rule; batch methods set `index` to the position of the item */
+    readonly issues: Validation.Issue[];
+
+    constructor(modelName: string, issues: Validation.Issue[]) {
+        super(
+            `Invalid ${modelName} data: ` +
+            issues
+                .map(issue => (issue.index === undefined ? issue.message : `item ${issue.index}: ${issue.message}`))
+                .join("; "),
+            modelName
+        );
+        this.name = "ValidationError";
+        this.issues = issues;
+    }
+}
+
+/**
+ * Thrown when an operation on a `@TenantScoped()` entity runs outside of a request context that
+ * names a tenant. Nothing is read or written: without a tenant the query could only be scoped
+ * to every tenant.
+ *
+ * @example
+ * ```typescript
+ * await Invoice.findByFilter({});                                     // throws
+ * await runWithContext({ tenantId: 7 }, () => Invoice.findByFilter({})); // tenant 7's rows
+ * ```
+ */
+export class MissingTenantContextError extends EntityError {
+    constructor(modelName: string) {
+        super(
+            `${modelName || "This model"} is tenant-scoped, but no tenant is set. Run the operation inside runWithContext({ tenantId }, ...).`,
+            modelName
+        );
+        this.name = "MissingTenantContextError";
+    }
+}
+
+/**
+ * Thrown when the `cursor` of a keyset pagination cannot be used: it was not produced by
+ * `findByFilter`, or by a query ordered on other fields than this one.
+ */
+export class InvalidCursorError extends EntityError {
+    constructor(reason: string, modelName: string = "") {
+        super(`Invalid pagination cursor: ${reason}.`, modelName);
+        this.name = "InvalidCursorError";
+    }
+}
+
+/**
+ * Renders the scalar criteria of a `where` for an error message
+ * @private
+ */
+function describeWhere(where?: Record<string, unknown>): string {
+    if (!where) return "";
+
+    const parts = Object.entries(where)
+        .filter(([, value]) => ["string", "number", "bigint", "boolean"].includes(typeof value))
+        .map(([key, value]) => `${key} = ${String(value)}`);
+
+    return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+/**
+ * Renders an id for an error message; a composite key as `(tenantId = 1, code = A)`
+ * @private
+ */
+function describeId(id: EntityId): string {
+    if (typeof id !== "object" || id === null) return String(id);
+    return `(${Object.entries(id).map(([key, value]) => `${key} = ${String(value)}`).join(", ")})`;
+}
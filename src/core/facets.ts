@@ -0,0 +1,106 @@
+/**
+ * Facets Module
+ *
+ * The pieces of `facetsByFilter` that do not query: leaving a facet's own field out of the
+ * caller's filter and search, the range conditions of a bucketed facet, and the keys counts are
+ * reported under.
+ *
+ * Only the caller's conditions are left out. Scopes, soft delete and the tenant reach
+ * `facetsByFilter` apart from them and are ANDed back into every facet, whatever its field.
+ */
+
+import type { Search } from "./structures/types/search.types";
+import type { Facet } from "./structures/types/facet.types";
+
+/** One bucket of a bucketed facet */
+export interface FacetBucket {
+    label: string;
+    condition: Search.Node;
+}
+
+/**
+ * Removes the conditions on a field from a filter and from the conjunction at the root of a
+ * search tree
+ *
+ * @remarks
+ * Conditions under `or` or `not` are kept: dropping them would widen the other branches too.
+ * @internal
+ */
+export function withoutField<TModel extends object>(
+    filter: Partial<TModel>,
+    search: Search.Input | undefined,
+    field: string
+): { filter: Partial<TModel>; search: Search.Input | undefined } {
+    const { [field as keyof TModel]: _own, ...rest } = filter;
+    const nodes = search === undefined ? [] : conjuncts(search).filter(node => !isConditionOn(node, field));
+
+    return { filter: rest as Partial<TModel>, search: nodes.length > 0 ? nodes : undefined };
+}
+
+/**
+ * ANDs search inputs together, leaving out the missing ones
+ * @internal
+ */
+export function andSearches(...inputs: Array<Search.Input | undefined>): Search.Input | undefined {
+    const nodes = inputs.flatMap(input =>
+        input === undefined ? [] : Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node]
+    );
+    return nodes.length > 0 ? nodes : undefined;
+}
+
+/**
+ * The ranges of a bucketed facet: `[0, 50, 100]` gives `0-50`, `50-100` and `100+`
+ *
+ * @throws Error when the boundaries are missing or not strictly ascending numbers
+ * @internal
+ */
+export function bucketRanges(field: string, buckets: readonly number[]): FacetBucket[] {
+    const ascending = buckets.every((value, i) => Number.isFinite(value) && (i === 0 || value > buckets[i - 1]));
+    if (buckets.length === 0 || !ascending) {
+        throw new Error(`buckets of the "${field}" facet must be strictly ascending numbers`);
+    }
+
+    return buckets.map((lower, i): FacetBucket => {
+        const upper = buckets[i + 1];
+        return upper === undefined
+            ? { label: `${lower}+`, condition: { field, gte: lower } }
+            : { label: `${lower}-${upper}`, condition: { field, gte: lower, lt: upper } };
+    });
+}
+
+/**
+ * The key a value is counted under: `"null"` for null, ISO strings for dates
+ * @internal
+ */
+export function facetKey(value: unknown): string {
+    if (value === null || value === undefined) return "null";
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+/**
+ * Counts the elements of a scalar list field over rows; a row counts once per distinct element
+ *
+ * @param counts - Counts to add to, for rows read batch by batch
+ * @internal
+ */
+export function countElements(rows: readonly Record<string, unknown>[], field: string, counts: Facet.Counts = {}): Facet.Counts {
+    for (const row of rows) {
+        const value = row[field];
+        const elements = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+        for (const key of new Set(elements.map(facetKey))) {
+            counts[key] = (counts[key] ?? 0) + 1;
+        }
+    }
+    return counts;
+}
+
+/** The nodes ANDed at the root of a tree, through nested `and` nodes */
+function conjuncts(input: Search.Input): Search.Node[] {
+    const nodes = Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node];
+    return nodes.flatMap(node => "and" in node ? conjuncts(node.and) : [node]);
+}
+
+function isConditionOn(node: Search.Node, field: string): boolean {
+    return "field" in node && node.field === field;
+}
@@ -0,0 +1,205 @@
+/**
+ * Full-Text Module
+ *
+ * How a `matches` condition runs on each provider. Every word of the text must match:
+ *
+ * - PostgreSQL and MySQL take it as Prisma's `search` filter over a full-text index, written in
+ *   their own query syntax (`red & shoes`, `+red +shoes`). `rank: true` orders by `_relevance`.
+ * - MongoDB has no `where` form for `$text`, so the ids of the matching documents are read first
+ *   through `findRaw` and the condition becomes an `in` on the primary key.
+ * - Any other provider, SQLite included, gets one `like` per word, which needs no index but scans.
+ */
+
+import { isPrismaConfigured } from "./config";
+import { getDatabaseProviderCached } from "./utils/database-utils";
+import type { Search } from "./structures/types/search.types";
+import type { FindByFilterOptions } from "./structures/types/search.types";
+
+/** How `matches` runs on the configured provider */
+export type FullTextStrategy = "search" | "text" | "tokens";
+
+/** A `matches` condition, read without narrowing */
+type TextCondition = Search.Target & { matches: string; rank?: boolean };
+
+/** The raw query of a MongoDB model delegate */
+interface RawModel {
+    findRaw?(args: { filter: Record<string, unknown>; options?: Record<string, unknown> }): Promise<unknown>;
+}
+
+/**
+ * How `matches` runs on the configured provider; `tokens` when it cannot be determined
+ * @internal
+ */
+export function fullTextStrategy(): FullTextStrategy {
+    const provider = currentProvider();
+    if (provider === "postgresql" || provider === "mysql") return "search";
+    if (provider === "mongodb") return "text";
+    return "tokens";
+}
+
+/**
+ * The words of a full-text search, punctuation dropped
+ * @internal
+ */
+export function textWords(text: unknown): string[] {
+    if (typeof text !== "string") return [];
+    return text
+        .split(/\s+/)
+        .map(word => word.replace(/[^\p{L}\p{N}_]+/gu, ""))
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Prisma's `search` value requiring every word, in the syntax of the provider: `red & shoes` on
+ * PostgreSQL (`to_tsquery`), `+red +shoes` on MySQL (boolean mode)
+ * @internal
+ */
+export function toSearchQuery(words: readonly string[]): string {
+    return currentProvider() === "mysql"
+        ? words.map(word => `+${word}`).join(" ")
+        : words.join(" & ");
+}
+
+/**
+ * Whether a search tree holds a `matches` condition
+ * @internal
+ */
+export function hasTextSearch(input: Search.Input): boolean {
+    return nodesOf(input).some(node => {
+        if ("and" in node) return hasTextSearch(node.and);
+        if ("or" in node) return hasTextSearch(node.or);
+        if ("not" in node) return hasTextSearch(node.not);
+        return "matches" in node;
+    });
+}
+
+/**
+ * Puts the relevance of the ranked `matches` conditions before an order
+ *
+ * @returns The order unchanged when no condition ranks, or the provider cannot rank
+ * @remarks
+ * Only conditions on the model's own fields, outside `not`, can rank: Prisma's `_relevance`
+ * takes no relation path.
+ * @internal
+ */
+export function withRelevance(
+    input: Search.Input | undefined,
+    orderBy: FindByFilterOptions.OrderBy | undefined
+): FindByFilterOptions.OrderBy | Record<string, unknown>[] | undefined {
+    if (!input || fullTextStrategy() !== "search") return orderBy;
+
+    const relevance = rankedConditions(input).flatMap(condition => {
+        const words = textWords(condition.matches);
+        if (words.length === 0) return [];
+        return [{ _relevance: { fields: [condition.field], search: toSearchQuery(words), sort: "desc" } }];
+    });
+    if (relevance.length === 0) return orderBy;
+
+    return [...relevance, ...(Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [])];
+}
+
+/**
+ * The tree with `rank` dropped from its `matches` conditions, for reads whose order does not
+ * matter and may be keyset-paged
+ * @internal
+ */
+export function withoutRanking(input: Search.Input): Search.Input {
+    const strip = (node: Search.Node): Search.Node => {
+        if ("and" in node) return { and: node.and.map(strip) };
+        if ("or" in node) return { or: node.or.map(strip) };
+        if ("not" in node) return { not: strip(node.not) };
+        if (!("matches" in node) || !("rank" in node)) return node;
+
+        const { rank: _rank, ...condition } = node as TextCondition;
+        return condition as Search.Node;
+    };
+
+    const nodes = nodesOf(input).map(strip);
+    return Array.isArray(input) ? nodes : nodes[0];
+}
+
+/**
+ * Replaces the `matches` conditions of a tree with the primary keys of the documents MongoDB's
+ * `$text` finds
+ *
+ * @param model - The model delegate, for its `findRaw`
+ * @param input - The search tree
+ * @param keyField - The primary key field, mapped to `_id`
+ * @returns A tree without `matches` conditions
+ * @throws Error on a condition crossing a relation, as `$text` searches one collection's index,
+ * or when the delegate has no `findRaw`
+ * @internal
+ */
+export async function prefetchTextMatches(
+    model: object,
+    input: Search.Input,
+    keyField: string
+): Promise<Search.Input> {
+    const findRaw = (model as RawModel).findRaw?.bind(model);
+    const found = new Map<string, Promise<unknown[]>>();
+
+    const idsMatching = (condition: TextCondition): Promise<unknown[]> => {
+        if (condition.field.includes(".")) {
+            throw new Error(`Cannot search "${condition.field}" with matches on MongoDB: $text only searches the model's own text index.`);
+        }
+        if (!findRaw) throw new Error("Cannot search with matches on MongoDB: the model has no findRaw.");
+
+        // Quoted words are all required by $text, where bare words match any of them
+        const search = textWords(condition.matches).map(word => `"${word}"`).join(" ");
+        if (!found.has(search)) {
+            found.set(search, findRaw({ filter: { $text: { $search: search } }, options: { projection: { _id: 1 } } })
+                .then(rows => (rows as Array<{ _id: unknown }>).map(row => rawId(row._id))));
+        }
+        return found.get(search)!;
+    };
+
+    const rewrite = async (node: Search.Node): Promise<Search.Node> => {
+        if ("and" in node) return { and: await Promise.all(node.and.map(rewrite)) };
+        if ("or" in node) return { or: await Promise.all(node.or.map(rewrite)) };
+        if ("not" in node) return { not: await rewrite(node.not) };
+        if (!("matches" in node)) return node;
+
+        const condition = node as TextCondition;
+        if (textWords(condition.matches).length === 0) return node;
+
+        const ids = await idsMatching(condition);
+        // An empty `in` would be pruned and match everything; a null key matches nothing
+        return ids.length > 0 ? { field: keyField, in: ids } : { field: keyField, isNull: true };
+    };
+
+    const nodes = await Promise.all(nodesOf(input).map(rewrite));
+    return Array.isArray(input) ? nodes : nodes[0];
+}
+
+/** The conditions of a tree that ask to rank, outside `not` nodes */
+function rankedConditions(input: Search.Input): TextCondition[] {
+    return nodesOf(input).flatMap(node => {
+        if ("and" in node) return rankedConditions(node.and);
+        if ("or" in node) return rankedConditions(node.or);
+        if ("not" in node) return [];
+
+        const condition = node as Partial<TextCondition>;
+        return "matches" in node && condition.rank === true && !node.field.includes(".")
+            ? [node as TextCondition]
+            : [];
+    });
+}
+
+/** A MongoDB `_id` from `findRaw`'s extended JSON: ObjectIds come as `{ $oid }` */
+function rawId(id: unknown): unknown {
+    return id !== null && typeof id === "object" && "$oid" in id ? (id as { $oid: string }).$oid : id;
+}
+
+function nodesOf(input: Search.Input): readonly Search.Node[] {
+    return Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node];
+}
+
+function currentProvider(): string | null {
+    if (!isPrismaConfigured()) return null;
+
+    try {
+        return getDatabaseProviderCached();
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,111 @@
+import BaseEntityHelpers from "./base-entity-helpers";
+import { Lifecycle } from "./structures/types/lifecycle.types";
+
+/**
+ * Minimal view of an entity class, enough to build instances from batch items
+ */
+type HookableEntityCtor = {
+    new(...args: any[]): object;
+    prototype: object;
+};
+
+/**
+ * Runs an instance hook on an entity, when the entity declares it
+ *
+ * @param entity - The entity instance
+ * @param hook - Name of the hook to run
+ * @param context - Operation context handed to the hook
+ * @internal
+ */
+export async function runInstanceHook(
+    entity: object,
+    hook: Lifecycle.InstanceHook,
+    context: Lifecycle.Context
+): Promise<void> {
+    const fn = (entity as Record<string, unknown>)[hook];
+    if (typeof fn === "function") {
+        await fn.call(entity, context);
+    }
+}
+
+/**
+ * Runs a static batch hook on an entity class, when the class declares it
+ *
+ * @param entityClass - The entity class (`this` inside a static method)
+ * @param hook - Name of the hook to run
+ * @param payload - Payload handed to the hook
+ * @internal
+ */
+export async function runBatchHook(
+    entityClass: object,
+    hook: Lifecycle.BatchHook,
+    payload: unknown
+): Promise<void> {
+    const fn = (entityClass as Record<string, unknown>)[hook];
+    if (typeof fn === "function") {
+        await fn.call(entityClass, payload);
+    }
+}
+
+/**
+ * Whether the entity class declares the given instance hook
+ * @internal
+ */
+export function declaresInstanceHook(entityClass: object, hook: Lifecycle.InstanceHook): boolean {
+    const prototype = (entityClass as { prototype?: Record<string, unknown> }).prototype;
+    return typeof prototype?.[hook] === "function";
+}
+
+/**
+ * Runs an instance hook once per batch item
+ *
+ * @param entityClass - The entity class the items belong to
+ * @param hook - Name of the instance hook to run
+ * @param items - Raw batch items
+ * @param context - Operation context handed to every hook call
+ * @returns The items as the hooks left them, or the input untouched when the class declares no
+ * such hook
+ * @internal
+ *
+ * @remarks
+ * Each item is built into an entity so the hook sees the same `this` it sees from `create()` or
+ * `update()`, then flattened back to its raw values. Items are processed one after the other:
+ * hooks may query the database, and inside a transaction those queries cannot run side by side.
+ */
+export async function runItemHooks<TItem extends object>(
+    entityClass: object,
+    hook: Lifecycle.InstanceHook,
+    items: TItem[],
+    context: Lifecycle.Context
+): Promise<TItem[]> {
+    if (!declaresInstanceHook(entityClass, hook)) return items;
+
+    const EntityClass = entityClass as HookableEntityCtor;
+    const processed: TItem[] = [];
+
+    for (const item of items) {
+        const entity = new EntityClass(item);
+        await runInstanceHook(entity, hook, context);
+        processed.push(BaseEntityHelpers.sanitizeKeysRecursive(entity) as TItem);
+    }
+
+    return processed;
+}
+
+/**
+ * Builds the context handed to the hooks of one entity method call
+ *
+ * @param model - The entity's Prisma model delegate, for its name
+ * @param operation - The entity method being run
+ * @param tx - The explicit transactional client of the call, if any
+ * @internal
+ */
+export function createHookContext(
+    model: { name?: string } | null | undefined,
+    operation: Lifecycle.Operation,
+    tx?: Lifecycle.Context["tx"]
+): Lifecycle.Context {
+    const context: Lifecycle.Context = { operation, modelName: model?.name ?? "" };
+    if (tx) context.tx = tx;
+    return context;
+}
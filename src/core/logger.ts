@@ -0,0 +1,83 @@
+/**
+ * Logger
+ *
+ * Routes every message of the framework to the logger configured with `configurePrisma()`,
+ * dropping those below the configured level.
+ */
+
+import { getConfig } from "./config";
+import type { Logging } from "./structures/types/logging.types";
+import { peekDatabaseProvider } from "./utils/database-utils";
+
+/** Rank of each level; an entry is written when its rank reaches the configured one */
+const LEVEL_RANKS: Record<Logging.Level, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Default logger: writes to the console method of the same name, with the fields as a second
+ * argument when there are any
+ */
+export const consoleLogger: Logging.Logger = {
+    debug: (message, fields) => writeToConsole("debug", message, fields),
+    info: (message, fields) => writeToConsole("info", message, fields),
+    warn: (message, fields) => writeToConsole("warn", message, fields),
+    error: (message, fields) => writeToConsole("error", message, fields),
+};
+
+/**
+ * Writes an entry to the configured logger
+ *
+ * @param level - Severity of the entry
+ * @param message - Short, human-readable description
+ * @param fields - Structured context; `provider` is filled in once the provider has been detected
+ *
+ * @remarks
+ * A logger that throws is ignored: logging never makes an operation fail.
+ *
+ * @example
+ * ```typescript
+ * log('warn', 'Upsert result counts were normalized', { operation: 'parseUpsertResults', model: 'user' });
+ * ```
+ * @internal
+ */
+export function log(level: Exclude<Logging.Level, "silent">, message: string, fields?: Logging.Fields): void {
+    try {
+        if (!isLogLevelEnabled(level)) return;
+
+        const logger = getConfig().logger ?? consoleLogger;
+        const provider = fields?.provider ?? peekDatabaseProvider() ?? undefined;
+        const entry: Logging.Fields = provider === undefined ? { ...fields } : { ...fields, provider };
+
+        logger[level](message, entry);
+    } catch {
+        // A broken logger must not turn a successful operation into a failed one
+    }
+}
+
+/**
+ * Whether entries of a level are written with the current configuration
+ *
+ * @param level - The level to check
+ * @returns False when the level is below the configured `logLevel`
+ * @internal
+ */
+export function isLogLevelEnabled(level: Exclude<Logging.Level, "silent">): boolean {
+    return LEVEL_RANKS[level] >= LEVEL_RANKS[getConfig().logLevel ?? "info"];
+}
+
+/**
+ * Writes an entry of the console logger
+ * @private
+ */
+function writeToConsole(level: Exclude<Logging.Level, "silent">, message: string, fields?: Logging.Fields): void {
+    if (fields && Object.keys(fields).length > 0) {
+        console[level](message, fields);
+    } else {
+        console[level](message);
+    }
+}
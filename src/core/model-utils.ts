@@ -1,6 +1,7 @@
 import { getPrismaInstance } from './config';
 import { FindByFilterOptions } from "./structures/types/search.types";
 import { logError } from './utils/error-utils';
+import { scopeListInclude } from "./soft-delete";
 
 /**
  * Join table information for explicit many-to-many relationships
@@ -41,7 +42,7 @@ interface PrismaRuntimeModel {
     fields: PrismaRuntimeField[];
     uniqueFields?: string[][];
     uniqueIndexes?: Array<{ fields: string[] }>;
-    primaryKey?: { fields: string[] };
+    primaryKey?: { name?: string | null; fields: string[] } | null;
 }
 
 /**
@@ -70,6 +71,31 @@ function isPrismaRuntimeModel(value: unknown): value is PrismaRuntimeModel {
     return Array.isArray(obj.fields);
 }
 
+/**
+ * Adds the relations of an include tree to a select tree. A relation found in both keeps its
+ * selected fields and gains the nested relations of the include.
+ */
+function mergeIncludeIntoSelect(
+    select: Record<string, unknown>,
+    include: Record<string, unknown>
+): Record<string, unknown> {
+    const merged = { ...select };
+
+    for (const [relation, value] of Object.entries(include)) {
+        const selected = merged[relation] as { select?: Record<string, unknown> } | true | undefined;
+        if (selected === undefined || selected === true || !selected.select) {
+            merged[relation] = value;
+        } else if (typeof value === 'object' && value !== null && 'include' in value) {
+            merged[relation] = {
+                ...selected,
+                select: mergeIncludeIntoSelect(selected.select, (value as { include: Record<string, unknown> }).include)
+            };
+        }
+    }
+
+    return merged;
+}
+
 /**
  * Cache entry for model information
  */
@@ -398,7 +424,7 @@ export default class ModelUtils {
         const prisma = prismaInstance || getPrismaInstance();
         const runtimeDataModel = (prisma as Record<string, any>)._runtimeDataModel;
 
-        const getRelationalFields = (model: string): Array<{ name: string; type: string }> => {
+        const getRelationalFields = (model: string): Array<{ name: string; type: string; isList: boolean }> => {
             const modelMeta = runtimeDataModel.models[model] as PrismaRuntimeModel | undefined;
             if (!modelMeta) throw new Error(`Model "${model}" not found in runtime data model.`);
 
@@ -407,12 +433,17 @@ export default class ModelUtils {
                 .map((field) => ({
                     name: field.name,
                     type: field.type,
+                    isList: field.isList === true,
                 }));
         };
 
-        const isValidField = (fields: { name: string; type: string }[], name: string) =>
+        const isValidField = (fields: Array<{ name: string; type: string; isList: boolean }>, name: string) =>
             fields.find((f) => f.name === name);
 
+        // Soft-deleted rows of a to-many relation are left out; Prisma cannot filter to-one includes
+        const scopeInclude = (field: { type: string; isList: boolean }, value: true | Record<string, unknown>) =>
+            field.isList ? scopeListInclude(field.type, value) : value;
+
         const buildSubInclude = async (
             type: string,
             subTree: FindByFilterOptions.NestedRelations,
@@ -440,13 +471,13 @@ export default class ModelUtils {
                 const field = isValidField(fields, name);
                 if (!field) return;
 
-                include[name] = await buildSubInclude(field.type, subTree, depth);
+                include[name] = scopeInclude(field, await buildSubInclude(field.type, subTree, depth));
             };
 
             if (tree === "*") {
                 // When using "*", include all first-level relations but don't go deeper
                 for (const field of fields) {
-                    include[field.name] = true;
+                    include[field.name] = scopeInclude(field, true);
                 }
             } else if (Array.isArray(tree)) {
                 for (const node of tree) {
@@ -462,6 +493,75 @@ export default class ModelUtils {
         return await buildInclude(modelName, relationsToInclude, currentDepth);
     }
 
+    /**
+     * Builds a Prisma select tree from a list of field paths.
+     *
+     * A plain name selects a scalar field, or a whole relation. A dotted path selects fields of a
+     * relation: `posts.title` becomes `posts: { select: { title: true } }`. To-many relations
+     * leave out soft-deleted rows, as in {@link getIncludesTree}.
+     *
+     * @param modelName - Name of the model
+     * @param paths - Fields to select, dotted for relation fields
+     * @param include - An include tree (from {@link getIncludesTree}) whose relations are loaded
+     * whole alongside the selected fields
+     * @returns Prisma select object
+     * @throws Error when a dotted path goes through a field that is not a relation
+     *
+     * @example
+     * ```typescript
+     * const select = ModelUtils.getSelectTree('User', ['id', 'name', 'posts.title']);
+     * // Result: { id: true, name: true, posts: { select: { title: true } } }
+     * ```
+     */
+    public static getSelectTree(
+        modelName: string,
+        paths: readonly string[],
+        include: Record<string, unknown> = {},
+        prismaInstance?: any
+    ): Record<string, unknown> {
+        const prisma = prismaInstance || getPrismaInstance();
+        const runtimeDataModel = (prisma as Record<string, any>)._runtimeDataModel;
+
+        const getField = (model: string, name: string): PrismaRuntimeField | undefined => {
+            const modelMeta = runtimeDataModel.models[model] as PrismaRuntimeModel | undefined;
+            if (!modelMeta) throw new Error(`Model "${model}" not found in runtime data model.`);
+            return modelMeta.fields.find(field => field.name === name);
+        };
+
+        const buildSelect = (model: string, modelPaths: string[][]): Record<string, unknown> => {
+            const select: Record<string, unknown> = {};
+            const nested = new Map<string, string[][]>();
+
+            for (const [name, ...rest] of modelPaths) {
+                if (rest.length === 0) {
+                    const field = getField(model, name);
+                    select[name] = field?.kind === "object" && field.isList ? scopeListInclude(field.type, true) : true;
+                } else {
+                    nested.set(name, [...(nested.get(name) ?? []), rest]);
+                }
+            }
+
+            for (const [name, subPaths] of nested) {
+                const field = getField(model, name);
+                if (field?.kind !== "object") {
+                    throw new Error(`Cannot select "${name}.${subPaths[0].join(".")}": "${name}" is not a relation of model "${model}".`);
+                }
+                // A relation also selected whole stays whole
+                if (select[name] !== undefined) continue;
+
+                const value = { select: buildSelect(field.type, subPaths) };
+                select[name] = field.isList ? scopeListInclude(field.type, value) : value;
+            }
+
+            return select;
+        };
+
+        return mergeIncludeIntoSelect(
+            buildSelect(modelName, paths.map(path => path.split("."))),
+            include
+        );
+    }
+
     /**
      * Gets all model names from Prisma runtime.
      * 
@@ -507,7 +607,7 @@ export default class ModelUtils {
         const modelMeta = runtimeDataModel?.models[modelName] as PrismaRuntimeModel | undefined;
 
         if (!modelMeta) {
-            logError('getUniqueConstraints', new Error(`Model "${modelName}" not found in runtime data model`), { modelName });
+            logError('getUniqueConstraints', new Error(`Model "${modelName}" not found in runtime data model`), { model: modelName });
             return [];
         }
 
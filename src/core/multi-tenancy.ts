@@ -0,0 +1,163 @@
+/**
+ * Multi-Tenancy Module
+ *
+ * Knows which models are tenant-scoped and confines their queries to the tenant of the request
+ * context: the condition ANDed into reads and filtered writes, the key added to writes by primary
+ * key, and the value stamped on the rows a create or upsert writes.
+ *
+ * A model is registered by the `@TenantScoped()` decorator on its entity class. The raw upsert
+ * paths only know the model by name, so the registry is keyed by model name.
+ */
+
+import { MissingTenantContextError } from "./errors";
+import { getCurrentTenantId, type TenantId } from "./request-context";
+import { andSearch } from "./soft-delete";
+import { Search } from "./structures/types/search.types";
+
+/** Tenant column per model, keyed by lower-cased model name */
+const tenantFields = new Map<string, string>();
+
+/**
+ * Registers a model as tenant-scoped
+ *
+ * @param modelName - Prisma model name
+ * @param field - The column holding the tenant id
+ * @internal
+ */
+export function registerTenantModel(modelName: string, field: string): void {
+    tenantFields.set(modelName.toLowerCase(), field);
+}
+
+/**
+ * The tenant column of a model, or `undefined` when the model is shared by every tenant
+ * @internal
+ */
+export function getTenantFieldForModel(modelName: string | null | undefined): string | undefined {
+    return modelName ? tenantFields.get(modelName.toLowerCase()) : undefined;
+}
+
+/**
+ * The tenant column declared on an entity class by `@TenantScoped()`
+ *
+ * @param entityClass - The entity class (`this` inside a static method)
+ * @returns The column, or `undefined` when the class is not tenant-scoped
+ * @internal
+ *
+ * @remarks
+ * Also registers the class's model, for the cases where its model delegate was not readable yet
+ * when the decorator ran.
+ */
+export function getTenantField(entityClass: object): string | undefined {
+    const field = (entityClass as { _tenantField?: string })._tenantField;
+    if (!field) return undefined;
+
+    const modelName = modelNameOf(entityClass);
+    if (modelName && !getTenantFieldForModel(modelName)) {
+        registerTenantModel(modelName, field);
+    }
+
+    return field;
+}
+
+/**
+ * The tenant of the request context, for a model that requires one
+ *
+ * @param modelName - The model queried, for the error message
+ * @throws MissingTenantContextError when the context sets no tenant
+ * @internal
+ */
+export function requireTenantId(modelName: string): TenantId {
+    const tenantId = getCurrentTenantId();
+    if (tenantId === undefined || tenantId === null) {
+        throw new MissingTenantContextError(modelName);
+    }
+    return tenantId;
+}
+
+/**
+ * The `where` entries that confine a write by primary key to the current tenant
+ *
+ * @param entityClass - The entity class written
+ * @returns `{ [tenantField]: tenantId }`, or an empty object when the class is not tenant-scoped
+ * @throws MissingTenantContextError when the class is tenant-scoped and no tenant is set
+ * @internal
+ */
+export function tenantWhere(entityClass: object): Record<string, unknown> {
+    const field = getTenantField(entityClass);
+    if (!field) return {};
+    return { [field]: requireTenantId(modelNameOf(entityClass)) };
+}
+
+/**
+ * Adds the tenant condition of an entity class to query options
+ *
+ * @param entityClass - The entity class being queried
+ * @param options - The caller's options
+ * @returns The options with the condition merged into `search`, or the input when the class is
+ * not tenant-scoped
+ * @throws MissingTenantContextError when the class is tenant-scoped and no tenant is set
+ * @internal
+ */
+export function applyTenantScope<TOptions extends object>(
+    entityClass: object,
+    options: TOptions
+): TOptions;
+export function applyTenantScope<TOptions extends object>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined;
+export function applyTenantScope<TOptions extends object>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined {
+    const field = getTenantField(entityClass);
+    if (!field) return options;
+
+    const condition: Search.Node = { field, equals: requireTenantId(modelNameOf(entityClass)) };
+    const search = (options as { search?: Search.Input } | undefined)?.search;
+    return { ...(options ?? {}), search: andSearch(search, condition) } as TOptions;
+}
+
+/**
+ * Writes the current tenant into the tenant column of the items of a write
+ *
+ * @param entityClass - The entity class written
+ * @param items - The data written
+ * @returns Copies of the items carrying the tenant, or the input when the class is not
+ * tenant-scoped
+ * @throws MissingTenantContextError when the class is tenant-scoped and no tenant is set
+ * @internal
+ *
+ * @remarks
+ * A value the caller put in the column is overwritten: rows are only ever written to the tenant
+ * of the context.
+ */
+export function stampTenant<TItem extends Record<string, unknown>>(entityClass: object, items: TItem[]): TItem[] {
+    const entries = tenantWhere(entityClass);
+    if (Object.keys(entries).length === 0) return items;
+    return items.map(item => ({ ...item, ...entries }));
+}
+
+/**
+ * Adds the tenant column of a model to each of its unique constraints, so that looking rows up
+ * by a unique key only finds rows of the tenant written
+ *
+ * @param modelName - Prisma model name
+ * @param uniqueConstraints - The fields of each unique constraint
+ * @returns The constraints, extended when the model is tenant-scoped
+ * @internal
+ */
+export function withTenantKey(modelName: string | null | undefined, uniqueConstraints: string[][]): string[][] {
+    const field = getTenantFieldForModel(modelName);
+    if (!field) return uniqueConstraints;
+    return uniqueConstraints.map(constraint => (constraint.includes(field) ? constraint : [...constraint, field]));
+}
+
+/**
+ * The model name of an entity class, or `""` when its delegate is not readable
+ * @private
+ */
+function modelNameOf(entityClass: object): string {
+    const modelName = (entityClass as { model?: { name?: unknown } }).model?.name;
+    return typeof modelName === "string" ? modelName : "";
+}
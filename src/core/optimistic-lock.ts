@@ -0,0 +1,47 @@
+/**
+ * Optimistic Lock Module
+ *
+ * Reads the version column declared by `@Version()` and computes the value a write moves it to.
+ * A write on a versioned entity matches the row on its id *and* the version it was loaded at, and
+ * stores the next version; a write that matches nothing lost the race to another writer.
+ */
+
+/**
+ * The version column declared on an entity class by `@Version()`
+ *
+ * @param entityClass - The entity class (`this` inside a static method)
+ * @returns The column, or `undefined` when the class is not versioned
+ * @internal
+ */
+export function getVersionField(entityClass: object): string | undefined {
+    return (entityClass as { _versionField?: string })._versionField;
+}
+
+/**
+ * The value a write stores in the version column
+ *
+ * @param current - The version the row was loaded at, if known
+ * @param fieldType - The Prisma type of the column, used when `current` is unknown
+ * @returns The next version: `current + 1` for a counter, the current time for a timestamp, or
+ * Prisma's `{ increment: 1 }` when the counter value is unknown
+ * @internal
+ */
+export function nextVersion(current: unknown, fieldType?: string): unknown {
+    if (current instanceof Date || fieldType === "DateTime") {
+        // Never hand out the loaded timestamp again, even on a clock that did not move
+        const now = Date.now();
+        const loaded = current instanceof Date ? current.getTime() : Number.NEGATIVE_INFINITY;
+        return new Date(Math.max(now, loaded + 1));
+    }
+    if (typeof current === "bigint") return current + 1n;
+    if (typeof current === "number") return current + 1;
+    return { increment: 1 };
+}
+
+/**
+ * Whether a version is known, i.e. can be put in a `where`
+ * @internal
+ */
+export function hasVersion(value: unknown): boolean {
+    return value !== undefined && value !== null;
+}
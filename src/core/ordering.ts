@@ -0,0 +1,201 @@
+/**
+ * Ordering Module
+ *
+ * `orderBy` of `findByFilter` in Prisma's terms, and in memory for the queries it splits and
+ * merges. A sort key is a field or a dotted path through to-one relations (`'author.name'`), its
+ * direction `asc` / `desc` or `{ sort, nulls }`.
+ *
+ * Prisma takes a path as nested objects: `{ author: { name: 'asc' } }`. In memory the rows must
+ * carry the relations they are sorted on, so the merged paths include them for the sort and
+ * leave them out of the rows returned. NULLs without an explicit `nulls` go where the database
+ * puts them, so that the rows each query returned keep their order when merged: below every value
+ * on MySQL, SQLite, SQL Server and MongoDB, above every value on PostgreSQL.
+ */
+
+import { FindByFilterOptions } from "./structures/types/search.types";
+
+type OrderByItem = FindByFilterOptions.OrderByItem;
+
+/** Where a database sorts NULLs without `nulls`: below or above every value */
+export type NullOrdering = "lowest" | "highest";
+
+/** One sort key, read out of an `orderBy` */
+interface SortKey {
+    path: string[];
+    sort: FindByFilterOptions.SortOrder;
+    nulls?: "first" | "last";
+}
+
+/** What the queries of a merged path read: the caller's include, or a select */
+export interface Projection {
+    include?: Record<string, unknown>;
+    select?: Record<string, unknown>;
+}
+
+/**
+ * Where a provider sorts NULLs without `nulls`
+ * @internal
+ */
+export function nullOrderingOf(provider: string | null): NullOrdering {
+    return provider === "postgresql" ? "highest" : "lowest";
+}
+
+/**
+ * An `orderBy` in Prisma's terms: dotted paths become nested relation orders
+ *
+ * @returns The order unchanged when no key is dotted
+ * @internal
+ */
+export function toPrismaOrderBy<TOrder extends object>(orderBy: TOrder | readonly TOrder[] | undefined): TOrder | TOrder[] | undefined {
+    if (!orderBy) return undefined;
+
+    const items = Array.isArray(orderBy) ? orderBy as readonly TOrder[] : [orderBy as TOrder];
+    if (!items.some(item => Object.keys(item).some(key => key.includes(".")))) {
+        return orderBy as TOrder | TOrder[];
+    }
+
+    const nested = items.map(item => {
+        const order: Record<string, unknown> = {};
+        for (const [key, direction] of Object.entries(item)) {
+            const keys = key.split(".");
+            let level = order;
+            for (const relation of keys.slice(0, -1)) {
+                level = (level[relation] ??= {}) as Record<string, unknown>;
+            }
+            level[keys[keys.length - 1]] = direction;
+        }
+        return order as TOrder;
+    });
+    return Array.isArray(orderBy) ? nested : nested[0];
+}
+
+/**
+ * Appends the primary key to an order, so that rows merged from several queries have one place
+ * in it and the first rows of each query hold the first rows of all
+ * @internal
+ */
+export function withTieBreaker(
+    orderBy: FindByFilterOptions.OrderBy | undefined,
+    keyFields: readonly string[]
+): OrderByItem[] {
+    const items = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+    const sorted = new Set(items.flatMap(item => Object.keys(item)));
+    return [...items, ...keyFields.filter(field => !sorted.has(field)).map(field => ({ [field]: "asc" as const }))];
+}
+
+/**
+ * Sorts rows in memory by an `orderBy`, dotted paths included
+ *
+ * @param nulls - Where NULLs go for the keys without `nulls`, as the database sorts them
+ * @returns A sorted copy; the rows unchanged without an order
+ * @internal
+ */
+export function sortRows<TModel extends object>(
+    rows: TModel[],
+    orderBy: FindByFilterOptions.OrderBy | undefined,
+    nulls: NullOrdering = "lowest"
+): TModel[] {
+    const keys = sortKeys(orderBy);
+    if (keys.length === 0) return rows;
+
+    return [...rows].sort((a, b) => {
+        for (const key of keys) {
+            const aValue = readPath(a, key.path);
+            const bValue = readPath(b, key.path);
+            const aNull = aValue === null || aValue === undefined;
+            const bNull = bValue === null || bValue === undefined;
+
+            if (aNull || bNull) {
+                if (aNull && bNull) continue;
+                const nullsFirst = key.nulls ? key.nulls === "first" : (key.sort === "asc") === (nulls === "lowest");
+                return aNull === nullsFirst ? -1 : 1;
+            }
+
+            const order = compareValues(aValue, bValue);
+            if (order !== 0) return key.sort === "asc" ? order : -order;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Includes the relations an order sorts on, for the rows to be sorted in memory
+ *
+ * @returns The projection to query with, and the relations it added to the include, which
+ * {@link withoutRelations} takes out of the rows again
+ * @remarks
+ * A select already reads the fields of `orderBy`, so it is left as it is.
+ * @internal
+ */
+export function withOrderRelations(
+    projection: Projection,
+    orderBy: FindByFilterOptions.OrderBy | undefined
+): { projection: Projection; added: string[] } {
+    const paths = sortKeys(orderBy).map(key => key.path.slice(0, -1)).filter(path => path.length > 0);
+    if (projection.select || paths.length === 0) return { projection, added: [] };
+
+    const include: Record<string, unknown> = { ...projection.include };
+    const added = [...new Set(paths.map(path => path[0]).filter(relation => !include[relation]))];
+    for (const path of paths) {
+        include[path[0]] = includeRelation(include[path[0]], path.slice(1));
+    }
+
+    return { projection: { include }, added };
+}
+
+/**
+ * Takes the relations {@link withOrderRelations} added out of the rows
+ * @internal
+ */
+export function withoutRelations<TModel extends object>(rows: TModel[], relations: readonly string[]): TModel[] {
+    if (relations.length === 0) return rows;
+
+    return rows.map(row => {
+        const copy = { ...row } as Record<string, unknown>;
+        for (const relation of relations) delete copy[relation];
+        return copy as TModel;
+    });
+}
+
+/**
+ * Orders two values; nulls first, dates by time, Decimals through `comparedTo`
+ * @internal
+ */
+export function compareValues(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return -1;
+    if (b === null || b === undefined) return 1;
+    if (typeof (a as { comparedTo?: unknown }).comparedTo === "function") {
+        return (a as { comparedTo(value: unknown): number }).comparedTo(b);
+    }
+    const [left, right] = a instanceof Date && b instanceof Date ? [a.getTime(), b.getTime()] : [a as number, b as number];
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function sortKeys(orderBy: FindByFilterOptions.OrderBy | undefined): SortKey[] {
+    const items = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+    return items.flatMap(item => Object.entries(item).map(([field, direction]): SortKey =>
+        typeof direction === "string"
+            ? { path: field.split("."), sort: direction }
+            : { path: field.split("."), sort: direction.sort, nulls: direction.nulls }
+    ));
+}
+
+function readPath(row: object, path: readonly string[]): unknown {
+    let value: unknown = row;
+    for (const key of path) {
+        if (value === null || value === undefined) return value;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/** An include entry extended with the relations below it a path goes through */
+function includeRelation(entry: unknown, path: readonly string[]): unknown {
+    if (path.length === 0) return entry || true;
+
+    const current = entry !== null && typeof entry === "object" ? entry as Record<string, unknown> : {};
+    const nested = { ...(current.include as Record<string, unknown> | undefined) };
+    nested[path[0]] = includeRelation(nested[path[0]], path.slice(1));
+    return { ...current, include: nested };
+}
@@ -0,0 +1,160 @@
+/**
+ * Primary Key Module
+ *
+ * Reads the primary key of a model from the runtime data model and builds the criteria that
+ * address rows by it. A model keyed by one column — `id` or any other, e.g. `uuid` — is addressed
+ * by that column's value; a model with a composite key, `@@id([tenantId, code])`, by an object
+ * holding every key column, `{ tenantId, code }`, which Prisma's unique inputs take under the
+ * compound name `tenantId_code`.
+ */
+
+import type ModelUtils from "./model-utils";
+
+type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
+
+/**
+ * The primary key value of a row: the value of its key column, or an object with every key
+ * column of a composite key
+ */
+export type EntityId = number | string | { [field: string]: unknown };
+
+/**
+ * The primary key of a model
+ * @internal
+ */
+export interface PrimaryKey {
+    /** The key columns, in declaration order */
+    fields: string[];
+    /** The name Prisma's unique inputs use for a composite key, e.g. `tenantId_code` */
+    compoundName?: string;
+}
+
+/** The key of models missing from the runtime data model */
+const DEFAULT_PRIMARY_KEY: PrimaryKey = { fields: ["id"] };
+
+/**
+ * The primary key of a model
+ *
+ * @param modelInfo - The model information, or null when the model is not in the runtime data model
+ * @returns The `@@id` columns, else the `@id` column, else `id`
+ * @internal
+ */
+export function getPrimaryKey(modelInfo: ModelInfo | null | undefined): PrimaryKey {
+    const composite = modelInfo?.primaryKey;
+    if (composite && Array.isArray(composite.fields) && composite.fields.length > 0) {
+        return composite.fields.length === 1
+            ? { fields: [...composite.fields] }
+            : { fields: [...composite.fields], compoundName: composite.name || composite.fields.join("_") };
+    }
+
+    const idField = modelInfo?.fields?.find(field => field.isId);
+    return idField ? { fields: [idField.name] } : DEFAULT_PRIMARY_KEY;
+}
+
+/**
+ * The primary key of a model, read through the `getModelInformation` callback the helper classes
+ * receive; `id` when the model information cannot be read
+ * @internal
+ */
+export function resolvePrimaryKey(getModelInformation: () => ModelInfo): PrimaryKey {
+    try {
+        return getPrimaryKey(getModelInformation());
+    } catch {
+        return DEFAULT_PRIMARY_KEY;
+    }
+}
+
+/**
+ * Whether the key spans several columns
+ * @internal
+ */
+export function isCompositeKey(primaryKey: PrimaryKey): boolean {
+    return primaryKey.fields.length > 1;
+}
+
+/**
+ * Reads the primary key of a row or item
+ *
+ * @returns The key value, or `undefined` when a key column is missing
+ * @internal
+ */
+export function readPrimaryKey(primaryKey: PrimaryKey, record: object | null | undefined): EntityId | undefined {
+    if (!record) return undefined;
+    const values = record as Record<string, unknown>;
+
+    if (!isCompositeKey(primaryKey)) {
+        const value = values[primaryKey.fields[0]];
+        return value === undefined || value === null ? undefined : value as EntityId;
+    }
+
+    const key: Record<string, unknown> = {};
+    for (const field of primaryKey.fields) {
+        const value = values[field];
+        if (value === undefined || value === null) return undefined;
+        key[field] = value;
+    }
+    return key;
+}
+
+/**
+ * The criteria matching the row with a key, as a plain filter — for `findMany`, `updateMany`,
+ * `deleteMany` and error details
+ *
+ * @param key - The key value; for a composite key, an object holding every key column
+ * @internal
+ */
+export function primaryKeyFilter(primaryKey: PrimaryKey, key: EntityId): Record<string, unknown> {
+    if (!isCompositeKey(primaryKey)) {
+        return { [primaryKey.fields[0]]: key };
+    }
+
+    const values = key as Record<string, unknown>;
+    return Object.fromEntries(primaryKey.fields.map(field => [field, values[field]]));
+}
+
+/**
+ * The unique input addressing the row with a key — for `update` and `delete`
+ *
+ * @param key - The key value; for a composite key, an object holding every key column
+ * @returns `{ id: 7 }`, or `{ tenantId_code: { tenantId: 1, code: 'A' } }` for a composite key
+ * @internal
+ */
+export function primaryKeyWhere(primaryKey: PrimaryKey, key: EntityId): Record<string, unknown> {
+    return primaryKey.compoundName
+        ? { [primaryKey.compoundName]: primaryKeyFilter(primaryKey, key) }
+        : primaryKeyFilter(primaryKey, key);
+}
+
+/**
+ * The criteria matching the rows with any of several keys
+ *
+ * @returns `{ id: { in: [...] } }`, or an `OR` of one filter per key for a composite key
+ * @internal
+ */
+export function primaryKeysFilter(primaryKey: PrimaryKey, keys: readonly EntityId[]): Record<string, unknown> {
+    return isCompositeKey(primaryKey)
+        ? { OR: keys.map(key => primaryKeyFilter(primaryKey, key)) }
+        : { [primaryKey.fields[0]]: { in: [...keys] } };
+}
+
+/**
+ * A string identifying a key value, for maps and deduplication
+ *
+ * @remarks
+ * Values are compared by their string form, so `7` and `'7'` are the same key.
+ * @internal
+ */
+export function primaryKeyString(primaryKey: PrimaryKey, key: EntityId): string {
+    if (!isCompositeKey(primaryKey)) return String(key);
+
+    const values = key as Record<string, unknown>;
+    return primaryKey.fields.map(field => String(values[field])).join("\u0000");
+}
+
+/**
+ * Renders the missing or present key columns for an error message, e.g. `id` or `tenantId, code`
+ * @internal
+ */
+export function describePrimaryKey(primaryKey: PrimaryKey): string {
+    return primaryKey.fields.join(", ");
+}
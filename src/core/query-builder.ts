@@ -0,0 +1,308 @@
+/**
+ * Query Builder Module
+ *
+ * The fluent reads and filtered writes `User.query()` starts: each call returns a new builder, so
+ * a partial query can be kept and extended in several directions. A builder only collects the
+ * options of `findByFilter` and friends; its terminal methods hand them to the entity class.
+ *
+ * `where()` filters merge into one equality filter, `search()` trees are ANDed into one search,
+ * which the resolver merges into the `where` through `SearchResolver.merge` like any search.
+ * Included relations narrowed in an `include()` callback become `includeFilters`.
+ */
+
+import { FindByFilterOptions, Search } from "./structures/types/search.types";
+import type { Query } from "./structures/types/query.types";
+
+/** What a builder collects for its model, or for an included relation */
+interface FilterState {
+    filter: Record<string, unknown>;
+    search: readonly Search.Node[];
+    includes: Readonly<Record<string, RelationState>>;
+    orderBy: readonly FindByFilterOptions.OrderByItem[];
+}
+
+interface RelationState extends FilterState {
+    take?: number;
+}
+
+interface RootState extends FilterState {
+    page?: { page: number; pageSize: number };
+    scopes: readonly string[];
+    unscoped: boolean;
+    trashed?: "with" | "only";
+}
+
+/** The methods of an entity class the terminals call */
+interface QueryableClass {
+    findByFilter(filter: object, options?: object): Promise<any>;
+    countByFilter(filter: object, options?: object): Promise<number>;
+    existsByFilter(filter: object, options?: object): Promise<boolean>;
+    stream(filter: object, options?: object): AsyncIterable<any>;
+    updateByFilter(filter: object, data: object, options?: object): Promise<number>;
+    deleteByFilter(filter: object, options?: object): Promise<number>;
+}
+
+const EMPTY_STATE: FilterState = { filter: {}, search: [], includes: {}, orderBy: [] };
+
+/**
+ * What builders of a model and of an included relation share: filters, search trees, includes
+ * and order
+ */
+abstract class FilterBuilder<TModel extends object, TState extends FilterState> {
+    protected constructor(protected readonly state: TState) {}
+
+    /** A builder like this one, holding another state */
+    protected abstract derive(state: TState): this;
+
+    /**
+     * Adds equality conditions; a field filtered twice keeps the last value
+     */
+    public where(filter: Partial<TModel>): this {
+        return this.derive({ ...this.state, filter: { ...this.state.filter, ...filter } });
+    }
+
+    /**
+     * Adds a search tree, ANDed with the trees added before
+     *
+     * @example
+     * ```typescript
+     * User.query().search(anyOf(['name', 'email'], { like: 'john' })).search({ field: 'age', gte: 18 });
+     * ```
+     */
+    public search(input: Search.Input): this {
+        const nodes = Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node];
+        return this.derive({ ...this.state, search: [...this.state.search, ...nodes] });
+    }
+
+    /**
+     * Includes a relation in the rows read
+     *
+     * @param relation - A relation field of the model
+     * @param build - Narrows the related rows — `where()`, `search()`, `orderBy()`, `limit()`, on
+     * to-many relations only — and includes their own relations
+     */
+    public include<K extends Query.RelationKey<TModel>>(
+        relation: K,
+        build?: (query: RelationQuery<Query.Related<TModel, K>>) => RelationQuery<Query.Related<TModel, K>>
+    ): this {
+        const existing = this.state.includes[relation] ?? EMPTY_STATE;
+        const query = new RelationQuery<Query.Related<TModel, K>>(existing);
+        const built = build ? build(query) : query;
+
+        return this.derive({ ...this.state, includes: { ...this.state.includes, [relation]: built.state } });
+    }
+
+    /**
+     * Adds a sort field, after the ones added before
+     */
+    public orderBy(field: keyof TModel & string, direction: Query.Direction = "asc"): this {
+        return this.derive({ ...this.state, orderBy: [...this.state.orderBy, { [field]: direction }] });
+    }
+}
+
+/**
+ * Builder of the rows of an included relation, handed to the callback of `include()`
+ */
+export class RelationQuery<TModel extends object> extends FilterBuilder<TModel, RelationState> {
+    /** @internal */
+    public constructor(state: RelationState) {
+        super(state);
+    }
+
+    protected derive(state: RelationState): this {
+        return new RelationQuery<TModel>(state) as this;
+    }
+
+    /**
+     * Reads at most `count` related rows per parent row
+     */
+    public limit(count: number): this {
+        return this.derive({ ...this.state, take: count });
+    }
+}
+
+/**
+ * Fluent, immutable query on an entity class, started by `query()`
+ *
+ * @template TModel - The model interface of the entity class
+ * @template TResult - What `all()` resolves to: the rows, or a page of them after `paginate()`
+ *
+ * @example
+ * ```typescript
+ * const page = await User.query()
+ *   .where({ isActive: true })
+ *   .search(anyOf(['name', 'email'], { like: 'john' }))
+ *   .include('posts', posts => posts.where({ published: true }).orderBy('createdAt', 'desc').limit(5))
+ *   .orderBy('createdAt', 'desc')
+ *   .paginate(1, 20)
+ *   .all();
+ * ```
+ */
+export class EntityQuery<TModel extends object, TResult = TModel[]> extends FilterBuilder<TModel, RootState> {
+    private readonly entityClass: QueryableClass;
+
+    /** @internal */
+    public constructor(entityClass: object, state: RootState = { ...EMPTY_STATE, scopes: [], unscoped: false }) {
+        super(state);
+        this.entityClass = entityClass as QueryableClass;
+    }
+
+    protected derive(state: RootState): this {
+        return new EntityQuery<TModel, TResult>(this.entityClass, state) as this;
+    }
+
+    /**
+     * Reads one page of the rows: `all()` then resolves to `{ total, page, pageSize, data }`
+     *
+     * @param page - The page, from 1
+     * @param pageSize - The rows per page
+     */
+    public paginate(page: number, pageSize: number): EntityQuery<TModel, FindByFilterOptions.PaginatedResponse<TModel>> {
+        return new EntityQuery<TModel, FindByFilterOptions.PaginatedResponse<TModel>>(
+            this.entityClass,
+            { ...this.state, page: { page, pageSize } }
+        );
+    }
+
+    /** Applies named scopes of the entity class */
+    public scoped(...names: string[]): this {
+        return this.derive({ ...this.state, scopes: [...this.state.scopes, ...names] });
+    }
+
+    /** Leaves the default scope of the entity class out */
+    public unscoped(): this {
+        return this.derive({ ...this.state, unscoped: true });
+    }
+
+    /** Also matches soft-deleted rows */
+    public withTrashed(): this {
+        return this.derive({ ...this.state, trashed: "with" });
+    }
+
+    /** Matches soft-deleted rows only */
+    public onlyTrashed(): this {
+        return this.derive({ ...this.state, trashed: "only" });
+    }
+
+    /**
+     * Reads the matching rows, or the page of them set by `paginate()`
+     */
+    public async all(): Promise<TResult> {
+        const { page } = this.state;
+        const pagination = page
+            ? { page: page.page, pageSize: page.pageSize, take: page.pageSize, skip: (page.page - 1) * page.pageSize }
+            : undefined;
+
+        return this.entityClass.findByFilter(this.state.filter, { ...this.readOptions(), pagination });
+    }
+
+    /**
+     * Reads the first matching row in order, whatever page `paginate()` set
+     *
+     * @returns The row, or `null` when none matches
+     * @remarks
+     * Reads an offset page of one row, so a ranked `matches` condition orders it by relevance.
+     */
+    public async first(): Promise<TModel | null> {
+        return this.entityClass.findByFilter(this.state.filter, {
+            ...this.readOptions(),
+            onlyOne: true,
+            pagination: { page: 1, pageSize: 1, take: 1, skip: 0 }
+        });
+    }
+
+    /** Counts the matching rows */
+    public count(): Promise<number> {
+        return this.entityClass.countByFilter(this.state.filter, this.filterOptions());
+    }
+
+    /** Whether any row matches */
+    public exists(): Promise<boolean> {
+        return this.entityClass.existsByFilter(this.state.filter, this.filterOptions());
+    }
+
+    /**
+     * Walks the matching rows in keyset batches, as `stream()` of the entity class does
+     *
+     * @param options - `batchSize`, `signal`, and `batches` to yield arrays of rows
+     */
+    public stream(options: Pick<FindByFilterOptions.StreamOptions, "batchSize" | "signal"> & { batches: true }): AsyncIterable<TModel[]>;
+    public stream(options?: Pick<FindByFilterOptions.StreamOptions, "batchSize" | "signal" | "batches">): AsyncIterable<TModel>;
+    public stream(
+        options?: Pick<FindByFilterOptions.StreamOptions, "batchSize" | "signal" | "batches">
+    ): AsyncIterable<TModel | TModel[]> {
+        return this.entityClass.stream(this.state.filter, { ...this.readOptions(), ...options });
+    }
+
+    /**
+     * Applies one set of changes to every matching row, through `updateByFilter()`
+     *
+     * @returns The number of rows updated
+     */
+    public update(data: Partial<TModel>): Promise<number> {
+        return this.entityClass.updateByFilter(this.state.filter, data, this.filterOptions());
+    }
+
+    /**
+     * Deletes every matching row, through `deleteByFilter()`
+     *
+     * @param options - `force` to delete soft-deleting rows for real
+     * @returns The number of rows deleted
+     */
+    public delete(options?: { force?: boolean }): Promise<number> {
+        return this.entityClass.deleteByFilter(this.state.filter, { ...this.filterOptions(), ...options });
+    }
+
+    /** The options every terminal shares: search, scopes and trash */
+    private filterOptions(): FindByFilterOptions.Options {
+        const { search, scopes, unscoped, trashed } = this.state;
+        return {
+            search: search.length === 0 ? undefined : search.length === 1 ? search[0] : { and: search },
+            scopes: [...scopes],
+            unscoped,
+            withTrashed: trashed === "with",
+            onlyTrashed: trashed === "only"
+        };
+    }
+
+    /** The options of the reads: includes and order on top of {@link filterOptions} */
+    private readOptions(): FindByFilterOptions.Options {
+        const { includes, orderBy } = this.state;
+        const includeFilters = collectIncludeFilters(includes);
+
+        return {
+            ...this.filterOptions(),
+            relationsToInclude: relationTree(includes),
+            ...(Object.keys(includeFilters).length > 0 ? { includeFilters } : {}),
+            orderBy: orderBy.length > 0 ? [...orderBy] : undefined
+        };
+    }
+}
+
+/** The included relations as a `relationsToInclude` tree */
+function relationTree(includes: Readonly<Record<string, RelationState>>): FindByFilterOptions.NestedRelations {
+    return Object.entries(includes).map(([relation, state]) => ({ [relation]: relationTree(state.includes) }));
+}
+
+/** The narrowing of every included relation, keyed by relation path */
+function collectIncludeFilters(
+    includes: Readonly<Record<string, RelationState>>,
+    prefix: string = ""
+): Record<string, FindByFilterOptions.IncludeFilter> {
+    const filters: Record<string, FindByFilterOptions.IncludeFilter> = {};
+
+    for (const [relation, state] of Object.entries(includes)) {
+        const path = prefix + relation;
+        const narrowing: FindByFilterOptions.IncludeFilter = {
+            ...(Object.keys(state.filter).length > 0 ? { filter: state.filter } : {}),
+            ...(state.search.length > 0 ? { search: [...state.search] } : {}),
+            ...(state.orderBy.length > 0 ? { orderBy: [...state.orderBy] } : {}),
+            ...(state.take !== undefined ? { take: state.take } : {})
+        };
+        if (Object.keys(narrowing).length > 0) filters[path] = narrowing;
+
+        Object.assign(filters, collectIncludeFilters(state.includes, `${path}.`));
+    }
+
+    return filters;
+}
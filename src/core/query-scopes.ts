@@ -0,0 +1,110 @@
+/**
+ * Query Scopes Module
+ *
+ * Turns the named and default scopes an entity class declares into the search condition its
+ * queries are restricted by, the way `soft-delete.ts` adds the trash condition, and builds the
+ * scoped views `scoped()` / `unscoped()` return.
+ */
+
+import { EntityError } from "./errors";
+import { andSearch } from "./soft-delete";
+import { Scope } from "./structures/types/scope.types";
+import { Search } from "./structures/types/search.types";
+
+/** The part of an entity class scopes rely on */
+interface ScopedClass {
+    scopes?: Scope.Definitions;
+    defaultScope?: Search.Input;
+    model?: { name?: unknown };
+}
+
+/** The filtered methods a scoped view forwards to */
+interface ScopableClass extends ScopedClass {
+    findByFilter(filter: object, options?: object): Promise<any>;
+    countByFilter(filter: object, options?: object): Promise<number>;
+    updateByFilter(filter: object, data: object, options?: object): Promise<number>;
+    deleteByFilter(filter: object, options?: object): Promise<number>;
+}
+
+/**
+ * Builds the condition of the scopes a query applies
+ *
+ * @param entityClass - The entity class declaring the scopes
+ * @param options - `scopes` to apply, `unscoped` to leave the default scope out
+ * @returns The scopes ANDed together, or null when none applies
+ * @throws EntityError when a scope is not declared on the class
+ * @internal
+ */
+export function scopeCondition(entityClass: object, options?: Scope.Options): Search.Node | null {
+    const { scopes, defaultScope, model } = entityClass as ScopedClass;
+    const trees: Search.Input[] = [];
+
+    if (defaultScope && !options?.unscoped) trees.push(defaultScope);
+
+    for (const name of options?.scopes ?? []) {
+        const scope = scopes && Object.prototype.hasOwnProperty.call(scopes, name) ? scopes[name] : undefined;
+        if (!scope) {
+            const modelName = typeof model?.name === "string" ? model.name : "";
+            throw new EntityError(`Unknown scope "${name}"${modelName ? ` on ${modelName}` : ""}.`, modelName);
+        }
+        trees.push(scope);
+    }
+
+    const nodes = trees.flatMap(tree => (Array.isArray(tree) ? tree : [tree]) as Search.Node[]);
+    if (nodes.length === 0) return null;
+    return nodes.length === 1 ? nodes[0] : { and: nodes };
+}
+
+/**
+ * Adds the scope condition of an entity class to query options
+ *
+ * @param entityClass - The entity class being queried
+ * @param options - The caller's options
+ * @returns The options with the condition merged into `search`, or the input when no scope applies
+ * @internal
+ */
+export function applyQueryScopes<TOptions extends { search?: Search.Input } & Scope.Options>(
+    entityClass: object,
+    options: TOptions
+): TOptions;
+export function applyQueryScopes<TOptions extends { search?: Search.Input } & Scope.Options>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined;
+export function applyQueryScopes<TOptions extends { search?: Search.Input } & Scope.Options>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined {
+    const condition = scopeCondition(entityClass, options);
+    if (!condition) return options;
+
+    return { ...(options ?? {}), search: andSearch(options?.search, condition) } as TOptions;
+}
+
+/**
+ * Builds the view of an entity class that `scoped()` and `unscoped()` return
+ *
+ * @param entityClass - The entity class
+ * @param state - The scopes the view applies
+ * @internal
+ */
+export function createScopedQuery<TModel extends object>(
+    entityClass: object,
+    state: Required<Scope.Options>
+): Scope.Query<TModel> {
+    const target = entityClass as ScopableClass;
+    const withScopes = <TOptions extends Scope.Options>(options?: TOptions) => ({
+        ...options,
+        scopes: [...state.scopes, ...(options?.scopes ?? [])],
+        unscoped: state.unscoped || options?.unscoped === true
+    });
+
+    return {
+        findByFilter: (filter, options) => target.findByFilter(filter, withScopes(options)),
+        countByFilter: (filter, options) => target.countByFilter(filter, withScopes(options)),
+        updateByFilter: (filter, data, options) => target.updateByFilter(filter, data, withScopes(options)),
+        deleteByFilter: (filter, options) => target.deleteByFilter(filter, withScopes(options)),
+        scoped: (...names) => createScopedQuery(entityClass, { ...state, scopes: [...state.scopes, ...names] }),
+        unscoped: () => createScopedQuery(entityClass, { ...state, unscoped: true })
+    };
+}
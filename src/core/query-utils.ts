@@ -8,7 +8,8 @@
 import { getOptimalOrBatchSize, isOrQuerySafe } from './utils/performance-utils';
 import { executeInParallel } from './utils/parallel-utils';
 import { isParallelEnabled } from './config';
-import { logError } from './utils/error-utils';
+import { reportBatchFailures } from './utils/error-utils';
+import { log } from './logger';
 
 /**
  * Options for OR query batching
@@ -19,6 +20,11 @@ export interface OrBatchingOptions {
      */
     include?: any;
 
+    /**
+     * Select clause, sent instead of `include` when set. It must select `keyFields`.
+     */
+    select?: any;
+
     /**
      * Enable parallel execution of batches
      * Default: true (if parallel is enabled globally)
@@ -35,6 +41,23 @@ export interface OrBatchingOptions {
      * Default: 1
      */
     fieldsPerCondition?: number;
+
+    /**
+     * Primary key columns the merged results are deduplicated by
+     * Default: ['id']
+     */
+    keyFields?: readonly string[];
+
+    /**
+     * Order each query reads its rows in, with `take`
+     */
+    orderBy?: unknown;
+
+    /**
+     * How many rows each query reads at most. The merged results hold up to this many rows per
+     * batch: order them and keep the first ones.
+     */
+    take?: number;
 }
 
 /**
@@ -98,9 +121,10 @@ export function createOrBatches(
 }
 
 /**
- * Deduplicates query results by ID field
+ * Deduplicates query results by their primary key
  * 
- * @param results - Array of query results with id field
+ * @param results - Array of query results
+ * @param keyFields - The primary key columns; several for a composite key (default: `['id']`)
  * @returns Deduplicated array of results
  * 
  * @example
@@ -113,25 +137,37 @@ export function createOrBatches(
  * 
  * const deduplicated = deduplicateResults(results);
  * // Returns: [{ id: 1, name: 'User 1' }, { id: 2, name: 'User 2' }]
+ * 
+ * // Composite key: rows are the same when every key column matches
+ * deduplicateResults(rows, ['tenantId', 'code']);
  * ```
  */
-export function deduplicateResults<T extends { id: any }>(results: T[]): T[] {
+export function deduplicateResults<T extends object>(
+    results: T[],
+    keyFields: readonly string[] = ['id']
+): T[] {
     if (results.length === 0) return results;
 
-    // Use Map for O(1) lookups instead of Set for better performance with objects
-    const seen = new Set<any>();
+    const seen = new Set<unknown>();
     // Pre-allocate array with estimated size for better performance
     const deduplicated: T[] = [];
 
     for (const item of results) {
-        const id = item.id;
-        if (id !== undefined) {
-            if (!seen.has(id)) {
-                seen.add(id);
+        const values = item as Record<string, unknown>;
+        // A single key is compared as is; a composite one by the joined string forms of its columns
+        const key = keyFields.length === 1
+            ? values[keyFields[0]]
+            : keyFields.some(field => values[field] === undefined)
+                ? undefined
+                : keyFields.map(field => String(values[field])).join('\u0000');
+
+        if (key !== undefined) {
+            if (!seen.has(key)) {
+                seen.add(key);
                 deduplicated.push(item);
             }
         } else {
-            // Include items without id (shouldn't happen in normal cases)
+            // Include items without a key (shouldn't happen in normal cases)
             deduplicated.push(item);
         }
     }
@@ -150,7 +186,7 @@ export function deduplicateResults<T extends { id: any }>(results: T[]): T[] {
  * 
  * @param model - Prisma model to query
  * @param orConditions - Array of OR condition objects
- * @param options - Query options (include, parallel, concurrency, fieldsPerCondition)
+ * @param options - Query options (include or select, parallel, concurrency, fieldsPerCondition, keyFields)
  * @returns Array of query results
  * 
  * @example
@@ -174,7 +210,7 @@ export function deduplicateResults<T extends { id: any }>(results: T[]): T[] {
  * );
  * ```
  */
-export async function executeWithOrBatching<T extends { id: any }>(
+export async function executeWithOrBatching<T extends object>(
     model: any,
     orConditions: Record<string, any>[],
     options: OrBatchingOptions = {}
@@ -186,23 +222,37 @@ export async function executeWithOrBatching<T extends { id: any }>(
 
     const {
         include,
+        select,
         parallel = true,
         concurrency,
-        fieldsPerCondition = 1
+        fieldsPerCondition = 1,
+        keyFields,
+        orderBy,
+        take
     } = options;
 
+    const projection = select ? { select } : { include };
+    const page = take === undefined ? {} : { orderBy, take };
+
     // Check if we can execute in a single query
     if (!needsOrBatching(orConditions)) {
         // Execute directly without batching
         const results = await model.findMany({
             where: { OR: orConditions },
-            include
+            ...projection,
+            ...page
         });
         return results as T[];
     }
 
     // Need to batch the query
     const batches = createOrBatches(orConditions, fieldsPerCondition);
+    log('debug', `Split ${orConditions.length} OR conditions into ${batches.length} queries`, {
+        operation: 'executeWithOrBatching',
+        model: model?.name,
+        conditions: orConditions.length,
+        batches: batches.length
+    });
 
     // Determine if we should use parallel execution
     const useParallel = parallel &&
@@ -216,7 +266,8 @@ export async function executeWithOrBatching<T extends { id: any }>(
         const operations = batches.map(batch =>
             () => model.findMany({
                 where: { OR: batch },
-                include
+                ...projection,
+                ...page
             }) as Promise<T[]>
         );
 
@@ -227,21 +278,20 @@ export async function executeWithOrBatching<T extends { id: any }>(
             allResults.push(...(batchResults as T[]));
         }
 
-        // Log any errors but continue with partial results
-        if (result.errors.length > 0) {
-            logError('executeWithOrBatching - parallel batches', new Error(`${result.errors.length} batch queries failed`), { failedCount: result.errors.length });
-        }
+        // Log any errors but continue with partial results; strict mode throws instead
+        reportBatchFailures('executeWithOrBatching', model?.name ?? '', result.errors);
     } else {
         // Execute batches sequentially
         for (const batch of batches) {
             const batchResults = await model.findMany({
                 where: { OR: batch },
-                include
+                ...projection,
+                ...page
             }) as T[];
             allResults.push(...batchResults);
         }
     }
 
-    // Deduplicate results by id
-    return deduplicateResults(allResults);
+    // Deduplicate results by primary key
+    return deduplicateResults(allResults, keyFields);
 }
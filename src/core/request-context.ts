@@ -0,0 +1,102 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * The id of a tenant, as stored in the tenant column of a `@TenantScoped()` model.
+ */
+export type TenantId = string | number;
+
+/**
+ * Who performs the operations of a request, as recorded in the audit trail of
+ * `@Audited()` entities: a user id, a service name...
+ */
+export type Actor = string | number;
+
+/**
+ * Values that hold for the whole of a request (or job), read by the entity
+ * operations running inside it.
+ */
+export interface RequestContext {
+    /**
+     * The tenant every `@TenantScoped()` entity operation is restricted to.
+     */
+    tenantId?: TenantId;
+
+    /**
+     * Who the audit entries of the writes are attributed to.
+     */
+    actor?: Actor;
+}
+
+// ---------------------------------------------------------------------------
+// AsyncLocalStorage singleton
+// ---------------------------------------------------------------------------
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Executes `fn` with a request context.
+ *
+ * Every entity operation performed inside the callback, however deep in the
+ * async call chain, reads the context (via AsyncLocalStorage) — no need to
+ * pass the tenant around.  A nested call inherits the values of the
+ * enclosing context and overrides the ones it sets.
+ *
+ * @param context — Values for the callback, e.g. `{ tenantId, actor }`
+ * @param fn      — Callback, sync or async
+ * @returns The value returned by `fn`
+ *
+ * @example
+ * ```typescript
+ * import { runWithContext } from 'prisma-entity-framework';
+ *
+ * app.use((req, res, next) => {
+ *     runWithContext({ tenantId: req.user.tenantId }, next);
+ * });
+ *
+ * // Anywhere below, tenant-scoped entities only see that tenant's rows
+ * const invoices = await Invoice.findByFilter({ status: 'OPEN' });
+ * ```
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+    const parent = contextStorage.getStore();
+    return contextStorage.run({ ...parent, ...context }, fn);
+}
+
+/**
+ * Returns the request context of the current async context, or `null`
+ * outside of a `runWithContext()` callback.
+ */
+export function getRequestContext(): RequestContext | null {
+    return contextStorage.getStore() ?? null;
+}
+
+/**
+ * Returns the tenant of the current request context, or `undefined` when
+ * none is set.
+ *
+ * @example
+ * ```typescript
+ * runWithContext({ tenantId: 'acme' }, () => {
+ *     getCurrentTenantId(); // 'acme'
+ * });
+ * ```
+ */
+export function getCurrentTenantId(): TenantId | undefined {
+    return contextStorage.getStore()?.tenantId;
+}
+
+/**
+ * Returns the actor of the current request context, or `undefined` when
+ * none is set.
+ */
+export function getCurrentActor(): Actor | undefined {
+    return contextStorage.getStore()?.actor;
+}
@@ -2,26 +2,50 @@ import { Search } from "./structures/types/search.types";
 import { isValidValue } from "./utils/validation-utils";
 import { getPrismaInstance, isCaseInsensitiveSearch, isPrismaConfigured } from "./config";
 import { getDatabaseProviderCached } from "./utils/database-utils";
+import { scopeRelationFilter } from "./soft-delete";
+import { fullTextStrategy, textWords, toSearchQuery } from "./full-text";
 
 /** Providers that accept Prisma's explicit `mode: 'insensitive'` */
 const PROVIDERS_WITH_CASE_MODE = new Set(["postgresql", "mongodb"]);
 
+/** A path segment with its own quantifier: `orders[every]` */
+const QUANTIFIED_SEGMENT = /^(.+)\[(\w+)\]$/;
+const QUANTIFIERS: ReadonlySet<string> = new Set(["some", "every", "none"]);
+
 /** Internal view of a condition with every operator optional, for reading without narrowing */
 type LooseCondition = Search.Target & {
     equals?: unknown;
+    notEquals?: unknown;
     like?: string;
+    notLike?: string;
     startsWith?: string;
     endsWith?: string;
     in?: readonly unknown[];
     notIn?: readonly unknown[];
+    has?: unknown;
     hasSome?: readonly unknown[];
     hasEvery?: readonly unknown[];
+    isEmpty?: boolean;
+    gt?: Search.Comparable;
     gte?: Search.Comparable;
+    lt?: Search.Comparable;
     lte?: Search.Comparable;
     between?: readonly [Search.Comparable, Search.Comparable];
     isNull?: true;
+    isNotNull?: true;
+    matches?: string;
+    rank?: boolean;
 };
 
+/** A relation count condition */
+type CountCondition = Search.Target & { count: Search.CountFilter; where?: Search.Input };
+
+/** The counts a count condition accepts, as a closed range of integers */
+interface CountRange {
+    min: number;
+    max: number;
+}
+
 /**
  * Resolves a search tree into a Prisma `where` fragment
  *
@@ -38,7 +62,17 @@ type LooseCondition = Search.Target & {
  * - **R7** dotted paths expand with `is` for to-one relations and `relation` for to-many
  * - **R8** invalid conditions and empty nodes are pruned; `OR: []` / `AND: []` are never emitted
  * - **R9** if nothing survives, the resolver returns `null` and `search` adds no clause
- * - **R10** order comparisons on a nullable column carry an implicit `not: null`
+ * - **R10** order comparisons on a nullable column carry an implicit `not: null`, strict or not
+ * - **R11** a relation into a `@SoftDelete()` model only considers its live rows
+ * - **R12** `matches` → Prisma's `search` on PostgreSQL and MySQL; elsewhere one `like` per word,
+ *   ANDed
+ * - **R13** `notLike`, and `isEmpty` on a relation or an embedded list, apply around the field,
+ *   inside the relations of the path: `{ NOT: { name: { contains } } }`, `{ reviews: { none: {} } }`
+ * - **R14** a segment's own quantifier (`orders[every].lines.sku`) wins over `relation` for that
+ *   segment; on a to-one segment it is ignored, like `relation`
+ * - **R15** `count` on a to-many relation → `some` / `none` when it only asks whether a related row
+ *   exists; any other bound is replaced by {@link SearchResolver.prefetchCounts} with a condition
+ *   on the keys of the rows whose count is within it
  *
  * @class SearchResolver
  */
@@ -143,6 +177,127 @@ export default class SearchResolver {
         return chunks.map(chunk => this.replaceFirstLargeList(root, chunkSize, key, chunk, { done: false }));
     }
 
+    /**
+     * Splits a search tree like {@link chunkLargeLists}, into chunks no row matches twice
+     *
+     * @param input - Search tree to inspect
+     * @param chunkSize - Maximum number of values a single query should carry
+     * @returns One tree per chunk, or null when no condition exceeds the limit
+     * @throws Error when the oversized list cannot be split into disjoint chunks
+     *
+     * @remarks
+     * For results that are added up rather than deduplicated, like counts and sums. The list must
+     * be an `in` reached through `and` nodes only: under an `or` a row matching the other branch
+     * matches every chunk, and a `notIn` split in chunks matches nearly every row once per chunk.
+     * Repeated values are dropped, so that a row is not counted once per copy.
+     */
+    public static partitionLargeLists(input: Search.Input, chunkSize: number): Search.Input[] | null {
+        const root: Search.Node = Array.isArray(input)
+            ? { and: input as readonly Search.Node[] }
+            : (input as Search.Node);
+
+        const oversized = this.findLargeList(root, chunkSize);
+        if (!oversized) return null;
+
+        if (oversized.key !== "in" || !this.isConjunctiveLargeList(root, chunkSize)) {
+            throw new Error(
+                `Cannot split a list of ${oversized.values.length} values into disjoint queries: only an "in" condition joined by "and" can be split.`
+            );
+        }
+
+        const unique = [...new Set(oversized.values)];
+        const deduplicated = this.replaceFirstLargeList(root, chunkSize, "in", unique, { done: false });
+        return this.chunkLargeLists(deduplicated, chunkSize) ?? [deduplicated];
+    }
+
+    /**
+     * Whether a search tree holds a relation `count` condition
+     *
+     * @param input - Search tree to inspect
+     */
+    public static hasRelationCount(input: Search.Input): boolean {
+        const nodes = Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node];
+        return nodes.some(node => {
+            if (!node || typeof node !== "object") return false;
+            if (this.isAndNode(node)) return this.hasRelationCount(node.and);
+            if (this.isOrNode(node)) return this.hasRelationCount(node.or);
+            if (this.isNotNode(node)) return this.hasRelationCount(node.not);
+            return "count" in node;
+        });
+    }
+
+    /**
+     * Replaces the `count` conditions Prisma cannot resolve with conditions on the keys of the
+     * rows whose count is within the bounds (R15)
+     *
+     * @param input - Search tree
+     * @param modelInfo - Model information for the root of the tree
+     * @param client - The Prisma client, or transaction, to read the counts with
+     * @returns The tree, its count conditions resolvable in one query
+     * @throws Error when a counted field is not a to-many relation with a single foreign key
+     *
+     * @remarks
+     * The related rows matching the condition's `where` — live ones only, as in R11 — are grouped
+     * by their foreign key, one `groupBy` per condition. A relation reached through a path keeps
+     * the quantifiers of the path: `orders[every].lines` with `{ gte: 2 }` becomes
+     * `{ field: 'orders[every].id', in: [...] }`.
+     */
+    public static async prefetchCounts(
+        input: Search.Input,
+        modelInfo: any,
+        client: object
+    ): Promise<Search.Input> {
+        if (!this.hasRelationCount(input)) return input;
+
+        const rewrite = async (node: Search.Node, info: any): Promise<Search.Node> => {
+            if (this.isAndNode(node)) return { and: await Promise.all(node.and.map(child => rewrite(child, info))) };
+            if (this.isOrNode(node)) return { or: await Promise.all(node.or.map(child => rewrite(child, info))) };
+            if (this.isNotNode(node)) return { not: await rewrite(node.not, info) };
+            if (!("count" in node)) return node;
+
+            const condition = node as CountCondition;
+            const range = this.countRange(condition.count);
+            if (!range) return node;
+
+            // Existence bounds resolve in the query, unless their `where` counts in turn
+            const native = this.countQuantifier(range) !== null;
+            if (native && (condition.where === undefined || !this.hasRelationCount(condition.where))) return node;
+
+            const relation = this.countedRelation(condition.field, info);
+            const resolved: CountCondition = condition.where === undefined
+                ? condition
+                : { ...condition, where: await this.prefetchCounts(condition.where, this.getTypeInfo(relation.type), client) };
+
+            return native ? resolved as Search.Node : this.prefetchCount(resolved, range, info, client);
+        };
+
+        const nodes = Array.isArray(input) ? input as readonly Search.Node[] : [input as Search.Node];
+        const rewritten = await Promise.all(nodes.map(node => rewrite(node, modelInfo)));
+        return Array.isArray(input) ? rewritten : rewritten[0];
+    }
+
+    /**
+     * Whether the first oversized list sits under `and` nodes only
+     *
+     * @returns null when the subtree holds no oversized list
+     * @private
+     */
+    private static isConjunctiveLargeList(node: Search.Node, chunkSize: number): boolean | null {
+        if (this.isAndNode(node)) {
+            for (const child of node.and) {
+                const found = this.isConjunctiveLargeList(child, chunkSize);
+                if (found !== null) return found;
+            }
+            return null;
+        }
+
+        if (this.isOrNode(node) || this.isNotNode(node)) {
+            return this.findLargeList(node, chunkSize) ? false : null;
+        }
+
+        return this.findLargeList(node, chunkSize) ? true : null;
+    }
+
     /**
      * Finds the first condition carrying an `in`/`notIn` list longer than the limit
      * @private
@@ -233,9 +388,25 @@ export default class SearchResolver {
             return inner ? { NOT: inner } : null;
         }
 
+        if ("count" in node) return this.resolveCount(node as CountCondition, modelInfo);
+
+        // R12 - without a full-text index to search, every word must be contained
+        if ("matches" in node && fullTextStrategy() !== "search") {
+            return this.resolveGroup(this.tokenize(node as LooseCondition), "AND", modelInfo);
+        }
+
         return this.resolveCondition(node as LooseCondition, modelInfo);
     }
 
+    /**
+     * Rewrites a `matches` condition as one `like` condition per word, modifiers kept
+     * @private
+     */
+    private static tokenize(condition: LooseCondition): Search.Node[] {
+        const { matches, rank: _rank, ...rest } = condition;
+        return textWords(matches).map(word => ({ ...rest, like: word }) as Search.Node);
+    }
+
     /**
      * Resolves an `and`/`or` node, pruning children that contribute nothing
      *
@@ -271,19 +442,21 @@ export default class SearchResolver {
         if (typeof path !== "string" || path.trim() === "") return null;
 
         // A path that dives into a JSON column becomes a Prisma JSON filter instead of nesting.
+        const quantifier = condition.relation ?? "some";
         const json = modelInfo ? this.splitJsonPath(path, modelInfo) : null;
         if (json) {
-            const jsonOperator = this.buildJsonOperator(condition, json.segments);
+            // R13 - notLike is a negated string_contains
+            const negated = "notLike" in condition;
+            const jsonOperator = this.buildJsonOperator(negated ? { ...condition, like: condition.notLike } : condition, json.segments);
             if (!jsonOperator) return null;
-            return this.expandPath(json.column, jsonOperator, modelInfo, condition.relation ?? "some");
+            return negated
+                ? this.expandAroundField(json.column, key => ({ NOT: { [key]: jsonOperator } }), modelInfo, quantifier)
+                : this.expandPath(json.column, jsonOperator, modelInfo, quantifier);
         }
 
         const fieldInfo = modelInfo ? this.getFieldInfoForPath(path, modelInfo) : null;
-        const operator = this.buildOperator(condition, fieldInfo);
-        if (!operator) return null;
-
-        const quantifier = condition.relation ?? "some";
-        const constraint = this.expandPath(path, operator, modelInfo, quantifier);
+        const constraint = this.buildConstraint(path, condition, fieldInfo, modelInfo, quantifier);
+        if (!constraint) return null;
 
         // R6 - "...or the field is null"
         if (condition.orNull) {
@@ -298,6 +471,201 @@ export default class SearchResolver {
         return constraint;
     }
 
+    /**
+     * Builds the constraint of a condition on a path outside JSON columns
+     *
+     * @returns The expanded constraint, or null when the condition is pruned
+     * @private
+     */
+    private static buildConstraint(
+        path: string,
+        condition: LooseCondition,
+        fieldInfo: any,
+        modelInfo: any,
+        quantifier: Search.RelationQuantifier
+    ): Record<string, any> | null {
+        // R13 - Prisma's nested `not` takes no case mode, so the negation goes around the field
+        if ("notLike" in condition) {
+            if (!isValidValue(condition.notLike)) return null;
+            const like = this.withCaseMode({ contains: condition.notLike }, condition);
+            return this.expandAroundField(path, key => ({ NOT: { [key]: like } }), modelInfo, quantifier);
+        }
+
+        // R13 - a list of related rows or embedded documents is empty or not as a whole
+        if ("isEmpty" in condition && fieldInfo?.kind === "object" && fieldInfo.isList) {
+            if (typeof condition.isEmpty !== "boolean") return null;
+            if (this.isEmbeddedType(fieldInfo.type)) {
+                return this.expandAroundField(path, key => ({ [key]: { isEmpty: condition.isEmpty } }), modelInfo, quantifier);
+            }
+
+            const related = condition.isEmpty ? "none" : "some";
+            return this.expandAroundField(
+                path,
+                key => ({ [key]: { [related]: scopeRelationFilter(fieldInfo.type, related, {}) } }),
+                modelInfo,
+                quantifier
+            );
+        }
+
+        const operator = this.buildOperator(condition, fieldInfo);
+        return operator ? this.expandPath(path, operator, modelInfo, quantifier) : null;
+    }
+
+    /**
+     * Expands the relations of a path around a filter on its last field
+     *
+     * @param filterOn - Builds the filter of the model owning the last field, given its name
+     * @private
+     */
+    private static expandAroundField(
+        path: string,
+        filterOn: (key: string) => Record<string, any>,
+        modelInfo: any,
+        quantifier: Search.RelationQuantifier
+    ): Record<string, any> {
+        const keys = path.split(".");
+        const filter = filterOn(this.parseSegment(keys.pop()!).key);
+        return keys.length === 0 ? filter : this.expandPath(keys.join("."), filter, modelInfo, quantifier);
+    }
+
+    /**
+     * Resolves a count condition whose bounds only ask whether a related row exists (R15)
+     *
+     * @throws Error on bounds that need the counts read first, through {@link prefetchCounts}
+     * @private
+     */
+    private static resolveCount(condition: CountCondition, modelInfo?: any): Record<string, any> | null {
+        const path = condition.field;
+        if (typeof path !== "string" || path.trim() === "") return null;
+
+        const range = this.countRange(condition.count);
+        if (!range) return null;
+
+        const quantifier = this.countQuantifier(range);
+        if (quantifier === null) {
+            throw new Error(`Cannot filter on the count of "${path}" in a single query: read the counts first with SearchResolver.prefetchCounts, as findByFilter does.`);
+        }
+        if (quantifier === "any") return null;
+
+        const fieldInfo = modelInfo ? this.getFieldInfoForPath(path, modelInfo) : null;
+        if (fieldInfo && (fieldInfo.kind !== "object" || !fieldInfo.isList)) {
+            throw new Error(`Cannot count "${path}": it is not a to-many relation.`);
+        }
+
+        const relatedInfo = fieldInfo ? this.getTypeInfo(fieldInfo.type) : null;
+        const where = condition.where === undefined ? null : this.resolve(condition.where, relatedInfo ?? undefined);
+
+        return this.expandAroundField(
+            path,
+            key => ({ [key]: { [quantifier]: scopeRelationFilter(fieldInfo?.type, quantifier, where ?? {}) } }),
+            modelInfo,
+            condition.relation ?? "some"
+        );
+    }
+
+    /**
+     * Reads the counts of a relation and turns a count condition into a condition on the keys of
+     * the rows it holds for
+     * @private
+     */
+    private static async prefetchCount(
+        condition: CountCondition,
+        range: CountRange,
+        modelInfo: any,
+        client: object
+    ): Promise<Search.Node> {
+        const relation = this.countedRelation(condition.field, modelInfo);
+        const relatedInfo = this.getTypeInfo(relation.type);
+        const backField = relatedInfo?.fields?.find(
+            (f: any) => f.relationName === relation.relationName && f.relationFromFields?.length > 0
+        );
+        if (!backField || backField.relationFromFields.length !== 1) {
+            throw new Error(`Cannot count "${condition.field}": only a relation with a single foreign key on ${relation.type} can be counted.`);
+        }
+
+        const [foreignKey] = backField.relationFromFields as string[];
+        const [referencedKey] = backField.relationToFields as string[];
+        const where = condition.where === undefined ? null : this.resolve(condition.where, relatedInfo);
+
+        const delegateName = relation.type.charAt(0).toLowerCase() + relation.type.slice(1);
+        const groups: Array<Record<string, any>> = await (client as Record<string, any>)[delegateName].groupBy({
+            by: [foreignKey],
+            where: scopeRelationFilter(relation.type, "some", where ?? {}),
+            _count: { _all: true }
+        });
+
+        const within = (count: number) => count >= range.min && count <= range.max;
+        const counted = groups.filter(group => group[foreignKey] !== null && group[foreignKey] !== undefined);
+
+        const keys = condition.field.split(".");
+        keys.pop();
+        const target = {
+            field: [...keys, referencedKey].join("."),
+            ...(condition.relation ? { relation: condition.relation } : {})
+        };
+
+        // Rows without related rows are missing from the groups: a range holding 0 keeps them
+        if (within(0)) {
+            const outside = counted.filter(group => !within(group._count._all)).map(group => group[foreignKey]);
+            return outside.length > 0 ? { ...target, notIn: outside } : { ...target, isNotNull: true };
+        }
+
+        const inside = counted.filter(group => within(group._count._all)).map(group => group[foreignKey]);
+        // An empty `in` would be pruned and match everything; a null key matches nothing
+        return inside.length > 0 ? { ...target, in: inside } : { ...target, isNull: true };
+    }
+
+    /**
+     * The to-many relation a count condition counts the rows of
+     *
+     * @throws Error when the path does not end on a to-many relation
+     * @private
+     */
+    private static countedRelation(path: string, modelInfo: any): any {
+        const field = modelInfo ? this.getFieldInfoForPath(path, modelInfo) : null;
+        if (!field || field.kind !== "object" || !field.isList) {
+            throw new Error(`Cannot count "${path}": it is not a to-many relation.`);
+        }
+        return field;
+    }
+
+    /**
+     * The bounds of a count condition as a range of integers
+     *
+     * @returns null when a bound is not a finite number, or none is given
+     * @private
+     */
+    private static countRange(count: Search.CountFilter | undefined): CountRange | null {
+        if (!count || typeof count !== "object") return null;
+
+        const bounds = Object.entries(count).filter(([, value]) => value !== undefined);
+        if (bounds.length === 0 || bounds.some(([, value]) => typeof value !== "number" || !Number.isFinite(value))) {
+            return null;
+        }
+
+        const range: CountRange = { min: 0, max: Infinity };
+        for (const [bound, value] of bounds as Array<[keyof Search.CountFilter, number]>) {
+            if (bound === "equals" || bound === "gte") range.min = Math.max(range.min, Math.ceil(value));
+            if (bound === "equals" || bound === "lte") range.max = Math.min(range.max, Math.floor(value));
+            if (bound === "gt") range.min = Math.max(range.min, Math.floor(value) + 1);
+            if (bound === "lt") range.max = Math.min(range.max, Math.ceil(value) - 1);
+        }
+        return range;
+    }
+
+    /**
+     * The relation filter a count range is equivalent to: `any` when every count is within it
+     *
+     * @returns null when the range needs the counts read
+     * @private
+     */
+    private static countQuantifier(range: CountRange): "some" | "none" | "any" | null {
+        if (range.max === Infinity && range.min <= 0) return "any";
+        if (range.max === Infinity && range.min === 1) return "some";
+        if (range.min <= 0 && range.max === 0) return "none";
+        return null;
+    }
+
     /**
      * Splits a dotted path where it enters a JSON column
      *
@@ -320,7 +688,8 @@ export default class SearchResolver {
         let current = modelInfo;
 
         for (let index = 0; index < keys.length; index++) {
-            const field = current?.fields?.find((f: any) => f.name === keys[index]);
+            const key = this.parseSegment(keys[index]).key;
+            const field = current?.fields?.find((f: any) => f.name === key);
             if (!field) return null;
 
             if (field.type === "Json") {
@@ -335,7 +704,7 @@ export default class SearchResolver {
 
             if (field.kind !== "object") return null;
 
-            current = this.getRelatedModelInfo(keys[index], current);
+            current = this.getRelatedModelInfo(key, current);
             if (!current) return null;
         }
 
@@ -361,6 +730,7 @@ export default class SearchResolver {
      */
     private static buildOperator(condition: LooseCondition, fieldInfo?: any): Record<string, any> | null {
         if (condition.isNull === true) return { equals: null };
+        if (condition.isNotNull === true) return { not: null };
 
         if ("equals" in condition) {
             if (condition.equals === null) return { equals: null };
@@ -370,6 +740,13 @@ export default class SearchResolver {
             return this.withCaseMode({ equals: condition.equals }, condition, condition.insensitive === true);
         }
 
+        if ("notEquals" in condition) {
+            if (condition.notEquals === null) return { not: null };
+            if (!isValidValue(condition.notEquals)) return null;
+
+            return this.withCaseMode({ not: condition.notEquals }, condition, condition.insensitive === true);
+        }
+
         if ("like" in condition) {
             if (!isValidValue(condition.like)) return null;
             return this.withCaseMode({ contains: condition.like }, condition);
@@ -393,6 +770,10 @@ export default class SearchResolver {
             return isValidValue(condition.notIn) ? { notIn: [...condition.notIn!] } : null;
         }
 
+        if ("has" in condition) {
+            return isValidValue(condition.has) ? { has: condition.has } : null;
+        }
+
         if ("hasSome" in condition) {
             return isValidValue(condition.hasSome) ? { hasSome: [...condition.hasSome!] } : null;
         }
@@ -401,6 +782,15 @@ export default class SearchResolver {
             return isValidValue(condition.hasEvery) ? { hasEvery: [...condition.hasEvery!] } : null;
         }
 
+        if ("isEmpty" in condition) {
+            return typeof condition.isEmpty === "boolean" ? { isEmpty: condition.isEmpty } : null;
+        }
+
+        if ("matches" in condition) {
+            const words = textWords(condition.matches);
+            return words.length > 0 ? { search: toSearchQuery(words) } : null;
+        }
+
         return this.buildRangeOperator(condition, fieldInfo);
     }
 
@@ -459,7 +849,9 @@ export default class SearchResolver {
      * `$.a.b` JSONPath string. The string operators map to Prisma's `string_contains` family and
      * `hasEvery` to `array_contains` (does the JSON array hold all of these values) — all of which
      * only PostgreSQL implements. MySQL supports `equals` alone. `in` / `notIn` / `hasSome` /
-     * `isNull` have no JSON equivalent and return null so the condition is pruned.
+     * `isNull` / `isNotNull` / `matches` have no JSON equivalent and return null so the condition
+     * is pruned. `has` is a one-value `array_contains`, `isEmpty` compares with `[]`, and
+     * `notLike` (negated by the caller) a `string_contains`.
      */
     private static buildJsonOperator(
         condition: LooseCondition,
@@ -474,6 +866,11 @@ export default class SearchResolver {
             return isValidValue(condition.equals) ? { path, equals: condition.equals } : null;
         }
 
+        if ("notEquals" in condition) {
+            if (condition.notEquals === null) return { path, not: null };
+            return isValidValue(condition.notEquals) ? { path, not: condition.notEquals } : null;
+        }
+
         if ("like" in condition) {
             return isValidValue(condition.like) ? { path, string_contains: condition.like, ...mode } : null;
         }
@@ -486,15 +883,24 @@ export default class SearchResolver {
             return isValidValue(condition.endsWith) ? { path, string_ends_with: condition.endsWith, ...mode } : null;
         }
 
-        // A JSON array holding all the listed values
+        // A JSON array holding all the listed values, or the one value of `has`
         if ("hasEvery" in condition) {
             return isValidValue(condition.hasEvery) ? { path, array_contains: [...condition.hasEvery!] } : null;
         }
 
+        if ("has" in condition) {
+            return isValidValue(condition.has) ? { path, array_contains: [condition.has] } : null;
+        }
+
+        if ("isEmpty" in condition) {
+            if (typeof condition.isEmpty !== "boolean") return null;
+            return condition.isEmpty ? { path, equals: [] } : { path, not: [] };
+        }
+
         const range = this.rangeBounds(condition);
         if (range) return { path, ...range };
 
-        // No JSON equivalent for in / notIn / hasSome / isNull
+        // No JSON equivalent for in / notIn / hasSome / isNull / isNotNull / matches
         return null;
     }
 
@@ -533,7 +939,7 @@ export default class SearchResolver {
     }
 
     /**
-     * Extracts the gte/lte bounds of a condition from `between`, `gte` and/or `lte`
+     * Extracts the bounds of a condition from `between`, or from `gt` / `gte` and `lt` / `lte`
      *
      * @returns The bounds object, or null when neither bound is present
      * @private
@@ -546,15 +952,16 @@ export default class SearchResolver {
             if (min !== undefined && min !== null) range.gte = min;
             if (max !== undefined && max !== null) range.lte = max;
         } else {
-            if (condition.gte !== undefined && condition.gte !== null) range.gte = condition.gte;
-            if (condition.lte !== undefined && condition.lte !== null) range.lte = condition.lte;
+            for (const bound of ["gt", "gte", "lt", "lte"] as const) {
+                if (condition[bound] !== undefined && condition[bound] !== null) range[bound] = condition[bound];
+            }
         }
 
         return Object.keys(range).length === 0 ? null : range;
     }
 
     /**
-     * Builds a range operator from `between`, `gte` and/or `lte`
+     * Builds a range operator from `between`, or from strict and inclusive bounds
      * @private
      */
     private static buildRangeOperator(condition: LooseCondition, fieldInfo?: any): Record<string, any> | null {
@@ -589,7 +996,8 @@ export default class SearchResolver {
      * @param path - Dot-separated path, e.g. `'author.profile.name'`
      * @param leaf - The operator object to place at the end of the path
      * @param modelInfo - Model information for the root of the path
-     * @param quantifier - Quantifier applied to every to-many relation in the path
+     * @param quantifier - Quantifier applied to the to-many relations in the path that carry none
+     * of their own (R14)
      * @private
      *
      * @remarks
@@ -601,23 +1009,40 @@ export default class SearchResolver {
         modelInfo: any,
         quantifier: Search.RelationQuantifier
     ): Record<string, any> {
-        const keys = path.split(".");
+        const segments = path.split(".").map(segment => this.parseSegment(segment));
 
         // Map the model that owns each segment, walking left to right
         const modelPerKey: Array<any> = [modelInfo ?? null];
-        for (let index = 0; index < keys.length - 1; index++) {
-            modelPerKey.push(this.getRelatedModelInfo(keys[index], modelPerKey[index]));
+        for (let index = 0; index < segments.length - 1; index++) {
+            modelPerKey.push(this.getRelatedModelInfo(segments[index].key, modelPerKey[index]));
         }
 
         // Build from the inside out
         let result: Record<string, any> = leaf;
-        for (let index = keys.length - 1; index >= 0; index--) {
-            result = this.wrapSegment(keys[index], result, modelPerKey[index], quantifier);
+        for (let index = segments.length - 1; index >= 0; index--) {
+            const { key, quantifier: own } = segments[index];
+            result = this.wrapSegment(key, result, modelPerKey[index], own ?? quantifier);
         }
 
         return result;
     }
 
+    /**
+     * Splits the quantifier off a path segment: `orders[every]` → `orders`, `every`
+     *
+     * @throws Error on a quantifier other than some, every or none
+     * @private
+     */
+    private static parseSegment(segment: string): { key: string; quantifier?: Search.RelationQuantifier } {
+        const match = QUANTIFIED_SEGMENT.exec(segment);
+        if (!match) return { key: segment };
+
+        if (!QUANTIFIERS.has(match[2])) {
+            throw new Error(`Unknown quantifier "${match[2]}" in "${segment}": use some, every or none.`);
+        }
+        return { key: match[1], quantifier: match[2] as Search.RelationQuantifier };
+    }
+
     /**
      * Wraps one path segment, adding a relation operator when the segment is a relation
      * @private
@@ -632,10 +1057,12 @@ export default class SearchResolver {
 
         if (!field || field.kind !== "object") return { [key]: value };
 
+        // R11 - soft-deleted related rows do not count. Embedded types never soft-delete, so
+        // they pass through untouched.
         // To-one relations are always traversed with `is`; the quantifier is for lists
         return field.isList
-            ? { [key]: { [quantifier]: value } }
-            : { [key]: { is: value } };
+            ? { [key]: { [quantifier]: scopeRelationFilter(field.type, quantifier, value) } }
+            : { [key]: { is: scopeRelationFilter(field.type, "is", value) } };
     }
 
     /**
@@ -645,7 +1072,7 @@ export default class SearchResolver {
      * @private
      */
     private static getFieldInfoForPath(path: string, modelInfo: any): any | null {
-        const keys = path.split(".");
+        const keys = path.split(".").map(segment => this.parseSegment(segment).key);
         let current = modelInfo;
 
         for (let index = 0; index < keys.length; index++) {
@@ -676,16 +1103,37 @@ export default class SearchResolver {
         const field = modelInfo?.fields?.find((f: any) => f.name === fieldName);
         if (!field || field.kind !== "object") return null;
 
+        return this.getTypeInfo(field.type);
+    }
+
+    /**
+     * Resolves the field metadata of a model or embedded type by name
+     * @private
+     */
+    private static getTypeInfo(typeName: string): any | null {
         try {
             const runtimeDataModel = (getPrismaInstance() as any)?._runtimeDataModel;
-            return runtimeDataModel?.models?.[field.type]
-                ?? runtimeDataModel?.types?.[field.type]
+            return runtimeDataModel?.models?.[typeName]
+                ?? runtimeDataModel?.types?.[typeName]
                 ?? null;
         } catch {
             return null;
         }
     }
 
+    /**
+     * Whether a type is a MongoDB embedded (composite) type rather than a model
+     * @private
+     */
+    private static isEmbeddedType(typeName: string): boolean {
+        try {
+            const runtimeDataModel = (getPrismaInstance() as any)?._runtimeDataModel;
+            return Boolean(runtimeDataModel?.types?.[typeName]) && !runtimeDataModel?.models?.[typeName];
+        } catch {
+            return false;
+        }
+    }
+
     private static isAndNode(node: Search.Node): node is Search.AndNode {
         return Array.isArray((node as Search.AndNode).and);
     }
@@ -3,6 +3,7 @@ import SearchResolver from "./search-resolver";
 import ConditionUtils from "./condition-utils";
 import ObjectUtils from "./object-utils";
 import { getPrismaInstance } from "./config";
+import { scopeRelationFilter } from "./soft-delete";
 
 /**
  * SearchUtils class for high-level search filter operations
@@ -118,12 +119,15 @@ export default  class SearchUtils {
             const nested = this.applyDefaultFilters(value, nestedModelInfo);
             if (!ConditionUtils.isValid(nested)) return undefined;
 
+            // Soft-deleted related rows never match
+            const relatedModel = nestedModelInfo?.name;
+
             // Detectar si es una relación de array
             if (fieldName && modelInfo && this.isArrayRelation(fieldName, modelInfo)) {
-                return { some: nested };
+                return { some: scopeRelationFilter(relatedModel, "some", nested) };
             }
 
-            return { is: nested };
+            return { is: scopeRelationFilter(relatedModel, "is", nested) };
         }
 
         return undefined;
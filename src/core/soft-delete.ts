@@ -0,0 +1,168 @@
+/**
+ * Soft Delete Module
+ *
+ * Knows which models soft-delete and builds the conditions that keep their soft-deleted rows out
+ * of reads: the root `where` of a query, relation paths in a search, and to-many includes.
+ *
+ * A model is registered by the `@SoftDelete()` decorator on its entity class. Relation filters and
+ * includes only know the related model by name, so the registry is keyed by model name.
+ */
+
+import { Search, FindByFilterOptions } from "./structures/types/search.types";
+
+/** Which rows a query sees on a soft-deleting model */
+type TrashOptions = Pick<FindByFilterOptions.Options, "withTrashed" | "onlyTrashed">;
+
+/** Soft-delete column per model, keyed by lower-cased model name */
+const softDeleteFields = new Map<string, string>();
+
+/**
+ * Registers a model as soft-deleting
+ *
+ * @param modelName - Prisma model name
+ * @param field - The nullable timestamp column that marks a row as deleted
+ * @internal
+ */
+export function registerSoftDeleteModel(modelName: string, field: string): void {
+    softDeleteFields.set(modelName.toLowerCase(), field);
+}
+
+/**
+ * The soft-delete column of a model, or `undefined` when the model deletes for real
+ * @internal
+ */
+export function getSoftDeleteFieldForModel(modelName: string | null | undefined): string | undefined {
+    return modelName ? softDeleteFields.get(modelName.toLowerCase()) : undefined;
+}
+
+/**
+ * The soft-delete column declared on an entity class by `@SoftDelete()`
+ *
+ * @param entityClass - The entity class (`this` inside a static method)
+ * @returns The column, or `undefined` when the class deletes for real
+ * @internal
+ *
+ * @remarks
+ * Also registers the class's model, for the cases where its model delegate was not readable yet
+ * when the decorator ran.
+ */
+export function getSoftDeleteField(entityClass: object): string | undefined {
+    const field = (entityClass as { _softDeleteField?: string })._softDeleteField;
+    if (!field) return undefined;
+
+    const modelName = (entityClass as { model?: { name?: unknown } }).model?.name;
+    if (typeof modelName === "string" && !getSoftDeleteFieldForModel(modelName)) {
+        registerSoftDeleteModel(modelName, field);
+    }
+
+    return field;
+}
+
+/**
+ * Builds the search condition that selects live, trashed or all rows
+ *
+ * @param field - The soft-delete column
+ * @param options - `withTrashed` / `onlyTrashed`
+ * @returns The condition, or null when every row is wanted
+ * @internal
+ */
+export function trashCondition(field: string, options?: TrashOptions): Search.Node | null {
+    if (options?.onlyTrashed) return { not: { field, isNull: true } };
+    if (options?.withTrashed) return null;
+    return { field, isNull: true };
+}
+
+/**
+ * ANDs an implicit condition into a caller's search
+ *
+ * @param search - The caller's search, if any
+ * @param condition - The condition to add; null leaves the search as it is
+ * @internal
+ */
+export function andSearch(
+    search: Search.Input | undefined,
+    condition: Search.Node | null
+): Search.Input | undefined {
+    if (!condition) return search;
+    if (search === undefined) return condition;
+
+    const existing = Array.isArray(search) ? (search as readonly Search.Node[]) : [search as Search.Node];
+    return [condition, ...existing];
+}
+
+/**
+ * Adds the trash condition of an entity class to query options
+ *
+ * @param entityClass - The entity class being queried
+ * @param options - The caller's options
+ * @returns The options with the condition merged into `search`, or the input when the class does
+ * not soft-delete
+ * @internal
+ */
+export function applyTrashScope<TOptions extends { search?: Search.Input } & TrashOptions>(
+    entityClass: object,
+    options: TOptions
+): TOptions;
+export function applyTrashScope<TOptions extends { search?: Search.Input } & TrashOptions>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined;
+export function applyTrashScope<TOptions extends { search?: Search.Input } & TrashOptions>(
+    entityClass: object,
+    options: TOptions | undefined
+): TOptions | undefined {
+    const field = getSoftDeleteField(entityClass);
+    if (!field) return options;
+
+    const search = andSearch(options?.search, trashCondition(field, options));
+    return { ...(options ?? {}), search } as TOptions;
+}
+
+/**
+ * Restricts a relation filter to the live rows of the related model
+ *
+ * @param modelName - The related model
+ * @param quantifier - How the relation is traversed: `is` for to-one, the list quantifier otherwise
+ * @param filter - The Prisma filter for the related rows
+ * @returns The filter, extended when the related model soft-deletes
+ * @internal
+ *
+ * @remarks
+ * `some`, `none` and `is` only need the related row to be live as well. `every` asks that every
+ * *live* row matches, so trashed rows are let through instead of being required to match.
+ */
+export function scopeRelationFilter(
+    modelName: string | null | undefined,
+    quantifier: Search.RelationQuantifier | "is",
+    filter: Record<string, any>
+): Record<string, any> {
+    const field = getSoftDeleteFieldForModel(modelName);
+    if (!field) return filter;
+
+    if (quantifier === "every") {
+        return { OR: [filter, { NOT: { [field]: null } }] };
+    }
+
+    return field in filter ? { AND: [filter, { [field]: null }] } : { ...filter, [field]: null };
+}
+
+/**
+ * Restricts a to-many include to the live rows of the related model
+ *
+ * @param modelName - The related model
+ * @param include - The include value built so far (`true` or `{ include }`)
+ * @returns The include, with a `where` when the related model soft-deletes
+ * @internal
+ *
+ * @remarks
+ * Prisma only accepts `where` on list relations, so to-one includes are left alone.
+ */
+export function scopeListInclude(
+    modelName: string | null | undefined,
+    include: true | Record<string, unknown>
+): true | Record<string, unknown> {
+    const field = getSoftDeleteFieldForModel(modelName);
+    if (!field) return include;
+
+    return include === true ? { where: { [field]: null } } : { ...include, where: { [field]: null } };
+}
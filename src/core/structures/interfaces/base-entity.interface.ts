@@ -1,4 +1,5 @@
 import type { TransactionClient } from '../../transaction-context';
+import type { EntityId } from '../../primary-key';
 
 /**
  * Options for entity operations that support transactions.
@@ -43,7 +44,8 @@ export interface IBaseEntity<TModel extends object = Record<string, unknown>> {
      * Deletes the entity from the database.
      * @param options - Optional operation options (e.g., transactional client)
      * @returns A promise that resolves with the id of the deleted record
-     * (number for SQL databases, string for MongoDB, or 0 if deletion failed).
+     * (number for SQL databases, string for MongoDB, an object for a composite primary key,
+     * or 0 if deletion failed).
      */
-    delete(options?: EntityOperationOptions): Promise<number | string>;
+    delete(options?: EntityOperationOptions): Promise<EntityId>;
 }
@@ -23,4 +23,8 @@ export interface EntityPrismaModel<T extends object = Record<string, unknown>> {
     updateMany(args: any): Promise<{ count: number }>;
 
     upsert(args: any): Promise<T & { id: number | string }>;
+
+    aggregate(args: any): Promise<Record<string, unknown>>;
+
+    groupBy(args: any): Promise<Array<Record<string, unknown>>>;
 }
@@ -0,0 +1,66 @@
+import type { EntityOperationOptions } from '../interfaces/base-entity.interface';
+import type { FindByFilterOptions } from './search.types';
+
+/**
+ * Aggregation contract of `aggregateByFilter` and `groupByFilter`.
+ *
+ * @remarks
+ * The selections and results follow Prisma's `aggregate` and `groupBy`: `_sum`, `_avg`, `_min`
+ * and `_max` name the fields to compute, `_count` counts rows (`true`, or `{ _all: true }`) or the
+ * non-null values of fields. The rows are narrowed by a filter and search tree, the same way
+ * `findByFilter` narrows them, scopes and soft delete included.
+ *
+ * A search carrying an `in` list too long for one query is split into chunks, one query each, and
+ * the results merged: counts and sums add up, minimums and maximums compare. An average is
+ * weighted by its field's count, so averaging over a split list needs `_count` of that field.
+ */
+export namespace Aggregate {
+    /** Fields of the model to compute an aggregate of */
+    export type FieldSelection<TModel> = Partial<Record<keyof TModel & string, true>>;
+
+    /** `true` counts the rows; fields count their non-null values, `_all` the rows */
+    export type CountSelection<TModel> = true | Partial<Record<(keyof TModel & string) | '_all', true>>;
+
+    /** The aggregates to compute */
+    export type Selection<TModel> = {
+        _sum?: FieldSelection<TModel>;
+        _avg?: FieldSelection<TModel>;
+        _min?: FieldSelection<TModel>;
+        _max?: FieldSelection<TModel>;
+        _count?: CountSelection<TModel>;
+    };
+
+    /** Which rows are aggregated */
+    export type Scope = Pick<FindByFilterOptions.Options, 'search' | 'withTrashed' | 'onlyTrashed' | 'scopes' | 'unscoped'>
+        & EntityOperationOptions;
+
+    export type Options<TModel> = Scope & Selection<TModel>;
+
+    /** The computed aggregates, keyed like the selection; `null` when no row has a value */
+    export type Result = {
+        _sum?: Record<string, unknown>;
+        _avg?: Record<string, number | null>;
+        _min?: Record<string, unknown>;
+        _max?: Record<string, unknown>;
+        _count?: number | Record<string, number>;
+    };
+
+    /** Sorts groups by a `by` field, or by an aggregate of a field */
+    export type GroupOrderByItem = Record<string, 'asc' | 'desc' | Record<string, 'asc' | 'desc'>>;
+
+    export type GroupByOptions<TModel> = Options<TModel> & {
+        /** The fields whose values form a group */
+        by: readonly (keyof TModel & string)[];
+        /**
+         * Conditions on the groups, as in Prisma: `{ age: { _avg: { gt: 30 } } }`, or a scalar
+         * filter on a `by` field
+         */
+        having?: Record<string, unknown>;
+        orderBy?: GroupOrderByItem | GroupOrderByItem[];
+        /** Groups to skip and to return; sorted on the `by` fields unless `orderBy` says otherwise */
+        pagination?: Partial<Pick<FindByFilterOptions.PaginationOptions, 'take' | 'skip'>>;
+    };
+
+    /** One group: its `by` values and its aggregates */
+    export type Group = Record<string, unknown> & Result;
+}
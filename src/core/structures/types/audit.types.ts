@@ -0,0 +1,69 @@
+import type { EntityFieldChange } from '../../entity-snapshot';
+import type { EntityId } from '../../primary-key';
+import type { Actor } from '../../request-context';
+import type { TransactionClient } from '../../transaction-context';
+
+/**
+ * Audit trail contract for entity classes.
+ *
+ * @remarks
+ * An entity decorated with `@Audited()` reports every write to an audit sink: one entry per row
+ * created, updated or deleted, carrying the fields that changed with their value before and
+ * after. The single-row methods, the batch methods (`createMany`, `upsertMany`,
+ * `updateManyById`, `deleteByIds`) and the filtered ones (`updateByFilter`, `deleteByFilter`)
+ * all report, each with one call to the sink — the filtered ones with one per batch of 1000
+ * rows, recorded as the rows are read, before the write.
+ *
+ * Without a `tx` and outside `runTransaction()`, an audited write opens a transaction of its
+ * own, so the rows it reads, the write and its entries commit or roll back together.
+ *
+ * The sink is the `sink` of the decorator, or else `auditSink` from `configurePrisma()`. Without
+ * either nothing is recorded, and no extra query is made.
+ */
+export namespace Audit {
+    /** What happened to the row. A soft delete is a `delete`, a restore an `update` */
+    export type Operation = 'create' | 'update' | 'delete';
+
+    /** One write to one row */
+    export interface Entry {
+        /** Prisma model name */
+        modelName: string;
+        /**
+         * Primary key of the row; a key object for a composite key. Unknown for the rows of
+         * `createMany()`, which does not read back what it inserts.
+         */
+        entityId?: EntityId;
+        operation: Operation;
+        /** The `actor` of the request context, when one is set */
+        actor?: Actor;
+        /**
+         * The changed fields. `from` is `undefined` on a create and `to` on a delete; `id`,
+         * `createdAt` and `updatedAt` are never listed.
+         */
+        changes: Record<string, EntityFieldChange>;
+        timestamp: Date;
+    }
+
+    /** Handed to a sink along with the entries */
+    export interface SinkContext {
+        /**
+         * The transaction the write ran in: the caller's `tx`, the `runTransaction()` callback
+         * it ran inside, or the one the write opened for its entries.
+         */
+        tx?: TransactionClient;
+    }
+
+    /**
+     * Receives the entries of one write. Awaited before the write method returns, so an error it
+     * throws reaches the caller — and rolls the write back inside a transaction.
+     */
+    export type Sink = (entries: Entry[], context: SinkContext) => void | Promise<void>;
+
+    /** Options of `@Audited()` */
+    export interface Options {
+        /** Where the entries go instead of the configured `auditSink` */
+        sink?: Sink;
+        /** Fields never listed in the changes, e.g. secrets */
+        ignore?: string[];
+    }
+}
@@ -0,0 +1,56 @@
+import type { Aggregate } from './aggregate.types';
+
+/**
+ * Facet contract of `facetsByFilter`.
+ *
+ * @remarks
+ * A facet counts the matching rows per value of one field, for the "N results per brand" next to
+ * a filtered listing:
+ *
+ * - `{ field }` — one count per distinct value, through `groupBy`
+ * - `{ field, buckets }` — one count per numeric range: `[0, 50, 100]` counts `0-50` (0 ≤ v < 50),
+ *   `50-100` and `100+`
+ * - `{ field, array: true }` — one count per element of a scalar list field, counted in memory
+ *
+ * Each facet leaves out the caller's conditions on its own field, so selecting a status does not
+ * collapse the status facet to that status. Scopes, soft delete and the tenant always apply.
+ */
+export namespace Facet {
+    interface BaseFacet<TModel> {
+        field: keyof TModel & string;
+        /** Key of the facet in the result; defaults to `field` */
+        name?: string;
+        /** Leave the caller's conditions on `field` out of this facet's count. Defaults to `true`. */
+        excludeOwnFilter?: boolean;
+    }
+
+    /** Counts per distinct value */
+    export interface ValueFacet<TModel> extends BaseFacet<TModel> {
+        buckets?: undefined;
+        array?: false;
+    }
+
+    /** Counts per range between ascending boundaries; values below the first are not counted */
+    export interface BucketFacet<TModel> extends BaseFacet<TModel> {
+        buckets: readonly number[];
+        array?: false;
+    }
+
+    /** Counts per element of a scalar list field */
+    export interface ArrayFacet<TModel> extends BaseFacet<TModel> {
+        buckets?: undefined;
+        array: true;
+    }
+
+    export type Definition<TModel> = ValueFacet<TModel> | BucketFacet<TModel> | ArrayFacet<TModel>;
+
+    export type Options<TModel> = Aggregate.Scope & {
+        facets: readonly Definition<TModel>[];
+    };
+
+    /** Matching rows per value, or per bucket label; `null` values count under `"null"` */
+    export type Counts = Record<string, number>;
+
+    /** The counts of each facet, keyed by facet name */
+    export type Result = Record<string, Counts>;
+}
@@ -0,0 +1,97 @@
+import type { TransactionClient } from '../../transaction-context';
+import type { EntityId } from '../../primary-key';
+import type { Search } from './search.types';
+
+/**
+ * Lifecycle hook contract for entity classes.
+ *
+ * @remarks
+ * A subclass of `BaseEntity` opts in by declaring the hooks it needs — there is nothing to
+ * register. Two flavours exist:
+ *
+ * - **Instance hooks** (`beforeCreate`, `afterUpdate`, ...) run against one entity. `this` is the
+ *   entity, so a `before*` hook can simply assign properties and they are written.
+ * - **Batch hooks** (`static beforeCreateMany`, `static afterDeleteMany`, ...) run once per call of
+ *   a batch method and receive the whole payload.
+ *
+ * The batch methods that carry items (`createMany`, `updateManyById`) also run the instance
+ * `before*` hook once per item, so stamping logic written for `create()` applies to bulk writes
+ * too. Instance `after*` hooks only fire from the instance methods: the batch paths do not read
+ * the written rows back.
+ */
+export namespace Lifecycle {
+    /** The entity method that triggered a hook */
+    export type Operation =
+        | 'create'
+        | 'update'
+        | 'delete'
+        | 'forceDelete'
+        | 'createMany'
+        | 'upsertMany'
+        | 'updateManyById'
+        | 'updateByFilter'
+        | 'deleteByFilter'
+        | 'deleteByIds';
+
+    /** Hooks that run against a single entity instance */
+    export type InstanceHook =
+        | 'beforeCreate'
+        | 'afterCreate'
+        | 'beforeUpdate'
+        | 'afterUpdate'
+        | 'beforeDelete'
+        | 'afterDelete';
+
+    /** Hooks that run once per batch call, declared as static methods */
+    export type BatchHook =
+        | 'beforeCreateMany'
+        | 'afterCreateMany'
+        | 'beforeUpdateMany'
+        | 'afterUpdateMany'
+        | 'beforeDeleteMany'
+        | 'afterDeleteMany'
+        | 'beforeUpsertMany'
+        | 'afterUpsertMany';
+
+    /** What every hook receives */
+    export interface Context {
+        operation: Operation;
+        modelName: string;
+        /** The explicit transactional client of the call, when one was passed */
+        tx?: TransactionClient;
+    }
+
+    /**
+     * Batch payload for the item-carrying methods (`createMany`, `updateManyById`)
+     *
+     * @remarks
+     * `items` is the list that will be written: replacing or mutating entries in a `before*` hook
+     * changes what reaches the database.
+     */
+    export interface ItemsPayload extends Context {
+        items: Array<Record<string, unknown>>;
+    }
+
+    /**
+     * Batch payload for the filter-based methods (`updateByFilter`, `deleteByFilter`)
+     *
+     * @remarks
+     * For `updateByFilter`, `data` is the change set before it is sanitised; properties assigned
+     * to it in `beforeUpdateMany` are written to every matching row.
+     */
+    export interface FilterPayload extends Context {
+        filter: Record<string, unknown>;
+        search?: Search.Input;
+        data?: Record<string, unknown>;
+    }
+
+    /** Batch payload for `deleteByIds` */
+    export interface IdsPayload extends Context {
+        ids: Array<EntityId>;
+    }
+
+    export type BatchPayload = ItemsPayload | FilterPayload | IdsPayload;
+
+    /** What an `after*Many` hook receives: the original payload plus the affected row count */
+    export type BatchResult<TPayload extends BatchPayload = BatchPayload> = TPayload & { count: number };
+}
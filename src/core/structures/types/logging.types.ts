@@ -0,0 +1,55 @@
+/**
+ * Logging contract of the framework.
+ *
+ * @remarks
+ * Everything the framework logs — failed batches and chunks, normalized upsert counts, provider
+ * detection fallbacks — goes through one {@link Logging.Logger}, set with the `logger` option of
+ * `configurePrisma()`. Without one, messages go to the console.
+ *
+ * Each entry is a short message plus structured fields. The fields always carry the `operation`
+ * that logged, and the `model` and `provider` when they are known, so entries can be filtered and
+ * aggregated without parsing the message.
+ */
+export namespace Logging {
+    /**
+     * Severity of an entry, in increasing order. `silent` is only meaningful as the `logLevel`
+     * option, where it turns logging off.
+     */
+    export type Level = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+    /** Structured context of an entry */
+    export interface Fields {
+        /** The method or step that logged, e.g. `createMany - parallel batches` */
+        operation?: string;
+        /** The Prisma model involved */
+        model?: string;
+        /** The database provider: `postgresql`, `mysql`, `sqlite`, `sqlserver` or `mongodb` */
+        provider?: string;
+        /** The message of the error being reported */
+        error?: string;
+        [key: string]: unknown;
+    }
+
+    /**
+     * Destination of log entries
+     *
+     * @remarks
+     * Matches the level methods of winston and of `console`: message first, fields second. pino
+     * takes its arguments the other way round, so wrap it:
+     *
+     * ```typescript
+     * const logger = {
+     *   debug: (message, fields) => pino.debug(fields, message),
+     *   info: (message, fields) => pino.info(fields, message),
+     *   warn: (message, fields) => pino.warn(fields, message),
+     *   error: (message, fields) => pino.error(fields, message)
+     * };
+     * ```
+     */
+    export interface Logger {
+        debug(message: string, fields?: Fields): void;
+        info(message: string, fields?: Fields): void;
+        warn(message: string, fields?: Fields): void;
+        error(message: string, fields?: Fields): void;
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * Typing of the fluent query builder: which fields of a model are relations, and the model of
+ * the rows a relation holds.
+ *
+ * @remarks
+ * The builder is typed against the model interface of the entity class (`IUser`), so
+ * `include('posts', ...)` only accepts fields holding objects, and the callback receives a
+ * builder typed against the related interface (`IPost`).
+ */
+export namespace Query {
+    /** Sort direction of `orderBy()` */
+    export type Direction = 'asc' | 'desc';
+
+    /** The fields of `TModel` that hold a related object or a list of them */
+    export type RelationKey<TModel> = {
+        [K in keyof TModel]-?: NonNullable<TModel[K]> extends Date
+            ? never
+            : NonNullable<TModel[K]> extends readonly (infer TItem)[]
+                ? (TItem extends object ? K : never)
+                : NonNullable<TModel[K]> extends object
+                    ? K
+                    : never;
+    }[keyof TModel] & string;
+
+    /** The model of the rows relation `K` of `TModel` holds */
+    export type Related<TModel, K extends keyof TModel> = Extract<
+        NonNullable<TModel[K]> extends readonly (infer TItem)[] ? TItem : NonNullable<TModel[K]>,
+        object
+    >;
+}
@@ -0,0 +1,65 @@
+import type { EntityOperationOptions } from '../interfaces/base-entity.interface';
+import type { FindByFilterOptions, Search } from './search.types';
+
+/**
+ * Query scope contract for entity classes.
+ *
+ * @remarks
+ * A scope is a search tree with a name, declared once on the entity class so every query that
+ * needs "active customers" uses the same definition:
+ *
+ * - `static scopes` — named trees, applied with `User.scoped('active', 'recent')` or the `scopes`
+ *   option
+ * - `static defaultScope` — a tree every read and filtered write is restricted to, lifted with
+ *   `User.unscoped()` or the `unscoped` option
+ *
+ * Scopes are ANDed with each other and with the caller's `search`, then merged into the `where`
+ * through `SearchResolver.merge` like any search. `findByFilter`, `countByFilter`,
+ * `existsByFilter`, `findById` / `findByIds`, `updateByFilter` and `deleteByFilter` apply them.
+ */
+export namespace Scope {
+    /** Named scopes of an entity class */
+    export type Definitions = Record<string, Search.Input>;
+
+    /** Which scopes a query applies */
+    export interface Options {
+        /** Named scopes to apply, from the `scopes` of the entity class */
+        scopes?: string[];
+        /** Leave the `defaultScope` of the entity class out */
+        unscoped?: boolean;
+    }
+
+    /**
+     * The filtered methods of an entity class, with scopes applied. Returned by `scoped()` and
+     * `unscoped()`; chain them to combine.
+     */
+    export interface Query<TModel extends object> {
+        findByFilter<TSelect extends FindByFilterOptions.SelectPath<TModel> = never>(
+            filter: Partial<TModel>,
+            options?: FindByFilterOptions.Options<TSelect>
+        ): Promise<
+            | FindByFilterOptions.PaginatedResponse<FindByFilterOptions.Selected<TModel, TSelect>>
+            | FindByFilterOptions.CursorPaginatedResponse<FindByFilterOptions.Selected<TModel, TSelect>>
+            | FindByFilterOptions.Selected<TModel, TSelect>[]
+            | FindByFilterOptions.Selected<TModel, TSelect>
+            | null
+        >;
+        countByFilter(
+            filter: Partial<TModel>,
+            options?: Pick<FindByFilterOptions.Options, 'search' | 'withTrashed' | 'onlyTrashed' | 'scopes' | 'unscoped'> & EntityOperationOptions
+        ): Promise<number>;
+        updateByFilter(
+            filter: Partial<TModel>,
+            data: Partial<TModel>,
+            options?: FindByFilterOptions.Options & EntityOperationOptions
+        ): Promise<number>;
+        deleteByFilter(
+            filter: Partial<TModel>,
+            options?: FindByFilterOptions.Options & EntityOperationOptions & { force?: boolean }
+        ): Promise<number>;
+        /** Adds more named scopes */
+        scoped(...names: string[]): Query<TModel>;
+        /** Leaves the default scope out */
+        unscoped(): Query<TModel>;
+    }
+}
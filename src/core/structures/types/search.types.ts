@@ -1,4 +1,5 @@
 import type { TransactionClient } from '../../transaction-context';
+import type { Scope } from './scope.types';
 
 /**
  * Search contract: a tree of boolean nodes.
@@ -28,20 +29,50 @@ export namespace Search {
      */
     export type RelationQuantifier = 'some' | 'every' | 'none';
 
+    /**
+     * Bounds on a number of related rows; one lower and one upper bound may be combined
+     *
+     * @example
+     * ```typescript
+     * { gte: 3 }            // three or more
+     * { gt: 0, lte: 10 }    // one to ten
+     * { equals: 0 }         // none
+     * ```
+     */
+    export type CountFilter = {
+        equals?: number;
+        gt?: number;
+        gte?: number;
+        lt?: number;
+        lte?: number;
+    };
+
     /** Every operator key the contract knows about */
     type OperatorKey =
         | "equals"
+        | "notEquals"
         | "like"
+        | "notLike"
         | "startsWith"
         | "endsWith"
         | "in"
         | "notIn"
+        | "has"
         | "hasSome"
         | "hasEvery"
+        | "isEmpty"
+        | "gt"
         | "gte"
+        | "lt"
         | "lte"
         | "between"
-        | "isNull";
+        | "isNull"
+        | "isNotNull"
+        | "matches"
+        | "count"
+        // Not operators: the modifiers `matches` and `count` alone accept
+        | "rank"
+        | "where";
 
     /**
      * Marks every operator key this union member does *not* own as forbidden.
@@ -58,21 +89,47 @@ export namespace Search {
      * The operator of a condition. Exactly one per condition, enforced by the type.
      *
      * @remarks
-     * `gte` and `lte` are the one pair that may be combined; `between` is sugar for both at once.
+     * A lower bound (`gt` / `gte`) and an upper bound (`lt` / `lte`) are the one pair that may be
+     * combined; `between` is sugar for `gte` and `lte` at once.
+     *
+     * `notEquals` and `notLike` follow SQL: a NULL column matches neither, add `orNull` for it.
+     * `isEmpty` tests a scalar list, or whether a to-many relation has no (live) related row.
+     *
+     * `matches` is a full-text search for every word of the text: Prisma's `search` on
+     * PostgreSQL and MySQL full-text indexes, `$text` on MongoDB (which searches the collection's
+     * text index, whatever fields it covers), and one `like` per word on SQLite. `rank: true`
+     * orders the rows by relevance first, on PostgreSQL and MySQL, where they come from one
+     * offset-paged query: keyset pages, streams and searches split into several queries refuse it.
+     *
+     * `count` bounds the number of rows of a to-many relation, counting only those that match its
+     * `where` (a search tree on the related model) when given. Bounds that only ask whether a row
+     * exists — `{ gte: 1 }`, `{ equals: 0 }` — resolve to `some` / `none`; the others read the
+     * counts with a `groupBy` on the related model first, so they take one more query.
      */
     export type Operator =
         | Only<{ equals: unknown }, "equals">
+        | Only<{ notEquals: unknown }, "notEquals">
         | Only<{ like: string }, "like">
+        | Only<{ notLike: string }, "notLike">
         | Only<{ startsWith: string }, "startsWith">
         | Only<{ endsWith: string }, "endsWith">
         | Only<{ in: readonly unknown[] }, "in">
         | Only<{ notIn: readonly unknown[] }, "notIn">
+        | Only<{ has: unknown }, "has">
         | Only<{ hasSome: readonly unknown[] }, "hasSome">
         | Only<{ hasEvery: readonly unknown[] }, "hasEvery">
+        | Only<{ isEmpty: boolean }, "isEmpty">
         | Only<{ gte: Comparable; lte?: Comparable }, "gte" | "lte">
         | Only<{ lte: Comparable; gte?: Comparable }, "gte" | "lte">
+        | Only<{ gt: Comparable; lt?: Comparable }, "gt" | "lt">
+        | Only<{ lt: Comparable; gt?: Comparable }, "gt" | "lt">
+        | Only<{ gt: Comparable; lte: Comparable }, "gt" | "lte">
+        | Only<{ gte: Comparable; lt: Comparable }, "gte" | "lt">
         | Only<{ between: readonly [Comparable, Comparable] }, "between">
-        | Only<{ isNull: true }, "isNull">;
+        | Only<{ isNull: true }, "isNull">
+        | Only<{ isNotNull: true }, "isNotNull">
+        | Only<{ matches: string; rank?: boolean }, "matches" | "rank">
+        | Only<{ count: CountFilter; where?: Input }, "count" | "where">;
 
     /** What a condition points at, and how the path is resolved */
     export type Target = {
@@ -98,10 +155,19 @@ export namespace Search {
          * Reaching inside a JSON value needs model information, which `findByFilter` always
          * supplies. See the Search Contract docs for which operators each provider's JSON support
          * covers.
+         *
+         * A to-many segment may carry its own quantifier, which wins over `relation`:
+         *
+         * ```typescript
+         * { field: 'orders[every].lines[some].sku', equals: 'A1' }  // every order has an A1 line
+         * ```
          */
         field: string;
 
-        /** Quantifier for the list relations in the path. Defaults to `'some'`. */
+        /**
+         * Quantifier for the list relations in the path that carry none of their own. Defaults to
+         * `'some'`.
+         */
         relation?: RelationQuantifier;
 
         /**
@@ -196,26 +262,125 @@ export namespace FindByFilterOptions {
         data: T[];
     }
 
+    /**
+     * Keyset pagination: the page after (or before) the row a cursor points at, in `orderBy`
+     * order with the primary key as tie-breaker. Stable while rows are written, and as fast on
+     * the last page as on the first.
+     */
+    export type CursorPaginationOptions = {
+        /** A `nextCursor` or `prevCursor` of a previous page; omit or `null` for the first page */
+        cursor?: string | null;
+        /** How many rows a page holds */
+        limit: number;
+    }
+
+    export type CursorPaginatedResponse<T> = {
+        data: T[];
+        /** Cursor of the page after this one, `null` when there is none */
+        nextCursor: string | null;
+        /** Cursor of the page before this one, `null` on the first page */
+        prevCursor: string | null;
+        /** Whether more rows follow in the direction the cursor walked */
+        hasMore: boolean;
+    }
+
     export type NestedRelations = Array<{ [relation: string]: NestedRelations }> | "*";
 
-    export type OrderByItem = Record<string, 'asc' | 'desc'>;
+    export type SortOrder = 'asc' | 'desc';
+
+    /** A direction, or a direction with the place of NULLs: `{ sort: 'asc', nulls: 'last' }` */
+    export type SortDirection = SortOrder | { sort: SortOrder; nulls?: 'first' | 'last' };
+
+    /**
+     * A field to sort on, or a dotted path through to-one relations (`'author.name'`), and its
+     * direction
+     *
+     * @remarks
+     * Without `nulls` the database decides where NULLs go: first in ascending order on MySQL and
+     * SQLite, last on PostgreSQL. The queries `findByFilter` splits are merged in memory the same
+     * way, after the configured provider. Keyset pagination only sorts on the model's own fields,
+     * without `nulls`.
+     */
+    export type OrderByItem = Record<string, SortDirection>;
     export type OrderBy = OrderByItem | OrderByItem[];
 
-    export type Options = {
+    /** Which rows of an included to-many relation are read, and in which order */
+    export type IncludeFilter = {
+        /** Plain equality filter on the related rows, ANDed with `search` */
+        filter?: Record<string, unknown>;
+        search?: Search.Input;
+        orderBy?: OrderBy;
+        take?: number;
+    };
+
+    /**
+     * A field to select: a scalar field or a whole relation by name, a field of a relation by
+     * dotted path (`posts.title`)
+     */
+    export type SelectPath<TModel = Record<string, unknown>> =
+        | (keyof TModel & string)
+        | `${keyof TModel & string}.${string}`;
+
+    /**
+     * The part of `TModel` a `select` list returns: the top-level fields it names and `id`. The
+     * whole model when nothing is selected.
+     */
+    export type Selected<TModel, TSelect extends string> = [TSelect] extends [never]
+        ? TModel
+        : Pick<TModel, Extract<keyof TModel, (TSelect extends `${infer Head}.${string}` ? Head : TSelect) | 'id'>>;
+
+    export type Options<TSelect extends string = string> = {
         onlyOne?: boolean;
         relationsToInclude?: NestedRelations;
+        /**
+         * Narrows included to-many relations, keyed by relation path (`posts`, `posts.comments`).
+         * Each path must be included through `relationsToInclude`.
+         */
+        includeFilters?: Record<string, IncludeFilter>;
+        /**
+         * Only read these fields, dotted for the fields of a relation. The primary key and the
+         * fields of `orderBy` are always read; relations of `relationsToInclude` are read whole.
+         */
+        select?: readonly TSelect[];
         /** Boolean search tree. See {@link Search.Input}. */
         search?: Search.Input;
-        pagination?: PaginationOptions;
+        /** Offset pagination, or keyset pagination with `{ cursor, limit }` */
+        pagination?: PaginationOptions | CursorPaginationOptions;
         orderBy?: OrderBy;
         parallel?: boolean;
         concurrency?: number;
         rateLimit?: number;
+        /** Also match soft-deleted rows. Only meaningful on a `@SoftDelete()` entity. */
+        withTrashed?: boolean;
+        /** Match soft-deleted rows only. Only meaningful on a `@SoftDelete()` entity. */
+        onlyTrashed?: boolean;
+        /** Named scopes of the entity class to apply. See {@link Scope}. */
+        scopes?: string[];
+        /** Leave the default scope of the entity class out. See {@link Scope}. */
+        unscoped?: boolean;
         /** Explicit transactional client for running inside a transaction */
         tx?: TransactionClient;
+        /**
+         * Return instances of the entity class instead of plain objects, included relations
+         * too. Defaults to the `hydrate` option of `configurePrisma()`.
+         */
+        hydrate?: boolean;
+    };
+
+    /**
+     * Options of `stream()`: those of {@link Options} that apply to a walk over every matching
+     * row, in keyset order
+     */
+    export type StreamOptions<TSelect extends string = string> = Omit<Options<TSelect>, "onlyOne" | "pagination"> & {
+        /** How many rows each query reads (default: 1000) */
+        batchSize?: number;
+        /** Stops the walk before its next query; the iteration throws the signal's reason */
+        signal?: AbortSignal;
+        /** Yield each batch as an array instead of row by row */
+        batches?: boolean;
     };
 
-    export const defaultOptions: Options = {
+    export const defaultOptions: Options<never> = {
         onlyOne: false,
         relationsToInclude: [],
         search: undefined,
@@ -0,0 +1,53 @@
+/**
+ * Serialization contract for entity classes.
+ *
+ * @remarks
+ * `toObject()` and `toJson()` turn an entity into plain data, following the serialization
+ * decorators declared on its properties:
+ *
+ * - `@Hidden()` leaves a property out
+ * - `@Expose({ groups })` only keeps it when one of its groups is asked for
+ * - `@SerializeAs(name)` writes it under another key
+ * - `@Transform(fn)` replaces its value
+ *
+ * Included relations that are entity instances follow the decorators of their own class; an
+ * object met again below itself (a relation pointing back to its parent) is left out.
+ */
+export namespace Serialization {
+    /** What `toObject()` and `toJson()` output */
+    export interface Options {
+        /**
+         * Groups to serialize: properties exposed to a group are only kept when it is listed.
+         * Properties without groups are always kept.
+         */
+        groups?: string[];
+        /**
+         * Convert values JSON cannot carry: `BigInt` and `Decimal` to strings, `Date` to an ISO
+         * string and `Bytes` to base64. Always on for `toJson()`.
+         * @default false
+         */
+        json?: boolean;
+    }
+
+    /**
+     * Replaces the value of a property in the output
+     *
+     * @param value - The value of the property
+     * @param entity - The entity being serialized
+     * @param options - The options `toObject()` / `toJson()` was called with
+     * @returns The value to output
+     */
+    export type Transformer = (value: any, entity: object, options: Options) => unknown;
+
+    /** What the serialization decorators declared on one property */
+    export interface Rule {
+        /** Set by `@Hidden()`, cleared by `@Expose()` */
+        hidden?: boolean;
+        /** The groups `@Expose()` restricts the property to */
+        groups?: string[];
+        /** The key `@SerializeAs()` writes the property under */
+        name?: string;
+        /** The transformer of `@Transform()` */
+        transform?: Transformer;
+    }
+}
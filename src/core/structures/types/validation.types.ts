@@ -0,0 +1,58 @@
+import type { ValidationError } from '../../errors';
+
+/**
+ * Validation contract for entity classes.
+ *
+ * @remarks
+ * Rules are declared with the validation decorators (`@Required()`, `@MaxLength()`, ...) on the
+ * properties of a `BaseEntity` subclass. `validate()` checks an entity against them, and the
+ * writes — `create()`, `update()`, `upsert()`, `createMany()`, `upsertMany()` — refuse data that
+ * breaks one with a `ValidationError` listing every problem.
+ *
+ * Every rule but `required` passes on a `null` / `undefined` value: stack `@Required()` on top to
+ * demand one.
+ */
+export namespace Validation {
+    /**
+     * Custom check of a property value
+     *
+     * @param value - The value of the property
+     * @param values - Every property of the entity or item being validated
+     * @returns Whether the value is valid
+     */
+    export type Predicate = (value: unknown, values: Record<string, unknown>) => boolean;
+
+    /** A check attached to a property by a validation decorator */
+    export interface Rule {
+        /** The rule name reported in issues: `required`, `maxLength`, `min`, ... */
+        rule: string;
+        /** The message reported when the check fails */
+        message: string;
+        /** Whether the rule also runs on a `null` / `undefined` value */
+        checksEmpty?: boolean;
+        test: Predicate;
+    }
+
+    /** One broken rule */
+    export interface Issue {
+        field: string;
+        rule: string;
+        message: string;
+        /** Position of the item in the batch input, for the batch methods */
+        index?: number;
+    }
+
+    /** How the batch methods treat items that break a rule */
+    export interface BatchOptions {
+        /**
+         * Leave invalid items out and write the others, instead of failing the whole call
+         * @default false
+         */
+        skipInvalid?: boolean;
+        /**
+         * Called with a `ValidationError` listing the items left out by `skipInvalid`, when there
+         * are any
+         */
+        onInvalid?: (error: ValidationError) => void | Promise<void>;
+    }
+}
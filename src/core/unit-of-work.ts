@@ -0,0 +1,445 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import BaseEntityHelpers from './base-entity-helpers';
+import { getSnapshot } from './entity-snapshot';
+import ModelUtils from './model-utils';
+import { getVersionField, nextVersion } from './optimistic-lock';
+import {
+    primaryKeyFilter,
+    primaryKeyString,
+    readPrimaryKey,
+    resolvePrimaryKey,
+    type EntityId,
+    type PrimaryKey
+} from './primary-key';
+import {
+    isInTransaction,
+    runTransaction,
+    type TransactionOptions
+} from './transaction-context';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
+
+/**
+ * The part of an entity instance the unit of work relies on.
+ */
+interface TrackedEntity {
+    getChanges(): Record<string, { from: unknown; to: unknown } | undefined>;
+    markClean(): void;
+}
+
+/**
+ * The part of an entity class the unit of work relies on: the batch methods
+ * it flushes through.
+ */
+export interface UnitOfWorkEntityClass<TEntity extends object = object> {
+    new(...args: any[]): TEntity;
+    model?: unknown;
+    getModelInformation(): ModelInfo;
+    findById(id: EntityId, options?: { hydrate?: boolean }): Promise<unknown>;
+    createMany(items: Array<Record<string, unknown>>): Promise<number>;
+    updateManyById(items: Array<Record<string, unknown>>): Promise<number>;
+    deleteByIds(ids: EntityId[]): Promise<number>;
+}
+
+/**
+ * What one flush wrote, per operation.
+ */
+export interface UnitOfWorkResult {
+    created: number;
+    updated: number;
+    deleted: number;
+}
+
+// ---------------------------------------------------------------------------
+// Unit of work
+// ---------------------------------------------------------------------------
+
+/**
+ * Tracks the entities of a `runUnitOfWork()` callback and writes their
+ * changes in one go.
+ *
+ * - Entities read inside the callback are tracked as they are hydrated, one
+ *   instance per primary key: reading a row again returns the instance
+ *   already held, unsaved changes included (identity map).
+ * - `add()` schedules a new entity for insertion, `remove()` a tracked one
+ *   for deletion; tracked entities holding changes are updated.
+ * - `flush()` — run by `runUnitOfWork()` when the callback returns — writes
+ *   all of it in one transaction, model by model in dependency order.
+ */
+export class UnitOfWork {
+    /** Tracked entities, keyed by model and primary key */
+    private readonly identities = new Map<string, object>();
+
+    /** Entities scheduled for insertion, in the order they were added */
+    private readonly added = new Set<object>();
+
+    /** Entities scheduled for deletion */
+    private readonly removed = new Set<object>();
+
+    /**
+     * Tracks an entity read from the database.
+     *
+     * @param entity — An entity holding its primary key
+     * @returns The instance tracked for that key: `entity` the first time,
+     * the instance already held afterwards
+     *
+     * @remarks
+     * An entity without a snapshot is marked clean: its values are taken as
+     * the persisted state. Reads inside the callback attach what they
+     * hydrate, so this is only needed for entities built by hand.
+     */
+    attach<TEntity extends object>(entity: TEntity): TEntity {
+        if (identityKey(entity) === undefined) {
+            throw new Error('Cannot attach an entity without its primary key; use add() for a new entity.');
+        }
+        return this.track(entity);
+    }
+
+    /**
+     * Tracks a hydrated entity, like `attach()`, leaving an entity without
+     * its primary key (e.g. read with a `select` that skips it) untracked.
+     * @internal
+     */
+    track<TEntity extends object>(entity: TEntity): TEntity {
+        const key = identityKey(entity);
+        if (key === undefined) return entity;
+
+        const tracked = this.identities.get(key);
+        if (tracked) return tracked as TEntity;
+
+        if (!getSnapshot(entity)) (entity as unknown as TrackedEntity).markClean();
+        this.identities.set(key, entity);
+        return entity;
+    }
+
+    /**
+     * Returns the tracked instance of an entity class with a primary key,
+     * without reading the database.
+     */
+    get<TEntity extends object>(entityClass: UnitOfWorkEntityClass<TEntity>, id: EntityId): TEntity | undefined {
+        return this.identities.get(keyOf(entityClass, id)) as TEntity | undefined;
+    }
+
+    /**
+     * Returns the tracked instance of an entity class with a primary key,
+     * reading and tracking it when it is not held yet.
+     *
+     * @returns The instance, or `null` when no row has that key
+     */
+    async find<TEntity extends object>(entityClass: UnitOfWorkEntityClass<TEntity>, id: EntityId): Promise<TEntity | null> {
+        const tracked = this.get(entityClass, id);
+        if (tracked) return tracked;
+
+        const found = await entityClass.findById(id, { hydrate: true });
+        return found ? this.attach(found as TEntity) : null;
+    }
+
+    /**
+     * Schedules a new entity for insertion.
+     *
+     * @remarks
+     * The entities of a model are inserted with one `createMany()`, which does
+     * not read the rows back: a key the database generates is not written
+     * into the entity. Give the entity its key, or relate the entities of
+     * other models to it by a unique field, to use it further.
+     */
+    add<TEntity extends object>(entity: TEntity): TEntity {
+        this.removed.delete(entity);
+        this.added.add(entity);
+        return entity;
+    }
+
+    /**
+     * Schedules an entity for deletion. An entity scheduled for insertion is
+     * simply not inserted.
+     */
+    remove(entity: object): void {
+        if (this.added.delete(entity)) return;
+
+        const key = identityKey(entity);
+        if (key === undefined) {
+            throw new Error('Cannot remove an entity without its primary key.');
+        }
+        this.removed.add(this.identities.get(key) ?? entity);
+    }
+
+    /**
+     * Writes the scheduled inserts and deletes and the changes of the tracked
+     * entities, then marks them clean.
+     *
+     * @param options — Options of the transaction, when one is started
+     * @returns How many rows each operation wrote
+     *
+     * @remarks
+     * Runs in one `runTransaction()`, or in the active transaction when there
+     * is one. Models are sorted with `ModelUtils.sortModelsByDependencies()`:
+     * inserts and updates go parents first, deletes children first. Each
+     * model is written with one `createMany()`, `updateManyById()` and
+     * `deleteByIds()`, so the hooks, validation and scoping of the batch
+     * methods apply. Updated `@Version()` entities take the version written,
+     * so a later flush or `update()` matches the row again.
+     */
+    async flush(options?: TransactionOptions): Promise<UnitOfWorkResult> {
+        const inserts = groupByClass(this.added);
+        const deletes = groupByClass(this.removed);
+        const updates = groupByClass(
+            [...this.identities.values()].filter(entity =>
+                !this.added.has(entity) && !this.removed.has(entity) && changedFields(entity).length > 0
+            )
+        );
+
+        const order = dependencyOrder([...inserts.keys(), ...updates.keys(), ...deletes.keys()]);
+        const result: UnitOfWorkResult = { created: 0, updated: 0, deleted: 0 };
+        if (order.length === 0) return result;
+
+        const write = async (): Promise<void> => {
+            for (const entityClass of order) {
+                const entities = inserts.get(entityClass);
+                if (entities) {
+                    result.created += await entityClass.createMany(
+                        entities.map(entity => BaseEntityHelpers.sanitizeKeysRecursive(entity))
+                    );
+                }
+            }
+            for (const entityClass of order) {
+                const entities = updates.get(entityClass);
+                if (entities) {
+                    result.updated += await entityClass.updateManyById(
+                        entities.map(entity => changeSet(entityClass, entity))
+                    );
+                    await advanceVersions(entityClass, entities);
+                }
+            }
+            for (const entityClass of [...order].reverse()) {
+                const entities = deletes.get(entityClass);
+                if (entities) {
+                    const primaryKey = primaryKeyOf(entityClass);
+                    result.deleted += await entityClass.deleteByIds(
+                        entities.map(entity => readPrimaryKey(primaryKey, entity)!)
+                    );
+                }
+            }
+        };
+
+        if (isInTransaction()) {
+            await write();
+        } else {
+            await runTransaction(write, options);
+        }
+
+        for (const entity of this.added) {
+            (entity as TrackedEntity).markClean();
+            if (identityKey(entity) !== undefined) this.attach(entity);
+        }
+        for (const entities of updates.values()) {
+            entities.forEach(entity => (entity as TrackedEntity).markClean());
+        }
+        for (const entity of this.removed) {
+            this.identities.delete(identityKey(entity)!);
+        }
+        this.added.clear();
+        this.removed.clear();
+
+        return result;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// AsyncLocalStorage singleton
+// ---------------------------------------------------------------------------
+
+const unitOfWorkStorage = new AsyncLocalStorage<UnitOfWork>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Executes `fn` with a unit of work, then writes everything it collected in
+ * one transaction.
+ *
+ * Entities read inside the callback are tracked — one instance per primary
+ * key — and reads hydrate unless told `hydrate: false`. Edit them in place,
+ * `add()` new ones and `remove()` the ones to delete: nothing is written
+ * until the callback returns, and then each model takes one batch statement
+ * per operation instead of one round-trip per entity. When the callback
+ * throws, nothing is written.
+ *
+ * @param fn       — Async callback that receives the unit of work
+ * @param options  — Options of the transaction the changes are written in
+ * @returns The value returned by `fn`
+ * @throws Error when a unit of work is already active
+ *
+ * @example
+ * ```typescript
+ * import { runUnitOfWork } from 'prisma-entity-framework';
+ *
+ * await runUnitOfWork(async (uow) => {
+ *     const author = await uow.find(User, 1);
+ *     author!.name = 'Jane';                              // updated on commit
+ *
+ *     const posts = await Post.findByFilter({ authorId: 1 }) as Post[];
+ *     posts.forEach(post => { post.published = true; });  // one updateManyById()
+ *
+ *     uow.add(new Post({ title: 'Hello', authorId: 1 }));  // one createMany()
+ *     uow.remove(posts[0]);                               // one deleteByIds()
+ * });
+ * ```
+ */
+export async function runUnitOfWork<T>(
+    fn: (uow: UnitOfWork) => Promise<T>,
+    options?: TransactionOptions
+): Promise<T> {
+    if (getActiveUnitOfWork() !== null) {
+        throw new Error(
+            'Nested units of work are not supported. ' +
+            'A unit of work is already active in the current async context.'
+        );
+    }
+
+    const uow = new UnitOfWork();
+    const result = await unitOfWorkStorage.run(uow, () => fn(uow));
+    await uow.flush(options);
+    return result;
+}
+
+/**
+ * Returns the unit of work of the current async context, or `null` outside
+ * of a `runUnitOfWork()` callback.
+ */
+export function getActiveUnitOfWork(): UnitOfWork | null {
+    return unitOfWorkStorage.getStore() ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function classOf(entity: object): UnitOfWorkEntityClass {
+    return entity.constructor as UnitOfWorkEntityClass;
+}
+
+function primaryKeyOf(entityClass: UnitOfWorkEntityClass): PrimaryKey {
+    return resolvePrimaryKey(() => entityClass.getModelInformation());
+}
+
+function modelNameOf(entityClass: UnitOfWorkEntityClass): string {
+    const name = (entityClass.model as { name?: unknown } | undefined)?.name;
+    return typeof name === 'string' ? name : entityClass.name;
+}
+
+function keyOf(entityClass: UnitOfWorkEntityClass, id: EntityId): string {
+    return `${modelNameOf(entityClass).toLowerCase()}\u0000${primaryKeyString(primaryKeyOf(entityClass), id)}`;
+}
+
+function identityKey(entity: object): string | undefined {
+    const entityClass = classOf(entity);
+    const id = readPrimaryKey(primaryKeyOf(entityClass), entity);
+    return id === undefined ? undefined : keyOf(entityClass, id);
+}
+
+function groupByClass(entities: Iterable<object>): Map<UnitOfWorkEntityClass, object[]> {
+    const groups = new Map<UnitOfWorkEntityClass, object[]>();
+    for (const entity of entities) {
+        const entityClass = classOf(entity);
+        groups.set(entityClass, [...(groups.get(entityClass) ?? []), entity]);
+    }
+    return groups;
+}
+
+/**
+ * Sorts entity classes so that the models they depend on come first. A
+ * class whose model is not in the runtime data model keeps its place at the
+ * end.
+ */
+function dependencyOrder(classes: UnitOfWorkEntityClass[]): UnitOfWorkEntityClass[] {
+    const byModel = new Map<string, UnitOfWorkEntityClass[]>();
+    const unknown: UnitOfWorkEntityClass[] = [];
+
+    for (const entityClass of new Set(classes)) {
+        let modelName: string | undefined;
+        try {
+            modelName = entityClass.getModelInformation().name;
+        } catch {
+        }
+        if (!modelName) {
+            unknown.push(entityClass);
+            continue;
+        }
+        byModel.set(modelName, [...(byModel.get(modelName) ?? []), entityClass]);
+    }
+
+    const sorted = ModelUtils.sortModelsByDependencies(
+        ModelUtils.getModelDependencyTree([...byModel.keys()])
+    );
+    return [...sorted.flatMap(modelName => byModel.get(modelName) ?? []), ...unknown];
+}
+
+/**
+ * The changed columns of an entity. Included relations are left out: their
+ * entities are tracked, and written, on their own.
+ */
+function changedFields(entity: object): string[] {
+    let relations = new Set<string>();
+    try {
+        relations = new Set(
+            classOf(entity).getModelInformation().fields
+                .filter(field => field.kind === 'object')
+                .map(field => field.name)
+        );
+    } catch {
+    }
+
+    return Object.keys((entity as TrackedEntity).getChanges()).filter(field => !relations.has(field));
+}
+
+/**
+ * Moves the `@Version()` field of updated entities to the version their write stored, so that
+ * the next write matches the row again: one more on a counter the entity knows, or else — for a
+ * timestamp, or a counter it was never given — the value read back in the transaction
+ */
+async function advanceVersions(entityClass: UnitOfWorkEntityClass, entities: object[]): Promise<void> {
+    const versionField = getVersionField(entityClass);
+    if (!versionField) return;
+
+    let fieldType: string | undefined;
+    try {
+        fieldType = entityClass.getModelInformation().fields.find(field => field.name === versionField)?.type;
+    } catch {
+    }
+
+    const primaryKey = primaryKeyOf(entityClass);
+    for (const entity of entities) {
+        const record = entity as Record<string, unknown>;
+        const next = nextVersion(record[versionField], fieldType);
+        if (typeof next === 'number' || typeof next === 'bigint') {
+            record[versionField] = next;
+            continue;
+        }
+
+        const row = await entityClass.findById(readPrimaryKey(primaryKey, entity)!, { hydrate: false });
+        if (row) record[versionField] = (row as Record<string, unknown>)[versionField];
+    }
+}
+
+/**
+ * The item `updateManyById()` writes for a changed entity: its key, the
+ * changed fields, and the version it was loaded at on a `@Version()` entity
+ */
+function changeSet(entityClass: UnitOfWorkEntityClass, entity: object): Record<string, unknown> {
+    const primaryKey = primaryKeyOf(entityClass);
+    const values = BaseEntityHelpers.sanitizeKeysRecursive(entity) as Record<string, unknown>;
+
+    const item: Record<string, unknown> = {
+        ...primaryKeyFilter(primaryKey, readPrimaryKey(primaryKey, entity)!),
+        ...Object.fromEntries(changedFields(entity).map(field => [field, values[field]]))
+    };
+
+    const versionField = getVersionField(entityClass);
+    if (versionField) item[versionField] = values[versionField];
+    return item;
+}
@@ -3,10 +3,13 @@ import { getPrismaInstance } from "./config";
 import { getDatabaseProviderCached, quoteIdentifier, type DatabaseProvider } from "./utils/database-utils";
 import { getOptimalBatchSize, processBatches } from "./utils/batch-utils";
 import { logError, withErrorHandling } from "./utils/error-utils";
+import { log } from "./logger";
 import { isNonEmptyArray } from "./utils/validation-utils";
 import BaseEntityHelpers from "./base-entity-helpers";
 import ModelUtils from "./model-utils";
 import { resolvePrismaForRaw, shouldDisableParallel } from "./utils/transaction-utils";
+import { getPrimaryKey, isCompositeKey, type EntityId } from "./primary-key";
+import { getTenantFieldForModel } from "./multi-tenancy";
 
 type ModelInfo = ReturnType<typeof ModelUtils.getModelInformationCached>;
 
@@ -29,12 +32,19 @@ export interface UpsertMetadata {
     allColumns: UpsertColumnMeta[];
     /** Columns that form the unique constraint used for ON CONFLICT */
     uniqueConflictColumns: UpsertColumnMeta[];
+    /** Primary key columns, returned to identify the written rows; several for a composite key */
+    primaryKeyColumns: UpsertColumnMeta[];
     /** Columns to SET on conflict (excludes id, unique, createdAt) */
     updatableColumns: UpsertColumnMeta[];
     /** Columns used for IS DISTINCT FROM (updatable minus updatedAt) */
     comparableColumns: UpsertColumnMeta[];
     /** Set of JSON/Bytes field names for proper escaping */
     jsonFields: Set<string>;
+    /**
+     * Tenant column of a `@TenantScoped()` model. Never SET on conflict, and a conflicting row
+     * is only updated when it belongs to the tenant of the incoming row.
+     */
+    tenantColumn?: UpsertColumnMeta;
 }
 
 // ---------------------------------------------------------------------------
@@ -60,6 +70,8 @@ export function getUpsertMetadata(modelName: string, modelInfo: ModelInfo): Upse
         throw new Error(`No unique constraints found for model ${modelName}. Cannot perform upsert.`);
     }
     const uniqueFieldNames = new Set(uniqueConstraints[0]);
+    const primaryKey = getPrimaryKey(modelInfo);
+    const keyFieldNames = new Set(primaryKey.fields);
 
     const allColumns: UpsertColumnMeta[] = [];
     const jsonFields = new Set<string>();
@@ -68,8 +80,9 @@ export function getUpsertMetadata(modelName: string, modelInfo: ModelInfo): Upse
         if (field.kind !== 'scalar' && field.kind !== 'enum') continue;
 
         const isUpdatedAt = !!(field as any).isUpdatedAt || UPDATED_AT_NAMES.has(field.name.toLowerCase());
-        const isId = !!(field as any).isId || field.name === 'id';
-        const hasDefault = !!(field as any).hasDefaultValue || isId;
+        const isId = keyFieldNames.has(field.name);
+        // A single key column is assumed generated; the columns of a composite key are given
+        const hasDefault = !!(field as any).hasDefaultValue || (isId && !isCompositeKey(primaryKey));
         const isRequired = (field as any).isRequired !== false;
 
         if (field.type === 'Json' || field.type === 'Bytes') {
@@ -88,9 +101,22 @@ export function getUpsertMetadata(modelName: string, modelInfo: ModelInfo): Upse
     }
 
     const uniqueConflictColumns = allColumns.filter(c => uniqueFieldNames.has(c.prismaName));
+    const primaryKeyColumns = primaryKey.fields.map(name =>
+        allColumns.find(c => c.prismaName === name) ?? {
+            prismaName: name,
+            dbName: name,
+            type: 'Int',
+            isId: true,
+            hasDefault: true,
+            isUpdatedAt: false,
+            isRequired: true,
+        }
+    );
     const isCreatedAt = (name: string) => CREATED_AT_NAMES.has(name.toLowerCase());
+    const tenantField = getTenantFieldForModel(modelName);
+    const tenantColumn = allColumns.find(c => c.prismaName === tenantField);
     const updatableColumns = allColumns.filter(c =>
-        !c.isId && !uniqueFieldNames.has(c.prismaName) && !isCreatedAt(c.prismaName)
+        !c.isId && !uniqueFieldNames.has(c.prismaName) && !isCreatedAt(c.prismaName) && c !== tenantColumn
     );
     const comparableColumns = updatableColumns.filter(c => !c.isUpdatedAt);
 
@@ -98,9 +124,11 @@ export function getUpsertMetadata(modelName: string, modelInfo: ModelInfo): Upse
         tableName,
         allColumns,
         uniqueConflictColumns,
+        primaryKeyColumns,
         updatableColumns,
         comparableColumns,
         jsonFields,
+        tenantColumn,
     };
 
     upsertMetadataCache.set(modelName, meta);
@@ -250,6 +278,14 @@ function getEffectiveColumns(meta: UpsertMetadata, insertCols: UpsertColumnMeta[
     };
 }
 
+/**
+ * The quoted tenant column of a tenant-scoped model, or `null`. Builders only update a
+ * conflicting row when its value there equals the incoming row's.
+ */
+function quotedTenantColumn(meta: UpsertMetadata, prisma: PrismaClient): string | null {
+    return meta.tenantColumn ? q(meta.tenantColumn.dbName, prisma) : null;
+}
+
 // ---------------------------------------------------------------------------
 // PostgreSQL builder
 // ---------------------------------------------------------------------------
@@ -263,8 +299,7 @@ export function buildPostgreSQLUpsert(
     const { updatable, comparable } = getEffectiveColumns(meta, insertCols);
 
     const colList = insertCols.map(c => q(c.dbName, prisma)).join(', ');
-    const idCol = meta.allColumns.find(c => c.isId);
-    const qId = idCol ? q(idCol.dbName, prisma) : q('id', prisma);
+    const qKeys = meta.primaryKeyColumns.map(c => q(c.dbName, prisma)).join(', ');
 
     const valueRows = items.map(item => {
         const vals = insertCols.map(col =>
@@ -282,7 +317,7 @@ export function buildPostgreSQLUpsert(
             `INSERT INTO ${q(meta.tableName, prisma)} (${colList})`,
             `VALUES ${valueRows.join(', ')}`,
             `ON CONFLICT (${conflictCols}) DO NOTHING`,
-            `RETURNING ${qId}, TRUE AS "_was_inserted"`
+            `RETURNING ${qKeys}, TRUE AS "_was_inserted"`
         ].join('\n');
     }
 
@@ -296,14 +331,20 @@ export function buildPostgreSQLUpsert(
         }
     }
 
-    // WHERE clause: only update if at least one comparable column is different
-    let whereClause = '';
+    // WHERE clause: only update a row of the same tenant, and if at least one comparable
+    // column is different
+    const tableName = q(meta.tableName, prisma);
+    const conditions: string[] = [];
+    const tenantCol = quotedTenantColumn(meta, prisma);
+    if (tenantCol) {
+        conditions.push(`${tableName}.${tenantCol} = EXCLUDED.${tenantCol}`);
+    }
     if (comparable.length > 0) {
-        const tableName = q(meta.tableName, prisma);
         const tCols = comparable.map(c => `${tableName}.${q(c.dbName, prisma)}`).join(', ');
         const eCols = comparable.map(c => `EXCLUDED.${q(c.dbName, prisma)}`).join(', ');
-        whereClause = `\nWHERE (${tCols}) IS DISTINCT FROM (${eCols})`;
+        conditions.push(`(${tCols}) IS DISTINCT FROM (${eCols})`);
     }
+    const whereClause = conditions.length > 0 ? `\nWHERE ${conditions.join(' AND ')}` : '';
 
     // RETURNING to distinguish inserts from updates
 
@@ -313,7 +354,7 @@ export function buildPostgreSQLUpsert(
         `ON CONFLICT (${conflictCols}) DO UPDATE SET`,
         setClauses.join(', '),
         whereClause,
-        `RETURNING ${qId}, (xmax = 0) AS "_was_inserted"`
+        `RETURNING ${qKeys}, (xmax = 0) AS "_was_inserted"`
     ].join('\n');
 }
 
@@ -341,6 +382,11 @@ export function buildMySQLUpsert(
     // Build SET clauses — updatedAt IF must come FIRST because MySQL evaluates
     // SET assignments left-to-right. If other columns are SET before the IF,
     // the <=> comparison would see already-updated values (always TRUE).
+    //
+    // MySQL has no WHERE on ON DUPLICATE KEY UPDATE, so on a tenant-scoped model every
+    // assignment keeps the current value of a row belonging to another tenant.
+    const tenantCol = quotedTenantColumn(meta, prisma);
+    const otherTenant = tenantCol ? `NOT (${tenantCol} <=> VALUES(${tenantCol}))` : null;
     const setClauses: string[] = [];
     const updatedAtCol = updatable.find(c => c.isUpdatedAt);
     if (updatedAtCol) {
@@ -349,7 +395,10 @@ export function buildMySQLUpsert(
             const nullSafeChecks = comparable
                 .map(c => `${q(c.dbName, prisma)} <=> VALUES(${q(c.dbName, prisma)})`)
                 .join(' AND ');
-            setClauses.push(`${qCol} = IF(${nullSafeChecks}, ${qCol}, NOW(3))`);
+            const keep = otherTenant ? `${otherTenant} OR (${nullSafeChecks})` : nullSafeChecks;
+            setClauses.push(`${qCol} = IF(${keep}, ${qCol}, NOW(3))`);
+        } else if (otherTenant) {
+            setClauses.push(`${qCol} = IF(${otherTenant}, ${qCol}, NOW(3))`);
         } else {
             setClauses.push(`${qCol} = NOW(3)`);
         }
@@ -357,7 +406,9 @@ export function buildMySQLUpsert(
     for (const col of updatable) {
         if (col.isUpdatedAt) continue;
         const qCol = q(col.dbName, prisma);
-        setClauses.push(`${qCol} = VALUES(${qCol})`);
+        setClauses.push(otherTenant
+            ? `${qCol} = IF(${otherTenant}, ${qCol}, VALUES(${qCol}))`
+            : `${qCol} = VALUES(${qCol})`);
     }
 
     if (setClauses.length === 0) {
@@ -418,16 +469,21 @@ export function buildSQLiteUpsert(
         }
     }
 
-    // WHERE: only update when at least one comparable column differs
+    // WHERE: only update a row of the same tenant, when at least one comparable column differs
     // SQLite uses IS NOT for NULL-safe inequality
-    let whereClause = '';
+    const conditions: string[] = [];
+    const tenantCol = quotedTenantColumn(meta, prisma);
+    if (tenantCol) {
+        conditions.push(`${tenantCol} = excluded.${tenantCol}`);
+    }
     if (comparable.length > 0) {
-        const conditions = comparable.map(c => {
+        const changes = comparable.map(c => {
             const qCol = q(c.dbName, prisma);
             return `${qCol} IS NOT excluded.${qCol}`;
         });
-        whereClause = `\nWHERE ${conditions.join(' OR ')}`;
+        conditions.push(tenantCol ? `(${changes.join(' OR ')})` : changes.join(' OR '));
     }
+    const whereClause = conditions.length > 0 ? `\nWHERE ${conditions.join(' AND ')}` : '';
 
     return [
         `INSERT INTO ${q(meta.tableName, prisma)} (${colList})`,
@@ -475,10 +531,13 @@ export function buildSQLServerUpsert(
         });
 
         let changeDetection = '';
+        if (meta.tenantColumn) {
+            changeDetection += ` AND target.[${meta.tenantColumn.dbName}] = source.[${meta.tenantColumn.dbName}]`;
+        }
         if (comparable.length > 0) {
             const targetCols = comparable.map(c => `target.[${c.dbName}]`).join(', ');
             const sourceCols = comparable.map(c => `source.[${c.dbName}]`).join(', ');
-            changeDetection = ` AND EXISTS (SELECT ${targetCols} EXCEPT SELECT ${sourceCols})`;
+            changeDetection += ` AND EXISTS (SELECT ${targetCols} EXCEPT SELECT ${sourceCols})`;
         }
 
         matchedClause = `WHEN MATCHED${changeDetection} THEN\n  UPDATE SET ${updateSets.join(', ')}`;
@@ -491,8 +550,7 @@ export function buildSQLServerUpsert(
     const notMatchedClause = `WHEN NOT MATCHED THEN\n  INSERT (${notMatchedCols}) VALUES (${notMatchedVals})`;
 
     // OUTPUT
-    const idCol = meta.allColumns.find(c => c.isId);
-    const idName = idCol ? idCol.dbName : 'id';
+    const outputKeys = meta.primaryKeyColumns.map(c => `inserted.[${c.dbName}]`).join(', ');
 
     return [
         `MERGE INTO [${meta.tableName}] AS target`,
@@ -500,7 +558,7 @@ export function buildSQLServerUpsert(
         `ON ${onConditions}`,
         matchedClause,
         notMatchedClause,
-        `OUTPUT $action, inserted.[${idName}];`
+        `OUTPUT $action, ${outputKeys};`
     ].filter(Boolean).join('\n');
 }
 
@@ -545,8 +603,8 @@ export interface UpsertResult {
     created: number;
     updated: number;
     unchanged: number;
-    /** Entity IDs from RETURNING/OUTPUT (PostgreSQL, SQL Server) */
-    returnedIds?: Array<{ id: number | string; wasInserted: boolean }>;
+    /** Entity IDs from RETURNING/OUTPUT (PostgreSQL, SQL Server); key objects for a composite key */
+    returnedIds?: Array<{ id: EntityId; wasInserted: boolean }>;
 }
 
 export interface UpsertDetailedCounts {
@@ -557,9 +615,9 @@ export interface UpsertDetailedCounts {
 }
 
 export interface UpsertDetailedItems {
-    createdIds: Array<number | string>;
-    updatedIds: Array<number | string>;
-    unchangedIds: Array<number | string>;
+    createdIds: Array<EntityId>;
+    updatedIds: Array<EntityId>;
+    unchangedIds: Array<EntityId>;
 }
 
 export interface UpsertDetailedResult {
@@ -611,10 +669,11 @@ function normalizeUpsertCounts(
         updated !== counts.updated ||
         unchanged !== counts.unchanged
     ) {
-        logError(
-            'parseUpsertResults - normalized anomalous counts',
-            new Error('Upsert result counts were normalized to maintain non-negative invariants'),
+        log(
+            'warn',
+            'Upsert result counts were normalized to maintain non-negative invariants',
             {
+                operation: 'parseUpsertResults',
                 provider,
                 totalItems: total,
                 original: counts,
@@ -626,28 +685,55 @@ function normalizeUpsertCounts(
     return { created, updated, unchanged };
 }
 
-function parseJsonIdArray(value: unknown): Array<number | string> {
+function parseJsonIdArray(value: unknown): Array<EntityId> {
     if (typeof value === 'string') {
         const parsed = JSON.parse(value);
-        return Array.isArray(parsed) ? parsed as Array<number | string> : [];
+        return Array.isArray(parsed) ? parsed as Array<EntityId> : [];
     }
 
-    return Array.isArray(value) ? value as Array<number | string> : [];
+    return Array.isArray(value) ? value as Array<EntityId> : [];
 }
 
+/** The key column of models whose metadata is not at hand */
+const DEFAULT_KEY_COLUMNS: Array<Pick<UpsertColumnMeta, 'prismaName' | 'dbName'>> = [
+    { prismaName: 'id', dbName: 'id' }
+];
+
+/**
+ * Reads the primary key of a RETURNING / OUTPUT row: the value of a single key column, or an
+ * object holding every column of a composite key
+ */
+function readReturnedKey(
+    row: Record<string, unknown>,
+    keyColumns: Array<Pick<UpsertColumnMeta, 'prismaName' | 'dbName'>>
+): EntityId {
+    if (keyColumns.length === 1) {
+        return row[keyColumns[0].dbName] as EntityId;
+    }
+    return Object.fromEntries(keyColumns.map(col => [col.prismaName, row[col.dbName]]));
+}
+
+/**
+ * Parses the result of a raw upsert statement into counts and, where the provider returns
+ * rows, the primary keys written
+ *
+ * @param keyColumns - The primary key columns the statement returned (default: `id`); pass
+ * `meta.primaryKeyColumns`
+ */
 export function parseUpsertResults(
     provider: DatabaseProvider,
     rawResult: unknown,
     totalItems: number,
-    existingCount?: number
+    existingCount?: number,
+    keyColumns: Array<Pick<UpsertColumnMeta, 'prismaName' | 'dbName'>> = DEFAULT_KEY_COLUMNS
 ): UpsertResult {
     switch (provider) {
         case 'postgresql': {
-            // $queryRawUnsafe returns array of rows with { id, _was_inserted }
-            const rows = rawResult as Array<{ id: number | string; _was_inserted: boolean }>;
+            // $queryRawUnsafe returns array of rows with the key columns and _was_inserted
+            const rows = rawResult as Array<Record<string, unknown> & { _was_inserted: boolean }>;
             let created = 0;
             let updated = 0;
-            const returnedIds: Array<{ id: number | string; wasInserted: boolean }> = [];
+            const returnedIds: Array<{ id: EntityId; wasInserted: boolean }> = [];
 
             for (const row of rows) {
                 const wasInserted = parseInsertedFlag(row._was_inserted);
@@ -656,7 +742,7 @@ export function parseUpsertResults(
                 } else {
                     updated++;
                 }
-                returnedIds.push({ id: row.id, wasInserted });
+                returnedIds.push({ id: readReturnedKey(row, keyColumns), wasInserted });
             }
 
             const normalized = normalizeUpsertCounts(
@@ -705,20 +791,20 @@ export function parseUpsertResults(
         }
 
         case 'sqlserver': {
-            // $queryRawUnsafe returns array of { $action, id }
-            const rows = rawResult as Array<{ $action: string; id: number | string }>;
+            // $queryRawUnsafe returns array of { $action, ...key columns }
+            const rows = rawResult as Array<Record<string, unknown> & { $action: string }>;
             let created = 0;
             let updated = 0;
-            const returnedIds: Array<{ id: number | string; wasInserted: boolean }> = [];
+            const returnedIds: Array<{ id: EntityId; wasInserted: boolean }> = [];
 
             for (const row of rows) {
                 const action = row.$action || (row as any)['$action'];
                 if (action === 'INSERT') {
                     created++;
-                    returnedIds.push({ id: row.id, wasInserted: true });
+                    returnedIds.push({ id: readReturnedKey(row, keyColumns), wasInserted: true });
                 } else {
                     updated++;
-                    returnedIds.push({ id: row.id, wasInserted: false });
+                    returnedIds.push({ id: readReturnedKey(row, keyColumns), wasInserted: false });
                 }
             }
 
@@ -771,10 +857,20 @@ export async function executeMassivePostgresUpsert(
         return dedupedItems.every(item => item[col.prismaName] !== undefined && item[col.prismaName] !== null);
     });
     const colList = insertCols.map(c => q(c.dbName, prisma)).join(', ');
-    const idCol = meta.allColumns.find(c => c.isId) || { dbName: 'id', prismaName: 'id' };
-    const qId = q(idCol.dbName, prisma);
-
-    const matchConditions = meta.uniqueConflictColumns
+    // The CTEs carry the key columns; a composite key is aggregated as one JSON object per row
+    const keyCols = meta.primaryKeyColumns.map(c => q(c.dbName, prisma));
+    const qKeys = keyCols.join(', ');
+    const tKeys = keyCols.map(col => `t.${col}`).join(', ');
+    const keyJson = keyCols.length === 1
+        ? keyCols[0]
+        : `json_build_object(${meta.primaryKeyColumns.map((c, i) => `'${c.prismaName}', ${keyCols[i]}`).join(', ')})`;
+
+    // A row of another tenant holding the same unique values is not a match: it is neither
+    // updated nor reported, and the insert skips it on conflict
+    const matchColumns = meta.tenantColumn && !meta.uniqueConflictColumns.includes(meta.tenantColumn)
+        ? [...meta.uniqueConflictColumns, meta.tenantColumn]
+        : meta.uniqueConflictColumns;
+    const matchConditions = matchColumns
         .map(c => `t.${q(c.dbName, prisma)} = s.${q(c.dbName, prisma)}`)
         .join(' AND ');
 
@@ -834,41 +930,41 @@ export async function executeMassivePostgresUpsert(
                 superQuery = `
                     WITH
                     unchanged_records AS (
-                        SELECT t.${qId} FROM ${tableName} t INNER JOIN ${tempTableName} s ON ${matchConditions}
+                        SELECT ${tKeys} FROM ${tableName} t INNER JOIN ${tempTableName} s ON ${matchConditions}
                     ),
                     inserted_records AS (
                         INSERT INTO ${tableName} (${colList})
                         SELECT ${colList} FROM ${tempTableName} s
                         WHERE NOT EXISTS (SELECT 1 FROM ${tableName} t WHERE ${matchConditions})
                         ON CONFLICT DO NOTHING
-                        RETURNING ${qId}
+                        RETURNING ${qKeys}
                     )
                     SELECT
-                        (SELECT COALESCE(json_agg(${qId}), '[]'::json) FROM unchanged_records) AS unchanged_ids,
+                        (SELECT COALESCE(json_agg(${keyJson}), '[]'::json) FROM unchanged_records) AS unchanged_ids,
                         '[]'::json AS updated_ids,
-                        (SELECT COALESCE(json_agg(${qId}), '[]'::json) FROM inserted_records) AS inserted_ids;
+                        (SELECT COALESCE(json_agg(${keyJson}), '[]'::json) FROM inserted_records) AS inserted_ids;
                 `;
             } else {
                 superQuery = `
                     WITH
                     unchanged_records AS (
-                        SELECT t.${qId} FROM ${tableName} t INNER JOIN ${tempTableName} s ON ${matchConditions} WHERE NOT (${diffConditions})
+                        SELECT ${tKeys} FROM ${tableName} t INNER JOIN ${tempTableName} s ON ${matchConditions} WHERE NOT (${diffConditions})
                     ),
                     updated_records AS (
                         UPDATE ${tableName} t SET ${setClauses} FROM ${tempTableName} s WHERE ${matchConditions} AND (${diffConditions})
-                        RETURNING t.${qId}
+                        RETURNING ${tKeys}
                     ),
                     inserted_records AS (
                         INSERT INTO ${tableName} (${colList})
                         SELECT ${colList} FROM ${tempTableName} s
                         WHERE NOT EXISTS (SELECT 1 FROM ${tableName} t WHERE ${matchConditions})
                         ON CONFLICT DO NOTHING
-                        RETURNING ${qId}
+                        RETURNING ${qKeys}
                     )
                     SELECT
-                        (SELECT COALESCE(json_agg(${qId}), '[]'::json) FROM unchanged_records) AS unchanged_ids,
-                        (SELECT COALESCE(json_agg(${qId}), '[]'::json) FROM updated_records) AS updated_ids,
-                        (SELECT COALESCE(json_agg(${qId}), '[]'::json) FROM inserted_records) AS inserted_ids;
+                        (SELECT COALESCE(json_agg(${keyJson}), '[]'::json) FROM unchanged_records) AS unchanged_ids,
+                        (SELECT COALESCE(json_agg(${keyJson}), '[]'::json) FROM updated_records) AS updated_ids,
+                        (SELECT COALESCE(json_agg(${keyJson}), '[]'::json) FROM inserted_records) AS inserted_ids;
                 `;
             }
 
@@ -1019,7 +1115,7 @@ export async function executeRawUpsertBatch(
                             rawResult = await prisma.$executeRawUnsafe(sql);
                         }
 
-                        return parseUpsertResults(provider, rawResult, batch.length, existingCount);
+                        return parseUpsertResults(provider, rawResult, batch.length, existingCount, meta.primaryKeyColumns);
                     },
                     "raw upsert batch"
                 );
@@ -1038,7 +1134,7 @@ export async function executeRawUpsertBatch(
     let totalCreated = 0;
     let totalUpdated = 0;
     let totalUnchanged = 0;
-    const allReturnedIds: Array<{ id: number | string; wasInserted: boolean }> = [];
+    const allReturnedIds: Array<{ id: EntityId; wasInserted: boolean }> = [];
 
     for (const batchResult of allBatchResults) {
         totalCreated += batchResult.created;
@@ -1053,7 +1149,7 @@ export async function executeRawUpsertBatch(
         logError(
             "executeRawUpsertBatch",
             new Error(`${allBatchErrors.length} batches failed`),
-            { failedCount: allBatchErrors.length }
+            { model: modelName, provider, failedCount: allBatchErrors.length }
         );
 
         if (allBatchResults.length === 0) {
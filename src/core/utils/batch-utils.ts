@@ -8,6 +8,7 @@
 import { getDatabaseProvider, DatabaseProvider } from './database-utils';
 import { getPrismaInstance } from '../config';
 import { executeInParallel, ParallelOptions } from './parallel-utils';
+import { log } from '../logger';
 
 /**
  * Database-specific batch size configurations
@@ -126,8 +127,11 @@ export function getOptimalBatchSize(
         const dbProvider = provider || getDatabaseProvider(getPrismaInstance());
         return BATCH_SIZE_CONFIG[dbProvider][operation];
     } catch (error) {
-        // Fallback to conservative defaults if detection fails (using console.warn for configuration issues)
-        console.warn('Could not detect database provider, using default batch size');
+        // Fallback to conservative defaults if detection fails
+        log('warn', 'Could not detect database provider, using default batch size', {
+            operation: 'getOptimalBatchSize',
+            error: (error as Error).message
+        });
         return operation === 'transaction' ? 100 : 500;
     }
 }
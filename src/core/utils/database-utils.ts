@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { getPrismaInstance } from '../config';
+import { log } from '../logger';
 
 /**
  * Supported database providers
@@ -120,8 +121,11 @@ export function getDatabaseProvider(prisma?: PrismaClient): DatabaseProvider {
         }
     }
 
-    // Default to sqlite (most common in tests) - using console.warn for configuration issues
-    console.warn('Could not detect database provider, defaulting to sqlite');
+    // Default to sqlite (most common in tests)
+    log('warn', 'Could not detect database provider, defaulting to sqlite', {
+        operation: 'getDatabaseProvider',
+        provider: 'sqlite'
+    });
     return 'sqlite';
 }
 
@@ -159,6 +163,16 @@ export function clearDatabaseProviderCache(): void {
     cachedProvider = null;
 }
 
+/**
+ * Gets the provider detected so far, without detecting it
+ *
+ * @returns The cached provider, or null when nothing has detected it yet
+ * @internal
+ */
+export function peekDatabaseProvider(): DatabaseProvider | null {
+    return cachedProvider;
+}
+
 /**
  * Gets the database dialect configuration for the current provider
  * 
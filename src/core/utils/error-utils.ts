@@ -3,26 +3,29 @@
  * @module error-utils
  */
 
+import { isStrictErrors } from '../config';
+import { log } from '../logger';
+import {
+    BatchPartialFailureError,
+    EntityError,
+    EntityNotFoundError,
+    ForeignKeyError,
+    TransactionConflictError,
+    UniqueConstraintError
+} from '../errors';
+
 /**
- * Logs an error with consistent formatting
- * @param context - The context where the error occurred (e.g., method name, operation)
+ * Logs an error through the configured logger
+ * @param context - The context where the error occurred (e.g., method name, operation), logged as `operation`
  * @param error - The error object
- * @param additionalInfo - Optional additional information to include in the log
+ * @param additionalInfo - Optional structured fields to include in the entry, such as `model`
  */
 export function logError(
     context: string,
     error: Error,
     additionalInfo?: Record<string, any>
 ): void {
-    const errorMessage = error.message;
-
-    // Log to console.error with consistent formatting
-    console.error(`❌ Error in ${context}:`, errorMessage);
-    
-    // Log additional details if provided
-    if (additionalInfo && Object.keys(additionalInfo).length > 0) {
-        console.error('Additional info:', additionalInfo);
-    }
+    log('error', `Error in ${context}`, { operation: context, error: error.message, ...additionalInfo });
 }
 
 /**
@@ -55,6 +58,20 @@ export function isUniqueConstraintError(error: Error): boolean {
     return false;
 }
 
+/**
+ * Checks if an error reports that the record a write targeted does not exist
+ * Detects Prisma's "record to update/delete not found" error (P2025)
+ * @param error - The error to check
+ * @returns True if the error is a record-not-found error
+ */
+export function isRecordNotFoundError(error: Error): boolean {
+    if ((error as { code?: unknown }).code === 'P2025') {
+        return true;
+    }
+
+    return error.message.includes('P2025') || error.message.includes('Record to update not found');
+}
+
 /**
  * Handles unique constraint violations with retry logic
  * Attempts the operation first, and if it fails with a unique constraint error,
@@ -125,3 +142,158 @@ export async function withErrorHandling<T>(
         throw error;
     }
 }
+
+/** Driver error codes, for errors raised by raw SQL (Prisma `P2010`) or reaching us unwrapped */
+const UNIQUE_VIOLATION_CODES = new Set(['23505', '1062', '2627', '2601', 'SQLITE_CONSTRAINT_UNIQUE', 'SQLITE_CONSTRAINT_PRIMARYKEY']);
+const FOREIGN_KEY_VIOLATION_CODES = new Set(['23503', '1451', '1452', '547', 'SQLITE_CONSTRAINT_FOREIGNKEY']);
+const TRANSACTION_CONFLICT_CODES = new Set(['40001', '40P01', '1213', '1205']);
+
+/**
+ * Maps a Prisma or database driver error to the matching typed error
+ *
+ * Recognizes Prisma's P2002 (unique), P2003 (foreign key), P2025 (not found) and P2034
+ * (write conflict / deadlock), and the driver codes and messages raw SQL fails with on
+ * PostgreSQL, MySQL, SQL Server and SQLite.
+ *
+ * @param error - The error thrown by Prisma or the driver
+ * @param modelName - The model the operation targeted
+ * @param where - The criteria of the targeted record, reported by `EntityNotFoundError`
+ * @returns The typed error, with the original as `cause`; the original itself when it is already
+ * typed or not recognized
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await prisma.user.create({ data });
+ * } catch (error) {
+ *   throw toEntityError(error, 'User');   // UniqueConstraintError { fields: ['email'] }
+ * }
+ * ```
+ */
+export function toEntityError(error: unknown, modelName: string, where?: Record<string, unknown>): Error {
+    if (!(error instanceof Error)) return new Error(String(error));
+    if (error instanceof EntityError) return error;
+
+    const { code, meta } = error as { code?: unknown; meta?: Record<string, unknown> };
+    const options = { cause: error };
+
+    switch (code) {
+        case 'P2002':
+            return new UniqueConstraintError(modelName, uniqueFieldsFromTarget(meta?.target, modelName), options);
+        case 'P2003':
+            return new ForeignKeyError(modelName, typeof meta?.field_name === 'string' ? meta.field_name : undefined, options);
+        case 'P2025':
+            return new EntityNotFoundError(modelName, where, options);
+        case 'P2034':
+            return new TransactionConflictError(modelName, options);
+    }
+
+    // Raw queries fail with P2010, carrying the driver's code and message in `meta`
+    const driverCode = String(code === 'P2010' ? meta?.code ?? '' : code ?? (error as { errno?: unknown }).errno ?? '');
+    const message = code === 'P2010' && typeof meta?.message === 'string' ? meta.message : error.message;
+
+    if (UNIQUE_VIOLATION_CODES.has(driverCode) || /UNIQUE constraint failed|duplicate key value|Duplicate entry/i.test(message)) {
+        return new UniqueConstraintError(modelName, uniqueFieldsFromMessage(message, modelName), options);
+    }
+    if (FOREIGN_KEY_VIOLATION_CODES.has(driverCode) || /FOREIGN KEY constraint|violates foreign key/i.test(message)) {
+        return new ForeignKeyError(modelName, undefined, options);
+    }
+    if (TRANSACTION_CONFLICT_CODES.has(driverCode) || /deadlock|could not serialize access/i.test(message)) {
+        return new TransactionConflictError(modelName, options);
+    }
+
+    return error;
+}
+
+/**
+ * Fields of a P2002 `meta.target`: a field list on SQL databases, an index name otherwise
+ * @private
+ */
+function uniqueFieldsFromTarget(target: unknown, modelName: string): string[] {
+    if (Array.isArray(target)) return target.map(String);
+    if (typeof target === 'string') return [fieldsOfConstraintName(target, modelName)];
+    return [];
+}
+
+/**
+ * Fields named in a driver's unique violation message
+ * @private
+ */
+function uniqueFieldsFromMessage(message: string, modelName: string): string[] {
+    // SQLite: UNIQUE constraint failed: User.email, User.name
+    const sqlite = /UNIQUE constraint failed: ([^\n]+)/i.exec(message);
+    if (sqlite) return sqlite[1].split(',').map(column => column.trim().split('.').pop()!);
+
+    // PostgreSQL detail: Key (email, name)=(...) already exists
+    const postgres = /Key \(([^)]+)\)=/.exec(message);
+    if (postgres) return postgres[1].split(',').map(column => column.trim().replace(/"/g, ''));
+
+    // PostgreSQL / SQL Server / MySQL constraint name
+    const constraint = /unique (?:constraint|index) ["']([^"']+)["']|for key ["']([^"']+)["']/i.exec(message);
+    const name = constraint?.[1] ?? constraint?.[2];
+    return name ? [fieldsOfConstraintName(name.split('.').pop()!, modelName)] : [];
+}
+
+/**
+ * Strips Prisma's `Model_` prefix and `_key` suffix from a unique index name
+ * @private
+ */
+function fieldsOfConstraintName(name: string, modelName: string): string {
+    const prefix = `${modelName}_`;
+    const withoutModel = name.toLowerCase().startsWith(prefix.toLowerCase()) ? name.slice(prefix.length) : name;
+    return withoutModel.replace(/_key$/, '');
+}
+
+/**
+ * Handles a failure that entity methods only log by default
+ *
+ * @param context - The context for error logging
+ * @param error - The error caught
+ * @param modelName - The model the operation targeted
+ * @param additionalInfo - Logged with the error
+ * @throws The typed error (see {@link toEntityError}) in strict mode
+ */
+export function logOrThrow(
+    context: string,
+    error: unknown,
+    modelName: string,
+    additionalInfo?: Record<string, any>
+): void {
+    if (isStrictErrors()) {
+        throw toEntityError(error, modelName);
+    }
+    logError(context, error as Error, additionalInfo);
+}
+
+/**
+ * Handles the batches a batch operation could not run, which are only logged by default
+ *
+ * @param operation - The batch method, reported in the error
+ * @param modelName - The model the operation targeted
+ * @param errors - The failed batches, as collected by `processBatches`
+ * @param succeeded - How many records the other batches wrote
+ * @throws BatchPartialFailureError with the typed cause of every failed batch, in strict mode
+ */
+export function reportBatchFailures(
+    operation: string,
+    modelName: string,
+    errors: Array<{ index: number; error: Error }>,
+    succeeded?: number
+): void {
+    if (errors.length === 0) return;
+
+    if (isStrictErrors()) {
+        throw new BatchPartialFailureError(
+            operation,
+            modelName,
+            errors.map(({ index, error }) => ({ batch: index, error: toEntityError(error, modelName) })),
+            succeeded
+        );
+    }
+
+    logError(
+        `${operation} - parallel batches`,
+        new Error(`${errors.length} batches failed`),
+        { model: modelName || undefined, failedCount: errors.length, succeeded }
+    );
+}
@@ -6,6 +6,7 @@
  */
 
 import { getMaxConcurrency, getRateLimiter } from '../config';
+import { log } from '../logger';
 
 /**
  * Options for parallel execution
@@ -442,14 +443,20 @@ export function getOptimalConcurrency(
 export function shouldUseParallel(itemCount: number, poolSize: number): boolean {
     // Too small for parallel benefit
     if (itemCount < 100) {
-        // Using console.warn for operational guidance (not an error condition)
-        console.warn('⚠️ Dataset too small for parallel execution benefit. Using sequential.');
+        // Operational guidance, not an error condition
+        log('debug', 'Dataset too small for parallel execution benefit. Using sequential.', {
+            operation: 'shouldUseParallel',
+            itemCount
+        });
         return false;
     }
 
     // Pool size of 1 means sequential only
     if (poolSize === 1) {
-        console.info('ℹ️ Connection pool size is 1. Using sequential execution.');
+        log('debug', 'Connection pool size is 1. Using sequential execution.', {
+            operation: 'shouldUseParallel',
+            poolSize
+        });
         return false;
     }
 
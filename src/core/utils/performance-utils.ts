@@ -4,6 +4,7 @@
 
 import { getDatabaseProviderCached } from './database-utils';
 import { getPrismaInstance } from '../config';
+import { log } from '../logger';
 
 // Re-export batch size configuration and optimal batch size from batch-utils for backward compatibility
 export { getOptimalBatchSize, BATCH_SIZE_CONFIG } from './batch-utils';
@@ -152,8 +153,13 @@ export async function withRetry<T>(
                 throw lastError;
             }
 
-            // Log retry attempt (using console.warn for operational visibility during retries)
-            console.warn(`⚠️  Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
+            // Log retry attempt for operational visibility during retries
+            log('warn', `Attempt ${attempt + 1} failed, retrying in ${delay}ms`, {
+                operation: 'withRetry',
+                attempt: attempt + 1,
+                delayMs: delay,
+                error: lastError.message
+            });
             await new Promise(resolve => setTimeout(resolve, delay));
             
             delay = Math.min(delay * backoffMultiplier, maxDelayMs);
@@ -233,8 +239,11 @@ export function getOptimalOrBatchSize(
         // Return at least 1, but no more than a reasonable upper limit
         return Math.max(1, Math.min(safeMaxConditions, 10000));
     } catch (error) {
-        // Fallback to conservative default if detection fails (using console.warn for configuration issues)
-        console.warn('Could not detect database provider for OR batch size, using conservative default');
+        // Fallback to conservative default if detection fails
+        log('warn', 'Could not detect database provider for OR batch size, using conservative default', {
+            operation: 'getOptimalOrBatchSize',
+            error: (error as Error).message
+        });
         // Conservative default: assume 2 fields per condition, MySQL-like limit
         return Math.floor((65535 / Math.max(fieldsPerCondition, 1)) * 0.8);
     }
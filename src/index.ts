@@ -17,6 +17,8 @@
  * - getConnectionPoolSize: Get database connection pool size
  * - getMaxConcurrency: Get maximum concurrency for parallel operations
  * - isParallelEnabled: Check if parallel execution is enabled
+ * - isStrictErrors: Check if entity methods throw the failures they otherwise log
+ * - isHydrateByDefault: Check if reads return entity instances unless told otherwise
  */
 export {
     configurePrisma,
@@ -26,6 +28,8 @@ export {
     getConnectionPoolSize,
     getMaxConcurrency,
     isParallelEnabled,
+    isStrictErrors,
+    isHydrateByDefault,
     type PrismaConfig,
     type UpsertManyHooks,
     type UpsertManyHookContext,
@@ -34,6 +38,16 @@ export {
     type UpsertManyResultSummary
 } from './core/config';
 
+/**
+ * Logging
+ *
+ * Destination of the framework's log entries, set with the `logger` / `logLevel` options:
+ * - consoleLogger: The default logger, writing to the console
+ * - Logging: Logger interface, levels and structured fields
+ */
+export { consoleLogger } from './core/logger';
+export type { Logging } from './core/structures/types/logging.types';
+
 /**
  * Transactions
  * 
@@ -50,6 +64,49 @@ export {
     type TransactionOptions
 } from './core/transaction-context';
 
+/**
+ * Unit of Work
+ *
+ * Collect the changes of many entities and write them in one transaction:
+ * - runUnitOfWork: Execute a callback with a unit of work, then flush it
+ * - UnitOfWork: Identity map of the entities read, and the inserts, updates and deletes to flush
+ * - getActiveUnitOfWork: Get the unit of work of the current async context
+ */
+export {
+    runUnitOfWork,
+    getActiveUnitOfWork,
+    UnitOfWork,
+    type UnitOfWorkEntityClass,
+    type UnitOfWorkResult
+} from './core/unit-of-work';
+
+/**
+ * Request Context
+ *
+ * Values that hold for a whole request, read by the entity operations running inside it:
+ * - runWithContext: Execute a callback with a context, e.g. `{ tenantId, actor }`
+ * - getRequestContext: Get the context of the current async context
+ * - getCurrentTenantId: Get the tenant of the current context
+ * - getCurrentActor: Get the actor the audit entries of the current context are attributed to
+ */
+export {
+    runWithContext,
+    getRequestContext,
+    getCurrentTenantId,
+    getCurrentActor,
+    type RequestContext,
+    type TenantId,
+    type Actor
+} from './core/request-context';
+
+/**
+ * Audit Trail
+ *
+ * Where the audit entries of `@Audited()` entities go:
+ * - auditTable: A sink writing the entries to a table, inside the transaction of the write
+ */
+export { auditTable } from './core/audit-trail';
+
 /**
  * Rate Limiter
  * 
@@ -95,9 +152,25 @@ export {
  * 
  * BaseEntity:
  * - Active Record pattern implementation with CRUD operations
- * - Instance methods: create(), update(), delete(), save()
- * - Static methods: findByFilter(), upsert(), getModelInformation()
+ * - Instance methods: create(), update(), delete(), reload()
+ * - Static methods: findByFilter(), findById(), findByIds(), existsByFilter(), upsert(),
+ *   getModelInformation()
  * - Property initialization and change tracking
+ * - Dirty tracking: isDirty(), getChanges(), revert(), markClean()
+ * - Lifecycle hooks: beforeCreate/afterCreate, beforeUpdate/afterUpdate,
+ *   beforeDelete/afterDelete and their static *Many batch counterparts
+ * - Soft delete (with @SoftDelete()): forceDelete(), restore(), withTrashed/onlyTrashed
+ * - Optimistic locking (with @Version()): update() and updateManyById() check the version
+ * - Validation: validate(), run before create/update/upsert and the batch writes
+ * - Hydration: the hydrate option makes reads return instances, relations included, of the
+ *   classes given to registerEntity()
+ * - Primary keys: read from the Prisma model, so `uuid`-style and composite `@@id` keys work;
+ *   a composite key is passed and returned as an object (EntityId)
+ * - Query scopes: static scopes / defaultScope, applied with scoped() and lifted with unscoped()
+ * - Multi-tenancy (with @TenantScoped()): every read and write confined to the tenant of the
+ *   request context
+ * - Audit trail (with @Audited()): every create, update and delete reported to a sink, with
+ *   the actor of the request context and the changed fields
  * 
  * BaseEntityBatch:
  * - Optimized batch operations for high-volume data processing
@@ -112,6 +185,10 @@ export {
  * - Advanced query operations with filtering and pagination
  * - findByFilter(): Complex queries with search, pagination, and relation includes
  * - countByFilter(): Count records matching filter criteria
+ * - aggregateByFilter() / groupByFilter(): Prisma aggregates and groups over matching records
+ * - facetsByFilter(): Counts of matching records per value, bucket or list element of fields
+ * - stream(): Walk every matching record in keyset batches, as an async iterable
+ * - query(): Fluent, immutable query builder over the same operations
  * - deleteByFilter(): Bulk deletion based on filter conditions
  * - Automatic OR batching for large condition sets (>1000 items)
  * - Parallel execution for chunked queries
@@ -122,6 +199,7 @@ export {
  * - deduplicateByUniqueConstraints(): Remove duplicates based on model constraints
  * - pruneUpdatePayload(): Filter out non-updateable fields
  * - buildUpdateQuery(): Generate optimized SQL for batch updates
+ * - buildKeyCondition(): SQL condition matching one row by a composite key
  * - escapeValue(): Database-specific value escaping for SQL injection prevention
  * - JSON field handling with proper escaping
  * 
@@ -130,6 +208,7 @@ export {
  * - getModelInformation(): Retrieve Prisma model metadata
  * - getUniqueConstraints(): Extract unique constraint definitions
  * - getIncludesTree(): Build nested relation includes
+ * - getSelectTree(): Build a field projection from dotted paths
  * - detectRelationType(): Identify explicit vs implicit many-to-many relations
  * - getJoinTableInfo(): Extract join table metadata for many-to-many relations
  * - Comprehensive caching for performance optimization
@@ -143,6 +222,9 @@ export {
  * - Support for both explicit and implicit many-to-many relations
  */
 export { default as BaseEntity } from './core/base-entity';
+export type { EntityChanges, EntityFieldChange } from './core/entity-snapshot';
+export { registerEntity } from './core/entity-hydration';
+export type { EntityId } from './core/primary-key';
 export { default as BaseEntityBatch } from './core/base-entity-batch';
 export { default as BaseEntityQuery } from './core/base-entity-query';
 export { default as BaseEntityHelpers } from './core/base-entity-helpers';
@@ -285,16 +367,18 @@ export {
  * Error Utilities
  * 
  * Error handling and logging:
- * - logError: Consistent error logging with context
+ * - logError: Logs an error through the configured logger
  * - isUniqueConstraintError: Check if error is unique constraint violation
  * - handleUniqueConstraintError: Handle unique constraint errors with retry
  * - withErrorHandling: Wrap operations with error handling and fallback
+ * - toEntityError: Map a Prisma or driver error to the matching typed error
  */
 export {
     logError,
     isUniqueConstraintError,
     handleUniqueConstraintError,
-    withErrorHandling
+    withErrorHandling,
+    toEntityError
 } from './core/utils/error-utils';
 
 /**
@@ -304,7 +388,7 @@ export {
  * - needsOrBatching: Check if OR query needs batching
  * - createOrBatches: Create batches for large OR queries
  * - executeWithOrBatching: Execute query with automatic OR batching
- * - deduplicateResults: Remove duplicate results by ID
+ * - deduplicateResults: Remove duplicate results by primary key
  */
 export {
     needsOrBatching,
@@ -317,10 +401,64 @@ export {
 /**
  * Decorators
  * 
- * Property decorators for entity classes:
+ * Property and class decorators for entity classes:
  * - Property: Mark class properties for automatic initialization and tracking
+ * - SoftDelete: Turn deletes into a timestamp column and hide deleted rows from reads
+ * - Version: Reject writes made from a stale copy of a row (optimistic locking)
+ * - TenantScoped: Confine an entity to the tenant of the request context
+ * - Audited: Record every write of an entity to an audit sink
+ * - Required, MaxLength, Min, Max, Pattern, Email, OneOf, Validate: Validation rules checked
+ *   by validate() and before every create/update/upsert
+ * - Hidden, Expose, SerializeAs, Transform: What toObject() and toJson() output, by
+ *   serialization group
+ */
+export {
+    Property,
+    Required,
+    MaxLength,
+    Min,
+    Max,
+    Pattern,
+    Email,
+    OneOf,
+    Validate
+} from './core/decorators/property.decorator';
+export type { Validation } from './core/structures/types/validation.types';
+export { SoftDelete } from './core/decorators/soft-delete.decorator';
+export { Version } from './core/decorators/version.decorator';
+export { TenantScoped } from './core/decorators/tenant.decorator';
+export { Audited } from './core/decorators/audit.decorator';
+export { Hidden, Expose, SerializeAs, Transform } from './core/decorators/serialization.decorator';
+export type { Serialization } from './core/structures/types/serialization.types';
+
+/**
+ * Errors
+ * 
+ * Error classes thrown by entity operations, all extending EntityError:
+ * - ModelNotConfiguredError: The entity class has no usable Prisma model
+ * - EntityNotFoundError: The targeted record does not exist (P2025)
+ * - UniqueConstraintError: A unique value would be duplicated, with the conflicting fields (P2002)
+ * - ForeignKeyError: A foreign key points nowhere or would be orphaned (P2003)
+ * - TransactionConflictError: Write conflict or deadlock, retry the transaction (P2034)
+ * - BatchPartialFailureError: Some batches of a batch operation failed (strict mode)
+ * - OptimisticLockError: A @Version() entity's row was written by someone else since it was loaded
+ * - ValidationError: Data broke the rules of the validation decorators, with every issue listed
+ * - MissingTenantContextError: A @TenantScoped() entity was used with no tenant in the context
+ * - InvalidCursorError: A pagination cursor is malformed or belongs to another ordering
  */
-export { Property } from './core/decorators/property.decorator';
+export {
+    EntityError,
+    ModelNotConfiguredError,
+    EntityNotFoundError,
+    UniqueConstraintError,
+    ForeignKeyError,
+    TransactionConflictError,
+    BatchPartialFailureError,
+    OptimisticLockError,
+    ValidationError,
+    MissingTenantContextError,
+    InvalidCursorError
+} from './core/errors';
 
 /**
  * Search Utilities
@@ -338,6 +476,17 @@ export { anyOf, allOf } from './core/search-helpers';
 export { default as ConditionUtils } from './core/condition-utils';
 export { default as ObjectUtils } from './core/object-utils';
 
+/**
+ * Query Builder
+ *
+ * Fluent, immutable queries started by `User.query()`:
+ * - EntityQuery: where / search / include / orderBy / paginate, then all, first, count, exists,
+ *   stream, update or delete
+ * - RelationQuery: Narrows an included relation inside `include(relation, q => ...)`
+ */
+export { EntityQuery, RelationQuery } from './core/query-builder';
+export type { Query } from './core/structures/types/query.types';
+
 /**
  * Types
  *
@@ -361,6 +510,11 @@ export { default as ObjectUtils } from './core/object-utils';
  */
 export * from './core/structures/types/search.types';
 export type { Search } from './core/structures/types/search.types';
+export type { Lifecycle } from './core/structures/types/lifecycle.types';
+export type { Scope } from './core/structures/types/scope.types';
+export type { Audit } from './core/structures/types/audit.types';
+export type { Aggregate } from './core/structures/types/aggregate.types';
+export type { Facet } from './core/structures/types/facet.types';
 
 /**
  * Interfaces
@@ -147,7 +147,7 @@ export const mockRuntimeDataModel = {
         { name: 'title', kind: 'scalar', isList: false },
         { name: 'content', kind: 'scalar', isList: false },
         { name: 'published', kind: 'scalar', isList: false },
-        { name: 'author', kind: 'object', isList: false, type: 'User', relationName: 'UserPosts' },
+        { name: 'author', kind: 'object', isList: false, type: 'User', relationName: 'UserPosts', relationFromFields: ['authorId'], relationToFields: ['id'] },
         { name: 'authorId', kind: 'scalar', isList: false },
         { name: 'comments', kind: 'object', isList: true, type: 'Comment', relationName: 'PostComments' },
         { name: 'createdAt', kind: 'scalar', isList: false },
@@ -160,9 +160,9 @@ export const mockRuntimeDataModel = {
       fields: [
         { name: 'id', kind: 'scalar', isList: false },
         { name: 'text', kind: 'scalar', isList: false },
-        { name: 'post', kind: 'object', isList: false, type: 'Post', relationName: 'PostComments' },
+        { name: 'post', kind: 'object', isList: false, type: 'Post', relationName: 'PostComments', relationFromFields: ['postId'], relationToFields: ['id'] },
         { name: 'postId', kind: 'scalar', isList: false },
-        { name: 'author', kind: 'object', isList: false, type: 'User', relationName: 'UserComments' },
+        { name: 'author', kind: 'object', isList: false, type: 'User', relationName: 'UserComments', relationFromFields: ['authorId'], relationToFields: ['id'] },
         { name: 'authorId', kind: 'scalar', isList: false },
         { name: 'createdAt', kind: 'scalar', isList: false },
       ],
@@ -191,26 +191,59 @@ export function createMockModel(data: any[], modelName: string = 'Model') {
         return value.every((condition: Record<string, any>) => matchesWhere(item, condition));
       }
 
+      if (key === 'NOT') {
+        return !matchesWhere(item, value);
+      }
+
       if (value && typeof value === 'object' && 'equals' in value) {
         return item[key] === value.equals;
       }
       if (value && typeof value === 'object' && 'contains' in value) {
         return item[key]?.toLowerCase().includes(value.contains.toLowerCase());
       }
-      if (value && typeof value === 'object' && 'gte' in value) {
-        return item[key] >= value.gte;
-      }
-      if (value && typeof value === 'object' && 'lte' in value) {
-        return item[key] <= value.lte;
+      if (value && typeof value === 'object' && ['gt', 'lt', 'gte', 'lte'].some((bound) => bound in value)) {
+        if (item[key] === null || item[key] === undefined) return false;
+        return (!('gt' in value) || item[key] > value.gt)
+          && (!('lt' in value) || item[key] < value.lt)
+          && (!('gte' in value) || item[key] >= value.gte)
+          && (!('lte' in value) || item[key] <= value.lte);
       }
       if (value && typeof value === 'object' && 'in' in value) {
         return value.in.includes(item[key]);
       }
+      if (value && typeof value === 'object' && 'notIn' in value) {
+        return !value.notIn.includes(item[key]);
+      }
+      if (value && typeof value === 'object' && 'not' in value && value.not === null) {
+        return item[key] !== null && item[key] !== undefined;
+      }
+      if (value === null) {
+        return item[key] === null || item[key] === undefined;
+      }
 
       return item[key] === value;
     });
   };
 
+  const aggregateRows = (rows: Record<string, any>[], args: any): Record<string, any> => {
+    const result: Record<string, any> = {};
+    const values = (field: string) => rows.map((row) => row[field]).filter((value) => value !== null && value !== undefined);
+    const perField = (selection: Record<string, true> | undefined, compute: (values: any[]) => any) =>
+      selection && Object.fromEntries(Object.keys(selection).map((field) => [field, compute(values(field))]));
+
+    if (args._count === true) result._count = rows.length;
+    else if (args._count) {
+      result._count = Object.fromEntries(Object.keys(args._count).map((field) =>
+        [field, field === '_all' ? rows.length : values(field).length]));
+    }
+    if (args._sum) result._sum = perField(args._sum, (list) => list.length ? list.reduce((a, b) => a + b, 0) : null);
+    if (args._avg) result._avg = perField(args._avg, (list) => list.length ? list.reduce((a, b) => a + b, 0) / list.length : null);
+    if (args._min) result._min = perField(args._min, (list) => list.length ? list.reduce((a, b) => (b < a ? b : a)) : null);
+    if (args._max) result._max = perField(args._max, (list) => list.length ? list.reduce((a, b) => (b > a ? b : a)) : null);
+
+    return result;
+  };
+
   const mockModel: EntityPrismaModel<any> & { _reset: () => void } = {
     name: modelName,
 
@@ -221,6 +254,22 @@ export function createMockModel(data: any[], modelName: string = 'Model') {
         result = result.filter((item) => matchesWhere(item, args.where));
       }
 
+      if (args?.orderBy) {
+        const orderBy: Record<string, 'asc' | 'desc'>[] = Array.isArray(args.orderBy) ? args.orderBy : [args.orderBy];
+        result.sort((a, b) => {
+          for (const item of orderBy) {
+            const [[field, direction]] = Object.entries(item);
+            if (a[field] === b[field]) continue;
+            // NULLs sort below every value, as on SQLite
+            const ascending = a[field] === null || a[field] === undefined ? -1
+              : b[field] === null || b[field] === undefined ? 1
+              : a[field] > b[field] ? 1 : -1;
+            return direction === 'asc' ? ascending : -ascending;
+          }
+          return 0;
+        });
+      }
+
       if (args?.skip) {
         result = result.slice(args.skip);
       }
@@ -229,18 +278,6 @@ export function createMockModel(data: any[], modelName: string = 'Model') {
         result = result.slice(0, args.take);
       }
 
-      if (args?.orderBy) {
-        const [[field, direction]] = Object.entries(args.orderBy);
-        result.sort((a, b) => {
-          const aVal = a[field];
-          const bVal = b[field];
-          if (direction === 'asc') {
-            return aVal > bVal ? 1 : -1;
-          }
-          return aVal < bVal ? 1 : -1;
-        });
-      }
-
       return result;
     }),
 
@@ -264,16 +301,7 @@ export function createMockModel(data: any[], modelName: string = 'Model') {
     count: jest.fn().mockImplementation(async (args?: any) => {
       if (!args?.where) return dataset.length;
 
-      const filtered = dataset.filter((item) => {
-        return Object.entries(args.where).every(([key, value]: [string, any]) => {
-          if (value && typeof value === 'object' && 'equals' in value) {
-            return item[key] === value.equals;
-          }
-          return item[key] === value;
-        });
-      });
-
-      return filtered.length;
+      return dataset.filter((item) => matchesWhere(item, args.where)).length;
     }),
 
     create: jest.fn().mockImplementation(async (args: any) => {
@@ -386,6 +414,26 @@ export function createMockModel(data: any[], modelName: string = 'Model') {
       return { count: initialLength - dataset.length };
     }),
 
+    aggregate: jest.fn().mockImplementation(async (args: any) => {
+      const rows = args?.where ? dataset.filter((item) => matchesWhere(item, args.where)) : dataset;
+      return aggregateRows(rows, args);
+    }),
+
+    // Groups in order of first appearance; having and orderBy are left to the tests
+    groupBy: jest.fn().mockImplementation(async (args: any) => {
+      const rows = args?.where ? dataset.filter((item) => matchesWhere(item, args.where)) : dataset;
+      const groups = new Map<string, Record<string, any>[]>();
+      for (const row of rows) {
+        const key = JSON.stringify(args.by.map((field: string) => row[field]));
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+
+      return [...groups.values()].map((members) => ({
+        ...Object.fromEntries(args.by.map((field: string) => [field, members[0][field]])),
+        ...aggregateRows(members, args)
+      }));
+    }),
+
     // Reset mock data
     _reset: () => {
       dataset = [...data];
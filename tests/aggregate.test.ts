@@ -0,0 +1,155 @@
+/**
+ * Test suite for aggregateByFilter and groupByFilter
+ * Tests the Prisma arguments they build, and how the aggregates of a search split in chunks are
+ * merged, filtered, sorted and paged
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+/** Ids 1, 2 and 3 with enough others to split the list: user 1 in the first chunk, 2 and 3 in the second */
+const splitIds = [1, ...Array.from({ length: 9999 }, (_, i) => i + 1000), 2, 3];
+
+describe('Aggregates', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('aggregateByFilter', () => {
+    it('should compute the aggregates of the matching rows', async () => {
+      const result = await User.aggregateByFilter({ isActive: true }, {
+        _count: true,
+        _sum: { age: true },
+        _avg: { age: true },
+        _min: { age: true },
+        _max: { age: true }
+      });
+
+      expect(result).toEqual({ _count: 2, _sum: { age: 55 }, _avg: { age: 27.5 }, _min: { age: 25 }, _max: { age: 30 } });
+      expect(mockPrismaClient.user.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+        where: { isActive: { equals: true } }
+      }));
+    });
+
+    it('should narrow the rows by the search', async () => {
+      const result = await User.aggregateByFilter({}, {
+        search: { field: 'age', gte: 30 },
+        _count: { _all: true }
+      });
+
+      expect(result).toEqual({ _count: { _all: 2 } });
+    });
+
+    it('should merge the aggregates of a split list', async () => {
+      const result = await User.aggregateByFilter({}, {
+        search: { field: 'id', in: splitIds },
+        _count: { _all: true, age: true },
+        _sum: { age: true },
+        _avg: { age: true },
+        _min: { age: true },
+        _max: { age: true }
+      });
+
+      expect(mockPrismaClient.user.aggregate).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({
+        _count: { _all: 3, age: 3 },
+        _sum: { age: 90 },
+        _avg: { age: 30 },
+        _min: { age: 25 },
+        _max: { age: 35 }
+      });
+    });
+
+    it('should refuse to average a split list without the count of the field', async () => {
+      await expect(User.aggregateByFilter({}, {
+        search: { field: 'id', in: splitIds },
+        _avg: { age: true }
+      })).rejects.toThrow('Cannot average "age" over a search split in several queries without its count: add _count: { age: true }.');
+      expect(mockPrismaClient.user.aggregate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('groupByFilter', () => {
+    it('should group the matching rows', async () => {
+      const groups = await User.groupByFilter({}, {
+        by: ['isActive'],
+        _count: { _all: true },
+        _avg: { age: true }
+      });
+
+      expect(groups).toEqual([
+        { isActive: true, _count: { _all: 2 }, _avg: { age: 27.5 } },
+        { isActive: false, _count: { _all: 1 }, _avg: { age: 35 } }
+      ]);
+    });
+
+    it('should hand having, order and page to Prisma, sorting on the by fields by default', async () => {
+      await User.groupByFilter({}, {
+        by: ['isActive'],
+        _count: true,
+        having: { age: { _avg: { gt: 20 } } },
+        pagination: { skip: 1, take: 1 }
+      });
+
+      expect(mockPrismaClient.user.groupBy).toHaveBeenCalledWith({
+        by: ['isActive'],
+        where: {},
+        _count: true,
+        having: { age: { _avg: { gt: 20 } } },
+        orderBy: [{ isActive: 'asc' }],
+        skip: 1,
+        take: 1
+      });
+    });
+
+    it('should merge, filter, sort and page the groups of a split list', async () => {
+      const groups = await User.groupByFilter({}, {
+        search: { field: 'id', in: splitIds },
+        by: ['isActive'],
+        _count: { _all: true, age: true },
+        _avg: { age: true },
+        having: { age: { _avg: { lt: 35 } } },
+        orderBy: { _count: { _all: 'desc' } },
+        pagination: { take: 5 }
+      });
+
+      expect(mockPrismaClient.user.groupBy).toHaveBeenCalledTimes(2);
+      expect(groups).toEqual([{ isActive: true, _count: { _all: 2, age: 2 }, _avg: { age: 27.5 } }]);
+    });
+
+    it('should refuse a having on an aggregate a split list did not select', async () => {
+      await expect(User.groupByFilter({}, {
+        search: { field: 'id', in: splitIds },
+        by: ['isActive'],
+        _count: true,
+        having: { age: { _max: { gt: 30 } } }
+      })).rejects.toThrow('Cannot filter groups on _max of "age" over a search split in several queries unless it is selected.');
+    });
+  });
+});
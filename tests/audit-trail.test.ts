@@ -0,0 +1,336 @@
+/**
+ * Test suite for the audit trail
+ * Tests @Audited() entities: the entries of instance, batch and filtered writes, the previous
+ * values they are diffed against, the actor of the request context, and the auditTable() sink
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityBatch from '../src/core/base-entity-batch';
+import { auditTable } from '../src/core/audit-trail';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Audited } from '../src/core/decorators/audit.decorator';
+import { Version } from '../src/core/decorators/version.decorator';
+import { OptimisticLockError } from '../src/core/errors';
+import { Property } from '../src/core/decorators/property.decorator';
+import ModelUtils from '../src/core/model-utils';
+import { getCurrentActor, runWithContext } from '../src/core/request-context';
+import { runTransaction } from '../src/core/transaction-context';
+import type { Audit } from '../src/core/structures/types/audit.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+}
+
+@Audited({ ignore: ['age'] })
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+}
+
+@Audited()
+@Version()
+class Account extends BaseEntity<IUser & { version?: number }> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare version?: number;
+}
+
+class Plain extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+}
+
+const sink = jest.fn<Audit.Sink>();
+
+function entriesOf(call = 0): Audit.Entry[] {
+  return sink.mock.calls[call][0];
+}
+
+describe('Audit trail', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any, { auditSink: sink });
+    mockPrismaClient._reset();
+    sink.mockReset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('configuration', () => {
+    it('should reject a sink that is not a function', () => {
+      expect(() => configurePrisma(mockPrismaClient as any, { auditSink: 'audit' as any })).toThrow(
+        'auditSink must be a function'
+      );
+    });
+
+    it('should neither record nor read back without a sink', async () => {
+      resetPrismaConfiguration();
+      configurePrisma(mockPrismaClient as any);
+
+      await new User({ id: 1, name: 'Jane', email: 'john@example.com' }).update();
+      await new Plain({ id: 1, name: 'Jane' }).update();
+
+      expect(mockPrismaClient.user.findFirst).not.toHaveBeenCalled();
+      expect(sink).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the sink of the decorator', async () => {
+      const own = jest.fn<Audit.Sink>();
+
+      @Audited({ sink: own })
+      class Account extends BaseEntity<IUser> {
+        static override readonly model = mockPrismaClient.user;
+
+        @Property() declare name: string;
+      }
+
+      await new Account({ name: 'Jane' }).create();
+
+      expect(own).toHaveBeenCalledTimes(1);
+      expect(sink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('instance writes', () => {
+    it('should record a create with the actor of the context', async () => {
+      await runWithContext({ actor: 'admin' }, async () => {
+        expect(getCurrentActor()).toBe('admin');
+        await new User({ name: 'Ann', email: 'ann@example.com', age: 40 }).create();
+      });
+
+      expect(entriesOf()).toEqual([{
+        modelName: 'user',
+        entityId: 4,
+        operation: 'create',
+        actor: 'admin',
+        changes: {
+          name: { from: undefined, to: 'Ann' },
+          email: { from: undefined, to: 'ann@example.com' }
+        },
+        timestamp: expect.any(Date)
+      }]);
+    });
+
+    it('should diff an update against the loaded state', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+      user.markClean();
+      user.name = 'John';
+
+      await user.update();
+      await user.update();
+
+      expect(mockPrismaClient.user.findFirst).not.toHaveBeenCalled();
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(entriesOf()[0]).toMatchObject({
+        entityId: 1,
+        operation: 'update',
+        changes: { name: { from: 'John Doe', to: 'John' } }
+      });
+    });
+
+    it('should read the row before updating an untracked entity', async () => {
+      await new User({ id: 1, name: 'John', email: 'john@example.com' }).update();
+
+      expect(mockPrismaClient.user.findFirst).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(entriesOf()[0].changes).toEqual({ name: { from: 'John Doe', to: 'John' } });
+    });
+
+    it('should record the values a delete removes', async () => {
+      const user = new User({ id: 2, name: 'Jane Smith', email: 'jane@example.com' });
+
+      await runWithContext({ actor: 7 }, () => user.delete());
+
+      expect(entriesOf()[0]).toMatchObject({
+        entityId: 2,
+        operation: 'delete',
+        actor: 7,
+        changes: {
+          name: { from: 'Jane Smith', to: undefined },
+          email: { from: 'jane@example.com', to: undefined }
+        }
+      });
+    });
+  });
+
+  describe('batch writes', () => {
+    it('should record the rows updateManyById() changes', async () => {
+      jest.spyOn(BaseEntityBatch, 'updateManyById').mockResolvedValueOnce(2);
+
+      await User.updateManyById([
+        { id: 1, name: 'John' },
+        { id: 2, name: 'Jane Smith' }
+      ]);
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } } });
+      expect(entriesOf()).toEqual([
+        expect.objectContaining({ entityId: 1, operation: 'update', changes: { name: { from: 'John Doe', to: 'John' } } })
+      ]);
+    });
+
+    it('should record the rows deleteByIds() removes', async () => {
+      await User.deleteByIds([1, 2]);
+
+      expect(entriesOf().map(entry => [entry.operation, entry.entityId])).toEqual([
+        ['delete', 1],
+        ['delete', 2]
+      ]);
+    });
+
+    it('should record created and updated rows of upsertMany(), once', async () => {
+      jest.spyOn(ModelUtils, 'getUniqueConstraints').mockReturnValue([['email']]);
+      const findMany = jest.spyOn(mockPrismaClient.user, 'findMany')
+        .mockResolvedValueOnce([{ id: 1, name: 'John Doe', email: 'john@example.com' }])
+        .mockResolvedValueOnce([
+          { id: 1, name: 'John', email: 'john@example.com' },
+          { id: 9, name: 'Zoe', email: 'zoe@example.com' }
+        ]);
+      jest.spyOn(BaseEntityBatch, 'upsertMany').mockResolvedValueOnce({
+        counts: { created: 1, updated: 1, unchanged: 0, total: 2 },
+        items: { createdIds: [9], updatedIds: [1], unchangedIds: [] }
+      });
+
+      await User.upsertMany([
+        { name: 'John', email: 'john@example.com' },
+        { name: 'Zoe', email: 'zoe@example.com' }
+      ]);
+
+      expect(findMany.mock.calls[0][0]).toEqual({
+        where: { OR: [{ email: 'john@example.com' }, { email: 'zoe@example.com' }] }
+      });
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(entriesOf()).toEqual([
+        expect.objectContaining({ entityId: 9, operation: 'create' }),
+        expect.objectContaining({ entityId: 1, operation: 'update', changes: { name: { from: 'John Doe', to: 'John' } } })
+      ]);
+    });
+
+    it('should record the items of createMany()', async () => {
+      jest.spyOn(BaseEntityBatch, 'createMany').mockResolvedValueOnce(1);
+
+      await User.createMany([{ name: 'Ann', email: 'ann@example.com' }]);
+
+      expect(entriesOf()).toEqual([
+        expect.objectContaining({ operation: 'create', changes: expect.objectContaining({ name: { from: undefined, to: 'Ann' } }) })
+      ]);
+      expect(entriesOf()[0].entityId).toBeUndefined();
+    });
+  });
+
+  describe('filtered writes', () => {
+    it('should record each row updateByFilter() and deleteByFilter() match', async () => {
+      await User.updateByFilter({ name: 'John Doe' }, { name: 'John' });
+      await User.deleteByFilter({ email: 'jane@example.com' });
+
+      expect(entriesOf(0)).toEqual([
+        expect.objectContaining({ entityId: 1, operation: 'update', changes: { name: { from: 'John Doe', to: 'John' } } })
+      ]);
+      expect(entriesOf(1)).toEqual([expect.objectContaining({ entityId: 2, operation: 'delete' })]);
+    });
+
+    it('should read the rows a filtered write matches in bounded batches', async () => {
+      await User.updateByFilter({}, { name: 'Anonymous' });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        take: expect.any(Number),
+        orderBy: [{ id: 'asc' }]
+      }));
+      expect(entriesOf().map(entry => entry.entityId)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should write and record in one transaction the caller did not open', async () => {
+      await User.updateByFilter({ name: 'John Doe' }, { name: 'John' });
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(sink).toHaveBeenCalledWith(expect.any(Array), { tx: mockPrismaClient });
+    });
+
+    it('should join the transaction the write already runs in', async () => {
+      await runTransaction(() => User.deleteByFilter({ email: 'jane@example.com' }));
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(entriesOf()).toEqual([expect.objectContaining({ entityId: 2, operation: 'delete' })]);
+    });
+
+    it('should not open one without a sink', async () => {
+      await Plain.updateByFilter({ name: 'John Doe' }, { name: 'John' });
+
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail the write with the sink', async () => {
+      sink.mockImplementationOnce(async () => { throw new Error('audit log down'); });
+
+      await expect(User.deleteByFilter({ email: 'jane@example.com' })).rejects.toThrow('audit log down');
+      expect(mockPrismaClient.user.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should record the rows of a filtered write before it writes them', async () => {
+      await User.updateByFilter({ name: 'John Doe' }, { name: 'John' });
+
+      expect(sink.mock.invocationCallOrder[0]).toBeLessThan(mockPrismaClient.user.updateMany.mock.invocationCallOrder[0]);
+    });
+
+    it('should read the rows of a ranked search without its rank', async () => {
+      configurePrisma({ ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: 'postgresql' }] } } as any, { auditSink: sink });
+
+      await expect(User.deleteByFilter({}, { search: { field: 'name', matches: 'john', rank: true } })).resolves.toBeDefined();
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { name: { search: 'john' } } }));
+    });
+
+    it('should commit the rows that matched before a version conflict', async () => {
+      await expect(Account.updateManyById([
+        { id: 1, name: 'John' },
+        { id: 2, name: 'Janet', version: 7 }
+      ])).rejects.toThrow(OptimisticLockError);
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(entriesOf()).toEqual([expect.objectContaining({ entityId: 1, operation: 'update' })]);
+    });
+  });
+
+  describe('auditTable()', () => {
+    it('should write the entries through the client of the write', async () => {
+      const createMany = jest.fn<(args: any) => Promise<{ count: number }>>().mockResolvedValue({ count: 1 });
+      const tx = { auditLog: { createMany } } as any;
+      const timestamp = new Date('2026-01-01T00:00:00Z');
+
+      await auditTable()([{
+        modelName: 'user',
+        entityId: 1,
+        operation: 'update',
+        actor: 42,
+        changes: { age: { from: 30n, to: 31n } },
+        timestamp
+      }], { tx });
+
+      expect(createMany).toHaveBeenCalledWith({
+        data: [{
+          model: 'user',
+          entityId: '1',
+          operation: 'update',
+          actor: '42',
+          changes: { age: { from: '30', to: '31' } },
+          createdAt: timestamp
+        }]
+      });
+    });
+
+    it('should throw when the client has no such model', async () => {
+      await expect(auditTable('history')([], {})).rejects.toThrow('Audit table "history" is not a model');
+    });
+  });
+});
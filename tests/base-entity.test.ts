@@ -398,6 +398,51 @@ describe('BaseEntity', () => {
         })
       );
     });
+
+    /**
+     * Test: a select list replaces the include, and always reads the key and the sorted fields
+     */
+    it('should select the listed fields, the id and the orderBy fields', async () => {
+      const findManySpy = jest.spyOn(mockPrismaClient.user, 'findMany');
+
+      await User.findByFilter({}, { select: ['name', 'email'], orderBy: { age: 'desc' } });
+
+      const args = findManySpy.mock.calls[0][0] as Record<string, unknown>;
+      expect(args.select).toEqual({ id: true, age: true, name: true, email: true });
+      expect(args).not.toHaveProperty('include');
+    });
+
+    /**
+     * Test: relations to include are loaded whole inside the select
+     */
+    it('should load relations to include inside the select', async () => {
+      const findManySpy = jest.spyOn(mockPrismaClient.user, 'findMany');
+
+      await User.findByFilter({}, { select: ['email'], relationsToInclude: [{ comments: [] }] });
+
+      expect((findManySpy.mock.calls[0][0] as Record<string, unknown>).select).toEqual({
+        id: true,
+        email: true,
+        comments: true
+      });
+    });
+
+    /**
+     * Test: the OR-batched path selects too, keeping the id it deduplicates by
+     */
+    it('should select on the OR-batched path', async () => {
+      const findManySpy = jest.spyOn(mockPrismaClient.user, 'findMany');
+
+      await User.findByFilter({}, {
+        select: ['name'],
+        search: { or: [{ field: 'name', equals: 'John' }, { field: 'name', equals: 'Jane' }] }
+      });
+
+      expect(findManySpy).toHaveBeenCalledWith({
+        where: { OR: [{ name: { equals: 'John' } }, { name: { equals: 'Jane' } }] },
+        select: { id: true, name: true }
+      });
+    });
   });
 
   describe('countByFilter', () => {
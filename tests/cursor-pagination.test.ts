@@ -0,0 +1,252 @@
+/**
+ * Test suite for keyset pagination
+ * Tests findByFilter() with pagination: { cursor, limit }: the pages and cursors in both
+ * directions, the primary key tie-breaker, NULLs of nullable sort fields, and the search,
+ * OR-batched and chunked paths
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { planKeyset } from '../src/core/cursor-pagination';
+import { InvalidCursorError } from '../src/core/errors';
+import { Property } from '../src/core/decorators/property.decorator';
+import { FindByFilterOptions } from '../src/core/structures/types/search.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+  createdAt?: Date;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+type Page = FindByFilterOptions.CursorPaginatedResponse<IUser>;
+
+async function page(options: FindByFilterOptions.Options<never>): Promise<Page> {
+  return await User.findByFilter({}, options) as Page;
+}
+
+function ids(result: Page): number[] {
+  return result.data.map(user => user.id!);
+}
+
+/** Every page of an order, walked to the end with nextCursor and back to the start with prevCursor */
+async function walk(orderBy: FindByFilterOptions.OrderBy): Promise<{ forward: number[]; backward: number[] }> {
+  let result = await page({ orderBy, pagination: { limit: 2 } });
+  const forward = ids(result);
+  while (result.nextCursor) {
+    result = await page({ orderBy, pagination: { cursor: result.nextCursor, limit: 2 } });
+    forward.push(...ids(result));
+  }
+
+  const backward = ids(result);
+  while (result.prevCursor) {
+    result = await page({ orderBy, pagination: { cursor: result.prevCursor, limit: 2 } });
+    backward.unshift(...ids(result));
+  }
+  return { forward, backward };
+}
+
+describe('Cursor pagination', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('pages', () => {
+    it('should read one row more than the page, in orderBy order then by key', async () => {
+      const first = await page({ orderBy: { age: 'asc' }, pagination: { limit: 2 } });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {},
+        take: 3,
+        orderBy: [{ age: 'asc' }, { id: 'asc' }]
+      }));
+      expect(ids(first)).toEqual([2, 1]);
+      expect(first.hasMore).toBe(true);
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(first.prevCursor).toBeNull();
+    });
+
+    it('should walk forward and back with the cursors', async () => {
+      const orderBy = { age: 'asc' } as const;
+      const first = await page({ orderBy, pagination: { limit: 2 } });
+      const second = await page({ orderBy, pagination: { cursor: first.nextCursor, limit: 2 } });
+
+      expect(ids(second)).toEqual([3]);
+      expect(second.hasMore).toBe(false);
+      expect(second.nextCursor).toBeNull();
+
+      const back = await page({ orderBy, pagination: { cursor: second.prevCursor, limit: 2 } });
+
+      expect(ids(back)).toEqual([2, 1]);
+      expect(back.hasMore).toBe(false);
+      expect(back.prevCursor).toBeNull();
+      expect(back.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should break ties on the primary key', async () => {
+      const orderBy = { isActive: 'desc' } as const;
+      const seen: number[] = [];
+
+      let cursor: string | null = null;
+      do {
+        const result: Page = await page({ orderBy, pagination: { cursor, limit: 1 } });
+        seen.push(...ids(result));
+        cursor = result.nextCursor;
+      } while (cursor);
+
+      expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it('should keep dates in the cursor', async () => {
+      const orderBy = { createdAt: 'desc' } as const;
+      const first = await page({ orderBy, pagination: { limit: 2 } });
+      const second = await page({ orderBy, pagination: { cursor: first.nextCursor, limit: 2 } });
+
+      expect(ids(first)).toEqual([3, 2]);
+      expect(ids(second)).toEqual([1]);
+      expect(mockPrismaClient.user.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: {
+          OR: [
+            { createdAt: { lt: new Date('2024-01-02') } },
+            { createdAt: new Date('2024-01-02'), id: { gt: 2 } }
+          ]
+        }
+      }));
+    });
+
+    it('should return the first row of the page with onlyOne', async () => {
+      const user = await User.findByFilter({}, { onlyOne: true, orderBy: { age: 'desc' }, pagination: { limit: 2 } });
+
+      expect(user).toMatchObject({ id: 3 });
+    });
+  });
+
+  describe('query paths', () => {
+    it('should page the rows of a search tree', async () => {
+      const search = { field: 'age', gte: 26 };
+      const first = await page({ search, pagination: { limit: 1 } });
+      const second = await page({ search, pagination: { cursor: first.nextCursor, limit: 1 } });
+
+      expect(ids(first)).toEqual([1]);
+      expect(ids(second)).toEqual([3]);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('should add the cursor to each condition of the OR-batched path', async () => {
+      const search = {
+        or: [
+          { field: 'name', equals: 'John Doe' },
+          { field: 'email', equals: 'bob@example.com' },
+          { field: 'email', equals: 'jane@example.com' }
+        ]
+      };
+      const first = await page({ search, orderBy: { age: 'desc' }, pagination: { limit: 2 } });
+      const second = await page({ search, orderBy: { age: 'desc' }, pagination: { cursor: first.nextCursor, limit: 2 } });
+
+      expect(ids(first)).toEqual([3, 1]);
+      expect(ids(second)).toEqual([2]);
+
+      const { where } = mockPrismaClient.user.findMany.mock.calls[1][0] as { where: { OR: unknown[] } };
+      expect(where.OR).toHaveLength(3);
+      expect(where.OR[0]).toEqual({
+        AND: [
+          { name: { equals: 'John Doe' } },
+          { OR: [{ age: { lt: 30 } }, { age: 30, id: { gt: 1 } }] }
+        ]
+      });
+    });
+
+    it('should page each chunk of a large list and merge them', async () => {
+      const search = { field: 'id', in: Array.from({ length: 10001 }, (_, index) => index + 1) };
+      const first = await page({ search, orderBy: { age: 'asc' }, pagination: { limit: 2 } });
+      const second = await page({ search, orderBy: { age: 'asc' }, pagination: { cursor: first.nextCursor, limit: 2 } });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 3 }));
+      expect(ids(first)).toEqual([2, 1]);
+      expect(first.hasMore).toBe(true);
+      expect(ids(second)).toEqual([3]);
+      expect(second.hasMore).toBe(false);
+    });
+  });
+
+  describe('nullable sort fields', () => {
+    beforeEach(async () => {
+      const modelInfo = User.getModelInformation();
+      jest.spyOn(User, 'getModelInformation').mockReturnValue({
+        ...modelInfo,
+        fields: modelInfo.fields.map(field => field.name === 'age' ? { ...field, isRequired: false } : field)
+      });
+      await mockPrismaClient.user.create({ data: { name: 'Ann', email: 'ann@example.com', age: null } });
+      await mockPrismaClient.user.create({ data: { name: 'Al', email: 'al@example.com', age: null } });
+    });
+
+    it('should walk past the NULLs in ascending order, both ways', async () => {
+      expect(await walk({ age: 'asc' })).toEqual({ forward: [4, 5, 2, 1, 3], backward: [4, 5, 2, 1, 3] });
+    });
+
+    it('should walk past the NULLs in descending order, both ways', async () => {
+      expect(await walk({ age: 'desc' })).toEqual({ forward: [3, 1, 2, 4, 5], backward: [3, 1, 2, 4, 5] });
+    });
+
+    it('should follow a value with the NULLs where they sort above every value', () => {
+      const cursor = Buffer.from(JSON.stringify({ d: 'next', f: ['age', 'id'], v: [30, 1] })).toString('base64url');
+      const nulls = { fields: new Set(['age']), ordering: 'highest' as const };
+
+      expect(planKeyset({ cursor, limit: 2 }, { age: 'asc' }, ['id'], 'User', nulls).condition).toEqual({
+        OR: [{ age: { gt: 30 } }, { age: null }, { age: 30, id: { gt: 1 } }]
+      });
+      expect(planKeyset({ cursor, limit: 2 }, { age: 'desc' }, ['id'], 'User', nulls).condition).toEqual({
+        OR: [{ age: { lt: 30 } }, { age: 30, id: { gt: 1 } }]
+      });
+    });
+
+    it('should follow a NULL with the values where NULLs sort below them', () => {
+      const cursor = Buffer.from(JSON.stringify({ d: 'next', f: ['age', 'id'], v: [null, 4] })).toString('base64url');
+      const nulls = { fields: new Set(['age']), ordering: 'lowest' as const };
+
+      expect(planKeyset({ cursor, limit: 2 }, { age: 'asc' }, ['id'], 'User', nulls).condition).toEqual({
+        OR: [{ age: { not: null } }, { age: null, id: { gt: 4 } }]
+      });
+      expect(planKeyset({ cursor, limit: 2 }, { age: 'desc' }, ['id'], 'User', nulls).condition).toEqual({
+        age: null, id: { gt: 4 }
+      });
+    });
+  });
+
+  describe('invalid options', () => {
+    it('should reject a cursor it did not make', async () => {
+      await expect(page({ pagination: { cursor: 'not-a-cursor', limit: 2 } })).rejects.toThrow(InvalidCursorError);
+    });
+
+    it('should reject a cursor of another order', async () => {
+      const first = await page({ orderBy: { age: 'asc' }, pagination: { limit: 1 } });
+
+      await expect(page({ orderBy: { name: 'asc' }, pagination: { cursor: first.nextCursor, limit: 1 } })).rejects.toThrow(
+        'it was made for an order on age, id, not on name, id'
+      );
+    });
+
+    it('should reject a limit that is not a positive integer', async () => {
+      await expect(page({ pagination: { limit: 0 } })).rejects.toThrow('pagination.limit must be a positive integer');
+    });
+  });
+});
@@ -73,7 +73,8 @@ describe('Database Utils', () => {
             
             expect(provider).toBe('sqlite');
             expect(consoleWarnSpy).toHaveBeenCalledWith(
-                'Could not detect database provider, defaulting to sqlite'
+                'Could not detect database provider, defaulting to sqlite',
+                expect.objectContaining({ operation: 'getDatabaseProvider' })
             );
             
             consoleWarnSpy.mockRestore();
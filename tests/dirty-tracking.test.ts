@@ -0,0 +1,246 @@
+/**
+ * Test suite for entity dirty tracking
+ * Tests isDirty/getChanges/revert/markClean and the minimal update() payload
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  metadata?: Record<string, unknown>;
+  birthday?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+class User extends BaseEntity<IUser> implements IUser {
+  static override readonly model = mockPrismaClient.user;
+
+  public declare readonly id: IUser['id'];
+  private _name!: IUser['name'];
+  private _email!: IUser['email'];
+  private _age!: IUser['age'];
+  private _metadata!: IUser['metadata'];
+  private _birthday!: IUser['birthday'];
+
+  constructor(data: Partial<IUser>) {
+    super(data);
+  }
+
+  get name(): string {
+    return this._name;
+  }
+  set name(value: string) {
+    this._name = value;
+  }
+
+  get email(): string {
+    return this._email;
+  }
+  set email(value: string) {
+    this._email = value;
+  }
+
+  get age(): number | undefined {
+    return this._age;
+  }
+  set age(value: number | undefined) {
+    this._age = value;
+  }
+
+  get metadata(): Record<string, unknown> | undefined {
+    return this._metadata;
+  }
+  set metadata(value: Record<string, unknown> | undefined) {
+    this._metadata = value;
+  }
+
+  get birthday(): Date | undefined {
+    return this._birthday;
+  }
+  set birthday(value: Date | undefined) {
+    this._birthday = value;
+  }
+}
+
+function loadedUser(): User {
+  const user = new User({
+    id: 1,
+    name: 'John Doe',
+    email: 'john@example.com',
+    age: 30,
+    metadata: { tags: ['a'], color: 'red' },
+    birthday: new Date('1990-01-01T00:00:00.000Z')
+  });
+  user.markClean();
+  return user;
+}
+
+describe('Dirty tracking', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('isDirty / getChanges', () => {
+    it('should report a loaded entity as clean', () => {
+      const user = loadedUser();
+
+      expect(user.isDirty()).toBe(false);
+      expect(user.getChanges()).toEqual({});
+    });
+
+    it('should report changed fields with their previous value', () => {
+      const user = loadedUser();
+      user.name = 'Jane Doe';
+
+      expect(user.isDirty()).toBe(true);
+      expect(user.isDirty('name')).toBe(true);
+      expect(user.isDirty('email')).toBe(false);
+      expect(user.getChanges()).toEqual({ name: { from: 'John Doe', to: 'Jane Doe' } });
+    });
+
+    it('should detect in-place edits of JSON values', () => {
+      const user = loadedUser();
+      user.metadata!.color = 'blue';
+
+      expect(user.getChanges()).toEqual({
+        metadata: { from: { tags: ['a'], color: 'red' }, to: { tags: ['a'], color: 'blue' } }
+      });
+    });
+
+    it('should compare Dates by timestamp and Decimals by value', () => {
+      const user = loadedUser();
+      user.birthday = new Date('1990-01-01T00:00:00.000Z');
+      (user as any).age = { d: [30], e: 1, s: 1, toNumber: () => 30, toString: () => '30' };
+
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should treat an untracked entity as entirely dirty', () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+
+      expect(user.getChanges()).toEqual({
+        name: { from: undefined, to: 'John Doe' },
+        email: { from: undefined, to: 'john@example.com' }
+      });
+    });
+
+    it('should ignore id and timestamps', () => {
+      const user = loadedUser();
+      (user as any).updatedAt = new Date();
+
+      expect(user.isDirty()).toBe(false);
+    });
+  });
+
+  describe('revert', () => {
+    it('should restore the persisted values', () => {
+      const user = loadedUser();
+      user.name = 'Jane Doe';
+      user.metadata!.color = 'blue';
+
+      user.revert();
+
+      expect(user.name).toBe('John Doe');
+      expect(user.metadata).toEqual({ tags: ['a'], color: 'red' });
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should clear fields set after the snapshot', () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+      user.markClean();
+      user.age = 40;
+
+      user.revert();
+
+      expect(user.age).toBeUndefined();
+    });
+
+    it('should do nothing on an untracked entity', () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+      user.revert();
+
+      expect(user.name).toBe('John Doe');
+    });
+  });
+
+  describe('update', () => {
+    it('should send only the changed fields of a tracked entity', async () => {
+      const user = loadedUser();
+      user.name = 'Jane Doe';
+
+      await user.update();
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'Jane Doe' }
+      });
+    });
+
+    it('should skip the write when nothing changed', async () => {
+      const user = loadedUser();
+
+      const result = await user.update();
+
+      expect(mockPrismaClient.user.update).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ id: 1, name: 'John Doe' }));
+    });
+
+    it('should send every field of an untracked entity', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'new@example.com' });
+
+      await user.update();
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'John Doe', email: 'new@example.com' }
+      });
+    });
+
+    it('should be clean after a write', async () => {
+      const user = loadedUser();
+      user.name = 'Jane Doe';
+      await user.update();
+
+      expect(user.isDirty()).toBe(false);
+
+      user.email = 'jane@example.com';
+      await user.update();
+
+      expect((mockPrismaClient.user.update as jest.Mock).mock.calls[1][0]).toEqual({
+        where: { id: 1 },
+        data: { email: 'jane@example.com' }
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should start tracking once created', async () => {
+      const user = new User({ name: 'New', email: 'new@example.com' });
+      await user.create();
+
+      expect(user.isDirty()).toBe(false);
+
+      user.name = 'Renamed';
+      expect(user.getChanges()).toEqual({ name: { from: 'New', to: 'Renamed' } });
+    });
+  });
+
+  it('should keep the snapshot out of toObject()', () => {
+    const user = loadedUser();
+
+    expect(Object.keys(user.toObject())).toEqual(['id', 'name', 'email', 'age', 'metadata', 'birthday']);
+  });
+});
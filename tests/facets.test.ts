@@ -0,0 +1,129 @@
+/**
+ * Test suite for facetsByFilter
+ * Tests value, bucketed and array facets, and how each facet leaves its own field out of the
+ * caller's conditions while scopes and the transaction still apply
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import type { Search } from '../src/core/structures/types/search.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+  tags?: string[];
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+class ActiveUser extends User {
+  static override defaultScope: Search.Input = { field: 'isActive', equals: true };
+}
+
+describe('Facets', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should count per value, leaving the facet field out of the filter', async () => {
+    const facets = await User.facetsByFilter({ isActive: true }, {
+      facets: [{ field: 'isActive' }, { field: 'isActive', name: 'selected', excludeOwnFilter: false }]
+    });
+
+    expect(facets).toEqual({
+      isActive: { true: 2, false: 1 },
+      selected: { true: 2 }
+    });
+  });
+
+  it('should leave the facet field out of the search, keeping the other conditions', async () => {
+    const facets = await User.facetsByFilter({}, {
+      search: [{ field: 'age', gte: 30 }, { field: 'isActive', equals: true }],
+      facets: [{ field: 'isActive' }]
+    });
+
+    expect(facets).toEqual({ isActive: { true: 1, false: 1 } });
+  });
+
+  it('should count per bucket', async () => {
+    const facets = await User.facetsByFilter({}, { facets: [{ field: 'age', buckets: [20, 30, 40] }] });
+
+    expect(facets).toEqual({ age: { '20-30': 1, '30-40': 2, '40+': 0 } });
+  });
+
+  it('should refuse buckets out of order', async () => {
+    await expect(User.facetsByFilter({}, { facets: [{ field: 'age', buckets: [50, 10] }] }))
+      .rejects.toThrow('buckets of the "age" facet must be strictly ascending numbers');
+  });
+
+  it('should count the elements of a list field once per row', async () => {
+    jest.spyOn(mockPrismaClient.user, 'findMany').mockResolvedValueOnce([
+      { id: 1, tags: ['new', 'sale'] },
+      { id: 2, tags: ['sale', 'sale'] },
+      { id: 3, tags: [] }
+    ] as any);
+
+    const facets = await User.facetsByFilter({}, { facets: [{ field: 'tags', array: true }] });
+
+    expect(facets).toEqual({ tags: { new: 1, sale: 2 } });
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      select: expect.objectContaining({ tags: true })
+    }));
+  });
+
+  it('should read a list field in keyset batches, without the rank of the search', async () => {
+    configurePrisma({ ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: 'postgresql' }] } } as any);
+
+    await User.facetsByFilter({}, {
+      search: { field: 'name', matches: 'john', rank: true },
+      facets: [{ field: 'tags', array: true }]
+    });
+
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { name: { search: 'john' } },
+      select: { id: true, tags: true },
+      take: 1001
+    }));
+  });
+
+  it('should count every facet in the transaction of the call', async () => {
+    const groupBy = jest.fn(async (_args: unknown) => [{ authorId: 2, _count: { _all: 5 } }]);
+    const tx = { ...mockPrismaClient, post: { ...mockPrismaClient.post, groupBy } };
+
+    const facets = await User.facetsByFilter({}, {
+      search: { field: 'posts', count: { gt: 3 } },
+      facets: [{ field: 'isActive' }, { field: 'age', buckets: [20, 30] }, { field: 'tags', array: true }],
+      tx: tx as any
+    });
+
+    expect(facets).toEqual({ isActive: { true: 1 }, age: { '20-30': 1, '30+': 0 }, tags: {} });
+    // Once for the value facet, once per bucket and once for the list field
+    expect(groupBy).toHaveBeenCalledTimes(4);
+    expect(mockPrismaClient.post.groupBy).not.toHaveBeenCalled();
+  });
+
+  it('should keep the scopes of the class in every facet', async () => {
+    const facets = await ActiveUser.facetsByFilter({ isActive: true }, { facets: [{ field: 'isActive' }] });
+
+    expect(facets).toEqual({ isActive: { true: 2 } });
+  });
+});
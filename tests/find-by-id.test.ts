@@ -0,0 +1,119 @@
+/**
+ * Test suite for the primary-key lookups
+ * Tests findById, findByIdOrThrow, findByIds, existsByFilter and reload()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { EntityNotFoundError } from '../src/core/errors';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+}
+
+describe('Primary-key lookups', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('findById', () => {
+    it('should return the record with the id', async () => {
+      const user = await User.findById(2);
+
+      expect(user).toMatchObject({ id: 2, name: 'Jane Smith' });
+      expect((mockPrismaClient.user.findMany as jest.Mock).mock.calls[0][0]).toMatchObject({
+        where: { id: { equals: 2 } }
+      });
+    });
+
+    it('should return null when there is no record', async () => {
+      await expect(User.findById(99)).resolves.toBeNull();
+    });
+
+    it('should throw EntityNotFoundError from findByIdOrThrow', async () => {
+      await expect(User.findByIdOrThrow(1)).resolves.toMatchObject({ id: 1 });
+
+      const error = await User.findByIdOrThrow(99).catch(e => e);
+      expect(error).toBeInstanceOf(EntityNotFoundError);
+      expect(error.where).toEqual({ id: 99 });
+      expect(error.message).toBe('user not found (id = 99).');
+    });
+  });
+
+  describe('findByIds', () => {
+    it('should return the records in the order of the ids, once each', async () => {
+      const users = await User.findByIds([3, 99, 1, 3]);
+
+      expect(users.map(user => user.id)).toEqual([3, 1]);
+      expect((mockPrismaClient.user.findMany as jest.Mock).mock.calls[0][0]).toMatchObject({
+        where: { id: { in: [3, 99, 1] } }
+      });
+    });
+
+    it('should not query for an empty list', async () => {
+      await expect(User.findByIds([])).resolves.toEqual([]);
+      expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should split a long list into chunks', async () => {
+      const ids = Array.from({ length: 25_000 }, (_, index) => index + 1);
+
+      const users = await User.findByIds(ids, { parallel: false });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledTimes(3);
+      expect(users.map(user => user.id)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('existsByFilter', () => {
+    it('should read a single id instead of the matching rows', async () => {
+      await expect(User.existsByFilter({ email: 'jane@example.com' })).resolves.toBe(true);
+      await expect(User.existsByFilter({ email: 'nobody@example.com' })).resolves.toBe(false);
+
+      expect((mockPrismaClient.user.findFirst as jest.Mock).mock.calls[0][0]).toEqual({
+        where: { email: { equals: 'jane@example.com' } },
+        select: { id: true }
+      });
+      expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reload', () => {
+    it('should overwrite the properties with the stored row and mark the entity clean', async () => {
+      const user = new User({ id: 1, name: 'Unsaved', email: 'john@example.com' });
+
+      await expect(user.reload()).resolves.toBe(user);
+
+      expect(user.name).toBe('John Doe');
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should throw when the row no longer exists', async () => {
+      await expect(new User({ id: 99, name: 'Gone', email: 'gone@example.com' }).reload())
+        .rejects.toThrow(EntityNotFoundError);
+    });
+
+    it('should require an id', async () => {
+      await expect(new User({ name: 'New', email: 'new@example.com' }).reload())
+        .rejects.toThrow('Cannot reload: Missing primary key (id)');
+    });
+  });
+});
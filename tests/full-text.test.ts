@@ -0,0 +1,144 @@
+/**
+ * Test suite for full-text search through findByFilter
+ * Tests the MongoDB $text lookup that replaces a matches condition, relevance ranking and the
+ * paths that refuse it, and the word-by-word fallback
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import * as performanceUtils from '../src/core/utils/performance-utils';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+}
+
+/** The mock client, reporting another provider */
+const configureProvider = (provider: string) => {
+  configurePrisma({ ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: provider }] } } as any);
+};
+
+describe('Full-text search', () => {
+  beforeEach(() => {
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    delete (mockPrismaClient.user as any).findRaw;
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('on MongoDB', () => {
+    beforeEach(() => configureProvider('mongodb'));
+
+    it('should read the ids $text finds and filter on them', async () => {
+      const findRaw = jest.fn(async (_args: unknown) => [{ _id: 1 }, { _id: 3 }]);
+      (mockPrismaClient.user as any).findRaw = findRaw;
+
+      const users = await User.findByFilter({}, {
+        search: [{ field: 'age', gte: 30 }, { field: 'name', matches: 'john doe' }]
+      }) as IUser[];
+
+      expect(findRaw).toHaveBeenCalledWith({
+        filter: { $text: { $search: '"john" "doe"' } },
+        options: { projection: { _id: 1 } }
+      });
+      expect(users.map(user => user.id)).toEqual([1, 3]);
+    });
+
+    it('should look each text up once, and match nothing when it finds nothing', async () => {
+      const findRaw = jest.fn(async () => []);
+      (mockPrismaClient.user as any).findRaw = findRaw;
+
+      const count = await User.countByFilter({}, {
+        search: { or: [{ field: 'name', matches: 'zed' }, { not: { field: 'email', matches: 'zed' } }] }
+      });
+
+      expect(findRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrismaClient.user.count).toHaveBeenCalledWith({
+        where: { OR: [{ id: { equals: null } }, { NOT: { id: { equals: null } } }] }
+      });
+      // No row matches "zed", so every row matches its negation
+      expect(count).toBe(3);
+    });
+
+    it('should refuse a path across a relation', async () => {
+      (mockPrismaClient.user as any).findRaw = jest.fn(async () => []);
+
+      await expect(User.findByFilter({}, { search: { field: 'posts.title', matches: 'hello' } }))
+        .rejects.toThrow('Cannot search "posts.title" with matches on MongoDB: $text only searches the model\'s own text index.');
+    });
+  });
+
+  it('should order by relevance first when a condition ranks', async () => {
+    configureProvider('postgresql');
+
+    await User.findByFilter({}, {
+      search: { field: 'name', matches: 'john', rank: true },
+      orderBy: { age: 'desc' }
+    });
+
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { name: { search: 'john' } },
+      orderBy: [{ _relevance: { fields: ['name'], search: 'john', sort: 'desc' } }, { age: 'desc' }]
+    }));
+  });
+
+  describe('ranked where the rows are not one offset-paged query', () => {
+    const ranked = { field: 'name', matches: 'john', rank: true } as const;
+
+    beforeEach(() => configureProvider('postgresql'));
+
+    it('should run an or that fits one query as one, by relevance first', async () => {
+      await User.findByFilter({}, { search: { or: [ranked, { field: 'age', gte: 30 }] }, orderBy: { age: 'desc' } });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: [{ _relevance: { fields: ['name'], search: 'john', sort: 'desc' } }, { age: 'desc' }]
+      }));
+    });
+
+    it('should refuse an or split in batches', async () => {
+      jest.spyOn(performanceUtils, 'isOrQuerySafe').mockReturnValue(false);
+
+      await expect(User.findByFilter({}, { search: { or: [ranked, { field: 'age', gte: 30 }] } }))
+        .rejects.toThrow('Cannot order by relevance over an or split in batches');
+    });
+
+    it('should refuse a list split in chunks', async () => {
+      const ids = Array.from({ length: 10001 }, (_, index) => index + 1);
+
+      await expect(User.findByFilter({}, { search: [ranked, { field: 'id', in: ids }] }))
+        .rejects.toThrow('Cannot order by relevance over a list split in chunks');
+    });
+
+    it('should refuse keyset pagination', async () => {
+      await expect(User.findByFilter({}, { search: ranked, pagination: { limit: 2 } }))
+        .rejects.toThrow('Cannot order by relevance with keyset pagination');
+      expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should match every word as a substring without a full-text index', async () => {
+    configurePrisma(mockPrismaClient as any);
+
+    const users = await User.findByFilter({}, { search: { field: 'name', matches: 'john, doe', rank: true } }) as IUser[];
+
+    expect(users.map(user => user.name)).toEqual(['John Doe']);
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ orderBy: undefined }));
+  });
+});
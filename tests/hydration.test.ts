@@ -0,0 +1,142 @@
+/**
+ * Test suite for result hydration
+ * Tests the hydrate option, the global default and the hydration of included relations
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { registerEntity } from '../src/core/entity-hydration';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IPost {
+  id?: number;
+  title: string;
+  authorId?: number;
+}
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  posts?: IPost[];
+  comments?: Array<Record<string, unknown>>;
+}
+
+class Post extends BaseEntity<IPost> {
+  static override readonly model = mockPrismaClient.post;
+
+  @Property() declare title: string;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare posts?: Post[];
+  @Property() declare comments?: Array<Record<string, unknown>>;
+
+  private _email!: string;
+
+  get email(): string {
+    return this._email;
+  }
+
+  set email(value: string) {
+    this._email = value;
+  }
+
+  greet(): string {
+    return `Hi ${this.name}`;
+  }
+}
+
+describe('Hydration', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should return plain objects by default', async () => {
+    const users = await User.findByFilter({}) as IUser[];
+
+    expect(users[0]).not.toBeInstanceOf(User);
+  });
+
+  it('should return instances of the calling class with hydrate', async () => {
+    const users = await User.findByFilter({}, { hydrate: true }) as unknown as User[];
+
+    expect(users).toHaveLength(3);
+    expect(users[0]).toBeInstanceOf(User);
+    expect(users[0].greet()).toBe('Hi John Doe');
+    expect(users[0].email).toBe('john@example.com');
+    expect(users[0].isDirty()).toBe(false);
+  });
+
+  it('should write back through the instance', async () => {
+    const user = await User.findByFilter({ id: 1 }, { onlyOne: true, hydrate: true }) as unknown as User;
+
+    user.name = 'Johnny';
+    await user.update();
+
+    expect((mockPrismaClient.user.update as jest.Mock).mock.calls[0][0]).toMatchObject({
+      where: { id: 1 },
+      data: { name: 'Johnny' }
+    });
+  });
+
+  it('should hydrate the data of a paginated response', async () => {
+    const page = await User.findByFilter({}, {
+      hydrate: true,
+      pagination: { page: 1, pageSize: 2, take: 2, skip: 0 }
+    }) as unknown as { total: number; data: User[] };
+
+    expect(page.data).toHaveLength(2);
+    expect(page.data.every(user => user instanceof User)).toBe(true);
+  });
+
+  it('should hydrate the reads by primary key', async () => {
+    await expect(User.findById(2, { hydrate: true })).resolves.toBeInstanceOf(User);
+    await expect(User.findByIdOrThrow(2, { hydrate: true })).resolves.toBeInstanceOf(User);
+
+    const users = await User.findByIds([3, 1], { hydrate: true });
+    expect(users.map(user => user instanceof User)).toEqual([true, true]);
+  });
+
+  it('should follow the global default unless the call says otherwise', async () => {
+    configurePrisma(mockPrismaClient as any, { hydrate: true });
+
+    await expect(User.findById(1)).resolves.toBeInstanceOf(User);
+    await expect(User.findById(1, { hydrate: false })).resolves.not.toBeInstanceOf(User);
+  });
+
+  it('should hydrate included relations into their registered class', async () => {
+    registerEntity(Post);
+    jest.spyOn(mockPrismaClient.user, 'findMany').mockResolvedValueOnce([{
+      id: 1,
+      name: 'John Doe',
+      email: 'john@example.com',
+      posts: [{ id: 10, title: 'Hello', authorId: 1 }],
+      comments: [{ id: 5, text: 'Nice' }]
+    }] as any);
+
+    const [user] = await User.findByFilter({}, { hydrate: true }) as unknown as User[];
+
+    expect(user.posts![0]).toBeInstanceOf(Post);
+    expect(user.posts![0].title).toBe('Hello');
+    expect(user.posts![0].isDirty()).toBe(false);
+    expect(user.comments![0]).toEqual({ id: 5, text: 'Nice' });
+  });
+
+  it('should reject a hydrate option that is not a boolean', () => {
+    expect(() => configurePrisma(mockPrismaClient as any, { hydrate: 'yes' as any }))
+      .toThrow('hydrate must be a boolean');
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Test suite for entity lifecycle hooks
+ * Tests instance hooks around create/update/delete and the static batch hooks
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityBatch from '../src/core/base-entity-batch';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import type { Lifecycle } from '../src/core/structures/types/lifecycle.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  isActive?: boolean;
+}
+
+const calls: string[] = [];
+
+class User extends BaseEntity<IUser> implements IUser {
+  static override readonly model = mockPrismaClient.user;
+
+  public declare readonly id: IUser['id'];
+  private _name!: IUser['name'];
+  private _email!: IUser['email'];
+  private _isActive!: IUser['isActive'];
+
+  constructor(data: Partial<IUser>) {
+    super(data);
+  }
+
+  get name(): string {
+    return this._name;
+  }
+  set name(value: string) {
+    this._name = value;
+  }
+
+  get email(): string {
+    return this._email;
+  }
+  set email(value: string) {
+    this._email = value;
+  }
+
+  get isActive(): boolean | undefined {
+    return this._isActive;
+  }
+  set isActive(value: boolean | undefined) {
+    this._isActive = value;
+  }
+
+  protected override beforeCreate(context: Lifecycle.Context): void {
+    calls.push(`beforeCreate:${context.operation}`);
+    this.email = this.email.toLowerCase();
+  }
+
+  protected override afterCreate(): void {
+    calls.push(`afterCreate:${this.id}`);
+  }
+
+  protected override async beforeUpdate(context: Lifecycle.Context): Promise<void> {
+    calls.push(`beforeUpdate:${context.operation}`);
+    this.isActive = true;
+  }
+
+  protected override afterUpdate(): void {
+    calls.push('afterUpdate');
+  }
+
+  protected override beforeDelete(): void {
+    calls.push(`beforeDelete:${this.id}`);
+  }
+
+  protected override afterDelete(): void {
+    calls.push(`afterDelete:${this.id}`);
+  }
+
+  protected static override beforeCreateMany(payload: Lifecycle.ItemsPayload): void {
+    calls.push(`beforeCreateMany:${payload.items.length}`);
+  }
+
+  protected static override afterCreateMany(result: Lifecycle.BatchResult<Lifecycle.ItemsPayload>): void {
+    calls.push(`afterCreateMany:${result.count}`);
+  }
+
+  protected static override beforeUpdateMany(
+    payload: Lifecycle.ItemsPayload | Lifecycle.FilterPayload
+  ): void {
+    calls.push(`beforeUpdateMany:${payload.operation}`);
+    if ('data' in payload && payload.data) {
+      payload.data.name = 'Stamped';
+    }
+  }
+
+  protected static override afterUpdateMany(
+    result: Lifecycle.BatchResult<Lifecycle.ItemsPayload | Lifecycle.FilterPayload>
+  ): void {
+    calls.push(`afterUpdateMany:${result.count}`);
+  }
+
+  protected static override beforeDeleteMany(
+    payload: Lifecycle.FilterPayload | Lifecycle.IdsPayload
+  ): void {
+    calls.push(`beforeDeleteMany:${payload.operation}`);
+  }
+
+  protected static override afterDeleteMany(
+    result: Lifecycle.BatchResult<Lifecycle.FilterPayload | Lifecycle.IdsPayload>
+  ): void {
+    calls.push(`afterDeleteMany:${result.count}`);
+  }
+
+  protected static override beforeUpsertMany(): void {
+    calls.push('beforeUpsertMany');
+  }
+
+  protected static override afterUpsertMany(): void {
+    calls.push('afterUpsertMany');
+  }
+}
+
+/** An entity without hooks, to check the batch items pass through untouched */
+class Plain extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+}
+
+describe('Lifecycle hooks', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+    calls.length = 0;
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('instance hooks', () => {
+    it('should run around create and write what beforeCreate assigns', async () => {
+      const user = new User({ name: 'New', email: 'NEW@Example.com' });
+      await user.create();
+
+      expect(calls).toEqual(['beforeCreate:create', `afterCreate:${user.id}`]);
+      expect(mockPrismaClient.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ email: 'new@example.com' })
+      });
+    });
+
+    it('should run around update and write what beforeUpdate assigns', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com', isActive: false });
+      await user.update();
+
+      expect(calls).toEqual(['beforeUpdate:update', 'afterUpdate']);
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ isActive: true })
+      });
+    });
+
+    it('should run both update hooks when nothing changed', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com', isActive: true });
+      user.markClean();
+      await user.update();
+
+      expect(calls).toEqual(['beforeUpdate:update', 'afterUpdate']);
+      expect(mockPrismaClient.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should run around delete', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+      await user.delete();
+
+      expect(calls).toEqual(['beforeDelete:1', 'afterDelete:1']);
+    });
+
+    it('should not run afterDelete when the delete fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(mockPrismaClient.user, 'delete').mockRejectedValueOnce(new Error('boom'));
+
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+      const result = await user.delete();
+
+      expect(result).toBe(0);
+      expect(calls).toEqual(['beforeDelete:1']);
+    });
+
+    it('should skip the write when a before hook throws', async () => {
+      class Guarded extends User {
+        protected override beforeCreate(): void {
+          throw new Error('not allowed');
+        }
+      }
+
+      await expect(new Guarded({ name: 'X', email: 'x@example.com' }).create()).rejects.toThrow('not allowed');
+      expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should pass the model name and the explicit transaction in the context', async () => {
+      const contexts: Lifecycle.Context[] = [];
+      class Recorded extends User {
+        protected override beforeCreate(context: Lifecycle.Context): void {
+          contexts.push(context);
+        }
+      }
+
+      await new Recorded({ name: 'X', email: 'x@example.com' }).create({ tx: mockPrismaClient as any });
+
+      expect(contexts[0]).toEqual({ operation: 'create', modelName: 'user', tx: mockPrismaClient });
+    });
+  });
+
+  describe('createMany', () => {
+    it('should run beforeCreate per item, then the batch hooks', async () => {
+      jest.spyOn(mockPrismaClient.user, 'createMany').mockResolvedValueOnce({ count: 2 });
+
+      const count = await User.createMany([
+        { name: 'A', email: 'A@Example.com' },
+        { name: 'B', email: 'B@Example.com' }
+      ]);
+
+      expect(count).toBe(2);
+      expect(calls).toEqual([
+        'beforeCreate:createMany',
+        'beforeCreate:createMany',
+        'beforeCreateMany:2',
+        'afterCreateMany:2'
+      ]);
+      const written = (mockPrismaClient.user.createMany as jest.Mock).mock.calls[0][0] as { data: IUser[] };
+      expect(written.data.map(item => item.email)).toEqual(['a@example.com', 'b@example.com']);
+    });
+
+    it('should pass items through untouched when the class declares no hooks', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'createMany').mockResolvedValueOnce(1);
+      const items = [{ name: 'A', email: 'A@Example.com' }];
+
+      await Plain.createMany(items);
+
+      expect(spy.mock.calls[0][2]).toBe(items);
+    });
+  });
+
+  describe('updateManyById', () => {
+    it('should run beforeUpdate per item, then the batch hooks', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'updateManyById').mockResolvedValueOnce(2);
+
+      const count = await User.updateManyById([
+        { id: 1, name: 'A' },
+        { id: 2, name: 'B' }
+      ]);
+
+      expect(count).toBe(2);
+      expect(calls).toEqual([
+        'beforeUpdate:updateManyById',
+        'beforeUpdate:updateManyById',
+        'beforeUpdateMany:updateManyById',
+        'afterUpdateMany:2'
+      ]);
+      expect(spy.mock.calls[0][4]).toEqual([
+        expect.objectContaining({ id: 1, name: 'A', isActive: true }),
+        expect.objectContaining({ id: 2, name: 'B', isActive: true })
+      ]);
+    });
+  });
+
+  describe('updateByFilter', () => {
+    it('should let beforeUpdateMany add to the change set', async () => {
+      await User.updateByFilter({ isActive: false }, { email: 'archived@example.com' });
+
+      expect(calls).toEqual(['beforeUpdateMany:updateByFilter', 'afterUpdateMany:1']);
+      expect(mockPrismaClient.user.updateMany).toHaveBeenCalledWith({
+        where: expect.anything(),
+        data: { email: 'archived@example.com', name: 'Stamped' }
+      });
+    });
+
+    it('should not mutate the caller data object', async () => {
+      const data = { email: 'archived@example.com' };
+      await User.updateByFilter({ isActive: false }, data);
+
+      expect(data).toEqual({ email: 'archived@example.com' });
+    });
+  });
+
+  describe('deleteByFilter / deleteByIds', () => {
+    it('should run the delete batch hooks around deleteByFilter', async () => {
+      const search = { field: 'name', equals: 'Bob' };
+      const seen: Lifecycle.FilterPayload[] = [];
+      class Recorded extends User {
+        protected static override beforeDeleteMany(payload: Lifecycle.FilterPayload | Lifecycle.IdsPayload): void {
+          seen.push(payload as Lifecycle.FilterPayload);
+        }
+      }
+
+      jest.spyOn(mockPrismaClient.user, 'deleteMany').mockResolvedValueOnce({ count: 1 });
+
+      await Recorded.deleteByFilter({ isActive: false }, { search });
+
+      expect(seen[0]).toMatchObject({ operation: 'deleteByFilter', filter: { isActive: false }, search });
+      expect(calls).toEqual(['afterDeleteMany:1']);
+    });
+
+    it('should run the delete batch hooks around deleteByIds', async () => {
+      jest.spyOn(BaseEntityBatch, 'deleteByIds').mockResolvedValueOnce(3);
+
+      const count = await User.deleteByIds([1, 2, 3]);
+
+      expect(count).toBe(3);
+      expect(calls).toEqual(['beforeDeleteMany:deleteByIds', 'afterDeleteMany:3']);
+    });
+  });
+
+  describe('upsertMany', () => {
+    it('should run the class hooks before the per-call hooks', async () => {
+      // Stand-in for the batch engine: it only has to call the hooks it was handed
+      jest.spyOn(BaseEntityBatch, 'upsertMany').mockImplementationOnce(async (...args: any[]) => {
+        const hooks = args[4].hooks;
+        const context = { modelName: 'user', provider: 'sqlite', useRawQuery: true, totalItems: 1 };
+        await hooks.before({ ...context, originalItems: [], normalizedItems: [] });
+        await hooks.after({ ...context, result: {} });
+        return {} as any;
+      });
+
+      await User.upsertMany([{ name: 'A', email: 'a@example.com' }], {
+        hooks: {
+          before: () => { calls.push('local:before'); },
+          after: () => { calls.push('local:after'); }
+        }
+      });
+
+      expect(calls).toEqual(['beforeUpsertMany', 'local:before', 'afterUpsertMany', 'local:after']);
+    });
+  });
+});
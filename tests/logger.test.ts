@@ -0,0 +1,150 @@
+/**
+ * Test suite for the pluggable logger
+ * Tests the logger and logLevel options and the fields of the entries the framework writes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { consoleLogger, log } from '../src/core/logger';
+import type { Logging } from '../src/core/structures/types/logging.types';
+import { logError, reportBatchFailures } from '../src/core/utils/error-utils';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+}
+
+function createLogger() {
+  return {
+    debug: jest.fn<Logging.Logger['debug']>(),
+    info: jest.fn<Logging.Logger['info']>(),
+    warn: jest.fn<Logging.Logger['warn']>(),
+    error: jest.fn<Logging.Logger['error']>()
+  };
+}
+
+describe('Logger', () => {
+  let logger: ReturnType<typeof createLogger>;
+
+  beforeEach(() => {
+    logger = createLogger();
+    configurePrisma(mockPrismaClient as any, { logger });
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should write errors to the configured logger with structured fields', () => {
+    logError('deleteByIds', new Error('Connection lost'), { model: 'user', batchSize: 10 });
+
+    expect(logger.error).toHaveBeenCalledWith('Error in deleteByIds', {
+      operation: 'deleteByIds',
+      error: 'Connection lost',
+      model: 'user',
+      batchSize: 10
+    });
+  });
+
+  it('should report failed batches with the model and counts', () => {
+    reportBatchFailures('createMany', 'user', [{ index: 1, error: new Error('boom') }], 500);
+
+    expect(logger.error).toHaveBeenCalledWith('Error in createMany - parallel batches', {
+      operation: 'createMany - parallel batches',
+      error: '1 batches failed',
+      model: 'user',
+      failedCount: 1,
+      succeeded: 500
+    });
+  });
+
+  it('should add the provider once it has been detected', async () => {
+    const { getDatabaseProviderCached } = await import('../src/core/utils/database-utils');
+    const originalUrl = process.env.DATABASE_URL;
+    process.env.DATABASE_URL = 'postgresql://localhost/app';
+
+    try {
+      getDatabaseProviderCached();
+      log('warn', 'Something odd', { operation: 'test' });
+    } finally {
+      process.env.DATABASE_URL = originalUrl;
+    }
+
+    expect(logger.warn).toHaveBeenCalledWith('Something odd', { operation: 'test', provider: 'postgresql' });
+  });
+
+  it('should log the failures entity methods swallow', async () => {
+    jest.spyOn(mockPrismaClient.user, 'deleteMany').mockRejectedValueOnce(new Error('Timeout'));
+
+    await expect(User.deleteByFilter({ name: 'John' })).resolves.toBe(0);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error in deleteByFilter',
+      expect.objectContaining({ operation: 'deleteByFilter', model: 'user', error: 'Timeout' })
+    );
+  });
+
+  describe('levels', () => {
+    it('should skip debug entries at the default level', () => {
+      log('debug', 'Split 10 OR conditions into 2 queries');
+      log('info', 'Using sequential execution');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only write entries at or above logLevel', () => {
+      configurePrisma(mockPrismaClient as any, { logLevel: 'error' });
+
+      log('warn', 'A warning');
+      logError('update', new Error('Failed'));
+
+      expect(logger.warn).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write nothing when silent', () => {
+      configurePrisma(mockPrismaClient as any, { logLevel: 'silent' });
+
+      logError('update', new Error('Failed'));
+
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should write to the console without a logger', () => {
+    resetPrismaConfiguration();
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+    logError('update', new Error('Failed'), { model: 'user' });
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('Error in update', { operation: 'update', error: 'Failed', model: 'user' });
+  });
+
+  it('should ignore a logger that throws', () => {
+    logger.error.mockImplementation(() => {
+      throw new Error('Transport down');
+    });
+
+    expect(() => logError('update', new Error('Failed'))).not.toThrow();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => configurePrisma(mockPrismaClient as any, { logger: { error: () => { } } as any }))
+      .toThrow('logger must have debug, info, warn and error methods');
+    expect(() => configurePrisma(mockPrismaClient as any, { logLevel: 'verbose' as any }))
+      .toThrow('logLevel must be one of debug, info, warn, error, silent');
+    expect(() => configurePrisma(mockPrismaClient as any, { logger: consoleLogger, logLevel: 'debug' })).not.toThrow();
+  });
+});
@@ -17,6 +17,8 @@ const mockPrismaClient = {
         upsert: jest.fn(),
         delete: jest.fn(),
         deleteMany: jest.fn(),
+        aggregate: jest.fn(),
+        groupBy: jest.fn(),
     },
     _runtimeDataModel: {
         models: {
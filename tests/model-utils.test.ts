@@ -642,4 +642,54 @@ describe('ModelUtils', () => {
       expect((includes.posts as any).include).toHaveProperty('comments');
     });
   });
+
+  describe('getSelectTree', () => {
+    /**
+     * Test: should select scalar fields and whole relations by name
+     */
+    it('should select scalar fields and whole relations by name', () => {
+      expect(ModelUtils.getSelectTree('User', ['id', 'name', 'posts'])).toEqual({
+        id: true,
+        name: true,
+        posts: true
+      });
+    });
+
+    /**
+     * Test: should nest dotted paths into the select of their relation
+     */
+    it('should nest dotted paths into the select of their relation', () => {
+      expect(ModelUtils.getSelectTree('User', ['name', 'posts.title', 'posts.author.email'])).toEqual({
+        name: true,
+        posts: { select: { title: true, author: { select: { email: true } } } }
+      });
+    });
+
+    /**
+     * Test: should keep a relation whole when it is also selected by name
+     */
+    it('should keep a relation whole when it is also selected by name', () => {
+      expect(ModelUtils.getSelectTree('User', ['posts', 'posts.title'])).toEqual({ posts: true });
+    });
+
+    /**
+     * Test: should merge the relations of an include tree
+     */
+    it('should merge the relations of an include tree', async () => {
+      const include = await ModelUtils.getIncludesTree('User', [{ posts: [{ comments: [] }] }, { comments: [] }]);
+
+      expect(ModelUtils.getSelectTree('User', ['name', 'posts.title'], include)).toEqual({
+        name: true,
+        posts: { select: { title: true, comments: true } },
+        comments: true
+      });
+    });
+
+    /**
+     * Test: should reject a dotted path through a scalar field
+     */
+    it('should reject a dotted path through a scalar field', () => {
+      expect(() => ModelUtils.getSelectTree('User', ['name.first'])).toThrow('"name" is not a relation of model "User"');
+    });
+  });
 });
@@ -0,0 +1,267 @@
+/**
+ * Test suite for multi-tenancy
+ * Tests the request context and @TenantScoped() entities: tenant conditions on reads and filtered
+ * writes, writes by primary key, tenant stamping on creates and upserts, and the raw upsert SQL
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityBatch from '../src/core/base-entity-batch';
+import BaseEntityHelpers from '../src/core/base-entity-helpers';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { TenantScoped } from '../src/core/decorators/tenant.decorator';
+import { MissingTenantContextError } from '../src/core/errors';
+import ModelUtils from '../src/core/model-utils';
+import { getCurrentTenantId, getRequestContext, runWithContext } from '../src/core/request-context';
+import {
+  buildMySQLUpsert,
+  buildPostgreSQLUpsert,
+  buildSQLServerUpsert,
+  buildSQLiteUpsert,
+  clearUpsertMetadataCache,
+  getUpsertMetadata
+} from '../src/core/upsert-utils';
+import { clearDatabaseProviderCache } from '../src/core/utils/database-utils';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  tenantId?: number;
+}
+
+@TenantScoped()
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare tenantId?: number;
+}
+
+function whereOf(mockFn: unknown, call = 0): Record<string, any> {
+  return ((mockFn as jest.Mock).mock.calls[call][0] as { where: Record<string, any> }).where;
+}
+
+function withPrismaProvider(provider: string): any {
+  return { ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: provider }] } };
+}
+
+const tenant = <T>(fn: () => Promise<T>) => runWithContext({ tenantId: 7 }, fn);
+
+describe('Multi-tenancy', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('request context', () => {
+    it('should expose the context inside runWithContext only', async () => {
+      expect(getRequestContext()).toBeNull();
+
+      await runWithContext({ tenantId: 'acme' }, async () => {
+        await Promise.resolve();
+        expect(getCurrentTenantId()).toBe('acme');
+      });
+
+      expect(getCurrentTenantId()).toBeUndefined();
+    });
+
+    it('should let a nested context inherit and override', () => {
+      runWithContext({ tenantId: 1 }, () => {
+        expect(runWithContext({}, () => getCurrentTenantId())).toBe(1);
+        expect(runWithContext({ tenantId: 2 }, () => getCurrentTenantId())).toBe(2);
+        expect(getCurrentTenantId()).toBe(1);
+      });
+    });
+  });
+
+  describe('missing tenant', () => {
+    it('should throw before touching the database', async () => {
+      await expect(User.findByFilter({})).rejects.toThrow(MissingTenantContextError);
+      await expect(User.deleteByFilter({})).rejects.toThrow(MissingTenantContextError);
+      await expect(new User({ name: 'Jane', email: 'jane@example.com' }).create()).rejects.toThrow(
+        'user is tenant-scoped, but no tenant is set'
+      );
+
+      expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.user.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reads and filtered writes', () => {
+    it('should AND the tenant into reads and counts', async () => {
+      await tenant(async () => {
+        await User.findByFilter({ name: 'John' });
+        await User.unscoped().countByFilter({});
+      });
+
+      expect(whereOf(mockPrismaClient.user.findMany)).toEqual({
+        name: { equals: 'John' },
+        tenantId: { equals: 7 }
+      });
+      expect(whereOf(mockPrismaClient.user.count)).toEqual({ tenantId: { equals: 7 } });
+    });
+
+    it('should keep the tenant alongside a root-level OR', async () => {
+      await tenant(() =>
+        User.findByFilter({}, { search: { or: [{ field: 'name', equals: 'A' }, { field: 'name', equals: 'B' }] } })
+      );
+
+      expect(whereOf(mockPrismaClient.user.findMany)).toEqual({
+        AND: [
+          { tenantId: { equals: 7 } },
+          { OR: [{ name: { equals: 'A' } }, { name: { equals: 'B' } }] }
+        ]
+      });
+    });
+
+    it('should confine updateByFilter and deleteByFilter, and keep rows in the tenant', async () => {
+      await tenant(async () => {
+        await User.updateByFilter({}, { name: 'Jane', tenantId: 9 });
+        await User.deleteByFilter({ name: 'Jane' });
+      });
+
+      expect(mockPrismaClient.user.updateMany).toHaveBeenCalledWith({
+        where: { tenantId: { equals: 7 } },
+        data: { name: 'Jane', tenantId: 7 }
+      });
+      expect(whereOf(mockPrismaClient.user.deleteMany)).toEqual({
+        name: { equals: 'Jane' },
+        tenantId: { equals: 7 }
+      });
+    });
+  });
+
+  describe('writes by primary key', () => {
+    it('should match the tenant in update() and delete()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'update').mockResolvedValueOnce({ id: 1, name: 'Jane' });
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com' });
+
+      await tenant(async () => {
+        await user.update();
+        await user.delete();
+      });
+
+      expect(whereOf(mockPrismaClient.user.update)).toEqual({ id: 1, tenantId: 7 });
+      expect(whereOf(mockPrismaClient.user.delete)).toEqual({ id: 1, tenantId: 7 });
+    });
+
+    it('should match the tenant in deleteByIds() and updateManyById()', async () => {
+      const update = jest.spyOn(BaseEntityBatch, 'updateManyById').mockResolvedValueOnce(1);
+
+      await tenant(async () => {
+        await User.deleteByIds([1, 2]);
+        await User.updateManyById([{ id: 1, name: 'Jane', tenantId: 9 }]);
+      });
+
+      expect(whereOf(mockPrismaClient.user.deleteMany)).toEqual({ id: { in: [1, 2] }, tenantId: 7 });
+      expect(update.mock.calls[0][4]).toEqual([{ id: 1, name: 'Jane', tenantId: 7 }]);
+      expect(update.mock.calls[0][5]).toMatchObject({ where: { tenantId: 7 } });
+    });
+
+    it('should add the tenant to the WHERE of the batch UPDATE', () => {
+      const modelInfo = { fields: [{ name: 'id', kind: 'scalar', isId: true }, { name: 'name', kind: 'scalar' }] };
+
+      const batch = [{ id: 1, name: 'Jane' }, { id: 2, name: 'Joe' }];
+      const { query } = BaseEntityHelpers.buildUpdateQuery(batch, 'users', modelInfo, { tenantId: 7 });
+
+      expect(query).toMatch(/WHERE \("id" IN \(1, 2\)\) AND "tenantId" = 7;$/);
+    });
+  });
+
+  describe('creates and upserts', () => {
+    it('should stamp the tenant on create() and createMany()', async () => {
+      const createMany = jest.spyOn(BaseEntityBatch, 'createMany').mockResolvedValueOnce(2);
+
+      await tenant(async () => {
+        await new User({ name: 'Jane', email: 'jane@example.com', tenantId: 9 }).create();
+        await User.createMany([{ name: 'A', email: 'a@example.com' }, { name: 'B', email: 'b@example.com' }]);
+      });
+
+      expect(mockPrismaClient.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'Jane', tenantId: 7 })
+      });
+      expect(createMany.mock.calls[0][2]).toEqual([
+        { name: 'A', email: 'a@example.com', tenantId: 7 },
+        { name: 'B', email: 'b@example.com', tenantId: 7 }
+      ]);
+    });
+
+    it('should only match an existing row of the tenant in upsert()', async () => {
+      jest.spyOn(ModelUtils, 'getUniqueConstraints').mockReturnValue([['email']]);
+      const findFirst = jest.spyOn(mockPrismaClient.user, 'findFirst').mockResolvedValueOnce(null);
+
+      await tenant(() => User.upsert({ name: 'Jane', email: 'jane@example.com' }));
+
+      expect(findFirst).toHaveBeenCalledWith({ where: { email: 'jane@example.com', tenantId: 7 } });
+      expect(mockPrismaClient.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ email: 'jane@example.com', tenantId: 7 })
+      });
+    });
+
+    it('should stamp the items of upsertMany()', async () => {
+      const upsertMany = jest.spyOn(BaseEntityBatch, 'upsertMany').mockResolvedValueOnce({} as any);
+
+      await tenant(() => User.upsertMany([{ name: 'A', email: 'a@example.com' }]));
+
+      expect(upsertMany.mock.calls[0][3]).toEqual([{ name: 'A', email: 'a@example.com', tenantId: 7 }]);
+    });
+  });
+
+  describe('raw upserts', () => {
+    const modelInfo = {
+      name: 'user',
+      dbName: 'users',
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'Int', isId: true, hasDefaultValue: true, isRequired: true },
+        { name: 'email', kind: 'scalar', type: 'String', isRequired: true },
+        { name: 'name', kind: 'scalar', type: 'String', isRequired: true },
+        { name: 'tenantId', kind: 'scalar', type: 'Int', isRequired: true }
+      ]
+    };
+    const items = [{ email: 'a@example.com', name: 'A', tenantId: 7 }];
+
+    beforeEach(() => {
+      clearUpsertMetadataCache();
+      clearDatabaseProviderCache();
+    });
+
+    afterEach(() => {
+      clearUpsertMetadataCache();
+      clearDatabaseProviderCache();
+    });
+
+    it('should insert the tenant but never SET it on conflict', () => {
+      const meta = getUpsertMetadata('user', modelInfo as any);
+
+      expect(meta.tenantColumn?.prismaName).toBe('tenantId');
+      expect(meta.updatableColumns.map(c => c.prismaName)).toEqual(['name']);
+    });
+
+    it('should only update a conflicting row of the same tenant', () => {
+      const meta = getUpsertMetadata('user', modelInfo as any);
+
+      expect(buildPostgreSQLUpsert(meta, items, withPrismaProvider('postgresql'))).toContain(
+        'WHERE "users"."tenantId" = EXCLUDED."tenantId" AND ("users"."name") IS DISTINCT FROM (EXCLUDED."name")'
+      );
+      expect(buildSQLiteUpsert(meta, items, withPrismaProvider('sqlite'))).toContain(
+        'WHERE "tenantId" = excluded."tenantId" AND ("name" IS NOT excluded."name")'
+      );
+      expect(buildMySQLUpsert(meta, items, withPrismaProvider('mysql'))).toContain(
+        '`name` = IF(NOT (`tenantId` <=> VALUES(`tenantId`)), `name`, VALUES(`name`))'
+      );
+      expect(buildSQLServerUpsert(meta, items, withPrismaProvider('sqlserver'))).toContain(
+        'WHEN MATCHED AND target.[tenantId] = source.[tenantId] AND EXISTS'
+      );
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Test suite for optimistic concurrency control
+ * Tests @Version() entities: the version check in update() and updateManyById()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { Version } from '../src/core/decorators/version.decorator';
+import { OptimisticLockError } from '../src/core/errors';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email?: string;
+  version?: number;
+  updatedAt?: Date;
+}
+
+@Version()
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email?: string;
+  @Property() declare version?: number;
+}
+
+@Version('updatedAt')
+class Post extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.post;
+
+  @Property() declare name: string;
+  @Property() declare updatedAt?: Date;
+}
+
+function notFound(): Error {
+  return Object.assign(new Error('An operation failed because it depends on one or more records that were required but not found. Record to update not found.'), {
+    code: 'P2025'
+  });
+}
+
+describe('Optimistic locking', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('update', () => {
+    it('should match the loaded version and increment it', async () => {
+      const user = new User({ id: 1, name: 'John Doe', version: 3 });
+      user.markClean();
+      user.name = 'Jane Doe';
+
+      await user.update();
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1, version: 3 },
+        data: { name: 'Jane Doe', version: 4 }
+      });
+      expect(user.version).toBe(4);
+      expect(user.isDirty()).toBe(false);
+    });
+
+    it('should check the loaded version even if the property was changed', async () => {
+      const user = new User({ id: 1, name: 'John Doe', version: 3 });
+      user.markClean();
+      user.version = 10;
+
+      await user.update();
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1, version: 3 },
+        data: { version: 4 }
+      });
+    });
+
+    it('should throw OptimisticLockError when the row moved on', async () => {
+      jest.spyOn(mockPrismaClient.user, 'update').mockRejectedValueOnce(notFound());
+      const user = new User({ id: 1, name: 'John Doe', version: 3 });
+      user.markClean();
+      user.name = 'Jane Doe';
+
+      const error = await user.update().catch(e => e);
+
+      expect(error).toBeInstanceOf(OptimisticLockError);
+      expect(error).toMatchObject({ modelName: 'user', ids: [1] });
+      expect(user.isDirty('name')).toBe(true);
+    });
+
+    it('should increment without checking when the version was never loaded', async () => {
+      const user = new User({ id: 1, name: 'John Doe' });
+
+      await user.update();
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { name: 'John Doe', version: { increment: 1 } }
+      });
+    });
+
+    it('should rethrow unrelated errors', async () => {
+      jest.spyOn(mockPrismaClient.user, 'update').mockRejectedValueOnce(new Error('Connection lost'));
+      const user = new User({ id: 1, name: 'John Doe', version: 3 });
+
+      await expect(user.update()).rejects.toThrow('Connection lost');
+    });
+
+    it('should use a timestamp column as the version', async () => {
+      const loaded = new Date('2024-01-01T00:00:00.000Z');
+      const post = new Post({ id: 1, name: 'Title', updatedAt: loaded });
+      post.markClean();
+      post.name = 'New title';
+
+      await post.update();
+
+      const args = (mockPrismaClient.post.update as jest.Mock).mock.calls[0][0] as any;
+      expect(args.where).toEqual({ id: 1, updatedAt: loaded });
+      expect(args.data.updatedAt).toBeInstanceOf(Date);
+      expect(args.data.updatedAt.getTime()).toBeGreaterThan(loaded.getTime());
+    });
+  });
+
+  describe('updateManyById', () => {
+    it('should write each row against its version', async () => {
+      const spy = jest.spyOn(mockPrismaClient.user, 'updateMany').mockResolvedValue({ count: 1 });
+
+      const count = await User.updateManyById([
+        { id: 1, name: 'A', version: 3 },
+        { id: 2, name: 'B', version: 7 }
+      ]);
+
+      expect(count).toBe(2);
+      expect(spy).toHaveBeenCalledWith({ where: { id: 1, version: 3 }, data: { name: 'A', version: 4 } });
+      expect(spy).toHaveBeenCalledWith({ where: { id: 2, version: 7 }, data: { name: 'B', version: 8 } });
+    });
+
+    it('should write the winners and report the ids that lost the race', async () => {
+      jest.spyOn(mockPrismaClient.user, 'updateMany')
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const error = await User.updateManyById([
+        { id: 1, name: 'A', version: 3 },
+        { id: 2, name: 'B', version: 7 },
+        { id: 3, name: 'C', version: 1 }
+      ]).catch(e => e);
+
+      expect(error).toBeInstanceOf(OptimisticLockError);
+      expect(error).toMatchObject({ ids: [2, 3], updatedCount: 1 });
+      expect(error.message).toContain('2 user rows');
+    });
+
+    it('should not report items written without a version', async () => {
+      const spy = jest.spyOn(mockPrismaClient.user, 'updateMany').mockResolvedValue({ count: 0 });
+
+      const count = await User.updateManyById([{ id: 99, name: 'A' }]);
+
+      expect(count).toBe(0);
+      expect(spy).toHaveBeenCalledWith({ where: { id: 99 }, data: { name: 'A', version: { increment: 1 } } });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Test suite for the order and the offset pages of findByFilter's merged paths
+ * Tests relation paths and NULL placement in orderBy, and the pages, totals and limits of the
+ * OR-batched and chunked paths
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import {
+  nullOrderingOf,
+  sortRows,
+  toPrismaOrderBy,
+  withOrderRelations,
+  withoutRelations,
+  withTieBreaker
+} from '../src/core/ordering';
+import { FindByFilterOptions } from '../src/core/structures/types/search.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+type Page = FindByFilterOptions.PaginatedResponse<IUser>;
+
+/** The second page of one row */
+const secondRow: FindByFilterOptions.PaginationOptions = { page: 2, pageSize: 1, skip: 1, take: 1 };
+
+/** The mock client, reporting another provider */
+const configureProvider = (provider: string) => {
+  configurePrisma({ ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: provider }] } } as any);
+};
+
+/** An id list long enough to be split: users 1 to 3 in the first chunk, none in the second */
+const largeList = Array.from({ length: 10001 }, (_, index) => index + 1);
+
+describe('Ordering', () => {
+  describe('in memory', () => {
+    const rows = [
+      { id: 1, author: { name: 'b' } },
+      { id: 2, author: null },
+      { id: 3, author: { name: 'a' } },
+      { id: 4, author: { name: null } }
+    ];
+
+    it('should sort on a relation path, NULLs first ascending and last descending', () => {
+      expect(sortRows(rows, { 'author.name': 'asc' }).map(row => row.id)).toEqual([2, 4, 3, 1]);
+      expect(sortRows(rows, { 'author.name': 'desc' }).map(row => row.id)).toEqual([1, 3, 2, 4]);
+    });
+
+    it('should sort NULLs above every value where the database does', () => {
+      expect(sortRows(rows, { 'author.name': 'asc' }, 'highest').map(row => row.id)).toEqual([3, 1, 2, 4]);
+      expect(sortRows(rows, { 'author.name': 'desc' }, 'highest').map(row => row.id)).toEqual([2, 4, 1, 3]);
+      expect(sortRows(rows, { 'author.name': { sort: 'asc', nulls: 'first' } }, 'highest').map(row => row.id))
+        .toEqual([2, 4, 3, 1]);
+    });
+
+    it('should place NULLs where nulls says', () => {
+      expect(sortRows(rows, { 'author.name': { sort: 'asc', nulls: 'last' } }).map(row => row.id)).toEqual([3, 1, 2, 4]);
+      expect(sortRows(rows, [{ 'author.name': { sort: 'desc', nulls: 'first' } }, { id: 'desc' }]).map(row => row.id))
+        .toEqual([4, 2, 1, 3]);
+    });
+
+    it('should compare dates by time', () => {
+      const dated = [{ id: 1, at: new Date('2024-02-01') }, { id: 2, at: new Date('2024-01-01') }];
+
+      expect(sortRows(dated, { at: 'asc' }).map(row => row.id)).toEqual([2, 1]);
+    });
+  });
+
+  describe('in Prisma terms', () => {
+    it('should nest a relation path, its nulls kept', () => {
+      expect(toPrismaOrderBy<FindByFilterOptions.OrderByItem>([
+        { 'author.profile.name': { sort: 'asc', nulls: 'last' } },
+        { id: 'desc' }
+      ])).toEqual([{ author: { profile: { name: { sort: 'asc', nulls: 'last' } } } }, { id: 'desc' }]);
+    });
+
+    it('should leave an order without paths as it is', () => {
+      const orderBy = { name: 'asc' } as const;
+      expect(toPrismaOrderBy(orderBy)).toBe(orderBy);
+    });
+
+    it('should complete an order with the primary key', () => {
+      expect(withTieBreaker({ age: 'desc' }, ['id'])).toEqual([{ age: 'desc' }, { id: 'asc' }]);
+      expect(withTieBreaker([{ id: 'desc' }], ['id'])).toEqual([{ id: 'desc' }]);
+    });
+
+    it('should include the relations sorted on, and take out the ones it added', () => {
+      const { projection, added } = withOrderRelations(
+        { include: { posts: true, author: true } },
+        [{ 'author.profile.name': 'asc' }, { 'team.name': 'asc' }]
+      );
+
+      expect(projection).toEqual({
+        include: { posts: true, author: { include: { profile: true } }, team: true }
+      });
+      expect(added).toEqual(['team']);
+      expect(withoutRelations([{ id: 1, team: { name: 'x' }, author: {} }], added)).toEqual([{ id: 1, author: {} }]);
+    });
+
+    it('should leave a select as it is', () => {
+      const select = { select: { id: true, author: { select: { name: true } } } };
+      expect(withOrderRelations(select, { 'author.name': 'asc' })).toEqual({ projection: select, added: [] });
+    });
+  });
+
+  describe('findByFilter', () => {
+    beforeEach(() => {
+      configurePrisma(mockPrismaClient as any);
+      mockPrismaClient._reset();
+    });
+
+    afterEach(() => {
+      resetPrismaConfiguration();
+      jest.restoreAllMocks();
+    });
+
+    it('should hand a relation path to Prisma as a nested order', async () => {
+      await User.findByFilter({}, { orderBy: [{ 'author.name': { sort: 'asc', nulls: 'first' } }, { id: 'asc' }] });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: [{ author: { name: { sort: 'asc', nulls: 'first' } } }, { id: 'asc' }]
+      }));
+    });
+
+    it('should refuse a relation path with keyset pagination', async () => {
+      await expect(User.findByFilter({}, { orderBy: { 'author.name': 'asc' }, pagination: { limit: 2 } }))
+        .rejects.toThrow('Keyset pagination cannot sort on "author.name" that way');
+    });
+
+    describe.each([
+      ['postgresql', [2, 1, 4], [4, 1, 2]],
+      ['mysql', [4, 2, 1], [1, 2, 4]],
+      ['sqlite', [4, 2, 1], [1, 2, 4]],
+      ['sqlserver', [4, 2, 1], [1, 2, 4]],
+      ['mongodb', [4, 2, 1], [1, 2, 4]]
+    ])('NULLs of a nullable sort key on %s', (provider, ascending, descending) => {
+      const search = { or: [{ field: 'age', lte: 30 }, { field: 'email', equals: 'ann@example.com' }] };
+
+      beforeEach(async () => {
+        configureProvider(provider);
+        await mockPrismaClient.user.create({ data: { name: 'Ann', email: 'ann@example.com', age: null } });
+      });
+
+      it('should merge them where the database sorts them', async () => {
+        const up = await User.findByFilter({}, { search, orderBy: [{ age: 'asc' }, { id: 'asc' }] }) as IUser[];
+        const down = await User.findByFilter({}, { search, orderBy: [{ age: 'desc' }, { id: 'asc' }] }) as IUser[];
+
+        expect(nullOrderingOf(provider)).toBe(provider === 'postgresql' ? 'highest' : 'lowest');
+        expect(up.map(user => user.id)).toEqual(ascending);
+        expect(down.map(user => user.id)).toEqual(descending);
+      });
+    });
+
+    describe('OR-batched path', () => {
+      const search = {
+        or: [
+          { field: 'name', equals: 'John Doe' },
+          { field: 'email', equals: 'jane@example.com' },
+          { field: 'isActive', equals: false }
+        ]
+      };
+
+      it('should page the merged rows and count them all', async () => {
+        const result = await User.findByFilter({}, { search, orderBy: { age: 'desc' }, pagination: secondRow }) as Page;
+
+        expect(result).toMatchObject({ total: 3, page: 2, pageSize: 1 });
+        expect(result.data.map(user => user.id)).toEqual([1]);
+        expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          orderBy: [{ age: 'desc' }, { id: 'asc' }],
+          take: 2
+        }));
+      });
+
+      it('should read one row for onlyOne', async () => {
+        const user = await User.findByFilter({}, { search, orderBy: { age: 'asc' }, onlyOne: true });
+
+        expect(user).toMatchObject({ id: 2 });
+        expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 1 }));
+      });
+
+      it('should read every row without a page', async () => {
+        const users = await User.findByFilter({}, { search, orderBy: { age: 'asc' } }) as IUser[];
+
+        expect(users.map(user => user.id)).toEqual([2, 1, 3]);
+        expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.not.objectContaining({ take: expect.anything() }));
+      });
+    });
+
+    describe('chunked path', () => {
+      it('should page the merged chunks and count them all', async () => {
+        const result = await User.findByFilter({}, {
+          search: { field: 'id', in: largeList },
+          orderBy: { age: 'asc' },
+          pagination: secondRow
+        }) as Page;
+
+        expect(result).toMatchObject({ total: 3, page: 2, pageSize: 1 });
+        expect(result.data.map(user => user.id)).toEqual([1]);
+        expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          orderBy: [{ age: 'asc' }, { id: 'asc' }],
+          take: 2
+        }));
+      });
+
+      it('should count the chunks of a list joined by and, without reading their keys', async () => {
+        const result = await User.findByFilter({}, {
+          search: { and: [{ field: 'id', in: [...largeList, 1, 2] }, { field: 'isActive', equals: true }] },
+          pagination: { page: 1, pageSize: 1, skip: 0, take: 1 }
+        }) as Page;
+
+        expect(result.total).toBe(2);
+        expect(mockPrismaClient.user.count).toHaveBeenCalledTimes(2);
+        expect(mockPrismaClient.user.findMany).not.toHaveBeenCalledWith(expect.objectContaining({ select: { id: true } }));
+      });
+
+      it('should count a row every chunk matches once', async () => {
+        // Each chunk also matches the active users through the other branch
+        const result = await User.findByFilter({}, {
+          search: { or: [{ field: 'id', in: largeList.map(id => id + 2) }, { field: 'isActive', equals: true }] },
+          orderBy: { age: 'desc' },
+          pagination: { page: 1, pageSize: 2, skip: 0, take: 2 }
+        }) as Page;
+
+        expect(result.total).toBe(3);
+        expect(result.data.map(user => user.id)).toEqual([3, 1]);
+      });
+
+      it('should return the rows without a page, as before', async () => {
+        const users = await User.findByFilter({}, { search: { field: 'id', in: largeList }, orderBy: { age: 'desc' } }) as IUser[];
+
+        expect(users.map(user => user.id)).toEqual([3, 1, 2]);
+      });
+    });
+  });
+});
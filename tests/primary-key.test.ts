@@ -0,0 +1,216 @@
+/**
+ * Test suite for primary key detection
+ * Tests models keyed by a column other than `id` and by a composite `@@id`: the reads, writes
+ * and batch operations that address rows by their key
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityHelpers from '../src/core/base-entity-helpers';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { OptimisticLockError } from '../src/core/errors';
+import { getPrimaryKey, primaryKeyWhere, readPrimaryKey } from '../src/core/primary-key';
+import { createMockModel, mockPrismaClient, mockRuntimeDataModel } from './__mocks__/prisma-client.mock';
+
+interface IMembership {
+  tenantId: number;
+  code: string;
+  name: string;
+}
+
+interface IDevice {
+  uuid?: string;
+  label: string;
+}
+
+const memberships = [
+  { tenantId: 1, code: 'A', name: 'Admin' },
+  { tenantId: 1, code: 'B', name: 'Billing' },
+  { tenantId: 2, code: 'A', name: 'Admin' }
+];
+
+const devices = [
+  { uuid: 'd-1', label: 'Laptop' },
+  { uuid: 'd-2', label: 'Phone' }
+];
+
+const membershipModel = createMockModel(memberships, 'Membership');
+const deviceModel = createMockModel(devices, 'Device');
+
+class Membership extends BaseEntity<IMembership> {
+  static override readonly model = membershipModel;
+
+  @Property() declare tenantId: number;
+  @Property() declare code: string;
+  @Property() declare name: string;
+}
+
+class Device extends BaseEntity<IDevice> {
+  static override readonly model = deviceModel;
+
+  @Property() declare uuid?: string;
+  @Property() declare label: string;
+}
+
+const runtimeModels = mockRuntimeDataModel.models as Record<string, unknown>;
+
+describe('Primary keys', () => {
+  beforeAll(() => {
+    runtimeModels.Membership = {
+      fields: [
+        { name: 'tenantId', kind: 'scalar', isList: false, type: 'Int' },
+        { name: 'code', kind: 'scalar', isList: false, type: 'String' },
+        { name: 'name', kind: 'scalar', isList: false, type: 'String' }
+      ],
+      primaryKey: { name: null, fields: ['tenantId', 'code'] },
+      uniqueFields: [],
+      uniqueIndexes: [],
+      dbName: 'memberships',
+      name: 'Membership'
+    };
+    runtimeModels.Device = {
+      fields: [
+        { name: 'uuid', kind: 'scalar', isList: false, type: 'String', isId: true },
+        { name: 'label', kind: 'scalar', isList: false, type: 'String' }
+      ],
+      primaryKey: null,
+      uniqueFields: [],
+      uniqueIndexes: [],
+      dbName: 'devices',
+      name: 'Device'
+    };
+  });
+
+  afterAll(() => {
+    delete runtimeModels.Membership;
+    delete runtimeModels.Device;
+  });
+
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    // restoreAllMocks drops the implementations, so the models are rebuilt as the mock client does
+    Object.assign(membershipModel, createMockModel(memberships, 'Membership'));
+    Object.assign(deviceModel, createMockModel(devices, 'Device'));
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('detection', () => {
+    it('should read a composite key with its compound name', () => {
+      expect(getPrimaryKey(Membership.getModelInformation())).toEqual({
+        fields: ['tenantId', 'code'],
+        compoundName: 'tenantId_code'
+      });
+      expect(getPrimaryKey({ primaryKey: { name: 'membership_pk', fields: ['tenantId', 'code'] } } as any))
+        .toMatchObject({ compoundName: 'membership_pk' });
+    });
+
+    it('should read the @id field, falling back to id', () => {
+      expect(getPrimaryKey(Device.getModelInformation())).toEqual({ fields: ['uuid'] });
+      expect(getPrimaryKey(null)).toEqual({ fields: ['id'] });
+    });
+
+    it('should read a key only when every column is set', () => {
+      const primaryKey = getPrimaryKey(Membership.getModelInformation());
+
+      expect(readPrimaryKey(primaryKey, { tenantId: 1, code: 'A', name: 'Admin' })).toEqual({ tenantId: 1, code: 'A' });
+      expect(readPrimaryKey(primaryKey, { tenantId: 1 })).toBeUndefined();
+      expect(primaryKeyWhere(primaryKey, { tenantId: 1, code: 'A' })).toEqual({
+        tenantId_code: { tenantId: 1, code: 'A' }
+      });
+    });
+  });
+
+  describe('composite key', () => {
+    it('should update through the compound unique input, without writing the key', async () => {
+      const update = jest.spyOn(membershipModel, 'update').mockResolvedValueOnce({ tenantId: 1, code: 'B', name: 'Payments' });
+      const membership = new Membership({ tenantId: 1, code: 'B', name: 'Payments' });
+
+      await membership.update();
+
+      expect(update).toHaveBeenCalledWith({
+        where: { tenantId_code: { tenantId: 1, code: 'B' } },
+        data: { name: 'Payments' }
+      });
+    });
+
+    it('should name every key column when one is missing', async () => {
+      await expect(new Membership({ tenantId: 1, name: 'Nameless' } as IMembership).update())
+        .rejects.toThrow('Cannot update: Missing primary key (tenantId, code)');
+    });
+
+    it('should delete by the compound key and return it', async () => {
+      const remove = jest.spyOn(membershipModel, 'delete').mockResolvedValueOnce(memberships[0]);
+
+      await expect(new Membership(memberships[0]).delete()).resolves.toEqual({ tenantId: 1, code: 'A' });
+      expect(remove).toHaveBeenCalledWith({ where: { tenantId_code: { tenantId: 1, code: 'A' } } });
+    });
+
+    it('should delete several keys with one condition per key', async () => {
+      const deleteMany = jest.spyOn(membershipModel, 'deleteMany').mockResolvedValueOnce({ count: 2 });
+
+      await Membership.deleteByIds([{ tenantId: 1, code: 'A' }, { tenantId: 2, code: 'A' }]);
+
+      expect(deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ tenantId: 1, code: 'A' }, { tenantId: 2, code: 'A' }] }
+      });
+    });
+
+    it('should find rows by key object, in the order of the keys', async () => {
+      await expect(Membership.findById({ tenantId: 1, code: 'B' })).resolves.toMatchObject({ name: 'Billing' });
+
+      const found = await Membership.findByIds([
+        { tenantId: 2, code: 'A' },
+        { tenantId: 9, code: 'Z' },
+        { tenantId: 1, code: 'A' },
+        { tenantId: 2, code: 'A' }
+      ]);
+
+      expect(found.map(row => `${row.tenantId}:${row.code}`)).toEqual(['2:A', '1:A']);
+    });
+
+    it('should report key objects in OptimisticLockError', () => {
+      const error = new OptimisticLockError('Membership', [{ tenantId: 1, code: 'A' }]);
+
+      expect(error.ids).toEqual([{ tenantId: 1, code: 'A' }]);
+      expect(error.message).toContain('(tenantId = 1, code = A)');
+    });
+
+    it('should match every key column in a batch update statement', () => {
+      const { query, idsInBatch } = BaseEntityHelpers.buildUpdateQuery(
+        [{ tenantId: 1, code: 'A', name: 'Owner' }, { tenantId: 2, code: 'A', name: 'Guest' }],
+        'memberships',
+        Membership.getModelInformation()
+      );
+
+      expect(query).toContain(`WHEN "tenantId" = 1 AND "code" = 'A' THEN 'Owner'`);
+      expect(query).toContain(`WHERE ("tenantId" = 1 AND "code" = 'A') OR ("tenantId" = 2 AND "code" = 'A')`);
+      expect(query).not.toMatch(/SET\s+"tenantId"/);
+      expect([...idsInBatch]).toEqual([{ tenantId: 1, code: 'A' }, { tenantId: 2, code: 'A' }]);
+    });
+  });
+
+  describe('single key other than id', () => {
+    it('should address rows by the @id column', async () => {
+      const update = jest.spyOn(deviceModel, 'update').mockResolvedValueOnce({ uuid: 'd-1', label: 'Desktop' });
+      const deleteMany = jest.spyOn(deviceModel, 'deleteMany').mockResolvedValueOnce({ count: 2 });
+
+      await new Device({ uuid: 'd-1', label: 'Desktop' }).update();
+      await Device.deleteByIds(['d-1', 'd-2']);
+
+      expect(update).toHaveBeenCalledWith({ where: { uuid: 'd-1' }, data: { label: 'Desktop' } });
+      expect(deleteMany).toHaveBeenCalledWith({ where: { uuid: { in: ['d-1', 'd-2'] } } });
+    });
+
+    it('should look rows up by the @id column', async () => {
+      await expect(Device.findById('d-2')).resolves.toMatchObject({ label: 'Phone' });
+      await expect(Device.existsByFilter({ label: 'Laptop' })).resolves.toBe(true);
+
+      expect((deviceModel.findFirst as jest.Mock).mock.calls[0][0]).toMatchObject({ select: { uuid: true } });
+    });
+  });
+});
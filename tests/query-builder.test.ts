@@ -0,0 +1,192 @@
+/**
+ * Test suite for the fluent query builder
+ * Tests query(): immutability, how filters, search trees, includes, order and pages become the
+ * options of findByFilter, and each terminal method
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { anyOf } from '../src/core/search-helpers';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IPost {
+  id?: number;
+  title: string;
+  published?: boolean;
+  comments?: { id?: number; text: string }[];
+  author?: IUser;
+}
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+  createdAt?: Date;
+  posts?: IPost[];
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+describe('Query builder', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('building', () => {
+    it('should leave the builder it derives from unchanged', async () => {
+      const findByFilter = jest.spyOn(User, 'findByFilter');
+      const active = User.query().where({ isActive: true });
+
+      await active.where({ name: 'John Doe' }).all();
+      await active.all();
+
+      expect(findByFilter.mock.calls[0][0]).toEqual({ isActive: true, name: 'John Doe' });
+      expect(findByFilter.mock.calls[1][0]).toEqual({ isActive: true });
+    });
+
+    it('should AND the search trees together', async () => {
+      const findByFilter = jest.spyOn(User, 'findByFilter');
+
+      const users = await User.query()
+        .search(anyOf(['name', 'email'], { like: 'j' }))
+        .search({ field: 'age', lte: 30 })
+        .all();
+
+      expect(findByFilter.mock.calls[0][1]).toMatchObject({
+        search: {
+          and: [
+            { or: [{ field: 'name', like: 'j' }, { field: 'email', like: 'j' }] },
+            { field: 'age', lte: 30 }
+          ]
+        }
+      });
+      expect(users.map(user => user.id)).toEqual([1, 2]);
+    });
+
+    it('should sort by each orderBy() in turn', async () => {
+      const users = await User.query().orderBy('isActive', 'desc').orderBy('age').all();
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: [{ isActive: 'desc' }, { age: 'asc' }]
+      }));
+      expect(users.map(user => user.id)).toEqual([2, 1, 3]);
+    });
+
+    it('should read a page with its total', async () => {
+      const page = await User.query().orderBy('age').paginate(2, 2).all();
+
+      expect(page).toEqual({ total: 3, page: 2, pageSize: 2, data: [expect.objectContaining({ id: 3 })] });
+    });
+  });
+
+  describe('include()', () => {
+    it('should include relations, narrowed by the callback', async () => {
+      await User.query()
+        .include('posts', posts => posts
+          .where({ published: true })
+          .search({ field: 'title', like: 'first' })
+          .orderBy('title', 'desc')
+          .limit(5)
+          .include('comments'))
+        .all();
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        include: {
+          posts: {
+            include: { comments: true },
+            where: {
+              published: { equals: true },
+              title: { contains: 'first' }
+            },
+            orderBy: [{ title: 'desc' }],
+            take: 5
+          }
+        }
+      }));
+    });
+
+    it('should narrow the relations of an included relation', async () => {
+      await User.query()
+        .include('posts', posts => posts.include('comments', comments => comments.limit(1)))
+        .all();
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        include: { posts: { include: { comments: { take: 1 } } } }
+      }));
+    });
+
+    it('should refuse to narrow a to-one relation', async () => {
+      await expect(User.query()
+        .include('posts', posts => posts.include('author', author => author.where({ name: 'John' })))
+        .all()
+      ).rejects.toThrow('Cannot narrow the include "posts.author": only to-many relations can be filtered.');
+    });
+  });
+
+  describe('terminals', () => {
+    it('should read the first row in order', async () => {
+      const user = await User.query().orderBy('age', 'desc').first();
+
+      expect(user).toMatchObject({ id: 3 });
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 1, skip: 0 }));
+      expect(mockPrismaClient.user.count).not.toHaveBeenCalled();
+    });
+
+    it('should read the first row by relevance when the search ranks', async () => {
+      configurePrisma({ ...mockPrismaClient, _engineConfig: { datasources: [{ activeProvider: 'postgresql' }] } } as any);
+
+      await User.query().search({ field: 'name', matches: 'john', rank: true }).orderBy('age').first();
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: [{ _relevance: { fields: ['name'], search: 'john', sort: 'desc' } }, { age: 'asc' }],
+        take: 1
+      }));
+    });
+
+    it('should count and test for matching rows', async () => {
+      const query = User.query().where({ isActive: true });
+
+      expect(await query.count()).toBe(2);
+      expect(await query.search({ field: 'age', gte: 40 }).exists()).toBe(false);
+    });
+
+    it('should stream the matching rows', async () => {
+      const ids: number[] = [];
+      for await (const user of User.query().where({ isActive: true }).stream({ batchSize: 1 })) {
+        ids.push(user.id!);
+      }
+
+      expect(ids).toEqual([1, 2]);
+    });
+
+    it('should update and delete the matching rows', async () => {
+      const updateByFilter = jest.spyOn(User, 'updateByFilter');
+      const deleteByFilter = jest.spyOn(User, 'deleteByFilter');
+      const inactive = User.query().where({ isActive: false });
+
+      expect(await inactive.update({ name: 'Robert' })).toBe(1);
+      await inactive.delete({ force: true });
+
+      expect(updateByFilter).toHaveBeenCalledWith({ isActive: false }, { name: 'Robert' }, expect.any(Object));
+      expect(deleteByFilter).toHaveBeenCalledWith({ isActive: false }, expect.objectContaining({ force: true }));
+      expect(mockPrismaClient.user.deleteMany).toHaveBeenCalledWith({ where: { isActive: { equals: false } } });
+    });
+  });
+});
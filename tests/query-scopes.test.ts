@@ -0,0 +1,148 @@
+/**
+ * Test suite for query scopes
+ * Tests named scopes through scoped(), the default scope and unscoped(), on the filtered reads
+ * and writes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { SoftDelete } from '../src/core/decorators/soft-delete.decorator';
+import { EntityError } from '../src/core/errors';
+import type { Scope } from '../src/core/structures/types/scope.types';
+import type { Search } from '../src/core/structures/types/search.types';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  isActive?: boolean;
+}
+
+interface IPost {
+  id?: number;
+  title: string;
+  published?: boolean;
+  deletedAt?: Date | null;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  static override scopes: Scope.Definitions = {
+    active: { field: 'isActive', equals: true },
+    adults: { field: 'age', gte: 18 }
+  };
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+  @Property() declare isActive?: boolean;
+}
+
+@SoftDelete()
+class Post extends BaseEntity<IPost> {
+  static override readonly model = mockPrismaClient.post;
+
+  static override defaultScope: Search.Input = { field: 'published', equals: true };
+  static override scopes: Scope.Definitions = { titled: { not: { field: 'title', isNull: true } } };
+
+  @Property() declare title: string;
+  @Property() declare published?: boolean;
+  @Property() declare deletedAt?: Date | null;
+}
+
+function whereOf(mockFn: unknown, call = 0): Record<string, any> {
+  return ((mockFn as jest.Mock).mock.calls[call][0] as { where: Record<string, any> }).where;
+}
+
+describe('Query scopes', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('named scopes', () => {
+    it('should AND the scopes into the where of findByFilter', async () => {
+      await User.scoped('active', 'adults').findByFilter({ name: 'John' });
+
+      expect(whereOf(mockPrismaClient.user.findMany)).toEqual({
+        name: { equals: 'John' },
+        AND: [{ isActive: { equals: true } }, { age: { gte: 18 } }]
+      });
+    });
+
+    it('should keep the caller search alongside the scopes', async () => {
+      await User.scoped('active').countByFilter({}, { search: { field: 'email', like: 'example.com' } });
+
+      expect(whereOf(mockPrismaClient.user.count)).toEqual({
+        AND: [{ isActive: { equals: true } }, { email: { contains: 'example.com' } }]
+      });
+    });
+
+    it('should apply to updateByFilter and deleteByFilter', async () => {
+      await User.scoped('active').updateByFilter({}, { name: 'Jane' });
+      await User.scoped('adults').deleteByFilter({});
+
+      expect(whereOf(mockPrismaClient.user.updateMany)).toEqual({ isActive: { equals: true } });
+      expect(whereOf(mockPrismaClient.user.deleteMany)).toEqual({ age: { gte: 18 } });
+    });
+
+    it('should chain scoped() and accept the scopes option', async () => {
+      await User.scoped('active').scoped('adults').findByFilter({});
+      await User.findByFilter({}, { scopes: ['adults'] });
+
+      expect(whereOf(mockPrismaClient.user.findMany, 0)).toEqual({
+        AND: [{ isActive: { equals: true } }, { age: { gte: 18 } }]
+      });
+      expect(whereOf(mockPrismaClient.user.findMany, 1)).toEqual({ age: { gte: 18 } });
+    });
+
+    it('should reject a scope the class does not declare', async () => {
+      await expect(User.scoped('missing').findByFilter({})).rejects.toThrow(EntityError);
+      await expect(User.scoped('toString').countByFilter({})).rejects.toThrow('Unknown scope "toString"');
+    });
+  });
+
+  describe('default scope', () => {
+    it('should restrict every read, along with the trash condition', async () => {
+      await Post.findByFilter({});
+      await Post.existsByFilter({});
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({
+        AND: [{ deletedAt: { equals: null } }, { published: { equals: true } }]
+      });
+      expect(whereOf(mockPrismaClient.post.findFirst)).toEqual({
+        AND: [{ deletedAt: { equals: null } }, { published: { equals: true } }]
+      });
+    });
+
+    it('should be left out by unscoped(), which still takes named scopes', async () => {
+      await Post.unscoped().findByFilter({});
+      await Post.unscoped().scoped('titled').countByFilter({});
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({ deletedAt: { equals: null } });
+      expect(whereOf(mockPrismaClient.post.count)).toEqual({
+        AND: [{ deletedAt: { equals: null } }, { NOT: { title: { equals: null } } }]
+      });
+    });
+
+    it('should not keep reload() from reading the row', async () => {
+      jest.spyOn(mockPrismaClient.post, 'findMany').mockResolvedValueOnce([{ id: 1, title: 'Draft', published: false }]);
+      const post = new Post({ id: 1, title: 'Old' });
+
+      await post.reload();
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({ id: { equals: 1 } });
+      expect(post.title).toBe('Draft');
+    });
+  });
+});
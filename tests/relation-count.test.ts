@@ -0,0 +1,83 @@
+/**
+ * Test suite for relation count conditions through the filter methods
+ * Tests the groupBy lookup that replaces a count Prisma cannot filter on, and that it runs in the
+ * transaction of the call
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+}
+
+// Posts: user 1 has posts 1 (published) and 2, user 2 has post 3 (published), user 3 none
+describe('Relation counts', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should find the rows with at least n related rows', async () => {
+    const users = await User.findByFilter({}, { search: { field: 'posts', count: { gte: 2 } } }) as IUser[];
+
+    expect(mockPrismaClient.post.groupBy).toHaveBeenCalledWith({
+      by: ['authorId'],
+      where: {},
+      _count: { _all: true }
+    });
+    expect(users.map(user => user.id)).toEqual([1]);
+  });
+
+  it('should only count the related rows the where matches', async () => {
+    const count = await User.countByFilter({}, {
+      search: { field: 'posts', count: { equals: 1 }, where: { field: 'published', equals: true } }
+    });
+
+    expect(mockPrismaClient.post.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { published: { equals: true } }
+    }));
+    expect(count).toBe(2);
+  });
+
+  it('should keep the rows without related rows when the bounds allow none', async () => {
+    const users = await User.findByFilter({}, {
+      search: [{ field: 'posts', count: { lt: 2 } }, { field: 'age', gte: 30 }]
+    }) as IUser[];
+
+    expect(users.map(user => user.id)).toEqual([3]);
+  });
+
+  it('should read the counts in the transaction of the call', async () => {
+    const groupBy = jest.fn(async (_args: unknown) => [{ authorId: 2, _count: { _all: 5 } }]);
+    const tx = { ...mockPrismaClient, post: { ...mockPrismaClient.post, groupBy } };
+
+    const users = await User.findByFilter({}, {
+      search: { field: 'posts', count: { gt: 3 } },
+      tx: tx as any
+    }) as IUser[];
+
+    expect(groupBy).toHaveBeenCalledTimes(1);
+    expect(mockPrismaClient.post.groupBy).not.toHaveBeenCalled();
+    expect(users.map(user => user.id)).toEqual([2]);
+  });
+});
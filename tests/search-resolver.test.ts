@@ -3,7 +3,7 @@
  *
  */
 
-import { describe, it, expect, afterEach, beforeEach } from '@jest/globals';
+import { describe, it, expect, afterEach, beforeEach, jest } from '@jest/globals';
 import SearchResolver from '../src/core/search-resolver';
 import { anyOf, allOf } from '../src/core/search-helpers';
 import { Search } from '../src/core/structures/types/search.types';
@@ -348,6 +348,13 @@ describe('SearchResolver', () => {
       expect(SearchResolver.resolve({ field: 'publishedAt', between: [CUTOFF, CUTOFF] }, productModel))
         .toEqual({ publishedAt: { gte: CUTOFF, lte: CUTOFF, not: null } });
     });
+
+    it('should apply to strict bounds as well', () => {
+      expect(SearchResolver.resolve({ field: 'publishedAt', gt: CUTOFF }, productModel))
+        .toEqual({ publishedAt: { gt: CUTOFF, not: null } });
+      expect(SearchResolver.resolve({ field: 'publishedAt', gte: CUTOFF, lt: CUTOFF }, productModel))
+        .toEqual({ publishedAt: { gte: CUTOFF, lt: CUTOFF, not: null } });
+    });
   });
 
   describe('operators', () => {
@@ -367,7 +374,17 @@ describe('SearchResolver', () => {
       ['gte only', { field: 'price', gte: 10 }, { price: { gte: 10 } }],
       ['lte only', { field: 'price', lte: 20 }, { price: { lte: 20 } }],
       ['gte + lte', { field: 'price', gte: 10, lte: 20 }, { price: { gte: 10, lte: 20 } }],
-      ['between', { field: 'price', between: [10, 20] }, { price: { gte: 10, lte: 20 } }]
+      ['between', { field: 'price', between: [10, 20] }, { price: { gte: 10, lte: 20 } }],
+      ['gt only', { field: 'price', gt: 10 }, { price: { gt: 10 } }],
+      ['lt only', { field: 'price', lt: 20 }, { price: { lt: 20 } }],
+      ['gt + lt', { field: 'price', gt: 10, lt: 20 }, { price: { gt: 10, lt: 20 } }],
+      ['gt + lte', { field: 'price', gt: 10, lte: 20 }, { price: { gt: 10, lte: 20 } }],
+      ['notEquals', { field: 'status', notEquals: 'A' }, { status: { not: 'A' } }],
+      ['notEquals null', { field: 'publishedAt', notEquals: null }, { publishedAt: { not: null } }],
+      ['isNotNull', { field: 'publishedAt', isNotNull: true }, { publishedAt: { not: null } }],
+      ['notLike', { field: 'name', notLike: 'lap' }, { NOT: { name: { contains: 'lap' } } }],
+      ['has', { field: 'tags', has: 'x' }, { tags: { has: 'x' } }],
+      ['isEmpty on a scalar list', { field: 'tags', isEmpty: true }, { tags: { isEmpty: true } }]
     ];
 
     it.each(cases)('should map %s', (_label, condition, expected) => {
@@ -381,6 +398,17 @@ describe('SearchResolver', () => {
       expect(sugar).toEqual(explicit);
     });
 
+    it('should refuse two lower bounds at the type level', () => {
+      // @ts-expect-error gt and gte cannot be combined
+      const condition: Search.Condition = { field: 'price', gt: 1, gte: 2 };
+      expect(condition).toBeDefined();
+    });
+
+    it('should prune notEquals and notLike without a value', () => {
+      expect(SearchResolver.resolve({ field: 'status', notEquals: undefined } as any, productModel)).toBeNull();
+      expect(SearchResolver.resolve({ field: 'name', notLike: '' }, productModel)).toBeNull();
+    });
+
     it('should copy list values instead of aliasing the caller array', () => {
       const values = ['A', 'B'];
       const result = SearchResolver.resolve({ field: 'status', in: values }, productModel) as any;
@@ -391,6 +419,292 @@ describe('SearchResolver', () => {
     });
   });
 
+  describe('R12 - full-text matches', () => {
+    const configureProvider = (provider: string) => {
+      configurePrisma({
+        _engineConfig: { datasources: [{ activeProvider: provider }] },
+        _runtimeDataModel: { models: {} }
+      } as any);
+    };
+
+    afterEach(() => {
+      resetPrismaConfiguration();
+    });
+
+    it('should search every word of the text on PostgreSQL', () => {
+      configureProvider('postgresql');
+
+      expect(SearchResolver.resolve({ field: 'description', matches: 'red  shoes!' }, productModel))
+        .toEqual({ description: { search: 'red & shoes' } });
+    });
+
+    it('should use boolean mode syntax on MySQL', () => {
+      configureProvider('mysql');
+
+      expect(SearchResolver.resolve({ field: 'description', matches: 'red shoes', rank: true }, productModel))
+        .toEqual({ description: { search: '+red +shoes' } });
+    });
+
+    it('should fall back to one like per word elsewhere', () => {
+      expect(SearchResolver.resolve({ field: 'description', matches: 'red shoes', orNull: true }, productModel))
+        .toEqual({
+          AND: [
+            { OR: [{ description: { contains: 'red' } }, { description: { equals: null } }] },
+            { OR: [{ description: { contains: 'shoes' } }, { description: { equals: null } }] }
+          ]
+        });
+    });
+
+    it('should prune a text without words', () => {
+      configureProvider('postgresql');
+
+      expect(SearchResolver.resolve({ field: 'description', matches: ' !? ' }, productModel)).toBeNull();
+      expect(SearchResolver.resolve({ field: 'description', matches: '' }, productModel)).toBeNull();
+    });
+
+    it('should apply to several fields through anyOf', () => {
+      configureProvider('postgresql');
+
+      expect(SearchResolver.resolve(anyOf(['name', 'description'], { matches: 'laptop' }), productModel))
+        .toEqual({ OR: [{ name: { search: 'laptop' } }, { description: { search: 'laptop' } }] });
+    });
+
+    it('should accept rank on matches alone', () => {
+      const ranked: Search.Condition = { field: 'name', matches: 'laptop', rank: true };
+      // @ts-expect-error - rank only accompanies matches
+      const misplaced: Search.Condition = { field: 'name', like: 'laptop', rank: true };
+      // @ts-expect-error - matches is one operator, like another
+      const twoOperators: Search.Condition = { field: 'name', matches: 'laptop', like: 'lap' };
+
+      expect([ranked, misplaced, twoOperators]).toHaveLength(3);
+    });
+  });
+
+  describe('R13 - notLike and isEmpty around the field', () => {
+    afterEach(() => {
+      resetPrismaConfiguration();
+    });
+
+    it('should negate notLike inside the relation it crosses', () => {
+      expect(SearchResolver.resolve({ field: 'category.name', notLike: 'elec' }, productModel))
+        .toEqual({ category: { is: { NOT: { name: { contains: 'elec' } } } } });
+    });
+
+    it('should keep the case mode of notLike outside the negated filter', () => {
+      configurePrisma({
+        _engineConfig: { datasources: [{ activeProvider: 'postgresql' }] },
+        _runtimeDataModel: { models: {} }
+      } as any);
+
+      expect(SearchResolver.resolve({ field: 'name', notLike: 'lap' }, productModel))
+        .toEqual({ NOT: { name: { contains: 'lap', mode: 'insensitive' } } });
+    });
+
+    it('should test a to-many relation for related rows', () => {
+      expect(SearchResolver.resolve({ field: 'reviews', isEmpty: true }, productModel))
+        .toEqual({ reviews: { none: {} } });
+      expect(SearchResolver.resolve({ field: 'reviews', isEmpty: false }, productModel))
+        .toEqual({ reviews: { some: {} } });
+    });
+
+    it('should test an embedded list as a whole on MongoDB', () => {
+      configurePrisma({
+        _engineConfig: { datasources: [{ activeProvider: 'mongodb' }] },
+        _runtimeDataModel: { models: {}, types: { Address: { fields: [] } } }
+      } as any);
+      const modelInfo = { fields: [{ name: 'addresses', kind: 'object', isList: true, type: 'Address' }] };
+
+      expect(SearchResolver.resolve({ field: 'addresses', isEmpty: true }, modelInfo))
+        .toEqual({ addresses: { isEmpty: true } });
+    });
+  });
+
+  describe('R14 - per-segment quantifiers', () => {
+    /** Customer → orders (Order[]) → lines (Line[]) → sku, and Order → customer back */
+    const models = {
+      Customer: { fields: [
+        { name: 'id', kind: 'scalar', isRequired: true },
+        { name: 'orders', kind: 'object', isList: true, type: 'Order', relationName: 'CustomerOrders' }
+      ] },
+      Order: { fields: [
+        { name: 'id', kind: 'scalar', isRequired: true },
+        { name: 'customer', kind: 'object', isList: false, type: 'Customer', relationName: 'CustomerOrders' },
+        { name: 'lines', kind: 'object', isList: true, type: 'Line', relationName: 'OrderLines' }
+      ] },
+      Line: { fields: [{ name: 'sku', kind: 'scalar', isRequired: true }] }
+    };
+
+    beforeEach(() => {
+      configurePrisma({
+        _engineConfig: { datasources: [{ activeProvider: 'sqlite' }] },
+        _runtimeDataModel: { models }
+      } as any);
+    });
+
+    afterEach(() => {
+      resetPrismaConfiguration();
+    });
+
+    it('should quantify each list segment on its own', () => {
+      expect(SearchResolver.resolve({ field: 'orders[every].lines[none].sku', equals: 'A1' }, models.Customer))
+        .toEqual({ orders: { every: { lines: { none: { sku: { equals: 'A1' } } } } } });
+    });
+
+    it('should fall back to relation for the segments without a quantifier', () => {
+      expect(SearchResolver.resolve({ field: 'orders[every].lines.sku', equals: 'A1', relation: 'none' }, models.Customer))
+        .toEqual({ orders: { every: { lines: { none: { sku: { equals: 'A1' } } } } } });
+    });
+
+    it('should ignore a quantifier on a to-one segment', () => {
+      expect(SearchResolver.resolve({ field: 'customer[every].id', equals: 1 }, models.Order))
+        .toEqual({ customer: { is: { id: { equals: 1 } } } });
+    });
+
+    it('should read the field metadata past a quantified segment', () => {
+      // sku is required, so no implicit not:null
+      expect(SearchResolver.resolve({ field: 'orders[some].lines[some].sku', gte: 'A' }, models.Customer))
+        .toEqual({ orders: { some: { lines: { some: { sku: { gte: 'A' } } } } } });
+    });
+
+    it('should reject an unknown quantifier', () => {
+      expect(() => SearchResolver.resolve({ field: 'orders[all].id', equals: 1 }, models.Customer))
+        .toThrow('Unknown quantifier "all" in "orders[all]": use some, every or none.');
+    });
+  });
+
+  describe('R15 - relation counts', () => {
+    /** User → posts (Post[], foreign key authorId) → comments (Comment[], foreign key postId) */
+    const models = {
+      User: { fields: [
+        { name: 'id', kind: 'scalar', isRequired: true },
+        { name: 'name', kind: 'scalar', isRequired: true },
+        { name: 'posts', kind: 'object', isList: true, type: 'Post', relationName: 'UserPosts' }
+      ] },
+      Post: { fields: [
+        { name: 'id', kind: 'scalar', isRequired: true },
+        { name: 'published', kind: 'scalar', isRequired: true },
+        { name: 'author', kind: 'object', isList: false, type: 'User', relationName: 'UserPosts', relationFromFields: ['authorId'], relationToFields: ['id'] },
+        { name: 'comments', kind: 'object', isList: true, type: 'Comment', relationName: 'PostComments' }
+      ] },
+      Comment: { fields: [
+        { name: 'id', kind: 'scalar', isRequired: true },
+        { name: 'post', kind: 'object', isList: false, type: 'Post', relationName: 'PostComments', relationFromFields: ['postId'], relationToFields: ['id'] }
+      ] }
+    };
+
+    /** A client whose groupBy returns the given groups, on every model */
+    const clientCounting = (groups: Array<Record<string, unknown>>) => {
+      const groupBy = jest.fn(async (_args: unknown) => groups);
+      return { client: { post: { groupBy }, comment: { groupBy } }, groupBy };
+    };
+
+    beforeEach(() => {
+      configurePrisma({
+        _engineConfig: { datasources: [{ activeProvider: 'sqlite' }] },
+        _runtimeDataModel: { models }
+      } as any);
+    });
+
+    afterEach(() => {
+      resetPrismaConfiguration();
+    });
+
+    it('should resolve at least one related row to some', () => {
+      expect(SearchResolver.resolve({ field: 'posts', count: { gte: 1 } }, models.User))
+        .toEqual({ posts: { some: {} } });
+      expect(SearchResolver.resolve({ field: 'posts', count: { gt: 0 } }, models.User))
+        .toEqual({ posts: { some: {} } });
+    });
+
+    it('should resolve no related row to none, with the where of the count', () => {
+      expect(SearchResolver.resolve({
+        field: 'posts',
+        count: { equals: 0 },
+        where: { field: 'published', equals: true }
+      }, models.User)).toEqual({ posts: { none: { published: { equals: true } } } });
+    });
+
+    it('should prune a count every row meets', () => {
+      expect(SearchResolver.resolve({ field: 'posts', count: { gte: 0 } }, models.User)).toBeNull();
+    });
+
+    it('should refuse a count that needs the counts read first', () => {
+      expect(() => SearchResolver.resolve({ field: 'posts', count: { gte: 3 } }, models.User))
+        .toThrow('Cannot filter on the count of "posts" in a single query');
+    });
+
+    it('should refuse a count on a field that is not a to-many relation', () => {
+      expect(() => SearchResolver.resolve({ field: 'name', count: { gte: 1 } }, models.User))
+        .toThrow('Cannot count "name": it is not a to-many relation.');
+    });
+
+    it('should replace a count with the keys of the rows within it', async () => {
+      const { client, groupBy } = clientCounting([{ authorId: 1, _count: { _all: 3 } }, { authorId: 2, _count: { _all: 1 } }]);
+
+      const search = await SearchResolver.prefetchCounts({
+        field: 'posts',
+        count: { gte: 3 },
+        where: { field: 'published', equals: true }
+      }, models.User, client);
+
+      expect(groupBy).toHaveBeenCalledWith({
+        by: ['authorId'],
+        where: { published: { equals: true } },
+        _count: { _all: true }
+      });
+      expect(search).toEqual({ field: 'id', in: [1] });
+    });
+
+    it('should keep the rows without related rows when the range holds 0', async () => {
+      const { client } = clientCounting([{ authorId: 1, _count: { _all: 3 } }, { authorId: 2, _count: { _all: 1 } }]);
+
+      expect(await SearchResolver.prefetchCounts({ field: 'posts', count: { lt: 2 } }, models.User, client))
+        .toEqual({ field: 'id', notIn: [1] });
+    });
+
+    it('should match nothing when no row is within the range', async () => {
+      const { client } = clientCounting([{ authorId: 2, _count: { _all: 1 } }]);
+
+      expect(await SearchResolver.prefetchCounts({ field: 'posts', count: { gte: 5 } }, models.User, client))
+        .toEqual({ field: 'id', isNull: true });
+    });
+
+    it('should keep the path and its quantifiers in front of the key', async () => {
+      const { client, groupBy } = clientCounting([{ postId: 7, _count: { _all: 2 } }]);
+
+      const search = await SearchResolver.prefetchCounts(
+        [{ field: 'name', like: 'a' }, { field: 'posts[every].comments', count: { gte: 2 } }],
+        models.User,
+        client
+      );
+
+      expect(groupBy).toHaveBeenCalledWith(expect.objectContaining({ by: ['postId'] }));
+      expect(search).toEqual([{ field: 'name', like: 'a' }, { field: 'posts[every].id', in: [7] }]);
+      expect(SearchResolver.resolve(search, models.User)).toEqual({
+        AND: [
+          { name: { contains: 'a' } },
+          { posts: { every: { id: { in: [7] } } } }
+        ]
+      });
+    });
+
+    it('should leave a tree without counts untouched', async () => {
+      const { client, groupBy } = clientCounting([]);
+      const input: Search.Input = { or: [{ field: 'posts', count: { gte: 1 } }, { field: 'name', equals: 'x' }] };
+
+      expect(await SearchResolver.prefetchCounts(input, models.User, client)).toEqual(input);
+      expect(await SearchResolver.prefetchCounts({ field: 'name', equals: 'x' }, models.User, client))
+        .toEqual({ field: 'name', equals: 'x' });
+      expect(groupBy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a count condition combined with another operator at the type level', () => {
+      // @ts-expect-error count cannot be combined with an operator
+      const condition: Search.Condition = { field: 'posts', count: { gte: 1 }, equals: 1 };
+      expect(condition).toBeDefined();
+    });
+  });
+
   describe('merge with a base filter', () => {
     it('should merge disjoint keys', () => {
       const result = SearchResolver.merge(
@@ -543,6 +857,32 @@ describe('SearchResolver', () => {
     });
   });
 
+  describe('partitionLargeLists', () => {
+    it('should return null when no list exceeds the limit', () => {
+      expect(SearchResolver.partitionLargeLists({ field: 'id', in: [1, 2] }, 10)).toBeNull();
+    });
+
+    it('should drop repeated values before splitting an in list', () => {
+      const values = [...Array.from({ length: 8 }, (_, i) => i), ...Array.from({ length: 8 }, (_, i) => i)];
+      const trees = SearchResolver.partitionLargeLists({
+        and: [{ field: 'isActive', equals: true }, { field: 'id', in: values }]
+      }, 10)!;
+
+      expect(trees).toHaveLength(1);
+      expect((trees[0] as any).and[1].in).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should refuse lists whose chunks would overlap', () => {
+      const values = Array.from({ length: 15 }, (_, i) => i);
+
+      expect(() => SearchResolver.partitionLargeLists({ field: 'id', notIn: values }, 10))
+        .toThrow('Cannot split a list of 15 values into disjoint queries');
+      expect(() => SearchResolver.partitionLargeLists({
+        or: [{ field: 'id', in: values }, { field: 'name', like: 'x' }]
+      }, 10)).toThrow('only an "in" condition joined by "and" can be split');
+    });
+  });
+
   describe('anyOf / allOf helpers', () => {
     it('should build an or node from several fields', () => {
       expect(anyOf(['name', 'email'], { like: 'john' })).toEqual({
@@ -913,6 +1253,27 @@ describe('SearchResolver', () => {
           .toEqual({ metadata: { path: ['tags'], array_contains: ['a', 'b'] } });
       });
 
+      it('should map notEquals, has and isEmpty', () => {
+        expect(SearchResolver.resolve({ field: 'metadata.color', notEquals: 'red' }, jsonModel))
+          .toEqual({ metadata: { path: ['color'], not: 'red' } });
+        expect(SearchResolver.resolve({ field: 'metadata.tags', has: 'a' }, jsonModel))
+          .toEqual({ metadata: { path: ['tags'], array_contains: ['a'] } });
+        expect(SearchResolver.resolve({ field: 'metadata.tags', isEmpty: true }, jsonModel))
+          .toEqual({ metadata: { path: ['tags'], equals: [] } });
+        expect(SearchResolver.resolve({ field: 'metadata.tags', isEmpty: false }, jsonModel))
+          .toEqual({ metadata: { path: ['tags'], not: [] } });
+      });
+
+      it('should map strict bounds', () => {
+        expect(SearchResolver.resolve({ field: 'metadata.score', gt: 1, lt: 5 }, jsonModel))
+          .toEqual({ metadata: { path: ['score'], gt: 1, lt: 5 } });
+      });
+
+      it('should negate a string_contains for notLike', () => {
+        expect(SearchResolver.resolve({ field: 'metadata.name', notLike: 'jo' }, jsonModel))
+          .toEqual({ NOT: { metadata: { path: ['name'], string_contains: 'jo', mode: 'insensitive' } } });
+      });
+
       it('should reach a JSON column through a relation', () => {
         // author → User → metadata (Json). The related model must be resolvable.
         configureProvider('postgresql', {
@@ -935,6 +1296,7 @@ describe('SearchResolver', () => {
       it('should drop an operator with no JSON equivalent', () => {
         expect(SearchResolver.resolve({ field: 'metadata.a', in: ['x'] } as any, jsonModel)).toBeNull();
         expect(SearchResolver.resolve({ field: 'metadata.a', hasSome: ['x'] } as any, jsonModel)).toBeNull();
+        expect(SearchResolver.resolve({ field: 'metadata.a', isNotNull: true }, jsonModel)).toBeNull();
       });
 
       it('should drop a condition whose value is empty', () => {
@@ -0,0 +1,175 @@
+/**
+ * Test suite for entity serialization
+ * Tests the serialization decorators, groups, value conversion, relations and cycles in
+ * toObject() / toJson(), and that writes still see hidden properties
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { Expose, Hidden, SerializeAs, Transform } from '../src/core/decorators/serialization.decorator';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IPost {
+  id?: number;
+  title: string;
+  author?: object;
+}
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  passwordHash?: string;
+  balance?: unknown;
+  views?: bigint;
+  avatar?: Uint8Array;
+  birthday?: Date;
+  posts?: object[];
+}
+
+class Post extends BaseEntity<IPost> {
+  static override readonly model = mockPrismaClient.post;
+
+  @Property() declare title: string;
+  @Hidden() @Property() declare author?: object;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @SerializeAs('displayName') @Property() declare name: string;
+  @Expose({ groups: ['admin', 'self'] }) @Property() declare email: string;
+  @Hidden() @Property() declare passwordHash?: string;
+  @Property() declare balance?: unknown;
+  @Transform((views: bigint | undefined) => (views === undefined ? undefined : views * 2n)) @Property() declare views?: bigint;
+  @Property() declare avatar?: Uint8Array;
+  @Property() declare birthday?: Date;
+  @Property() declare posts?: object[];
+}
+
+class AdminUser extends User {
+  @Expose() declare passwordHash?: string;
+}
+
+const decimal = (value: string) => ({
+  d: [Number.parseInt(value.replace('.', ''))],
+  e: value.indexOf('.') - 1,
+  s: 1,
+  toNumber: () => Number(value),
+  toString: () => value
+});
+
+describe('Serialization', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('decorators', () => {
+    it('should leave hidden properties out and rename with @SerializeAs', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com', passwordHash: 'secret' });
+
+      expect(user.toObject()).toEqual({ id: 1, displayName: 'Jane' });
+    });
+
+    it('should keep grouped properties only when one of their groups is asked for', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com' });
+
+      expect(user.toObject({ groups: ['public'] })).not.toHaveProperty('email');
+      expect(user.toObject({ groups: ['public', 'self'] })).toMatchObject({ email: 'jane@example.com' });
+    });
+
+    it('should let a subclass expose what its parent hides, without changing the parent', () => {
+      const data = { id: 1, name: 'Jane', email: 'jane@example.com', passwordHash: 'secret' };
+
+      expect(new AdminUser(data).toObject()).toMatchObject({ passwordHash: 'secret' });
+      expect(new User(data).toObject()).not.toHaveProperty('passwordHash');
+    });
+
+    it('should serialize the transformed value', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com', views: 21n });
+
+      expect(user.toObject()).toMatchObject({ views: 42n });
+      expect(JSON.parse(user.toJson())).toMatchObject({ views: '42' });
+    });
+  });
+
+  describe('values', () => {
+    const birthday = new Date('1990-01-01T00:00:00.000Z');
+    const data = {
+      id: 1,
+      name: 'Jane',
+      email: 'jane@example.com',
+      balance: decimal('10.50'),
+      avatar: Buffer.from('hi'),
+      birthday
+    };
+
+    it('should keep values as they are in toObject()', () => {
+      const object = new User(data).toObject() as Record<string, any>;
+
+      expect(object.birthday).toBe(birthday);
+      expect(object.balance.toString()).toBe('10.50');
+      expect(Buffer.isBuffer(object.avatar)).toBe(true);
+    });
+
+    it('should convert BigInt, Decimal, Date and Bytes for JSON', () => {
+      const user = new User({ ...data, views: 1n, avatar: new Uint8Array([104, 105]) });
+      const expected = { balance: '10.50', views: '2', avatar: 'aGk=', birthday: '1990-01-01T00:00:00.000Z' };
+
+      expect(user.toObject({ json: true })).toMatchObject(expected);
+      expect(JSON.parse(user.toJson())).toMatchObject(expected);
+    });
+  });
+
+  describe('relations', () => {
+    it('should apply the decorators of related entities', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com' });
+      user.posts = [new Post({ id: 10, title: 'Hello', author: user })];
+
+      expect(user.toObject()).toEqual({ id: 1, displayName: 'Jane', posts: [{ id: 10, title: 'Hello' }] });
+    });
+
+    it('should leave out an object met again below itself', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com' });
+      const post = { id: 10, title: 'Hello', author: user };
+      user.posts = [post, { id: 11, title: 'Again', author: { id: 2, name: 'Joe' } }];
+
+      expect(user.toJson()).toBeDefined();
+      expect(user.toObject().posts).toEqual([
+        { id: 10, title: 'Hello' },
+        { id: 11, title: 'Again', author: { id: 2, name: 'Joe' } }
+      ]);
+    });
+
+    it('should output an object met twice side by side both times', () => {
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com' });
+      const post = { id: 10, title: 'Hello' };
+      user.posts = [post, post];
+
+      expect(user.toObject().posts).toEqual([post, post]);
+    });
+  });
+
+  describe('writes', () => {
+    it('should still track and write hidden properties', async () => {
+      const update = jest.spyOn(mockPrismaClient.user, 'update').mockResolvedValueOnce({ id: 1 });
+      const user = new User({ id: 1, name: 'Jane', email: 'jane@example.com', passwordHash: 'old' });
+      user.markClean();
+      user.passwordHash = 'new';
+
+      expect(user.getChanges()).toEqual({ passwordHash: { from: 'old', to: 'new' } });
+
+      await user.update();
+
+      expect(update).toHaveBeenCalledWith({ where: { id: 1 }, data: { passwordHash: 'new' } });
+    });
+  });
+});
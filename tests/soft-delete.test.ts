@@ -0,0 +1,273 @@
+/**
+ * Test suite for soft delete
+ * Tests @SoftDelete() entities: deletes, trash scoping of reads, relation filters, includes and
+ * upsert revival
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityBatch from '../src/core/base-entity-batch';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { SoftDelete } from '../src/core/decorators/soft-delete.decorator';
+import { Property } from '../src/core/decorators/property.decorator';
+import SearchResolver from '../src/core/search-resolver';
+import ModelUtils from '../src/core/model-utils';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IPost {
+  id?: number;
+  title: string;
+  authorId?: number;
+  deletedAt?: Date | null;
+}
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+}
+
+@SoftDelete()
+class Post extends BaseEntity<IPost> {
+  static override readonly model = mockPrismaClient.post;
+
+  @Property() declare title: string;
+  @Property() declare authorId?: number;
+  @Property() declare deletedAt?: Date | null;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+}
+
+function whereOf(mockFn: unknown, call = 0): Record<string, any> {
+  return ((mockFn as jest.Mock).mock.calls[call][0] as { where: Record<string, any> }).where;
+}
+
+describe('Soft delete', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('instance methods', () => {
+    it('should stamp the column instead of deleting the row', async () => {
+      const post = new Post({ id: 1, title: 'First Post' });
+
+      const result = await post.delete();
+
+      expect(result).toBe(1);
+      expect(mockPrismaClient.post.delete).not.toHaveBeenCalled();
+      expect(mockPrismaClient.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: expect.any(Date) }
+      });
+      expect(post.deletedAt).toBeInstanceOf(Date);
+    });
+
+    it('should remove the row with forceDelete()', async () => {
+      const post = new Post({ id: 1, title: 'First Post' });
+
+      await post.forceDelete();
+
+      expect(mockPrismaClient.post.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(mockPrismaClient.post.update).not.toHaveBeenCalled();
+    });
+
+    it('should clear the column with restore()', async () => {
+      const post = new Post({ id: 1, title: 'First Post', deletedAt: new Date() });
+
+      await post.restore();
+
+      expect(mockPrismaClient.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { deletedAt: null }
+      });
+      expect(post.deletedAt).toBeNull();
+    });
+
+    it('should refuse restore() on an entity that does not soft-delete', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+
+      await expect(user.restore()).rejects.toThrow('does not soft-delete');
+    });
+
+    it('should keep deleting rows of entities without @SoftDelete()', async () => {
+      const user = new User({ id: 1, name: 'John Doe', email: 'john@example.com' });
+
+      await user.delete();
+
+      expect(mockPrismaClient.user.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+
+    it('should write the column as null on create', async () => {
+      await new Post({ title: 'New' }).create();
+
+      expect(mockPrismaClient.post.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ title: 'New', deletedAt: null })
+      });
+    });
+  });
+
+  describe('reads', () => {
+    it('should hide soft-deleted rows by default', async () => {
+      await Post.findByFilter({ published: true } as any);
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({
+        published: { equals: true },
+        deletedAt: { equals: null }
+      });
+    });
+
+    it('should keep the condition outside a root-level OR', async () => {
+      await Post.findByFilter({}, {
+        search: { or: [{ field: 'title', equals: 'A' }, { field: 'title', equals: 'B' }] }
+      });
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({
+        AND: [
+          { deletedAt: { equals: null } },
+          { OR: [{ title: { equals: 'A' } }, { title: { equals: 'B' } }] }
+        ]
+      });
+    });
+
+    it('should return everything with withTrashed', async () => {
+      await Post.findByFilter({}, { withTrashed: true });
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({});
+    });
+
+    it('should return soft-deleted rows only with onlyTrashed', async () => {
+      await Post.findByFilter({}, { onlyTrashed: true });
+
+      expect(whereOf(mockPrismaClient.post.findMany)).toEqual({ NOT: { deletedAt: { equals: null } } });
+    });
+
+    it('should scope countByFilter', async () => {
+      await Post.countByFilter({}, { onlyTrashed: true });
+
+      expect(whereOf(mockPrismaClient.post.count)).toEqual({ NOT: { deletedAt: { equals: null } } });
+    });
+
+    it('should leave other entities untouched', async () => {
+      await User.findByFilter({ isActive: true } as any);
+
+      expect(whereOf(mockPrismaClient.user.findMany)).toEqual({ isActive: { equals: true } });
+    });
+  });
+
+  describe('relations', () => {
+    it('should only consider live related rows in a search path', () => {
+      const modelInfo = ModelUtils.getModelInformationCached('User', mockPrismaClient);
+
+      expect(SearchResolver.resolve({ field: 'posts.title', equals: 'A' }, modelInfo)).toEqual({
+        posts: { some: { title: { equals: 'A' }, deletedAt: null } }
+      });
+      expect(SearchResolver.resolve({ field: 'posts.title', equals: 'A', relation: 'every' }, modelInfo)).toEqual({
+        posts: { every: { OR: [{ title: { equals: 'A' } }, { NOT: { deletedAt: null } }] } }
+      });
+    });
+
+    it('should only consider live related rows in a nested plain filter', async () => {
+      await User.findByFilter({ posts: { title: 'A' } } as any);
+
+      expect(whereOf(mockPrismaClient.user.findMany)).toEqual({
+        posts: { some: { title: { equals: 'A' }, deletedAt: null } }
+      });
+    });
+
+    it('should leave soft-deleted rows out of to-many includes', async () => {
+      const include = await ModelUtils.getIncludesTree('User', [{ posts: [] }, { comments: [] }], 0, mockPrismaClient);
+
+      expect(include).toEqual({
+        posts: { where: { deletedAt: null } },
+        comments: true
+      });
+    });
+  });
+
+  describe('batch deletes', () => {
+    it('should stamp matching live rows in deleteByFilter', async () => {
+      await Post.deleteByFilter({ authorId: 1 }, { withTrashed: true });
+
+      expect(mockPrismaClient.post.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith({
+        where: { authorId: { equals: 1 }, deletedAt: { equals: null } },
+        data: { deletedAt: expect.any(Date) }
+      });
+    });
+
+    it('should remove rows in deleteByFilter with force, honouring onlyTrashed', async () => {
+      await Post.deleteByFilter({}, { force: true, onlyTrashed: true });
+
+      expect(mockPrismaClient.post.updateMany).not.toHaveBeenCalled();
+      expect(whereOf(mockPrismaClient.post.deleteMany)).toEqual({ NOT: { deletedAt: { equals: null } } });
+    });
+
+    it('should stamp rows in deleteByIds', async () => {
+      await Post.deleteByIds([1, 2]);
+
+      expect(mockPrismaClient.post.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2] }, deletedAt: null },
+        data: { deletedAt: expect.any(Date) }
+      });
+    });
+
+    it('should remove rows in deleteByIds with force', async () => {
+      await Post.deleteByIds([1, 2], { force: true });
+
+      expect(mockPrismaClient.post.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } } });
+    });
+
+    it('should skip soft-deleted rows in updateByFilter', async () => {
+      await Post.updateByFilter({ authorId: 1 }, { title: 'Renamed' });
+
+      expect(whereOf(mockPrismaClient.post.updateMany)).toEqual({
+        authorId: { equals: 1 },
+        deletedAt: { equals: null }
+      });
+    });
+  });
+
+  describe('upserts', () => {
+    it('should send the column as null so a soft-deleted match is revived', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'upsertMany').mockResolvedValueOnce({} as any);
+
+      await Post.upsertMany([
+        { title: 'A' },
+        { title: 'B', deletedAt: new Date('2024-01-01') }
+      ]);
+
+      expect(spy.mock.calls[0][3]).toEqual([
+        { title: 'A', deletedAt: null },
+        { title: 'B', deletedAt: new Date('2024-01-01') }
+      ]);
+    });
+
+    it('should revive a soft-deleted row in upsert()', async () => {
+      jest.spyOn(ModelUtils, 'getUniqueConstraints').mockReturnValue([['title']]);
+      jest.spyOn(mockPrismaClient.post, 'findFirst').mockResolvedValueOnce({
+        id: 1,
+        title: 'First Post',
+        deletedAt: new Date('2024-01-01')
+      });
+
+      await Post.upsert({ title: 'First Post' });
+
+      expect(mockPrismaClient.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ title: 'First Post', deletedAt: null })
+      });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Test suite for streaming reads
+ * Tests stream(): the rows of every keyset batch in order, NULLs of the order included, batches
+ * instead of rows, the rate limiter, includes and hydration, and stopping through an AbortSignal
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, getRateLimiter, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+  @Property() declare age?: number;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('stream()', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should yield every row, one query per batch', async () => {
+    const users = await collect(User.stream({}, { batchSize: 2 }));
+
+    expect(users.map(user => user.id)).toEqual([1, 2, 3]);
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledTimes(2);
+    expect(mockPrismaClient.user.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { id: { gt: 2 } },
+      take: 3
+    }));
+  });
+
+  it('should yield the rows with NULLs in a nullable order column', async () => {
+    const modelInfo = User.getModelInformation();
+    jest.spyOn(User, 'getModelInformation').mockReturnValue({
+      ...modelInfo,
+      fields: modelInfo.fields.map(field => field.name === 'age' ? { ...field, isRequired: false } : field)
+    });
+    await mockPrismaClient.user.create({ data: { name: 'Ann', email: 'ann@example.com', age: null } });
+    await mockPrismaClient.user.create({ data: { name: 'Al', email: 'al@example.com', age: null } });
+
+    const ascending = await collect(User.stream({}, { batchSize: 1, orderBy: { age: 'asc' } }));
+    const descending = await collect(User.stream({}, { batchSize: 1, orderBy: { age: 'desc' } }));
+
+    expect(ascending.map(user => user.id)).toEqual([4, 5, 2, 1, 3]);
+    expect(descending.map(user => user.id)).toEqual([3, 1, 2, 4, 5]);
+  });
+
+  it('should yield the batches with batches: true', async () => {
+    const batches = await collect(User.stream({}, { batchSize: 2, batches: true, orderBy: { age: 'desc' } }));
+
+    expect(batches.map(batch => batch.map(user => user.id))).toEqual([[3, 1], [2]]);
+  });
+
+  it('should apply the filter and search', async () => {
+    const users = await collect(User.stream({ name: 'Jane Smith' } as Partial<IUser>, {
+      search: { field: 'age', lte: 30 }
+    }));
+
+    expect(users.map(user => user.id)).toEqual([2]);
+  });
+
+  it('should not read anything before the iteration starts', () => {
+    User.stream({});
+
+    expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should wait for the rate limiter before each query', async () => {
+    const acquire = jest.spyOn(getRateLimiter()!, 'acquire');
+
+    await collect(User.stream({}, { batchSize: 1 }));
+
+    expect(acquire).toHaveBeenCalledTimes(3);
+  });
+
+  it('should include relations and hydrate the rows', async () => {
+    const users = await collect(User.stream({}, { relationsToInclude: [{ posts: [] }], hydrate: true }));
+
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      include: { posts: true }
+    }));
+    expect(users[0]).toBeInstanceOf(User);
+  });
+
+  it('should stop before the next query once the signal aborts', async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+
+    await expect((async () => {
+      for await (const user of User.stream({}, { batchSize: 1, signal: controller.signal })) {
+        seen.push(user.id!);
+        controller.abort(new Error('export cancelled'));
+      }
+    })()).rejects.toThrow('export cancelled');
+
+    expect(seen).toEqual([1]);
+    expect(mockPrismaClient.user.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop on a signal without throwIfAborted or reason, as on early Node 16', async () => {
+    const signal = { aborted: true } as AbortSignal;
+
+    await expect(collect(User.stream({}, { signal }))).rejects.toThrow('The operation was aborted');
+    expect(mockPrismaClient.user.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject a batch size that is not a positive integer', async () => {
+    await expect(collect(User.stream({}, { batchSize: 0 }))).rejects.toThrow('batchSize must be a positive integer');
+  });
+});
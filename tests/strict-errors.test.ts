@@ -0,0 +1,120 @@
+/**
+ * Test suite for typed errors raised by entity methods
+ * Tests the mapping of Prisma errors and the strictErrors mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import {
+  EntityNotFoundError,
+  ForeignKeyError,
+  ModelNotConfiguredError,
+  UniqueConstraintError
+} from '../src/core/errors';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+}
+
+class Unconfigured extends BaseEntity<IUser> {
+  static override readonly model = undefined;
+}
+
+function prismaError(code: string, meta?: Record<string, unknown>): Error {
+  return Object.assign(new Error(`Prisma error ${code}`), { code, meta });
+}
+
+describe('Typed errors', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  it('should raise UniqueConstraintError from create()', async () => {
+    jest.spyOn(mockPrismaClient.user, 'create').mockRejectedValueOnce(prismaError('P2002', { target: ['email'] }));
+
+    const error = await new User({ name: 'John', email: 'taken@example.com' }).create().catch(e => e);
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error).toMatchObject({ modelName: 'user', fields: ['email'] });
+  });
+
+  it('should raise EntityNotFoundError from update() of a missing row', async () => {
+    jest.spyOn(mockPrismaClient.user, 'update').mockRejectedValueOnce(prismaError('P2025'));
+
+    const error = await new User({ id: 42, name: 'John', email: 'john@example.com' }).update().catch(e => e);
+
+    expect(error).toBeInstanceOf(EntityNotFoundError);
+    expect(error.where).toEqual({ id: 42 });
+  });
+
+  it('should raise ModelNotConfiguredError for a class without a model', async () => {
+    await expect(new Unconfigured({ name: 'John', email: 'john@example.com' }).create())
+      .rejects.toThrow(ModelNotConfiguredError);
+  });
+
+  describe('default mode', () => {
+    it('should keep returning 0 from a failed delete()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'delete').mockRejectedValueOnce(prismaError('P2025'));
+
+      await expect(new User({ id: 42, name: 'John', email: 'john@example.com' }).delete()).resolves.toBe(0);
+    });
+
+    it('should keep returning 0 from a failed deleteByFilter()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'deleteMany').mockRejectedValueOnce(prismaError('P2003'));
+
+      await expect(User.deleteByFilter({ name: 'John' })).resolves.toBe(0);
+    });
+  });
+
+  describe('strict mode', () => {
+    beforeEach(() => {
+      configurePrisma(mockPrismaClient as any, { strictErrors: true });
+    });
+
+    it('should throw from a failed delete()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'delete').mockRejectedValueOnce(prismaError('P2025'));
+
+      const error = await new User({ id: 42, name: 'John', email: 'john@example.com' }).delete().catch(e => e);
+
+      expect(error).toBeInstanceOf(EntityNotFoundError);
+      expect(error.message).toBe('user not found (id = 42).');
+    });
+
+    it('should throw from a failed deleteByFilter()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'deleteMany').mockRejectedValueOnce(prismaError('P2003', { field_name: 'authorId' }));
+
+      await expect(User.deleteByFilter({ name: 'John' })).rejects.toThrow(ForeignKeyError);
+    });
+
+    it('should throw from a failed updateByFilter()', async () => {
+      jest.spyOn(mockPrismaClient.user, 'updateMany').mockRejectedValueOnce(prismaError('P2002', { target: ['email'] }));
+
+      await expect(User.updateByFilter({ name: 'John' }, { email: 'same@example.com' }))
+        .rejects.toThrow(UniqueConstraintError);
+    });
+
+    it('should reject strictErrors values that are not booleans', () => {
+      expect(() => configurePrisma(mockPrismaClient as any, { strictErrors: 'yes' as any }))
+        .toThrow('strictErrors must be a boolean');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Test suite for the unit of work
+ * Tests runUnitOfWork(): the identity map of the entities read inside it, and the flush of new,
+ * changed and removed entities through the batch methods, in dependency order and one transaction
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import { Property } from '../src/core/decorators/property.decorator';
+import { Version } from '../src/core/decorators/version.decorator';
+import { getActiveUnitOfWork, runUnitOfWork } from '../src/core/unit-of-work';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+}
+
+interface IPost {
+  id?: number;
+  title: string;
+  authorId?: number;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare email: string;
+}
+
+@Version()
+class Account extends BaseEntity<IUser & { version?: number }> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare version?: number;
+}
+
+@Version('updatedAt')
+class Profile extends BaseEntity<IUser & { updatedAt?: Date }> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Property() declare name: string;
+  @Property() declare updatedAt?: Date;
+}
+
+/** Classes on the PascalCase models of the runtime data model, which know their relations */
+class Author extends BaseEntity<IUser> {
+  static override readonly model = { name: 'User' } as any;
+
+  @Property() declare name: string;
+}
+
+class Article extends BaseEntity<IPost> {
+  static override readonly model = { name: 'Post' } as any;
+
+  @Property() declare title: string;
+  @Property() declare authorId?: number;
+}
+
+describe('Unit of work', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('identity map', () => {
+    it('should return one instance per primary key', async () => {
+      await runUnitOfWork(async uow => {
+        const first = await User.findById(1);
+        const [again] = await User.findByFilter({ email: 'john@example.com' }) as User[];
+
+        expect(first).toBeInstanceOf(User);
+        expect(again).toBe(first);
+        expect(await uow.find(User, 1)).toBe(first);
+        expect(uow.get(User, 1)).toBe(first);
+      });
+    });
+
+    it('should keep unsaved changes when a row is read again', async () => {
+      await runUnitOfWork(async () => {
+        const user = await User.findById(1) as User;
+        user.name = 'John';
+
+        const [again] = await User.findByFilter({}) as User[];
+        expect(again.name).toBe('John');
+      });
+    });
+
+    it('should only find the database when the instance is not held', async () => {
+      await runUnitOfWork(async uow => {
+        await uow.find(User, 1);
+        await uow.find(User, 1);
+        expect(await uow.find(User, 99)).toBeNull();
+      });
+
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse to attach an entity without its key', async () => {
+      await runUnitOfWork(async uow => {
+        expect(() => uow.attach(new User({ name: 'Ann', email: 'ann@example.com' }))).toThrow(
+          'Cannot attach an entity without its primary key'
+        );
+      });
+    });
+
+    it('should only be active inside the callback, and not nest', async () => {
+      expect(getActiveUnitOfWork()).toBeNull();
+
+      await runUnitOfWork(async uow => {
+        expect(getActiveUnitOfWork()).toBe(uow);
+        await expect(runUnitOfWork(async () => undefined)).rejects.toThrow('Nested units of work are not supported');
+      });
+    });
+  });
+
+  describe('flush', () => {
+    it('should write new, changed and removed entities in one transaction', async () => {
+      const createMany = jest.spyOn(User, 'createMany').mockResolvedValueOnce(1);
+      const updateManyById = jest.spyOn(User, 'updateManyById').mockResolvedValueOnce(2);
+      const deleteByIds = jest.spyOn(User, 'deleteByIds').mockResolvedValueOnce(1);
+
+      await runUnitOfWork(async uow => {
+        const [john, jane, third] = await User.findByFilter({}) as User[];
+        john.name = 'John';
+        jane.email = 'jane@example.org';
+        uow.remove(third);
+        uow.add(new User({ name: 'Ann', email: 'ann@example.com' }));
+      });
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(createMany).toHaveBeenCalledWith([{ name: 'Ann', email: 'ann@example.com' }]);
+      expect(updateManyById).toHaveBeenCalledWith([
+        { id: 1, name: 'John' },
+        { id: 2, email: 'jane@example.org' }
+      ]);
+      expect(deleteByIds).toHaveBeenCalledWith([3]);
+    });
+
+    it('should report what it wrote and leave the entities clean', async () => {
+      jest.spyOn(User, 'updateManyById').mockResolvedValue(1);
+
+      await runUnitOfWork(async uow => {
+        const user = await uow.find(User, 1) as User;
+        user.name = 'John';
+
+        expect(await uow.flush()).toEqual({ created: 0, updated: 1, deleted: 0 });
+        expect(user.isDirty()).toBe(false);
+        expect(await uow.flush()).toEqual({ created: 0, updated: 0, deleted: 0 });
+      });
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move a versioned entity to the version it wrote, flush after flush', async () => {
+      const updateManyById = jest.spyOn(Account, 'updateManyById').mockResolvedValue(1);
+
+      await runUnitOfWork(async uow => {
+        const account = uow.attach(new Account({ id: 1, name: 'John', version: 3 }));
+        account.markClean();
+
+        account.name = 'Johnny';
+        await uow.flush();
+        expect(account.version).toBe(4);
+
+        account.name = 'John';
+        await uow.flush();
+        expect(account.version).toBe(5);
+        expect(account.isDirty()).toBe(false);
+      });
+
+      expect(updateManyById.mock.calls.map(([items]) => items)).toEqual([
+        [{ id: 1, name: 'Johnny', version: 3 }],
+        [{ id: 1, name: 'John', version: 4 }]
+      ]);
+    });
+
+    it('should read back the timestamp a versioned entity wrote', async () => {
+      const written = new Date('2026-03-01T00:00:00Z');
+      jest.spyOn(Profile, 'updateManyById').mockResolvedValue(1);
+      const findById = jest.spyOn(Profile, 'findById').mockResolvedValue({ id: 1, name: 'Jo', updatedAt: written });
+
+      await runUnitOfWork(async uow => {
+        const profile = uow.attach(new Profile({ id: 1, name: 'John', updatedAt: new Date('2026-01-01T00:00:00Z') }));
+        profile.markClean();
+        profile.name = 'Jo';
+        await uow.flush();
+
+        expect(profile.updatedAt).toEqual(written);
+      });
+
+      expect(findById).toHaveBeenCalledWith(1, { hydrate: false });
+    });
+
+    it('should insert parents first and delete children first', async () => {
+      const calls: string[] = [];
+      jest.spyOn(Author, 'createMany').mockImplementation(async () => { calls.push('create User'); return 1; });
+      jest.spyOn(Article, 'createMany').mockImplementation(async () => { calls.push('create Post'); return 1; });
+      jest.spyOn(Author, 'deleteByIds').mockImplementation(async () => { calls.push('delete User'); return 1; });
+      jest.spyOn(Article, 'deleteByIds').mockImplementation(async () => { calls.push('delete Post'); return 1; });
+
+      await runUnitOfWork(async uow => {
+        uow.add(new Article({ title: 'Hello', authorId: 9 }));
+        uow.add(new Author({ id: 9, name: 'Ann' }));
+        uow.remove(new Article({ id: 1, title: 'Old' }));
+        uow.remove(new Author({ id: 2, name: 'Jane' }));
+      });
+
+      expect(calls).toEqual(['create User', 'create Post', 'delete Post', 'delete User']);
+    });
+
+    it('should write nothing when the callback throws', async () => {
+      const createMany = jest.spyOn(User, 'createMany');
+
+      await expect(runUnitOfWork(async uow => {
+        uow.add(new User({ name: 'Ann', email: 'ann@example.com' }));
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(createMany).not.toHaveBeenCalled();
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not insert an entity removed after it was added', async () => {
+      const createMany = jest.spyOn(User, 'createMany');
+      const deleteByIds = jest.spyOn(User, 'deleteByIds');
+
+      await runUnitOfWork(async uow => {
+        const user = uow.add(new User({ name: 'Ann', email: 'ann@example.com' }));
+        uow.remove(user);
+      });
+
+      expect(createMany).not.toHaveBeenCalled();
+      expect(deleteByIds).not.toHaveBeenCalled();
+    });
+  });
+});
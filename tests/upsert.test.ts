@@ -8,6 +8,7 @@ import BaseEntity from '../src/core/base-entity';
 import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
 import { clearDatabaseProviderCache } from '../src/core/utils/database-utils';
 import { clearUpsertMetadataCache } from '../src/core/upsert-utils';
+import type { EntityId } from '../src/core/primary-key';
 import ModelUtils from '../src/core/model-utils';
 import { createMockModel, mockPrismaClient } from './__mocks__/prisma-client.mock';
 
@@ -16,7 +17,7 @@ const originalDatabaseUrl = process.env.DATABASE_URL;
 function expectDetailedCounts(
   result: {
     counts: { created: number; updated: number; unchanged: number; total: number };
-    items: { createdIds: Array<number | string>; updatedIds: Array<number | string>; unchangedIds: Array<number | string> };
+    items: { createdIds: Array<EntityId>; updatedIds: Array<EntityId>; unchangedIds: Array<EntityId> };
   },
   expected: { created: number; updated: number; unchanged: number; total: number }
 ) {
@@ -8,8 +8,25 @@ import {
     logError,
     isUniqueConstraintError,
     handleUniqueConstraintError,
-    withErrorHandling
+    withErrorHandling,
+    toEntityError,
+    logOrThrow,
+    reportBatchFailures
 } from '../../src/core/utils/error-utils';
+import {
+    BatchPartialFailureError,
+    EntityNotFoundError,
+    ForeignKeyError,
+    TransactionConflictError,
+    UniqueConstraintError
+} from '../../src/core/errors';
+import { configurePrisma, resetPrismaConfiguration } from '../../src/core/config';
+import { mockPrismaClient } from '../__mocks__/prisma-client.mock';
+
+/** A Prisma known request error, as far as the mapping reads it */
+function prismaError(code: string, meta?: Record<string, unknown>, message = `Prisma error ${code}`): Error {
+    return Object.assign(new Error(message), { code, meta });
+}
 
 describe('Error Utils', () => {
     // Mock console.error and console.log
@@ -37,8 +54,8 @@ describe('Error Utils', () => {
             logError(context, error);
 
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation:'),
-                'Test error message'
+                'Error in testOperation',
+                { operation: 'testOperation', error: 'Test error message' }
             );
         });
 
@@ -53,12 +70,8 @@ describe('Error Utils', () => {
             logError(context, error, additionalInfo);
 
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation:'),
-                'Test error'
-            );
-            expect(consoleErrorSpy).toHaveBeenCalledWith(
-                'Additional info:',
-                additionalInfo
+                'Error in testOperation',
+                { operation: 'testOperation', error: 'Test error', batchIndex: 5, recordCount: 100 }
             );
         });
 
@@ -73,8 +86,8 @@ describe('Error Utils', () => {
             logError(context, error);
 
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation:'),
-                'Test error'
+                'Error in testOperation',
+                expect.objectContaining({ error: 'Test error' })
             );
         });
 
@@ -89,8 +102,8 @@ describe('Error Utils', () => {
 
             expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation:'),
-                'Test error'
+                'Error in testOperation',
+                { operation: 'testOperation', error: 'Test error' }
             );
         });
 
@@ -361,12 +374,12 @@ describe('Error Utils', () => {
             ).rejects.toThrow('Fallback failed');
 
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation'),
-                'Operation failed'
+                'Error in testOperation',
+                expect.objectContaining({ error: 'Operation failed' })
             );
             expect(consoleErrorSpy).toHaveBeenCalledWith(
-                expect.stringContaining('❌ Error in testOperation (fallback)'),
-                'Fallback failed'
+                'Error in testOperation (fallback)',
+                expect.objectContaining({ error: 'Fallback failed' })
             );
         });
 
@@ -382,4 +395,117 @@ describe('Error Utils', () => {
             expect(operation).toHaveBeenCalledTimes(1);
         });
     });
+    describe('toEntityError', () => {
+        /**
+         * Test: should map the Prisma codes to typed errors
+         */
+        it('should map the Prisma codes to typed errors', () => {
+            const unique = toEntityError(prismaError('P2002', { target: ['email'] }), 'User');
+            expect(unique).toBeInstanceOf(UniqueConstraintError);
+            expect(unique).toMatchObject({ modelName: 'User', fields: ['email'] });
+
+            expect(toEntityError(prismaError('P2003', { field_name: 'authorId' }), 'Post'))
+                .toMatchObject({ name: 'ForeignKeyError', field: 'authorId' });
+            expect(toEntityError(prismaError('P2025'), 'User', { id: 7 }))
+                .toMatchObject({ name: 'EntityNotFoundError', message: 'User not found (id = 7).' });
+            expect(toEntityError(prismaError('P2034'), 'User')).toBeInstanceOf(TransactionConflictError);
+        });
+
+        /**
+         * Test: should keep the original error as cause
+         */
+        it('should keep the original error as cause', () => {
+            const original = prismaError('P2025');
+
+            expect((toEntityError(original, 'User') as EntityNotFoundError).cause).toBe(original);
+        });
+
+        /**
+         * Test: should read the fields out of a unique index name
+         */
+        it('should read the fields out of a unique index name', () => {
+            expect(toEntityError(prismaError('P2002', { target: 'User_email_key' }), 'User'))
+                .toMatchObject({ fields: ['email'] });
+        });
+
+        /**
+         * Test: should map raw query driver errors
+         */
+        it('should map raw query driver errors', () => {
+            const postgres = prismaError('P2010', {
+                code: '23505',
+                message: 'duplicate key value violates unique constraint "User_email_key"\nDETAIL: Key (email)=(a@b.c) already exists.'
+            });
+            expect(toEntityError(postgres, 'User')).toMatchObject({ name: 'UniqueConstraintError', fields: ['email'] });
+
+            const sqlite = new Error('UNIQUE constraint failed: User.email, User.name');
+            expect(toEntityError(sqlite, 'User')).toMatchObject({ fields: ['email', 'name'] });
+
+            const mysql = Object.assign(new Error("Duplicate entry 'a@b.c' for key 'User.User_email_key'"), { errno: 1062 });
+            expect(toEntityError(mysql, 'User')).toMatchObject({ fields: ['email'] });
+
+            expect(toEntityError(prismaError('P2010', { code: '23503', message: 'violates foreign key constraint' }), 'Post'))
+                .toBeInstanceOf(ForeignKeyError);
+            expect(toEntityError(prismaError('P2010', { code: '40P01', message: 'deadlock detected' }), 'Post'))
+                .toBeInstanceOf(TransactionConflictError);
+        });
+
+        /**
+         * Test: should return unrecognized errors unchanged
+         */
+        it('should return unrecognized errors unchanged', () => {
+            const error = new Error('Connection refused');
+
+            expect(toEntityError(error, 'User')).toBe(error);
+        });
+    });
+
+    describe('strict mode', () => {
+        afterEach(() => {
+            resetPrismaConfiguration();
+        });
+
+        /**
+         * Test: should log by default and throw the typed error in strict mode
+         */
+        it('should log by default and throw the typed error in strict mode', () => {
+            const error = prismaError('P2003');
+
+            logOrThrow('deleteByFilter', error, 'User');
+            expect(consoleErrorSpy).toHaveBeenCalledWith(
+                'Error in deleteByFilter',
+                expect.objectContaining({ error: error.message })
+            );
+
+            configurePrisma(mockPrismaClient as any, { strictErrors: true });
+            expect(() => logOrThrow('deleteByFilter', error, 'User')).toThrow(ForeignKeyError);
+        });
+
+        /**
+         * Test: should report failed batches with their causes in strict mode
+         */
+        it('should report failed batches with their causes in strict mode', () => {
+            const errors = [{ index: 2, error: prismaError('P2002', { target: ['email'] }) }];
+
+            reportBatchFailures('createMany', 'User', errors, 10);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(
+                'Error in createMany - parallel batches',
+                expect.objectContaining({ model: 'User', error: '1 batches failed', succeeded: 10 })
+            );
+
+            configurePrisma(mockPrismaClient as any, { strictErrors: true });
+            let thrown: unknown;
+            try {
+                reportBatchFailures('createMany', 'User', errors, 10);
+            } catch (error) {
+                thrown = error;
+            }
+
+            expect(thrown).toBeInstanceOf(BatchPartialFailureError);
+            const failure = thrown as BatchPartialFailureError;
+            expect(failure.succeeded).toBe(10);
+            expect(failure.causes[0].batch).toBe(2);
+            expect(failure.causes[0].error).toBeInstanceOf(UniqueConstraintError);
+        });
+    });
 });
@@ -211,6 +211,18 @@ describe('Query Utilities', () => {
 
             expect(deduplicated).toHaveLength(2);
         });
+
+        it('should compare every field of a composite key', () => {
+            const results = [
+                { tenantId: 1, code: 'A', name: 'First' },
+                { tenantId: 2, code: 'A', name: 'Other tenant' },
+                { tenantId: 1, code: 'A', name: 'Duplicate' }
+            ];
+
+            const deduplicated = deduplicateResults(results, ['tenantId', 'code']);
+
+            expect(deduplicated.map(row => row.name)).toEqual(['First', 'Other tenant']);
+        });
     });
 
     describe('executeWithOrBatching', () => {
@@ -170,6 +170,25 @@ describe('upsert-utils', () => {
             expect(updatedAtCol?.isUpdatedAt).toBe(true);
         });
 
+        it('should read the primary key columns from a composite @@id', () => {
+            const modelInfo = {
+                ...makeModelInfo('user', 'users', [
+                    { name: 'tenantId', dbName: 'tenant_id', type: 'Int', hasDefaultValue: false },
+                    { name: 'code', type: 'String' },
+                    { name: 'email', type: 'String' },
+                ]),
+                primaryKey: { name: null, fields: ['tenantId', 'code'] },
+            };
+
+            clearUpsertMetadataCache();
+            const meta = getUpsertMetadata('user', modelInfo as any);
+            const sql = buildPostgreSQLUpsert(meta, [{ tenantId: 1, code: 'A', email: 'a@example.com' }], makeMockPrisma('postgresql'));
+
+            expect(meta.primaryKeyColumns.map(c => c.dbName)).toEqual(['tenant_id', 'code']);
+            expect(meta.primaryKeyColumns.every(c => c.isId && !c.hasDefault)).toBe(true);
+            expect(sql).toContain('RETURNING "tenant_id", "code"');
+        });
+
         it('should skip non-scalar fields', () => {
             const modelInfo = makeModelInfo('user', 'users', [
                 { name: 'id', type: 'Int', isId: true, hasDefaultValue: true },
@@ -610,6 +629,23 @@ describe('upsert-utils', () => {
                 expect(result.updated).toBe(2);
                 expect(result.unchanged).toBe(0);
             });
+
+            it('should return key objects for a composite primary key', () => {
+                const rawResult = [
+                    { tenant_id: 1, code: 'A', _was_inserted: true },
+                    { tenant_id: 2, code: 'A', _was_inserted: false },
+                ];
+
+                const result = parseUpsertResults('postgresql', rawResult, 2, undefined, [
+                    { prismaName: 'tenantId', dbName: 'tenant_id' },
+                    { prismaName: 'code', dbName: 'code' },
+                ]);
+
+                expect(result.returnedIds).toEqual([
+                    { id: { tenantId: 1, code: 'A' }, wasInserted: true },
+                    { id: { tenantId: 2, code: 'A' }, wasInserted: false },
+                ]);
+            });
         });
 
         describe('mysql', () => {
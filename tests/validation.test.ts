@@ -0,0 +1,178 @@
+/**
+ * Test suite for validation decorators
+ * Tests the rules, validate(), and the ValidationError raised by create/update/upsert and the batch writes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import BaseEntity from '../src/core/base-entity';
+import BaseEntityBatch from '../src/core/base-entity-batch';
+import { configurePrisma, resetPrismaConfiguration } from '../src/core/config';
+import {
+  Email,
+  MaxLength,
+  Max,
+  Min,
+  OneOf,
+  Pattern,
+  Property,
+  Required,
+  Validate
+} from '../src/core/decorators/property.decorator';
+import { ValidationError } from '../src/core/errors';
+import ModelUtils from '../src/core/model-utils';
+import { mockPrismaClient } from './__mocks__/prisma-client.mock';
+
+interface IUser {
+  id?: number;
+  name: string;
+  email: string;
+  age?: number;
+  role?: string;
+  code?: string;
+}
+
+class User extends BaseEntity<IUser> {
+  static override readonly model = mockPrismaClient.user;
+
+  @Required() @MaxLength(10) @Property() declare name: string;
+  @Required() @Email() @Property() declare email: string;
+  @Min(18) @Max(120) @Property() declare age?: number;
+  @OneOf(['admin', 'member']) @Property() declare role?: string;
+  @Pattern(/^[A-Z]{3}$/, 'code must be three capital letters') @Property() declare code?: string;
+}
+
+class Admin extends User {
+  @Validate(role => role === 'admin', 'an admin must have the admin role', 'adminRole')
+  @Property() declare role?: string;
+}
+
+function valid(overrides: Partial<IUser> = {}): Partial<IUser> {
+  return { name: 'John', email: 'john@example.com', ...overrides };
+}
+
+describe('Validation', () => {
+  beforeEach(() => {
+    configurePrisma(mockPrismaClient as any);
+    mockPrismaClient._reset();
+  });
+
+  afterEach(() => {
+    resetPrismaConfiguration();
+    jest.restoreAllMocks();
+  });
+
+  describe('validate', () => {
+    it('should return no issues for a valid entity', () => {
+      expect(new User(valid({ age: 30, role: 'admin', code: 'ABC' })).validate()).toEqual([]);
+    });
+
+    it('should list every broken rule', () => {
+      const user = new User({ name: 'A very long name', email: 'nope', age: 12, role: 'guest', code: 'abc' });
+
+      expect(user.validate()).toEqual([
+        { field: 'name', rule: 'maxLength', message: 'name must be at most 10 characters long' },
+        { field: 'email', rule: 'email', message: 'email must be a valid email address' },
+        { field: 'age', rule: 'min', message: 'age must be at least 18' },
+        { field: 'role', rule: 'oneOf', message: 'role must be one of admin, member' },
+        { field: 'code', rule: 'pattern', message: 'code must be three capital letters' }
+      ]);
+    });
+
+    it('should only check a missing or blank value with @Required()', () => {
+      expect(new User({ name: '  ' }).validate()).toEqual([
+        { field: 'name', rule: 'required', message: 'name is required' },
+        { field: 'email', rule: 'required', message: 'email is required' }
+      ]);
+    });
+
+    it('should add the rules of a subclass to the inherited ones', () => {
+      expect(new Admin(valid({ role: 'member' })).validate()).toEqual([
+        { field: 'role', rule: 'adminRole', message: 'an admin must have the admin role' }
+      ]);
+      expect(new User(valid({ role: 'member' })).validate()).toEqual([]);
+    });
+
+    it('should hand the other values to a custom predicate', () => {
+      class Range extends BaseEntity<{ from: number; to: number }> {
+        static override readonly model = mockPrismaClient.user;
+
+        @Property() declare from: number;
+        @Validate((to, values) => (to as number) > (values.from as number), 'to must be after from')
+        @Property() declare to: number;
+      }
+
+      expect(new Range({ from: 5, to: 1 }).validate()).toEqual([
+        { field: 'to', rule: 'custom', message: 'to must be after from' }
+      ]);
+    });
+  });
+
+  describe('single writes', () => {
+    it('should refuse to create an invalid entity', async () => {
+      const error = await new User({ name: '', email: 'nope' }).create().catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues.map((issue: any) => issue.rule)).toEqual(['required', 'email']);
+      expect(error.message).toBe('Invalid user data: name is required; email must be a valid email address');
+      expect(mockPrismaClient.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should only check the fields update() sends', async () => {
+      const user = new User({ id: 1, name: 'John', email: 'legacy' });
+      user.markClean();
+      user.name = 'Jane';
+
+      await user.update();
+      expect(mockPrismaClient.user.update).toHaveBeenCalled();
+
+      user.age = 5;
+      await expect(user.update()).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse to upsert invalid data', async () => {
+      jest.spyOn(ModelUtils, 'getUniqueConstraints').mockReturnValue([['email']]);
+
+      await expect(User.upsert({ name: 'John', email: 'nope' })).rejects.toThrow(ValidationError);
+      expect(mockPrismaClient.user.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('batch writes', () => {
+    const items = [valid(), { name: 'Bad', email: 'nope' }, valid({ age: 3 })];
+
+    it('should fail createMany with the issues of every item', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'createMany').mockResolvedValue(0);
+
+      const error = await User.createMany(items).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toEqual([
+        { field: 'email', rule: 'email', message: 'email must be a valid email address', index: 1 },
+        { field: 'age', rule: 'min', message: 'age must be at least 18', index: 2 }
+      ]);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should write the valid items and report the others with skipInvalid', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'createMany').mockResolvedValue(1);
+      const onInvalid = jest.fn<(error: ValidationError) => void>();
+
+      const count = await User.createMany(items, { skipInvalid: true, onInvalid });
+
+      expect(count).toBe(1);
+      expect(spy.mock.calls[0][2]).toEqual([valid()]);
+      expect(onInvalid).toHaveBeenCalledTimes(1);
+      expect((onInvalid.mock.calls[0][0] as ValidationError).issues.map(issue => issue.index)).toEqual([1, 2]);
+    });
+
+    it('should validate upsertMany items the same way', async () => {
+      const spy = jest.spyOn(BaseEntityBatch, 'upsertMany').mockResolvedValue({} as any);
+
+      await expect(User.upsertMany(items)).rejects.toThrow(ValidationError);
+      expect(spy).not.toHaveBeenCalled();
+
+      await User.upsertMany(items, { skipInvalid: true });
+      expect(spy.mock.calls[0][3]).toEqual([valid()]);
+    });
+  });
+});